@@ -30,7 +30,7 @@ type HooksConfig = Record<string, HookMatcher[]>;
 type PetriflowAgentOptions = Omit<GateManagerOptions, "mode"> & {
   mode?: GateManagerOptions["mode"];
   /** Called for manual transitions. If not provided, manual transitions are blocked. */
-  confirm?: (title: string, message: string) => Promise<boolean>;
+  confirm?: GateContext["confirm"];
 };
 
 export type PetriflowAgentGate = {
@@ -62,6 +62,9 @@ export function createPetriflowGate(
   const managerOpts: GateManagerOptions = {
     mode: opts?.mode ?? "enforce",
     onDecision: opts?.onDecision,
+    audit: opts?.audit,
+    approvals: opts?.approvals,
+    events: opts?.events,
   };
 
   const manager = createGateManager(input, managerOpts);
@@ -84,7 +87,7 @@ export function createPetriflowGate(
     );
 
     if (decision?.block) {
-      const netName = findBlockingNet(manager, toolName);
+      const netName = findBlockingNet(manager, toolName, toolInput);
       return {
         hookSpecificOutput: {
           hookEventName: "PreToolUse",
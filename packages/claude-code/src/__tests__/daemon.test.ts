@@ -0,0 +1,282 @@
+import { describe, expect, it, afterEach, mock } from "bun:test";
+import { createGateManager, defineSkillNet } from "@petriflow/gate";
+import { createDaemon } from "../daemon.js";
+import type { PetriflowDaemon } from "../daemon.js";
+import { sendToDaemon } from "../client.js";
+import type { HookEvent } from "../events.js";
+import { clearState, restoreState, saveState, withStateLock } from "../state.js";
+import { createServer } from "node:net";
+import { mkdirSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+
+const SOCKET = `/tmp/petriflow-test-${process.pid}.sock`;
+const SESSION = "test-daemon-" + process.pid;
+
+let daemon: PetriflowDaemon | undefined;
+afterEach(async () => {
+  await daemon?.close();
+  daemon = undefined;
+  clearState(SESSION);
+  clearState(SESSION + "-b");
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Two writes, then backup (deferred) before any more
+const budgetNet = defineSkillNet({
+  name: "budget",
+  places: ["writes", "ready", "backedUp"],
+  terminalPlaces: [],
+  freeTools: ["Read"],
+  initialMarking: { writes: 2, ready: 1, backedUp: 0 },
+  transitions: [
+    { name: "write", type: "auto" as const, inputs: ["writes"], outputs: [], tools: ["Write"] },
+    { name: "backup", type: "auto" as const, inputs: ["ready"], outputs: ["backedUp"], tools: ["Backup"], deferred: true },
+    { name: "destroy", type: "auto" as const, inputs: ["backedUp"], outputs: ["ready"], tools: ["Destroy"] },
+  ],
+});
+
+function start(loadConfig = mock((_cwd: string) => ({ nets: [budgetNet], mode: "enforce" as const }))) {
+  daemon = createDaemon({ socketPath: SOCKET, loadConfig });
+  return { daemon, loadConfig };
+}
+
+let nextId = 0;
+const common = (session = SESSION) => ({ session_id: session, transcript_path: "", cwd: "/project", permission_mode: "default" });
+
+const pre = (tool: string, session?: string): HookEvent => ({
+  ...common(session),
+  hook_event_name: "PreToolUse",
+  tool_name: tool,
+  tool_input: {},
+  tool_use_id: `tu-${++nextId}`,
+});
+
+const post = (call: HookEvent, failed = false): HookEvent => ({
+  ...(call as Extract<HookEvent, { hook_event_name: "PreToolUse" }>),
+  ...(failed
+    ? { hook_event_name: "PostToolUseFailure" as const, error: "failed" }
+    : { hook_event_name: "PostToolUse" as const, tool_response: {} }),
+});
+
+const denied = (reply: { stdout?: string } | undefined) => reply?.stdout?.includes('"permissionDecision":"deny"') ?? false;
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+describe("createDaemon", () => {
+  it("loads each project's config once while it is unchanged", async () => {
+    const { daemon, loadConfig } = start();
+
+    expect(denied(await daemon.handle(pre("Write")))).toBe(false);
+    expect(denied(await daemon.handle(pre("Write")))).toBe(false);
+    expect(denied(await daemon.handle(pre("Write")))).toBe(true);
+
+    expect(loadConfig).toHaveBeenCalledTimes(1);
+    expect(loadConfig).toHaveBeenCalledWith("/project");
+  });
+
+  it("loses no updates when tool calls run in parallel", async () => {
+    const { daemon } = start();
+    const replies = await Promise.all([pre("Write"), pre("Write"), pre("Write"), pre("Write")].map(daemon.handle));
+    expect(replies.map(denied)).toEqual([false, false, true, true]);
+  });
+
+  it("resolves deferred transitions from results", async () => {
+    const { daemon } = start();
+    const backup = pre("Backup");
+
+    await daemon.handle(backup);
+    expect(denied(await daemon.handle(pre("Destroy")))).toBe(true);
+    await daemon.handle(post(backup));
+    expect(denied(await daemon.handle(pre("Destroy")))).toBe(false);
+  });
+
+  it("keeps sessions apart", async () => {
+    const { daemon } = start();
+    await daemon.handle(pre("Write"));
+    await daemon.handle(pre("Write"));
+
+    expect(denied(await daemon.handle(pre("Write", SESSION + "-b")))).toBe(false);
+  });
+
+  it("writes state through so file mode can take over", async () => {
+    const { daemon } = start();
+    await daemon.handle(pre("Write"));
+
+    const manager = createGateManager([budgetNet], { mode: "enforce" });
+    restoreState(SESSION, manager);
+    expect(manager.getActiveNets()[0]!.state.marking.writes).toBe(1);
+  });
+
+  it("sees what file-mode hooks wrote between its events", async () => {
+    const { daemon } = start();
+    expect(denied(await daemon.handle(pre("Write")))).toBe(false);
+
+    // A hook that could not reach the daemon spends the last write
+    await withStateLock(SESSION, async () => {
+      const manager = createGateManager([budgetNet], { mode: "enforce" });
+      restoreState(SESSION, manager);
+      await manager.handleToolCall(
+        { toolCallId: "tc-1", toolName: "Write", input: {} },
+        { hasUI: false, confirm: async () => false },
+      );
+      saveState(SESSION, manager);
+    });
+
+    expect(denied(await daemon.handle(pre("Write")))).toBe(true);
+  });
+
+  it("starts afresh when the state file is gone", async () => {
+    const { daemon } = start();
+    await daemon.handle(pre("Write"));
+    await daemon.handle(pre("Write"));
+
+    clearState(SESSION);
+    expect(denied(await daemon.handle(pre("Write")))).toBe(false);
+  });
+
+  it("reloads a project's config when it or a module it imports changes", async () => {
+    const project = `${import.meta.dir}/.project-${process.pid}`;
+    mkdirSync(`${project}/.claude`, { recursive: true });
+    const edit = (file: string, content: string, age: number) => {
+      writeFileSync(`${project}/.claude/${file}`, content);
+      const time = new Date(Date.now() - age);
+      utimesSync(`${project}/.claude/${file}`, time, time);
+    };
+    const config = (mode: string) => `
+      import { defineSkillNet } from "@petriflow/gate";
+      import { writes } from "./limits.ts";
+      export default {
+        mode: "${mode}",
+        nets: [defineSkillNet({
+          name: "writes",
+          places: ["writes"],
+          terminalPlaces: [],
+          freeTools: [],
+          initialMarking: { writes },
+          transitions: [{ name: "write", type: "auto", inputs: ["writes"], outputs: [], tools: ["Write"] }],
+        })],
+      };
+    `;
+
+    try {
+      edit("limits.ts", "export const writes = 1;", 60_000);
+      edit("petriflow.config.ts", config("enforce"), 60_000);
+      daemon = createDaemon({ socketPath: SOCKET });
+      const write = () => daemon!.handle({ ...pre("Write"), cwd: project });
+
+      expect(denied(await write())).toBe(false);
+      expect(denied(await write())).toBe(true);
+
+      // A changed net starts afresh with the new limit
+      edit("limits.ts", "export const writes = 2;", 30_000);
+      const reloaded = await write();
+      expect(denied(reloaded)).toBe(false);
+      expect(reloaded.logs[0]).toBe("writes: rules changed since the state was saved — starting afresh");
+      expect(denied(await write())).toBe(false);
+      expect(denied(await write())).toBe(true);
+
+      edit("petriflow.config.ts", config("shadow"), 0);
+      expect(denied(await write())).toBe(false);
+    } finally {
+      rmSync(project, { recursive: true, force: true });
+    }
+  });
+
+  it("starts afresh on SessionStart", async () => {
+    const { daemon } = start();
+    await daemon.handle(pre("Write"));
+    await daemon.handle(pre("Write"));
+
+    await daemon.handle({ ...common(), hook_event_name: "SessionStart", source: "clear", model: "" });
+    expect(denied(await daemon.handle(pre("Write")))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Socket
+// ---------------------------------------------------------------------------
+
+describe("sendToDaemon", () => {
+  it("returns undefined when no daemon listens, for the hook to fall back", async () => {
+    expect(await sendToDaemon(pre("Write"), SOCKET)).toBeUndefined();
+  });
+
+  it("gives up on a daemon that doesn't answer, for the hook to fall back", async () => {
+    const silent = createServer(() => {});
+    await new Promise<void>((resolve) => silent.listen(SOCKET, resolve));
+    try {
+      await expect(sendToDaemon(pre("Write"), SOCKET, 50)).rejects.toThrow("did not answer within 50ms");
+    } finally {
+      silent.close();
+    }
+  });
+
+  it("round-trips events through the socket", async () => {
+    const { daemon } = start();
+    await daemon.listen();
+
+    const replies = await Promise.all([pre("Write"), pre("Write"), pre("Write")].map((e) => sendToDaemon(e, SOCKET)));
+    expect(replies.map(denied)).toEqual([false, false, true]);
+    expect(replies[2]!.logs[0]).toStartWith("Write → BLOCKED (denied)");
+  });
+
+  it("reports failures as errors", async () => {
+    const { daemon } = start(
+      mock(() => {
+        throw new Error("bad config");
+      }),
+    );
+    await daemon.listen();
+
+    expect((await sendToDaemon(pre("Write"), SOCKET))?.error).toContain("bad config");
+  });
+
+  it("replaces a stale socket but refuses to start twice", async () => {
+    const { daemon } = start();
+    await daemon.listen();
+    await expect(createDaemon({ socketPath: SOCKET }).listen()).rejects.toThrow("already listens");
+
+    // Simulate a daemon that died without cleaning up
+    await daemon.close();
+    await Bun.write(SOCKET, "");
+    const again = start();
+    await again.daemon.listen();
+    expect(await sendToDaemon(pre("Read"), SOCKET)).toBeDefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+describe("hook", () => {
+  it("falls back to file mode when the daemon reports an error", async () => {
+    const { daemon } = start(
+      mock(() => {
+        throw new Error("bad config");
+      }),
+    );
+    await daemon.listen();
+
+    // No project config: file mode gates with the default safe-coding net
+    const hook = Bun.spawn([process.execPath, `${import.meta.dir}/../hook.ts`], {
+      stdin: new TextEncoder().encode(JSON.stringify(pre("Bash"))),
+      stdout: "pipe",
+      stderr: "pipe",
+      env: { ...process.env, PETRIFLOW_SOCKET: SOCKET },
+    });
+    const [stdout, stderr, code] = await Promise.all([
+      new Response(hook.stdout).text(),
+      new Response(hook.stderr).text(),
+      hook.exited,
+    ]);
+
+    expect(code).toBe(0);
+    expect(stderr).toContain("daemon failed (Error: bad config) — using file mode");
+    expect(denied({ stdout })).toBe(true);
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, expect, it, beforeEach, afterEach } from "bun:test";
-import { existsSync, readFileSync } from "node:fs";
+import { existsSync, readFileSync, readdirSync, rmSync, utimesSync, writeFileSync } from "node:fs";
 import { createGateManager, defineSkillNet } from "@petriflow/gate";
-import { saveState, restoreState, clearState } from "../state.js";
+import { saveState, restoreState, clearState, withStateLock } from "../state.js";
 import { safeCodingNet } from "../nets/safe-coding.js";
 
 const TEST_SESSION = "test-hook-" + process.pid;
@@ -90,6 +90,51 @@ describe("state persistence", () => {
     expect(pending2.get("tc-1")!.transition.name).toBe("backup");
   });
 
+  it("restoreState starts afresh from a state file written before snapshots were versioned", async () => {
+    const manager = createGateManager([deferredNet], { mode: "enforce" });
+    await manager.handleToolCall(
+      { toolCallId: "tc-1", toolName: "Backup", input: {} },
+      { hasUI: false, confirm: async () => false },
+    );
+    manager.handleToolResult({ toolCallId: "tc-1", toolName: "Backup", input: {}, isError: false });
+
+    // The old format: markings per net, no version or fingerprints
+    const { nets } = manager.snapshot();
+    writeFileSync(
+      `/tmp/petriflow-claude-code-${TEST_SESSION}.json`,
+      JSON.stringify({ nets: { "deferred-test": { marking: nets["deferred-test"]!.marking, pending: [], meta: {} } } }),
+    );
+
+    const logs: string[] = [];
+    const fresh = createGateManager([deferredNet], { mode: "enforce" });
+    restoreState(TEST_SESSION, fresh, (message) => logs.push(message));
+
+    expect(fresh.getActiveNets()[0]!.state.marking).toEqual({ idle: 0, ready: 1, backedUp: 0 });
+    expect(logs).toEqual([expect.stringContaining("Unsupported gate snapshot version undefined")]);
+    expect(logs[0]).toEndWith("starting afresh");
+  });
+
+  it("restoreState starts afresh from an unknown snapshot version or unreadable file", () => {
+    const path = `/tmp/petriflow-claude-code-${TEST_SESSION}.json`;
+    for (const content of [JSON.stringify({ version: 99, active: [], nets: {} }), '{"nets": {']) {
+      writeFileSync(path, content);
+      const logs: string[] = [];
+      const manager = createGateManager([safeCodingNet], { mode: "enforce" });
+      expect(() => restoreState(TEST_SESSION, manager, (message) => logs.push(message))).not.toThrow();
+      expect(manager.getActiveNets()[0]!.state.marking).toEqual({ idle: 0, ready: 1, locked: 0 });
+      expect(logs).toHaveLength(1);
+    }
+  });
+
+  it("restoreState logs nets reset because their rules changed", () => {
+    saveState(TEST_SESSION, createGateManager([deferredNet], { mode: "enforce" }));
+
+    const changed = defineSkillNet({ ...deferredNet, freeTools: ["Read", "Glob"] });
+    const logs: string[] = [];
+    restoreState(TEST_SESSION, createGateManager([changed], { mode: "enforce" }), (message) => logs.push(message));
+    expect(logs).toEqual(["deferred-test: rules changed since the state was saved — starting afresh"]);
+  });
+
   it("restoreState is no-op when no state file exists", () => {
     const manager = createGateManager([safeCodingNet], { mode: "enforce" });
     const markingBefore = { ...manager.getActiveNets()[0]!.state.marking };
@@ -129,6 +174,102 @@ describe("state persistence", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Concurrent hooks
+// ---------------------------------------------------------------------------
+
+describe("state locking", () => {
+  const lockPath = `/tmp/petriflow-claude-code-${TEST_SESSION}.json.lock`;
+
+  it("withStateLock serializes read-modify-write cycles", async () => {
+    // Each cycle consumes a token, yielding mid-way as a hook process would
+    const net = defineSkillNet({
+      name: "tokens",
+      places: ["tokens"],
+      terminalPlaces: [],
+      freeTools: [],
+      initialMarking: { tokens: 10 },
+      transitions: [{ name: "spend", type: "auto" as const, inputs: ["tokens"], outputs: [], tools: ["Spend"] }],
+    });
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        withStateLock(TEST_SESSION, async () => {
+          const manager = createGateManager([net], { mode: "enforce" });
+          restoreState(TEST_SESSION, manager);
+          await Bun.sleep(1);
+          await manager.handleToolCall(
+            { toolCallId: `tc-${i}`, toolName: "Spend", input: {} },
+            { hasUI: false, confirm: async () => false },
+          );
+          saveState(TEST_SESSION, manager);
+        }),
+      ),
+    );
+
+    const manager = createGateManager([net], { mode: "enforce" });
+    restoreState(TEST_SESSION, manager);
+    expect(manager.getActiveNets()[0]!.state.marking.tokens).toBe(0);
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it("releases the lock when the callback throws", async () => {
+    await expect(withStateLock(TEST_SESSION, () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it("breaks a stale lock left by a dead hook", async () => {
+    writeFileSync(lockPath, "");
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, old, old);
+
+    expect(await withStateLock(TEST_SESSION, () => "ran")).toBe("ran");
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it("lets only one of two hook processes break a stale lock", async () => {
+    writeFileSync(lockPath, "dead-hook");
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(lockPath, old, old);
+
+    // Two hooks, each in its own process, find the same stale lock
+    const trace = `/tmp/petriflow-claude-code-${TEST_SESSION}.trace`;
+    const script = `
+      import { appendFileSync } from "node:fs";
+      import { withStateLock } from ${JSON.stringify(`${import.meta.dir}/../state.ts`)};
+      await withStateLock(${JSON.stringify(TEST_SESSION)}, async () => {
+        appendFileSync(${JSON.stringify(trace)}, "enter\\n");
+        await Bun.sleep(50);
+        appendFileSync(${JSON.stringify(trace)}, "exit\\n");
+      });
+    `;
+    try {
+      const hooks = [1, 2].map(() => Bun.spawn([process.execPath, "-e", script], { stderr: "inherit" }));
+      expect(await Promise.all(hooks.map((hook) => hook.exited))).toEqual([0, 0]);
+      expect(readFileSync(trace, "utf-8")).toBe("enter\nexit\nenter\nexit\n");
+      expect(existsSync(lockPath)).toBe(false);
+    } finally {
+      rmSync(trace, { force: true });
+    }
+  });
+
+  it("leaves a lock alone that another hook took after breaking it", async () => {
+    await withStateLock(TEST_SESSION, () => {
+      // This hook's lock was broken as stale and another hook took it
+      writeFileSync(lockPath, "other-hook");
+    });
+    expect(readFileSync(lockPath, "utf-8")).toBe("other-hook");
+    rmSync(lockPath);
+  });
+
+  it("saveState leaves no temporary files", () => {
+    saveState(TEST_SESSION, createGateManager([safeCodingNet], { mode: "enforce" }));
+    expect(readdirSync("/tmp").filter((f) => f.startsWith(`petriflow-claude-code-${TEST_SESSION}`))).toEqual([
+      `petriflow-claude-code-${TEST_SESSION}.json`,
+    ]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // PreToolUse gating (via GateManager directly, simulating hook logic)
 // ---------------------------------------------------------------------------
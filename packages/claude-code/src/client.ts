@@ -0,0 +1,51 @@
+import { connect } from "node:net";
+import type { HookEvent } from "./events.js";
+import type { DaemonReply } from "./daemon.js";
+
+/** The daemon's socket: `PETRIFLOW_SOCKET`, or one per user in /tmp */
+export function defaultSocketPath(): string {
+  return process.env.PETRIFLOW_SOCKET ?? `/tmp/petriflow-claude-code-${process.getuid?.() ?? "user"}.sock`;
+}
+
+/**
+ * How long the daemon may take to answer. It normally answers in
+ * milliseconds; this leaves room for a wait on the session's state lock.
+ */
+const REPLY_TIMEOUT_MS = 10_000;
+
+/**
+ * Hand a hook event to the daemon. Resolves to `undefined` when no daemon
+ * listens, and rejects when the daemon fails or doesn't answer within
+ * `timeoutMs` — either way the hook handles the event itself.
+ */
+export function sendToDaemon(
+  event: HookEvent,
+  socketPath: string = defaultSocketPath(),
+  timeoutMs: number = REPLY_TIMEOUT_MS,
+): Promise<DaemonReply | undefined> {
+  return new Promise((resolve, reject) => {
+    let sent = false;
+    let data = "";
+    const socket = connect(socketPath);
+    socket.setEncoding("utf-8");
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy(new Error(`petriflow daemon did not answer within ${timeoutMs}ms`));
+    });
+
+    socket.on("connect", () => {
+      sent = true;
+      socket.write(JSON.stringify(event) + "\n");
+    });
+    socket.on("data", (chunk: string) => {
+      data += chunk;
+    });
+    socket.on("end", () => {
+      try {
+        resolve(JSON.parse(data) as DaemonReply);
+      } catch {
+        reject(new Error(`Invalid reply from petriflow daemon: ${data.slice(0, 200)}`));
+      }
+    });
+    socket.on("error", (err) => (sent ? reject(err) : resolve(undefined)));
+  });
+}
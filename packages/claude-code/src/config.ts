@@ -0,0 +1,62 @@
+import type { SkillNet } from "@petriflow/gate";
+import { safeCodingNet } from "./nets/safe-coding.js";
+import { existsSync, statSync } from "node:fs";
+import { resolve } from "node:path";
+
+// ---------------------------------------------------------------------------
+// Config loading
+// ---------------------------------------------------------------------------
+
+export type PetriflowConfig = {
+  nets: SkillNet<string>[];
+  mode: "enforce" | "shadow";
+};
+
+/** Config path → the modules loading it pulled in, the config itself included */
+const loadedModules = new Map<string, string[]>();
+
+function configPath(cwd: string): string {
+  return resolve(cwd, ".claude", "petriflow.config.ts");
+}
+
+/** Load `.claude/petriflow.config.ts` from a project, or the default `safe-coding` net. */
+export function loadConfig(cwd: string = process.cwd()): PetriflowConfig {
+  const path = configPath(cwd);
+
+  if (existsSync(path)) {
+    // Forget an earlier load, so edits to the config and the rules it imports take effect
+    for (const file of loadedModules.get(path) ?? []) delete require.cache[file];
+    const before = new Set(Object.keys(require.cache));
+
+    // Dynamic import for user config — require is sync and works with bun
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const mod = require(path);
+    loadedModules.set(
+      path,
+      Object.keys(require.cache).filter((file) => !before.has(file) && !file.includes("/node_modules/")),
+    );
+    const config = mod.default ?? mod;
+    return config as PetriflowConfig;
+  }
+
+  return { nets: [safeCodingNet], mode: "enforce" };
+}
+
+/**
+ * Modification times of a project's config and the modules it imported
+ * when last loaded. Changes when any of them is edited, created or
+ * deleted — a long-lived process reloads the config then.
+ */
+export function configStamp(cwd: string = process.cwd()): string {
+  const path = configPath(cwd);
+  const files = new Set([path, ...(loadedModules.get(path) ?? [])]);
+  return [...files]
+    .map((file) => {
+      try {
+        return statSync(file).mtimeMs;
+      } catch {
+        return "-";
+      }
+    })
+    .join(",");
+}
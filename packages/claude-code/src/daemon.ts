@@ -0,0 +1,160 @@
+#!/usr/bin/env bun
+
+import { configStamp, loadConfig as loadProjectConfig } from "./config.js";
+import type { PetriflowConfig } from "./config.js";
+import { handleHookEvent } from "./events.js";
+import type { HookEvent, HookResponse } from "./events.js";
+import { defaultSocketPath } from "./client.js";
+import { connect, createServer } from "node:net";
+import type { Server } from "node:net";
+import { existsSync, unlinkSync } from "node:fs";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The daemon's answer to one event: what the hook prints, or why it failed */
+export type DaemonReply = HookResponse & { error?: string };
+
+export type DaemonOptions = {
+  /** Unix socket to listen on. Defaults to `PETRIFLOW_SOCKET`, or one per user in /tmp. */
+  socketPath?: string;
+  /** Load a project's config. Called for a new project, and again when its config changes. */
+  loadConfig?: (cwd: string) => PetriflowConfig;
+};
+
+export type PetriflowDaemon = {
+  socketPath: string;
+  /** Start listening. Rejects if another daemon already listens on the socket. */
+  listen: () => Promise<void>;
+  close: () => Promise<void>;
+  /** Handle one event, as if it came in over the socket */
+  handle: (event: HookEvent) => Promise<HookResponse>;
+};
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * A long-lived process for the hook: configs stay loaded per project —
+ * reloaded when the config or a module it imports changes — so hooks no
+ * longer spawn a process and rebuild the gate per event. Events of one
+ * session run one after another. Each reads the session's state file
+ * under its lock before deciding and writes it back, so the daemon and
+ * file-mode hooks can take turns on a session without drifting apart.
+ */
+export function createDaemon(opts?: DaemonOptions): PetriflowDaemon {
+  const socketPath = opts?.socketPath ?? defaultSocketPath();
+  const load = opts?.loadConfig ?? loadProjectConfig;
+
+  const configs = new Map<string, { config: PetriflowConfig; stamp: string }>(); // cwd → config
+  const queues = new Map<string, Promise<void>>(); // session → tail of its event queue
+
+  /** Run a session's tasks one at a time, in arrival order */
+  function serialize<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const run = (queues.get(sessionId) ?? Promise.resolve()).then(task);
+    const tail = run.then(
+      () => {},
+      () => {},
+    );
+    queues.set(sessionId, tail);
+    void tail.then(() => {
+      if (queues.get(sessionId) === tail) queues.delete(sessionId);
+    });
+    return run;
+  }
+
+  function configFor(cwd: string): PetriflowConfig {
+    const cached = configs.get(cwd);
+    if (cached && cached.stamp === configStamp(cwd)) return cached.config;
+    const config = load(cwd);
+    configs.set(cwd, { config, stamp: configStamp(cwd) });
+    return config;
+  }
+
+  const handle = (event: HookEvent): Promise<HookResponse> =>
+    serialize(event.session_id, () => handleHookEvent(event, () => configFor(event.cwd)));
+
+  let server: Server | undefined;
+
+  return {
+    socketPath,
+    handle,
+
+    async listen() {
+      if (existsSync(socketPath)) {
+        // A socket nobody answers on was left by a daemon that died
+        if (await isListening(socketPath)) throw new Error(`A petriflow daemon already listens on ${socketPath}`);
+        unlinkSync(socketPath);
+      }
+
+      server = createServer((socket) => {
+        let data = "";
+        socket.setEncoding("utf-8");
+        socket.on("data", (chunk: string) => {
+          data += chunk;
+          const newline = data.indexOf("\n");
+          if (newline === -1) return;
+          socket.removeAllListeners("data");
+
+          let reply: Promise<DaemonReply>;
+          try {
+            reply = handle(JSON.parse(data.slice(0, newline)) as HookEvent);
+          } catch (err) {
+            reply = Promise.reject(err);
+          }
+          reply.then(
+            (response) => socket.end(JSON.stringify(response)),
+            (err) => socket.end(JSON.stringify({ logs: [], error: String(err) } satisfies DaemonReply)),
+          );
+        });
+        socket.on("error", () => socket.destroy());
+      });
+
+      const listening = server;
+      await new Promise<void>((resolve, reject) => {
+        listening.once("error", reject);
+        listening.listen(socketPath, () => {
+          listening.off("error", reject);
+          resolve();
+        });
+      });
+    },
+
+    async close() {
+      const listening = server;
+      server = undefined;
+      if (!listening) return;
+      await new Promise<void>((resolve) => listening.close(() => resolve()));
+      if (existsSync(socketPath)) unlinkSync(socketPath);
+    },
+  };
+}
+
+function isListening(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = connect(socketPath);
+    socket.on("connect", () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.on("error", () => resolve(false));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+if (import.meta.main) {
+  const daemon = createDaemon();
+  await daemon.listen();
+  process.stderr.write(`[petriflow] daemon listening on ${daemon.socketPath}\n`);
+
+  const stop = () => {
+    void daemon.close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
@@ -0,0 +1,143 @@
+import { createGateManager, findBlockingNet } from "@petriflow/gate";
+import type { GateManager } from "@petriflow/gate";
+import type { PetriflowConfig } from "./config.js";
+import { saveState, restoreState, clearState, withStateLock } from "./state.js";
+
+// ---------------------------------------------------------------------------
+// Claude Code hook event types (matches actual stdin JSON schema)
+// ---------------------------------------------------------------------------
+
+type CommonFields = {
+  session_id: string;
+  transcript_path: string;
+  cwd: string;
+  permission_mode: string;
+  hook_event_name: string;
+};
+
+export type SessionStartEvent = CommonFields & {
+  hook_event_name: "SessionStart";
+  source: string; // "startup" | "resume" | "clear" | "compact"
+  model: string;
+};
+
+export type PreToolUseEvent = CommonFields & {
+  hook_event_name: "PreToolUse";
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_use_id: string;
+};
+
+export type PostToolUseEvent = CommonFields & {
+  hook_event_name: "PostToolUse";
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_use_id: string;
+  tool_response: Record<string, unknown>;
+};
+
+export type PostToolUseFailureEvent = CommonFields & {
+  hook_event_name: "PostToolUseFailure";
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_use_id: string;
+  error: string;
+  is_interrupt?: boolean;
+};
+
+export type ToolEvent = PreToolUseEvent | PostToolUseEvent | PostToolUseFailureEvent;
+
+export type HookEvent = SessionStartEvent | ToolEvent;
+
+/** What a hook invocation prints, whether it ran in process or in the daemon */
+export type HookResponse = {
+  /** JSON for Claude Code on stdout */
+  stdout?: string;
+  /** Lines for stderr */
+  logs: string[];
+};
+
+// ---------------------------------------------------------------------------
+// Tool events
+// ---------------------------------------------------------------------------
+
+/** Gate a tool call or report its result to a manager holding the session's state. */
+export async function handleToolEvent(
+  event: ToolEvent,
+  manager: GateManager,
+  mode: PetriflowConfig["mode"],
+): Promise<HookResponse> {
+  if (event.hook_event_name === "PreToolUse") {
+    const decision = await manager.handleToolCall(
+      {
+        toolCallId: event.tool_use_id,
+        toolName: event.tool_name,
+        input: event.tool_input,
+      },
+      { hasUI: false, confirm: async () => false },
+    );
+
+    const status = manager.getActiveNets().map((n) => `${n.name}: ${Object.entries(n.state.marking).filter(([,v]) => v > 0).map(([k,v]) => `${k}=${v}`).join(",")}`).join(" | ");
+
+    if (decision?.block) {
+      const output = {
+        hookSpecificOutput: {
+          hookEventName: "PreToolUse",
+          permissionDecision: "deny",
+          permissionDecisionReason: `[${findBlockingNet(manager, event.tool_name, event.tool_input)}] ${decision.reason}`,
+        },
+      };
+      return {
+        stdout: JSON.stringify(output),
+        logs: [`${event.tool_name} → BLOCKED (${mode === "shadow" ? "shadow — allowing" : "denied"}) [${status}]`],
+      };
+    }
+    return { logs: [`${event.tool_name} → allow [${status}]`] };
+  }
+
+  const isError = event.hook_event_name === "PostToolUseFailure";
+  manager.handleToolResult({
+    toolCallId: event.tool_use_id,
+    toolName: event.tool_name,
+    input: event.tool_input,
+    isError,
+  });
+  return { logs: [`${event.tool_name} result (${isError ? "error" : "ok"})`] };
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+/**
+ * Handle a hook event against the session's state file; `loadConfig` is
+ * only called for tool events. Tool events
+ * restore, update and save the state under the session's lock, so hooks
+ * running in parallel — in their own processes or in the daemon — see
+ * each other's updates.
+ */
+export async function handleHookEvent(event: HookEvent, loadConfig: () => PetriflowConfig): Promise<HookResponse> {
+  if (event.hook_event_name === "SessionStart") {
+    await withStateLock(event.session_id, () => clearState(event.session_id));
+    return { logs: ["session started — state cleared"] };
+  }
+
+  if (
+    event.hook_event_name !== "PreToolUse" &&
+    event.hook_event_name !== "PostToolUse" &&
+    event.hook_event_name !== "PostToolUseFailure"
+  ) {
+    // An event this hook doesn't handle, e.g. from a broader hooks config
+    return { logs: [] };
+  }
+
+  const config = loadConfig();
+  const manager = createGateManager(config.nets, { mode: config.mode });
+  return withStateLock(event.session_id, async () => {
+    const notes: string[] = [];
+    restoreState(event.session_id, manager, (message) => notes.push(message));
+    const response = await handleToolEvent(event, manager, config.mode);
+    saveState(event.session_id, manager);
+    return { ...response, logs: [...notes, ...response.logs] };
+  });
+}
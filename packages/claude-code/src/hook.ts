@@ -1,79 +1,10 @@
 #!/usr/bin/env bun
 
-import { createGateManager, findBlockingNet } from "@petriflow/gate";
-import type { SkillNet, GateManagerOptions } from "@petriflow/gate";
-import { saveState, restoreState, clearState } from "./state.js";
-import { safeCodingNet } from "./nets/safe-coding.js";
-import { existsSync } from "node:fs";
-import { resolve } from "node:path";
-
-// ---------------------------------------------------------------------------
-// Claude Code hook event types (matches actual stdin JSON schema)
-// ---------------------------------------------------------------------------
-
-type CommonFields = {
-  session_id: string;
-  transcript_path: string;
-  cwd: string;
-  permission_mode: string;
-  hook_event_name: string;
-};
-
-type SessionStartEvent = CommonFields & {
-  hook_event_name: "SessionStart";
-  source: string; // "startup" | "resume" | "clear" | "compact"
-  model: string;
-};
-
-type PreToolUseEvent = CommonFields & {
-  hook_event_name: "PreToolUse";
-  tool_name: string;
-  tool_input: Record<string, unknown>;
-  tool_use_id: string;
-};
-
-type PostToolUseEvent = CommonFields & {
-  hook_event_name: "PostToolUse";
-  tool_name: string;
-  tool_input: Record<string, unknown>;
-  tool_use_id: string;
-  tool_response: Record<string, unknown>;
-};
-
-type PostToolUseFailureEvent = CommonFields & {
-  hook_event_name: "PostToolUseFailure";
-  tool_name: string;
-  tool_input: Record<string, unknown>;
-  tool_use_id: string;
-  error: string;
-  is_interrupt?: boolean;
-};
-
-type HookEvent = SessionStartEvent | PreToolUseEvent | PostToolUseEvent | PostToolUseFailureEvent;
-
-// ---------------------------------------------------------------------------
-// Config loading
-// ---------------------------------------------------------------------------
-
-type PetriflowConfig = {
-  nets: SkillNet<string>[];
-  mode: "enforce" | "shadow";
-};
-
-function loadConfig(): PetriflowConfig {
-  const cwd = process.cwd();
-  const configPath = resolve(cwd, ".claude", "petriflow.config.ts");
-
-  if (existsSync(configPath)) {
-    // Dynamic import for user config — require is sync and works with bun
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const mod = require(configPath);
-    const config = mod.default ?? mod;
-    return config as PetriflowConfig;
-  }
-
-  return { nets: [safeCodingNet], mode: "enforce" };
-}
+import { loadConfig } from "./config.js";
+import { handleHookEvent } from "./events.js";
+import type { HookEvent } from "./events.js";
+import { sendToDaemon } from "./client.js";
+import type { DaemonReply } from "./daemon.js";
 
 // ---------------------------------------------------------------------------
 // Main
@@ -83,69 +14,30 @@ function log(msg: string): void {
   process.stderr.write(`[petriflow] ${msg}\n`);
 }
 
+/** The daemon's reply, or undefined when none listens or it failed */
+async function askDaemon(event: HookEvent): Promise<DaemonReply | undefined> {
+  try {
+    const reply = await sendToDaemon(event);
+    if (reply?.error) throw new Error(reply.error);
+    return reply;
+  } catch (err) {
+    log(`daemon failed (${err instanceof Error ? err.message : String(err)}) — using file mode`);
+    return undefined;
+  }
+}
+
 async function main(): Promise<void> {
   // Read entire stdin
   const input = await Bun.stdin.text();
   if (!input.trim()) return;
 
   const event: HookEvent = JSON.parse(input);
-  const config = loadConfig();
-
-  if (event.hook_event_name === "SessionStart") {
-    clearState(event.session_id);
-    log("session started — state cleared");
-    return;
-  }
-
-  const opts: GateManagerOptions = { mode: config.mode };
-  const manager = createGateManager(config.nets, opts);
 
-  // Restore state from previous invocation
-  restoreState(event.session_id, manager);
+  // Hand the event to the daemon; without one, or when it fails, fall back to file mode
+  const reply = (await askDaemon(event)) ?? (await handleHookEvent(event, () => loadConfig()));
 
-  if (event.hook_event_name === "PreToolUse") {
-    const decision = await manager.handleToolCall(
-      {
-        toolCallId: event.tool_use_id,
-        toolName: event.tool_name,
-        input: event.tool_input,
-      },
-      { hasUI: false, confirm: async () => false },
-    );
-
-    saveState(event.session_id, manager);
-
-    const status = manager.getActiveNets().map((n) => `${n.name}: ${Object.entries(n.state.marking).filter(([,v]) => v > 0).map(([k,v]) => `${k}=${v}`).join(",")}`).join(" | ");
-
-    if (decision?.block) {
-      log(`${event.tool_name} → BLOCKED (${config.mode === "shadow" ? "shadow — allowing" : "denied"}) [${status}]`);
-      const output = {
-        hookSpecificOutput: {
-          hookEventName: "PreToolUse",
-          permissionDecision: "deny",
-          permissionDecisionReason: `[${findBlockingNet(manager, event.tool_name)}] ${decision.reason}`,
-        },
-      };
-      process.stdout.write(JSON.stringify(output));
-    } else {
-      log(`${event.tool_name} → allow [${status}]`);
-    }
-    return;
-  }
-
-  if (event.hook_event_name === "PostToolUse" || event.hook_event_name === "PostToolUseFailure") {
-    const isError = event.hook_event_name === "PostToolUseFailure";
-    manager.handleToolResult({
-      toolCallId: event.tool_use_id,
-      toolName: event.tool_name,
-      input: event.tool_input,
-      isError,
-    });
-
-    saveState(event.session_id, manager);
-    log(`${event.tool_name} result (${isError ? "error" : "ok"})`);
-    return;
-  }
+  for (const line of reply.logs) log(line);
+  if (reply.stdout) process.stdout.write(reply.stdout);
 }
 
 main().catch((err) => {
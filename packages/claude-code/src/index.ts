@@ -3,6 +3,10 @@ import { resolve } from "node:path";
 // Re-export the default net
 export { safeCodingNet } from "./nets/safe-coding.js";
 
+// The hook daemon, for running it in-process
+export { createDaemon } from "./daemon.js";
+export type { DaemonOptions, PetriflowDaemon } from "./daemon.js";
+
 // Re-export gate essentials for user config files
 export { defineSkillNet, createGateManager } from "@petriflow/gate";
 export type { SkillNet, GateManagerOptions } from "@petriflow/gate";
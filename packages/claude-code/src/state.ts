@@ -1,89 +1,131 @@
-import { existsSync, readFileSync, writeFileSync, unlinkSync } from "node:fs";
-import type { GateManager } from "@petriflow/gate";
+import { randomUUID } from "node:crypto";
+import { existsSync, linkSync, readFileSync, renameSync, rmSync, statSync, writeFileSync, unlinkSync } from "node:fs";
+import type { GateManager, GateSnapshot, RestoreResult } from "@petriflow/gate";
 
-type PersistedPending = {
-  toolCallId: string;
-  transitionName: string;
-  resolvedTool: string;
-};
-
-type PersistedNetState = {
-  marking: Record<string, number>;
-  meta: Record<string, unknown>;
-  pending: PersistedPending[];
-};
-
-type PersistedState = {
-  nets: Record<string, PersistedNetState>;
-};
+/** How long to wait for another hook to release a session's state */
+const LOCK_TIMEOUT_MS = 5_000;
+/** A lock older than this was left behind by a hook that died holding it */
+const LOCK_STALE_MS = 30_000;
 
 function statePath(sessionId: string): string {
   return `/tmp/petriflow-claude-code-${sessionId}.json`;
 }
 
-/** Extract state from manager and write to disk. */
+/**
+ * Snapshot the manager and write it to disk. The file is replaced
+ * atomically, so a concurrent reader sees the old state or the new one,
+ * never a partial write.
+ */
 export function saveState(sessionId: string, manager: GateManager): void {
-  const persisted: PersistedState = { nets: {} };
-
-  for (const { name, state } of manager.getActiveNets()) {
-    const pendingArr: PersistedPending[] = [];
-    for (const [, entry] of state.pending) {
-      pendingArr.push({
-        toolCallId: entry.toolCallId,
-        transitionName: entry.transition.name,
-        resolvedTool: entry.resolvedTool,
-      });
-    }
-    persisted.nets[name] = {
-      marking: { ...state.marking },
-      meta: { ...state.meta },
-      pending: pendingArr,
-    };
-  }
-
-  writeFileSync(statePath(sessionId), JSON.stringify(persisted));
+  const path = statePath(sessionId);
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(manager.snapshot()));
+  renameSync(tmp, path);
 }
 
-/** Restore state from disk into an existing manager's active nets. */
-export function restoreState(sessionId: string, manager: GateManager): void {
+/**
+ * Restore a saved snapshot into an existing manager. Nets whose rules
+ * changed since the snapshot start afresh. A file the manager can't
+ * restore — unversioned, from another snapshot version, or unreadable —
+ * is ignored, leaving every net in its initial state; `log` hears about
+ * that and about each reset net.
+ */
+export function restoreState(sessionId: string, manager: GateManager, log?: (message: string) => void): void {
   const path = statePath(sessionId);
   if (!existsSync(path)) return;
 
-  const persisted: PersistedState = JSON.parse(readFileSync(path, "utf-8"));
+  let result: RestoreResult;
+  try {
+    const snapshot: GateSnapshot = JSON.parse(readFileSync(path, "utf-8"));
+    result = manager.restore(snapshot);
+  } catch (err) {
+    log?.(`state file ${path} not restored (${err instanceof Error ? err.message : String(err)}) — starting afresh`);
+    return;
+  }
+  for (const name of result.reset) log?.(`${name}: rules changed since the state was saved — starting afresh`);
+}
+
+/** Delete state file for a session. */
+export function clearState(sessionId: string): void {
+  const path = statePath(sessionId);
+  if (existsSync(path)) {
+    unlinkSync(path);
+  }
+}
 
-  for (const { name, net, state } of manager.getActiveNets()) {
-    const saved = persisted.nets[name];
-    if (!saved) continue;
+/**
+ * Run `fn` holding the session's state lock, so hooks of parallel tool
+ * calls restore, update and save one after another instead of losing
+ * each other's updates. The lock is a `.lock` file next to the state,
+ * holding a token unique to its owner.
+ */
+export async function withStateLock<T>(sessionId: string, fn: () => T | Promise<T>): Promise<T> {
+  const lock = `${statePath(sessionId)}.lock`;
+  const token = `${process.pid}:${randomUUID()}`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
 
-    // Restore marking — overwrite each place
-    for (const [place, tokens] of Object.entries(saved.marking)) {
-      (state.marking as Record<string, number>)[place] = tokens;
+  for (;;) {
+    try {
+      writeFileSync(lock, token, { flag: "wx" });
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      if (breakStaleLock(lock)) continue;
+      if (Date.now() > deadline) throw new Error(`Timed out waiting for state lock ${lock}`);
+      await Bun.sleep(10);
     }
+  }
 
-    // Restore meta
-    for (const [key, value] of Object.entries(saved.meta)) {
-      state.meta[key] = value;
-    }
+  try {
+    return await fn();
+  } finally {
+    // Only our own: a lock broken as stale may have been taken by another hook since
+    if (readOwner(lock) === token) rmSync(lock, { force: true });
+  }
+}
+
+function readOwner(lock: string): string | undefined {
+  try {
+    return readFileSync(lock, "utf-8");
+  } catch {
+    return undefined;
+  }
+}
 
-    // Restore pending — re-link transition objects from the net
-    state.pending.clear();
-    for (const entry of saved.pending) {
-      const transition = net.transitions.find((t) => t.name === entry.transitionName);
-      if (transition) {
-        state.pending.set(entry.toolCallId, {
-          toolCallId: entry.toolCallId,
-          transition,
-          resolvedTool: entry.resolvedTool,
-        });
-      }
+/**
+ * Remove a lock left behind by a hook that died holding it. Waiters that
+ * all find it stale race to rename it away; only the winner goes on, and
+ * it checks it got the stale owner's file — not a lock another waiter
+ * broke and retook in between, which it puts back.
+ */
+function breakStaleLock(lock: string): boolean {
+  const owner = readOwner(lock);
+  if (owner === undefined) return true; // Released in the meantime — try again
+  if (!isStale(lock)) return false;
+
+  const claimed = `${lock}.${randomUUID()}.stale`;
+  try {
+    renameSync(lock, claimed);
+  } catch {
+    // Another waiter broke it first
+    return true;
+  }
+
+  if (readOwner(claimed) !== owner) {
+    try {
+      linkSync(claimed, lock);
+    } catch {
+      // Taken again already — that owner holds it now
     }
   }
+  rmSync(claimed, { force: true });
+  return true;
 }
 
-/** Delete state file for a session. */
-export function clearState(sessionId: string): void {
-  const path = statePath(sessionId);
-  if (existsSync(path)) {
-    unlinkSync(path);
+function isStale(lock: string): boolean {
+  try {
+    return Date.now() - statSync(lock).mtimeMs > LOCK_STALE_MS;
+  } catch {
+    return false;
   }
 }
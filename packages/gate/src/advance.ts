@@ -32,8 +32,9 @@ function hasInputConflict<P extends string>(
  * Auto-advance: fire all enabled structural transitions (type=auto,
  * no tools) in a loop until quiescent.
  *
- * When multiple structural transitions compete for the same input
- * token, none of them fire (avoids ambiguous choices).
+ * When structural transitions compete for the same input token, the
+ * one with the highest `priority` fires; if the highest is shared, none
+ * of them fire (avoids ambiguous choices).
  */
 export function autoAdvance<P extends string>(
   net: SkillNet<P>,
@@ -49,9 +50,14 @@ export function autoAdvance<P extends string>(
     );
     if (structural.length === 0) break;
 
-    // Filter out transitions that conflict with another enabled one
+    // Keep transitions that outrank every enabled one they conflict with
     const unambiguous = structural.filter((t) =>
-      structural.every((other) => other === t || !hasInputConflict(t, other, current)),
+      structural.every(
+        (other) =>
+          other === t ||
+          !hasInputConflict(t, other, current) ||
+          (t.priority ?? 0) > (other.priority ?? 0),
+      ),
     );
     if (unambiguous.length === 0) break;
 
@@ -0,0 +1,375 @@
+import { describe, expect, it } from "bun:test";
+import type { GateContext, GateToolCall } from "./events.js";
+import { defineSkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import { createApprovalBroker, createMemoryApprovalStore, createMemoryApprover } from "./approvals.js";
+import type { ApprovalRequest, ApprovalVote, Approver } from "./approvals.js";
+import { createHttpApprover } from "./http-approver.js";
+import { createAuditLog } from "./audit.js";
+import type { AuditRecord } from "./audit.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ctx: GateContext = { hasUI: false, confirm: async () => false };
+
+let callIdCounter = 0;
+function makeEvent(toolName: string): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input: {} };
+}
+
+const deployNet = defineSkillNet({
+  name: "approve-deploy",
+  places: ["ready"],
+  initialMarking: { ready: 1 },
+  transitions: [
+    { name: "deploy", type: "manual", inputs: ["ready"], outputs: ["ready"], tools: ["deploy"] },
+  ],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+/** Approver answering every request with the given votes */
+function voting(...votes: ApprovalVote[]): Approver {
+  return {
+    request(_request, respond) {
+      for (const vote of votes) respond(vote);
+    },
+  };
+}
+
+/** Wait until the approver holds a pending request */
+async function nextRequest(approver: { pending: () => ApprovalRequest[] }): Promise<ApprovalRequest> {
+  for (let i = 0; i < 100; i++) {
+    const [request] = approver.pending();
+    if (request) return request;
+    await Bun.sleep(1);
+  }
+  throw new Error("no approval request arrived");
+}
+
+// ---------------------------------------------------------------------------
+// Broker
+// ---------------------------------------------------------------------------
+
+describe("approval broker", () => {
+  it("approves through the manager without a UI", async () => {
+    const approvals = createApprovalBroker({ approvers: [voting({ approver: "alice", approved: true })] });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals });
+
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+    const [record] = await approvals.store.list();
+    expect(record).toMatchObject({ net: "approve-deploy", tool: "deploy", status: "approved", quorum: 1 });
+    expect(record!.votes.map((v) => v.approver)).toEqual(["alice"]);
+  });
+
+  it("waits for a quorum of distinct approvers", async () => {
+    const approver = createMemoryApprover();
+    const approvals = createApprovalBroker({ approvers: [approver], quorum: 2 });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals });
+
+    const decision = manager.handleToolCall(makeEvent("deploy"), ctx);
+    const request = await nextRequest(approver);
+    expect(request.quorum).toBe(2);
+
+    approver.respond(request.id, { approver: "alice", approved: true });
+    approver.respond(request.id, { approver: "alice", approved: true });
+    expect(approver.pending()).toHaveLength(1);
+
+    approver.respond(request.id, { approver: "bob", approved: true });
+    expect(await decision).toBeUndefined();
+    expect(approver.pending()).toEqual([]);
+    expect(approver.respond(request.id, { approver: "carol", approved: true })).toBe(false);
+  });
+
+  it("rejects on any rejecting vote, with its reason", async () => {
+    const approvals = createApprovalBroker({
+      approvers: [
+        voting({ approver: "alice", approved: true }),
+        voting({ approver: "bob", approved: false, reason: "change freeze" }),
+      ],
+      quorum: 2,
+    });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals });
+
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toEqual({
+      block: true,
+      reason: "deploy was rejected by human review. Reason: change freeze",
+    });
+    expect((await approvals.store.list("rejected")).length).toBe(1);
+  });
+
+  it("expires requests without a decision", async () => {
+    const approvals = createApprovalBroker({ approvers: [createMemoryApprover()], timeoutMs: 10 });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals });
+
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toEqual({
+      block: true,
+      reason: "deploy was rejected by human review. Reason: no decision within 1s",
+    });
+    expect((await approvals.store.list("expired")).length).toBe(1);
+  });
+
+  it("ignores a failing approver while others answer", async () => {
+    const broken: Approver = {
+      request: async () => {
+        throw new Error("webhook down");
+      },
+    };
+    const approvals = createApprovalBroker({ approvers: [broken, voting({ approver: "alice", approved: true })] });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals });
+
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+  });
+
+  it("still asks the other approvers when one throws synchronously", async () => {
+    const broken: Approver = {
+      request() {
+        throw new Error("slack down");
+      },
+    };
+    const approver = createMemoryApprover();
+    const approvals = createApprovalBroker({ approvers: [broken, approver] });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals });
+
+    const decision = manager.handleToolCall(makeEvent("deploy"), ctx);
+    const request = await nextRequest(approver);
+    approver.respond(request.id, { approver: "alice", approved: true });
+    expect(await decision).toBeUndefined();
+  });
+
+  it("decides even when saving a vote fails", async () => {
+    const store = createMemoryApprovalStore();
+    const save = store.save;
+    store.save = async (record) => {
+      if (record.status === "pending" && record.votes.length > 0) throw new Error("disk full");
+      await save(record);
+    };
+    const approvals = createApprovalBroker({ approvers: [voting({ approver: "alice", approved: true })], store });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals });
+
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+    expect((await store.list("approved")).length).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Grants
+// ---------------------------------------------------------------------------
+
+describe("approval grants", () => {
+  it("approves the next N calls without asking", async () => {
+    const approver = createMemoryApprover();
+    const approvals = createApprovalBroker({ approvers: [approver] });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals });
+
+    const first = manager.handleToolCall(makeEvent("deploy"), ctx);
+    approver.respond((await nextRequest(approver)).id, { approver: "alice", approved: true, grant: { calls: 2 } });
+    expect(await first).toBeUndefined();
+
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+    expect(await approvals.store.grants()).toEqual([]);
+
+    const fourth = manager.handleToolCall(makeEvent("deploy"), ctx);
+    await nextRequest(approver);
+    expect((await approvals.store.list()).length).toBe(2);
+    approver.respond(approver.pending()[0]!.id, { approver: "alice", approved: false });
+    expect((await fourth)?.block).toBe(true);
+  });
+
+  it("approves calls for a time window", async () => {
+    let now = 0;
+    const approvals = createApprovalBroker({
+      approvers: [voting({ approver: "alice", approved: true, grant: { ms: 3_600_000 } })],
+      now: () => now,
+    });
+
+    const prompt = {
+      toolCallId: "c1",
+      toolName: "deploy",
+      input: {},
+      net: "approve-deploy",
+      transition: "deploy",
+      tool: "deploy",
+      title: "Approve: deploy",
+      message: "Allow 'deploy'?",
+    };
+    const first = await approvals.approve(prompt);
+    expect(first.grantId).toBeUndefined();
+
+    now = 3_599_999;
+    const second = await approvals.approve({ ...prompt, toolCallId: "c2" });
+    expect(second).toMatchObject({ approved: true, approver: "alice", approvalId: first.approvalId });
+    expect(second.grantId).toBeString();
+
+    now = 3_600_000;
+    const third = await approvals.approve({ ...prompt, toolCallId: "c3" });
+    expect(third.grantId).toBeUndefined();
+    expect(third.approvalId).not.toBe(first.approvalId);
+  });
+
+  it("grants only what every approving vote agreed to", async () => {
+    const approvals = createApprovalBroker({
+      approvers: [
+        voting({ approver: "alice", approved: true, grant: { calls: 5, ms: 60_000 } }),
+        voting({ approver: "bob", approved: true, grant: { calls: 2 } }),
+      ],
+      quorum: 2,
+      now: () => 0,
+    });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals });
+    await manager.handleToolCall(makeEvent("deploy"), ctx);
+
+    const [grant] = await approvals.store.grants();
+    expect(grant).toMatchObject({ approvers: ["alice", "bob"], remaining: 2 });
+    expect(grant!.expiresAt).toBeUndefined();
+  });
+
+  it("does not grant other tools or nets", async () => {
+    const approvals = createApprovalBroker({
+      approvers: [voting({ approver: "alice", approved: true, grant: { calls: 5 } })],
+    });
+    const prompt = {
+      toolCallId: "c1",
+      toolName: "deploy",
+      input: {},
+      net: "approve-deploy",
+      transition: "deploy",
+      tool: "deploy",
+      title: "Approve: deploy",
+      message: "Allow 'deploy'?",
+    };
+    await approvals.approve(prompt);
+
+    expect((await approvals.approve({ ...prompt, net: "other" })).grantId).toBeUndefined();
+    expect((await approvals.approve({ ...prompt, tool: "rollback" })).grantId).toBeUndefined();
+    expect((await approvals.approve(prompt)).grantId).toBeString();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Audit
+// ---------------------------------------------------------------------------
+
+describe("approval audit", () => {
+  it("records the approval id, approvers and reason", async () => {
+    const records: AuditRecord[] = [];
+    const audit = createAuditLog({ sinks: [{ write: (r) => void records.push(r) }] });
+    const approvals = createApprovalBroker({
+      approvers: [
+        voting({ approver: "alice", approved: true, reason: "ticket OPS-1", grant: { calls: 1 } }),
+        voting({ approver: "bob", approved: true }),
+      ],
+      quorum: 2,
+    });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals, audit });
+
+    await manager.handleToolCall(makeEvent("deploy"), ctx);
+    await audit.flush();
+    const [approval] = records.filter((r) => r.type === "approval");
+    const [request] = await approvals.store.list();
+    expect(approval).toMatchObject({
+      approved: true,
+      approver: "alice, bob",
+      approvers: ["alice", "bob"],
+      reason: "ticket OPS-1",
+      approvalId: request!.id,
+    });
+  });
+
+  it("records the grant behind an approval", async () => {
+    const records: AuditRecord[] = [];
+    const audit = createAuditLog({ sinks: [{ write: (r) => void records.push(r) }] });
+    const approvals = createApprovalBroker({
+      approvers: [voting({ approver: "alice", approved: true, grant: { calls: 1 } })],
+    });
+    const manager = createGateManager([deployNet], { mode: "enforce", approvals, audit });
+
+    await manager.handleToolCall(makeEvent("deploy"), ctx);
+    await manager.handleToolCall(makeEvent("deploy"), ctx);
+    await audit.flush();
+    const [first, second] = records.filter((r) => r.type === "approval");
+    expect(first).not.toHaveProperty("grantId");
+    expect(second).toMatchObject({ approved: true, approver: "alice", approvalId: (first as { approvalId: string }).approvalId });
+    expect(second).toHaveProperty("grantId");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// HTTP approver
+// ---------------------------------------------------------------------------
+
+describe("HTTP approver", () => {
+  function serve(token?: string) {
+    const approver = createHttpApprover({ token });
+    const server = Bun.serve({ port: 0, fetch: approver.fetch });
+    const base = `http://localhost:${server.port}`;
+    return { approver, server, base };
+  }
+
+  it("lists pending requests and takes votes", async () => {
+    const { approver, server, base } = serve();
+    try {
+      const approvals = createApprovalBroker({ approvers: [approver] });
+      const manager = createGateManager([deployNet], { mode: "enforce", approvals });
+      const decision = manager.handleToolCall(makeEvent("deploy"), ctx);
+
+      let pending: ApprovalRequest[] = [];
+      for (let i = 0; i < 100 && pending.length === 0; i++) {
+        pending = (await (await fetch(`${base}/approvals`)).json()) as ApprovalRequest[];
+      }
+      expect(pending).toHaveLength(1);
+      const { id } = pending[0]!;
+      expect(((await (await fetch(`${base}/approvals/${id}`)).json()) as ApprovalRequest).tool).toBe("deploy");
+
+      const vote = await fetch(`${base}/approvals/${id}`, {
+        method: "POST",
+        body: JSON.stringify({ approver: "alice", approved: true }),
+      });
+      expect(vote.status).toBe(200);
+      expect(await decision).toBeUndefined();
+
+      expect((await fetch(`${base}/approvals/${id}`)).status).toBe(404);
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  it("rejects malformed votes and unknown ids", async () => {
+    const { approver, server, base } = serve();
+    try {
+      const signal = new AbortController().signal;
+      void approver.request(
+        { id: "r1", quorum: 1, createdAt: 0, expiresAt: 1 } as ApprovalRequest,
+        () => {},
+        signal,
+      );
+
+      const post = (path: string, body: string) => fetch(`${base}${path}`, { method: "POST", body });
+      expect((await post("/approvals/r1", "{")).status).toBe(400);
+      const bad = await post("/approvals/r1", JSON.stringify({ approver: "alice", approved: "yes" }));
+      expect(bad.status).toBe(400);
+      expect(await bad.json()).toEqual({ error: "'approved' must be a boolean" });
+      const grant = await post("/approvals/r1", JSON.stringify({ approver: "a", approved: true, grant: { calls: 0 } }));
+      expect(await grant.json()).toEqual({ error: "'grant.calls' must be a positive integer" });
+      expect((await post("/approvals/nope", JSON.stringify({ approver: "a", approved: true }))).status).toBe(404);
+      expect((await fetch(`${base}/elsewhere`)).status).toBe(404);
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  it("requires the bearer token when set", async () => {
+    const { server, base } = serve("s3cret");
+    try {
+      expect((await fetch(`${base}/approvals`)).status).toBe(401);
+      const ok = await fetch(`${base}/approvals`, { headers: { authorization: "Bearer s3cret" } });
+      expect(ok.status).toBe(200);
+      expect(await ok.json()).toEqual([]);
+    } finally {
+      server.stop(true);
+    }
+  });
+});
@@ -0,0 +1,316 @@
+import type { ApprovalPrompt, ApprovalResult } from "./events.js";
+import { formatDuration } from "./format.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** An approval request sent to approvers */
+export type ApprovalRequest = ApprovalPrompt & {
+  id: string;
+  /** Approving votes needed */
+  quorum: number;
+  /** Epoch milliseconds */
+  createdAt: number;
+  /** Unanswered requests are rejected at this time */
+  expiresAt: number;
+};
+
+/** Standing approval for further calls, offered with an approving vote */
+export type GrantTerms = {
+  /** Approve this many further calls */
+  calls?: number;
+  /** Approve further calls for this long, in milliseconds */
+  ms?: number;
+};
+
+/** One approver's answer */
+export type ApprovalVote = {
+  approver: string;
+  approved: boolean;
+  reason?: string;
+  grant?: GrantTerms;
+};
+
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+/** A request and what became of it */
+export type ApprovalRecord = ApprovalRequest & {
+  status: ApprovalStatus;
+  votes: (ApprovalVote & { at: number })[];
+  decidedAt?: number;
+};
+
+/** Approval for further calls of a tool through a net, without asking */
+export type ApprovalGrant = {
+  id: string;
+  net: string;
+  tool: string;
+  approvers: string[];
+  reason?: string;
+  /** The request whose approval created the grant */
+  approvalId: string;
+  createdAt: number;
+  expiresAt?: number;
+  /** Calls left — unlimited until `expiresAt` when undefined */
+  remaining?: number;
+};
+
+/** Keeps approval requests and grants, e.g. for review or a web queue */
+export type ApprovalStore = {
+  save: (record: ApprovalRecord) => Promise<void>;
+  get: (id: string) => Promise<ApprovalRecord | undefined>;
+  /** Requests in creation order, optionally of one status */
+  list: (status?: ApprovalStatus) => Promise<ApprovalRecord[]>;
+  saveGrant: (grant: ApprovalGrant) => Promise<void>;
+  deleteGrant: (id: string) => Promise<void>;
+  grants: () => Promise<ApprovalGrant[]>;
+};
+
+/**
+ * Delivers approval requests to people — a chat message, an email, a web
+ * queue. Call `respond` with each vote as it arrives; `signal` aborts once
+ * the request is decided or expires.
+ */
+export type Approver = {
+  request: (
+    request: ApprovalRequest,
+    respond: (vote: ApprovalVote) => void,
+    signal: AbortSignal,
+  ) => void | Promise<void>;
+};
+
+export type ApprovalBrokerOptions = {
+  approvers: Approver[];
+  /** Defaults to an in-memory store */
+  store?: ApprovalStore;
+  /** Approving votes needed from distinct approvers. Defaults to 1. */
+  quorum?: number;
+  /** How long a request waits for its quorum, in milliseconds. Defaults to 10 minutes. */
+  timeoutMs?: number;
+  /** Clock for request and grant times, in epoch milliseconds. Defaults to Date.now. */
+  now?: () => number;
+};
+
+/** Pass as `GateManagerOptions.approvals` */
+export type ApprovalBroker = {
+  approve: (prompt: ApprovalPrompt) => Promise<ApprovalResult>;
+  store: ApprovalStore;
+};
+
+const DEFAULT_TIMEOUT_MS = 10 * 60_000;
+
+// ---------------------------------------------------------------------------
+// Memory store
+// ---------------------------------------------------------------------------
+
+/** In-process approval store */
+export function createMemoryApprovalStore(): ApprovalStore {
+  const records = new Map<string, ApprovalRecord>();
+  const grants = new Map<string, ApprovalGrant>();
+
+  return {
+    async save(record) {
+      records.set(record.id, structuredClone(record));
+    },
+    async get(id) {
+      const record = records.get(id);
+      return record && structuredClone(record);
+    },
+    async list(status) {
+      return [...records.values()]
+        .filter((r) => status === undefined || r.status === status)
+        .map((r) => structuredClone(r));
+    },
+    async saveGrant(grant) {
+      grants.set(grant.id, { ...grant });
+    },
+    async deleteGrant(id) {
+      grants.delete(id);
+    },
+    async grants() {
+      return [...grants.values()].map((g) => ({ ...g }));
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Broker
+// ---------------------------------------------------------------------------
+
+/** The grant every approving vote agrees to: the smallest of each term */
+function agreedGrant(votes: ApprovalVote[]): GrantTerms | undefined {
+  if (votes.length === 0 || votes.some((v) => !v.grant)) return undefined;
+  const min = (values: (number | undefined)[]) => {
+    const set = values.filter((v): v is number => v !== undefined);
+    return set.length === values.length ? Math.min(...set) : undefined;
+  };
+  // A term only binds if every voter set it
+  const calls = min(votes.map((v) => v.grant!.calls));
+  const ms = min(votes.map((v) => v.grant!.ms));
+  return calls === undefined && ms === undefined ? undefined : { calls, ms };
+}
+
+/**
+ * Sends manual-transition approvals to every approver and waits for a
+ * quorum of approving votes from distinct approvers. Any rejecting vote
+ * rejects the call; so does the timeout. Approvers may grant further
+ * calls (`grant: { calls: 5 }` or `{ ms: 3_600_000 }`); the broker then
+ * approves those calls of the same tool through the same net itself.
+ */
+export function createApprovalBroker(opts: ApprovalBrokerOptions): ApprovalBroker {
+  const store = opts.store ?? createMemoryApprovalStore();
+  const clock = opts.now ?? Date.now;
+  const quorum = opts.quorum ?? 1;
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  /** Use up one call of a live grant for the prompt, if there is one */
+  async function useGrant(prompt: ApprovalPrompt): Promise<ApprovalGrant | undefined> {
+    const now = clock();
+    for (const grant of await store.grants()) {
+      const live = (grant.expiresAt === undefined || grant.expiresAt > now) && grant.remaining !== 0;
+      if (!live) {
+        await store.deleteGrant(grant.id);
+        continue;
+      }
+      if (grant.net !== prompt.net || grant.tool !== prompt.tool) continue;
+
+      if (grant.remaining === undefined) return grant;
+      if (grant.remaining === 1) await store.deleteGrant(grant.id);
+      else await store.saveGrant({ ...grant, remaining: grant.remaining - 1 });
+      return grant;
+    }
+    return undefined;
+  }
+
+  async function decide(record: ApprovalRecord, status: ApprovalStatus): Promise<ApprovalResult> {
+    record.status = status;
+    record.decidedAt = clock();
+    await store.save(record);
+
+    const approving = record.votes.filter((v) => v.approved);
+    const rejecting = record.votes.find((v) => !v.approved);
+    const deciding = status === "approved" ? approving : rejecting ? [rejecting] : [];
+    const approvers = deciding.map((v) => v.approver);
+    const reason =
+      status === "expired"
+        ? `no decision within ${formatDuration(timeoutMs)}`
+        : deciding.map((v) => v.reason).filter(Boolean).join("; ") || undefined;
+
+    const result: ApprovalResult = { approved: status === "approved", approvalId: record.id };
+    if (approvers.length > 0) result.approver = approvers.join(", ");
+    if (approvers.length > 1) result.approvers = approvers;
+    if (reason) result.reason = reason;
+
+    const terms = status === "approved" ? agreedGrant(approving) : undefined;
+    if (terms) {
+      await store.saveGrant({
+        id: crypto.randomUUID(),
+        net: record.net,
+        tool: record.tool,
+        approvers,
+        ...(reason ? { reason } : {}),
+        approvalId: record.id,
+        createdAt: record.decidedAt,
+        ...(terms.ms === undefined ? {} : { expiresAt: record.decidedAt + terms.ms }),
+        ...(terms.calls === undefined ? {} : { remaining: terms.calls }),
+      });
+    }
+    return result;
+  }
+
+  return {
+    store,
+
+    async approve(prompt) {
+      const grant = await useGrant(prompt);
+      if (grant) {
+        return {
+          approved: true,
+          approver: grant.approvers.join(", "),
+          ...(grant.reason ? { reason: grant.reason } : {}),
+          approvalId: grant.approvalId,
+          grantId: grant.id,
+        };
+      }
+
+      const createdAt = clock();
+      const record: ApprovalRecord = {
+        ...prompt,
+        id: crypto.randomUUID(),
+        quorum,
+        createdAt,
+        expiresAt: createdAt + timeoutMs,
+        status: "pending",
+        votes: [],
+      };
+      await store.save(record);
+
+      const controller = new AbortController();
+      const outcome = await new Promise<ApprovalStatus>((resolve) => {
+        let settled = false;
+        const settle = (status: ApprovalStatus) => {
+          settled = true;
+          clearTimeout(timer);
+          resolve(status);
+        };
+        const timer = setTimeout(() => settle("expired"), timeoutMs);
+
+        const respond = (vote: ApprovalVote) => {
+          if (settled) return;
+          // An approver's latest vote replaces its earlier one
+          record.votes = [...record.votes.filter((v) => v.approver !== vote.approver), { ...vote, at: clock() }];
+          // decide() saves the final record — a failed interim save loses nothing
+          store.save(record).catch(() => {});
+          if (!vote.approved) settle("rejected");
+          else if (record.votes.filter((v) => v.approved).length >= quorum) settle("approved");
+        };
+
+        for (const approver of opts.approvers) {
+          Promise.resolve()
+            .then(() => approver.request(record, respond, controller.signal))
+            .catch(() => {
+              // A failing channel leaves the others to reach the quorum
+            });
+        }
+      });
+      controller.abort();
+
+      return decide(record, outcome);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Memory approver
+// ---------------------------------------------------------------------------
+
+export type MemoryApprover = Approver & {
+  /** Requests still awaiting a decision */
+  pending: () => ApprovalRequest[];
+  /** Vote on a pending request. False if it is unknown or already decided. */
+  respond: (id: string, vote: ApprovalVote) => boolean;
+};
+
+/** Approver answered in code — for tests and embedding in other UIs */
+export function createMemoryApprover(): MemoryApprover {
+  const open = new Map<string, { request: ApprovalRequest; respond: (vote: ApprovalVote) => void }>();
+
+  return {
+    request(request, respond, signal) {
+      open.set(request.id, { request, respond });
+      signal.addEventListener("abort", () => open.delete(request.id));
+    },
+
+    pending() {
+      return [...open.values()].map((o) => o.request);
+    },
+
+    respond(id, vote) {
+      const entry = open.get(id);
+      if (!entry) return false;
+      entry.respond(vote);
+      return true;
+    },
+  };
+}
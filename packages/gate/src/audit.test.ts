@@ -0,0 +1,334 @@
+import { describe, expect, it } from "bun:test";
+import { Database } from "bun:sqlite";
+import type { GateContext, GateToolCall } from "./events.js";
+import { defineSkillNet } from "./types.js";
+import type { SkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import type { GateManagerOptions } from "./manager.js";
+import {
+  GENESIS_HASH,
+  createAuditLog,
+  createJsonlAuditSink,
+  parseAuditJsonl,
+  verifyAuditChain,
+} from "./audit.js";
+import type { AuditRecord } from "./audit.js";
+import { createSqliteAuditSink } from "./sqlite-audit.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ctx: GateContext = { hasUI: false, confirm: async () => false };
+
+let callIdCounter = 0;
+function makeEvent(toolName: string): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input: {} };
+}
+
+const backupNet = defineSkillNet({
+  name: "backup",
+  places: ["idle", "ready", "backedUp"],
+  initialMarking: { idle: 1, ready: 0, backedUp: 0 },
+  transitions: [
+    { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+    { name: "backup", type: "auto", inputs: ["ready"], outputs: ["backedUp"], tools: ["backup"], deferred: true },
+    { name: "destroy", type: "auto", inputs: ["backedUp"], outputs: ["ready"], tools: ["destroy"] },
+  ],
+  freeTools: ["ls"],
+  terminalPlaces: [],
+});
+
+const approvalNet = defineSkillNet({
+  name: "approve-deploy",
+  places: ["ready"],
+  initialMarking: { ready: 1 },
+  transitions: [
+    { name: "approve", type: "manual", inputs: ["ready"], outputs: ["ready"], tools: ["deploy"] },
+  ],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+/** A manager whose audit records land in the returned array */
+function audited(nets: SkillNet<string>[] = [backupNet], opts: Partial<GateManagerOptions> = {}) {
+  const records: AuditRecord[] = [];
+  const audit = createAuditLog({ sinks: [{ write: (r) => void records.push(r) }], now: () => 1_000 });
+  const manager = createGateManager(nets, { mode: "enforce", ...opts, audit });
+  return { manager, audit, records };
+}
+
+/** Records without the stamping, for comparing content */
+function events(records: AuditRecord[]) {
+  return records.map(({ seq: _s, ts: _t, prevHash: _p, hash: _h, ...event }) => event);
+}
+
+// ---------------------------------------------------------------------------
+// Records
+// ---------------------------------------------------------------------------
+
+describe("audit records", () => {
+  it("records verdicts, firings and the decision for a tool call", async () => {
+    const { manager, audit, records } = audited([backupNet, approvalNet]);
+    const backup = makeEvent("backup");
+    await manager.handleToolCall(backup, ctx);
+    manager.handleToolResult({ ...backup, isError: false });
+    const destroy = makeEvent("destroy");
+    await manager.handleToolCall(destroy, ctx);
+    await audit.flush();
+
+    expect(events(records)).toEqual([
+      {
+        type: "tool_call",
+        toolCallId: backup.toolCallId,
+        toolName: "backup",
+        input: {},
+        verdicts: [
+          { net: "backup", verdict: "gated", resolvedTool: "backup", transition: "backup" },
+          { net: "approve-deploy", verdict: "abstain", resolvedTool: "backup" },
+        ],
+      },
+      { type: "deferred", toolCallId: backup.toolCallId, net: "backup", transition: "backup" },
+      {
+        type: "decision",
+        toolCallId: backup.toolCallId,
+        toolName: "backup",
+        allowed: true,
+        transitions: [{ net: "backup", transition: "backup" }],
+      },
+      {
+        type: "deferred_fired",
+        toolCallId: backup.toolCallId,
+        net: "backup",
+        transition: "backup",
+        before: { idle: 0, ready: 1, backedUp: 0 },
+        after: { idle: 0, ready: 0, backedUp: 1 },
+      },
+      expect.objectContaining({ type: "tool_call", toolCallId: destroy.toolCallId }),
+      {
+        type: "fired",
+        toolCallId: destroy.toolCallId,
+        net: "backup",
+        transition: "destroy",
+        before: { idle: 0, ready: 0, backedUp: 1 },
+        after: { idle: 0, ready: 1, backedUp: 0 },
+      },
+      {
+        type: "decision",
+        toolCallId: destroy.toolCallId,
+        toolName: "destroy",
+        allowed: true,
+        transitions: [{ net: "backup", transition: "destroy" }],
+      },
+    ]);
+    expect(records.map((r) => r.seq)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(records[0]!.ts).toBe(1_000);
+  });
+
+  it("records blocks with the blocking net's reason", async () => {
+    const { manager, audit, records } = audited();
+    await manager.handleToolCall(makeEvent("destroy"), ctx);
+    await audit.flush();
+
+    expect(events(records)).toMatchObject([
+      { type: "tool_call", verdicts: [{ net: "backup", verdict: "blocked", reason: expect.any(String) }] },
+      { type: "decision", allowed: false, reason: "Tool 'destroy' is not available in the current state." },
+    ]);
+  });
+
+  it("records failed deferred calls", async () => {
+    const { manager, audit, records } = audited();
+    const backup = makeEvent("backup");
+    await manager.handleToolCall(backup, ctx);
+    manager.handleToolResult({ ...backup, isError: true });
+    await audit.flush();
+
+    expect(events(records).at(-1)).toEqual({
+      type: "deferred_failed",
+      toolCallId: backup.toolCallId,
+      net: "backup",
+      transition: "backup",
+      cause: "tool_error",
+    });
+  });
+
+  it("records who approved a call", async () => {
+    const { manager, audit, records } = audited([approvalNet], { now: () => 0 });
+    const approving: GateContext = { hasUI: true, confirm: async () => ({ approved: true, approver: "alice" }) };
+    const rejecting: GateContext = { hasUI: true, confirm: async () => false };
+
+    const first = makeEvent("deploy");
+    await manager.handleToolCall(first, approving);
+    await manager.handleToolCall(makeEvent("deploy"), rejecting);
+    await audit.flush();
+
+    const approvals = records.filter((r) => r.type === "approval");
+    expect(events(approvals)).toEqual([
+      {
+        type: "approval",
+        toolCallId: first.toolCallId,
+        net: "approve-deploy",
+        transition: "approve",
+        tool: "deploy",
+        approved: true,
+        approver: "alice",
+        waitedMs: 0,
+      },
+      expect.objectContaining({ approved: false }),
+    ]);
+    expect(approvals[1]).not.toHaveProperty("approver");
+  });
+
+  it("marks blocks that shadow mode let through", async () => {
+    const { manager, audit, records } = audited([backupNet], { mode: "shadow" });
+    expect(await manager.handleToolCall(makeEvent("destroy"), ctx)).toBeUndefined();
+    await audit.flush();
+
+    expect(records.at(-1)).toMatchObject({ type: "decision", allowed: true, shadowed: true });
+  });
+
+  it("records replays and net changes", async () => {
+    const records: AuditRecord[] = [];
+    const audit = createAuditLog({ sinks: [{ write: (r) => void records.push(r) }] });
+    const manager = createGateManager(
+      { registry: { backup: backupNet, "approve-deploy": approvalNet }, active: ["backup"] },
+      { mode: "enforce", audit },
+    );
+
+    manager.replay(["backup"]);
+    manager.addNet("approve-deploy");
+    manager.removeNet("nope");
+    await audit.flush();
+
+    expect(events(records)).toEqual([
+      {
+        type: "replay",
+        entries: [{ toolName: "backup", isError: false }],
+        before: { backup: { idle: 0, ready: 1, backedUp: 0 }, "approve-deploy": { ready: 1 } },
+        after: { backup: { idle: 0, ready: 0, backedUp: 1 }, "approve-deploy": { ready: 1 } },
+      },
+      { type: "net_added", name: "approve-deploy", ok: true, message: "Activated 'approve-deploy'" },
+      expect.objectContaining({ type: "net_removed", name: "nope", ok: false }),
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Hash chain
+// ---------------------------------------------------------------------------
+
+describe("verifyAuditChain", () => {
+  async function chain() {
+    const { manager, audit, records } = audited();
+    const backup = makeEvent("backup");
+    await manager.handleToolCall(backup, ctx);
+    manager.handleToolResult({ ...backup, isError: false });
+    await audit.flush();
+    return records;
+  }
+
+  it("links each record to the one before", async () => {
+    const records = await chain();
+    expect(records[0]!.prevHash).toBe(GENESIS_HASH);
+    expect(records[1]!.prevHash).toBe(records[0]!.hash);
+    expect(records[0]!.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await verifyAuditChain(records)).toEqual({ ok: true });
+  });
+
+  it("detects an edited record", async () => {
+    const records = await chain();
+    const tampered = records.map((r) => (r.seq === 3 ? { ...r, allowed: false } : r));
+    expect(await verifyAuditChain(tampered)).toEqual({
+      ok: false,
+      seq: 3,
+      reason: "hash does not match the record's content",
+    });
+  });
+
+  it("detects removed and reordered records", async () => {
+    const records = await chain();
+    expect(await verifyAuditChain(records.filter((r) => r.seq !== 2))).toMatchObject({
+      ok: false,
+      seq: 3,
+      reason: "expected seq 2, found 3",
+    });
+
+    // Renumbering does not help: the chain no longer links
+    const renumbered = records.filter((r) => r.seq !== 2).map((r, i) => ({ ...r, seq: i + 1 }));
+    expect(await verifyAuditChain(renumbered)).toMatchObject({ ok: false, seq: 2 });
+  });
+
+  it("continues an earlier chain from its head", async () => {
+    const records = await chain();
+    const head = { seq: records.at(-1)!.seq, hash: records.at(-1)!.hash };
+
+    const more: AuditRecord[] = [];
+    const audit = createAuditLog({ sinks: [{ write: (r) => void more.push(r) }], head });
+    audit.append({ type: "net_added", name: "x", ok: false, message: "no" });
+    await audit.flush();
+
+    expect(more[0]).toMatchObject({ seq: head.seq + 1, prevHash: head.hash });
+    expect(await verifyAuditChain([...records, ...more])).toEqual({ ok: true });
+    expect(await verifyAuditChain(more, head)).toEqual({ ok: true });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Sinks
+// ---------------------------------------------------------------------------
+
+describe("sinks", () => {
+  it("writes JSONL that parses and verifies", async () => {
+    let file = "";
+    const audit = createAuditLog({ sinks: [createJsonlAuditSink((line) => void (file += line))] });
+    const manager = createGateManager([backupNet], { mode: "enforce", audit });
+    await manager.handleToolCall(makeEvent("ls"), ctx);
+    await audit.flush();
+
+    expect(file.endsWith("\n")).toBe(true);
+    const records = parseAuditJsonl(file);
+    expect(records.map((r) => r.type)).toEqual(["tool_call", "decision"]);
+    expect(await verifyAuditChain(records)).toEqual({ ok: true });
+
+    const tampered = file.replace('"allowed":true', '"allowed":false');
+    expect(await verifyAuditChain(parseAuditJsonl(tampered))).toMatchObject({ ok: false, seq: 2 });
+  });
+
+  it("appends to SQLite and resumes the chain from its head", async () => {
+    const db = new Database(":memory:");
+    const sink = createSqliteAuditSink(db);
+    const audit = createAuditLog({ sinks: [sink] });
+    const manager = createGateManager([backupNet], { mode: "enforce", audit });
+    await manager.handleToolCall(makeEvent("backup"), ctx);
+    await audit.flush();
+
+    const reopened = createSqliteAuditSink(db);
+    expect(reopened.head()).toEqual({ seq: 3, hash: sink.read()[2]!.hash });
+    const resumed = createAuditLog({ sinks: [reopened], head: reopened.head() });
+    resumed.append({ type: "net_added", name: "x", ok: false, message: "no" });
+    await resumed.flush();
+
+    expect(reopened.read().map((r) => r.seq)).toEqual([1, 2, 3, 4]);
+    expect(await verifyAuditChain(reopened.read())).toEqual({ ok: true });
+    // Another log in the same table starts its own chain
+    expect(createSqliteAuditSink(db, "other").head()).toBeUndefined();
+  });
+
+  it("refuses to change or delete SQLite records", async () => {
+    const db = new Database(":memory:");
+    const audit = createAuditLog({ sinks: [createSqliteAuditSink(db)] });
+    audit.append({ type: "net_added", name: "x", ok: false, message: "no" });
+    await audit.flush();
+
+    expect(() => db.run("UPDATE gate_audit SET type = 'x'")).toThrow("gate_audit is append-only");
+    expect(() => db.run("DELETE FROM gate_audit")).toThrow("gate_audit is append-only");
+  });
+
+  it("reports sink failures from flush", async () => {
+    const audit = createAuditLog({
+      sinks: [{ write: () => Promise.reject(new Error("disk full")) }],
+    });
+    audit.append({ type: "net_added", name: "x", ok: false, message: "no" });
+    await expect(audit.flush()).rejects.toThrow("disk full");
+  });
+});
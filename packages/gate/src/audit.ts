@@ -0,0 +1,307 @@
+import type { NetVerdict } from "./compose.js";
+import type { ChosenTransition, ReplayEntry } from "./manager.js";
+import type { ApprovalResult } from "./events.js";
+import type { GateOverride } from "./overrides.js";
+
+type Marking = Record<string, number>;
+
+/** One net's verdict on a tool call */
+export type VerdictRecord = {
+  net: string;
+  verdict: NetVerdict<string>["kind"];
+  resolvedTool: string;
+  /** The transition that would fire — set for "gated" */
+  transition?: string;
+  /** Every enabled transition matching the tool, when there was a choice */
+  candidates?: string[];
+  /** What the transition charges, when it has a cost */
+  cost?: number;
+  /** Set for "blocked" and "overridden" */
+  reason?: string;
+  /** The override that let the call through — set for "overridden" */
+  override?: string;
+};
+
+/** What happened, before the log stamps and chains it */
+export type AuditEvent =
+  | {
+      type: "tool_call";
+      toolCallId: string;
+      toolName: string;
+      input: Record<string, unknown>;
+      verdicts: VerdictRecord[];
+    }
+  | {
+      type: "approval";
+      toolCallId: string;
+      net: string;
+      transition: string;
+      tool: string;
+      /** How long the approval took to come back */
+      waitedMs: number;
+    } & ApprovalResult
+  | {
+      /** A gated net blocked the call after Phase 1: no approver, failed validation, or a changed state */
+      type: "rejected";
+      toolCallId: string;
+      net: string;
+      transition: string;
+      reason: string;
+    }
+  | {
+      /** A transition fired on the call itself */
+      type: "fired";
+      toolCallId: string;
+      net: string;
+      transition: string;
+      before: Marking;
+      after: Marking;
+    }
+  | {
+      /** A deferred transition now waits for the call's result */
+      type: "deferred";
+      toolCallId: string;
+      net: string;
+      transition: string;
+    }
+  | {
+      type: "decision";
+      toolCallId: string;
+      toolName: string;
+      allowed: boolean;
+      reason?: string;
+      /** True when shadow mode let a blocked call through */
+      shadowed?: boolean;
+      /** The transitions an allowed call fired or deferred */
+      transitions?: ChosenTransition[];
+    }
+  | {
+      type: "deferred_fired";
+      toolCallId: string;
+      net: string;
+      transition: string;
+      before: Marking;
+      after: Marking;
+    }
+  | {
+      type: "deferred_failed";
+      toolCallId: string;
+      net: string;
+      transition: string;
+      /** The tool errored, the transition was no longer enabled, or no result came in time */
+      cause: "tool_error" | "not_enabled" | "timeout";
+    }
+  | {
+      /** Windowed budget tokens returned */
+      type: "refilled";
+      net: string;
+      before: Marking;
+      after: Marking;
+    }
+  | {
+      type: "replay";
+      entries: ReplayEntry[];
+      before: Record<string, Marking>;
+      after: Record<string, Marking>;
+    }
+  | ({ type: "override_granted" } & GateOverride)
+  | {
+      /** An override let a call through a net that blocked it */
+      type: "override_used";
+      toolCallId: string;
+      id: string;
+      net: string;
+      tool: string;
+      /** Calls the override has left */
+      remaining: number;
+      reason: string;
+      actor: string;
+    }
+  | {
+      type: "override_revoked";
+      id: string;
+      net: string;
+      tool: string;
+      remaining: number;
+    }
+  | {
+      /** A child scope finished, replaying its returned results into the parent */
+      type: "scope_finished";
+      scope: string;
+      returned: ReplayEntry[];
+      /** The parent's unshared nets' markings */
+      before: Record<string, Marking>;
+      after: Record<string, Marking>;
+    }
+  | {
+      type: "net_added" | "net_removed";
+      name: string;
+      ok: boolean;
+      message: string;
+    };
+
+/** A stamped, hash-chained audit event */
+export type AuditRecord = AuditEvent & {
+  /** Position in the log, from 1 */
+  seq: number;
+  /** Epoch milliseconds */
+  ts: number;
+  /** `hash` of the previous record, or `GENESIS_HASH` for the first */
+  prevHash: string;
+  /** SHA-256 of the record's canonical JSON, without this field */
+  hash: string;
+};
+
+/** Where records go. Writes are awaited in order. */
+export type AuditSink = {
+  write: (record: AuditRecord) => void | Promise<void>;
+};
+
+/** The last record of an existing log, to continue its chain */
+export type AuditHead = {
+  seq: number;
+  hash: string;
+};
+
+export type AuditLogOptions = {
+  sinks: AuditSink[];
+  /** Continue an existing chain instead of starting a new one */
+  head?: AuditHead;
+  /** Clock for record timestamps. Defaults to Date.now. */
+  now?: () => number;
+};
+
+export type AuditLog = {
+  /** Stamp, chain and write an event. Returns at once; see `flush`. */
+  append: (event: AuditEvent) => void;
+  /** Resolves once every appended record is written; rejects with the first sink error */
+  flush: () => Promise<void>;
+};
+
+export type AuditVerification =
+  | { ok: true }
+  | { ok: false; seq: number; reason: string };
+
+/** `prevHash` of a new log's first record */
+export const GENESIS_HASH = "0".repeat(64);
+
+// ---------------------------------------------------------------------------
+// Hashing
+// ---------------------------------------------------------------------------
+
+/** JSON with object keys sorted, so a record hashes the same after a round trip */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function hashRecord(record: Omit<AuditRecord, "hash">): Promise<string> {
+  return sha256(canonicalJson(record));
+}
+
+// ---------------------------------------------------------------------------
+// Log
+// ---------------------------------------------------------------------------
+
+/**
+ * Append-only audit log. Pass it as `GateManagerOptions.audit` to record
+ * every tool call, verdict, approval, firing, replay and net change.
+ */
+export function createAuditLog(opts: AuditLogOptions): AuditLog {
+  const clock = opts.now ?? Date.now;
+  let seq = opts.head?.seq ?? 0;
+  let prevHash = opts.head?.hash ?? GENESIS_HASH;
+  let written: Promise<void> = Promise.resolve();
+  let failure: unknown;
+
+  return {
+    append(event) {
+      const stamped = { ...event, seq: ++seq, ts: clock() } as Omit<AuditRecord, "hash" | "prevHash">;
+      written = written.then(async () => {
+        const unhashed = { ...stamped, prevHash } as Omit<AuditRecord, "hash">;
+        const record = { ...unhashed, hash: await hashRecord(unhashed) } as AuditRecord;
+        prevHash = record.hash;
+        for (const sink of opts.sinks) {
+          try {
+            await sink.write(record);
+          } catch (error) {
+            failure ??= error;
+          }
+        }
+      });
+    },
+
+    async flush() {
+      await written;
+      if (failure !== undefined) {
+        const error = failure;
+        failure = undefined;
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Check a log's records in order: consecutive `seq`, each `prevHash`
+ * linking to the record before, and each `hash` matching its content.
+ * Pass `head` when the records continue an earlier chain.
+ */
+export async function verifyAuditChain(
+  records: AuditRecord[],
+  head?: AuditHead,
+): Promise<AuditVerification> {
+  let seq = head?.seq ?? 0;
+  let prevHash = head?.hash ?? GENESIS_HASH;
+
+  for (const record of records) {
+    if (record.seq !== seq + 1) {
+      return { ok: false, seq: record.seq, reason: `expected seq ${seq + 1}, found ${record.seq}` };
+    }
+    if (record.prevHash !== prevHash) {
+      return { ok: false, seq: record.seq, reason: "prevHash does not match the previous record" };
+    }
+    const { hash, ...unhashed } = record;
+    if ((await hashRecord(unhashed)) !== hash) {
+      return { ok: false, seq: record.seq, reason: "hash does not match the record's content" };
+    }
+    seq = record.seq;
+    prevHash = hash;
+  }
+
+  return { ok: true };
+}
+
+// ---------------------------------------------------------------------------
+// JSONL
+// ---------------------------------------------------------------------------
+
+/**
+ * Sink writing one JSON record per line through `append`, e.g.
+ * `(line) => appendFile("audit.jsonl", line)`.
+ */
+export function createJsonlAuditSink(append: (line: string) => void | Promise<void>): AuditSink {
+  return {
+    write: (record) => append(`${JSON.stringify(record)}\n`),
+  };
+}
+
+/** Parse the records of a JSONL audit log, skipping blank lines */
+export function parseAuditJsonl(text: string): AuditRecord[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as AuditRecord);
+}
@@ -590,6 +590,43 @@ describe("createGateManager — dynamic management", () => {
     expect(manager.isDynamic).toBe(true);
   });
 
+  it("groups toggle all member nets together", async () => {
+    const manager = createGateManager({
+      registry: { netA, netC, netE },
+      groups: { lockdown: ["netE"], extras: ["netC", "netE"] },
+      active: ["netA"],
+    });
+
+    expect(await manager.handleToolCall(makeEvent("dangerous"), makeCtx())).toBeUndefined();
+
+    const addResult = manager.addNet("extras");
+    expect(addResult).toEqual({ ok: true, message: "Activated group 'extras' (netC, netE)" });
+    expect(manager.getActiveNets().map((n) => n.name)).toEqual(["netA", "netC", "netE"]);
+    expect((await manager.handleToolCall(makeEvent("dangerous"), makeCtx()))?.block).toBe(true);
+
+    expect(manager.addNet("lockdown").message).toContain("already active");
+
+    const removeResult = manager.removeNet("extras");
+    expect(removeResult.ok).toBe(true);
+    expect(removeResult.message).toContain("state preserved");
+    expect(manager.getActiveNets().map((n) => n.name)).toEqual(["netA"]);
+    expect(manager.removeNet("lockdown").ok).toBe(false);
+  });
+
+  it("active may name groups", () => {
+    const manager = createGateManager({
+      registry: { netA, netC, netE },
+      groups: { extras: ["netC", "netE"] },
+      active: ["extras"],
+    });
+    expect(manager.getActiveNets().map((n) => n.name)).toEqual(["netC", "netE"]);
+  });
+
+  it("unknown name lists nets and groups", () => {
+    const manager = createGateManager({ registry: { netA }, groups: { core: ["netA"] } });
+    expect(manager.addNet("nonexistent").message).toBe("Unknown net 'nonexistent'. Available: netA, core");
+  });
+
   it("array form — addNet/removeNet not supported", () => {
     const manager = createGateManager([netA, netC]);
     expect(manager.addNet("netA").ok).toBe(false);
@@ -1,13 +1,21 @@
-import { canFire, fire } from "@petriflow/engine";
+import { canFire } from "@petriflow/engine";
 import type { GateToolCall, GateContext, GateDecision } from "./events.js";
 import type { SkillNet } from "./types.js";
 import { autoAdvance } from "./advance.js";
 import {
   getEnabledToolTransitions,
+  approvalRejectedReason,
+  approvalRequiredReason,
+  pendingEntry,
+  requestApproval,
   resolveTool,
+  selectTransition,
 } from "./gate.js";
 import type { GateState } from "./gate.js";
 import { formatBlockReason } from "./format.js";
+import { applyRefills, nextRefillIn, scheduleRefills } from "./refill.js";
+import { canAfford, fireCharged } from "./cost.js";
+import type { AuditEvent } from "./audit.js";
 
 /** Classification of a net's opinion on a tool call */
 export type NetVerdict<P extends string> = {
@@ -18,13 +26,25 @@ export type NetVerdict<P extends string> = {
   | { kind: "free" }
   | { kind: "abstain" }
   | { kind: "blocked"; reason: string }
-  | { kind: "gated"; transition: SkillNet<P>["transitions"][number] }
+  /** Blocked, but an operator override let the call through — see GateManager.grantOverride */
+  | { kind: "overridden"; reason: string; override: string }
+  | {
+      kind: "gated";
+      transition: SkillNet<P>["transitions"][number];
+      /** Every enabled transition matching the tool, when there was a choice */
+      candidates?: string[];
+      /** What the transition charges its cost place (see GatedTransition.cost) */
+      cost?: number;
+    }
 );
 
 /** Registry-based config for dynamic net management */
 export type ComposeConfig = {
   registry: Record<string, SkillNet<string>>;
+  /** Names to activate initially — net names or group names. Defaults to all. */
   active?: string[];
+  /** Named sets of registry nets that `addNet`/`removeNet` toggle together */
+  groups?: Record<string, string[]>;
 };
 
 /**
@@ -43,11 +63,13 @@ function hasJurisdiction<P extends string>(
 /**
  * Phase 1 — Structural check (non-mutating).
  * Classify each net as free, gated, blocked, or abstain.
+ * Pass `now` to include the next refill time in time-windowed block reasons.
  */
 export function classifyNets<P extends string>(
   nets: SkillNet<P>[],
   states: GateState<P>[],
   event: { toolName: string; input: Record<string, unknown> },
+  now?: number,
 ): NetVerdict<P>[] {
   return nets.map((net, i) => {
     const state = states[i]!;
@@ -72,30 +94,75 @@ export function classifyNets<P extends string>(
       return {
         ...base,
         kind: "blocked" as const,
-        reason: formatBlockReason(net as SkillNet<string>, resolvedTool),
+        reason: formatBlockReason(
+          net as SkillNet<string>,
+          resolvedTool,
+          now === undefined ? undefined : nextRefillIn(state, now),
+        ),
       };
     }
 
-    return { ...base, kind: "gated" as const, transition: matching[0]! };
+    const selection = selectTransition(net, matching, event, resolvedTool, state, now);
+    if (!selection.ok) return { ...base, kind: "blocked" as const, reason: selection.reason };
+
+    const verdict: NetVerdict<P> = { ...base, kind: "gated", transition: selection.transition };
+    if (selection.cost > 0) verdict.cost = selection.cost;
+    if (matching.length > 1) verdict.candidates = matching.map((t) => t.name);
+    return verdict;
   });
 }
 
 /**
- * 4-phase tool call handler for composed nets.
+ * 4-phase tool call handler for composed nets. `emit` receives audit
+ * events for refills, verdicts, approvals and firings.
  */
 export async function composedToolCall(
   getNets: () => SkillNet<string>[],
   getStates: () => GateState<string>[],
   event: GateToolCall,
   ctx: GateContext,
+  emit?: (event: AuditEvent) => void,
 ): Promise<GateDecision> {
   const nets = getNets();
   const states = getStates();
+  const now = ctx.now ?? Date.now;
+
+  // Return budget tokens whose time window has elapsed
+  for (let i = 0; i < nets.length; i++) {
+    const before = { ...states[i]!.marking };
+    if (applyRefills(nets[i]!, states[i]!, now())) {
+      emit?.({ type: "refilled", net: nets[i]!.name, before, after: { ...states[i]!.marking } });
+    }
+  }
 
   // --- Phase 1: Structural check ---
+  // An override takes a net's block away without touching its marking
   const verdicts = classifyNets(nets, states, {
     toolName: event.toolName,
     input: event.input,
+  }, now()).map((v): NetVerdict<string> => {
+    if (v.kind !== "blocked") return v;
+    const override = ctx.override?.(v.net.name, v.resolvedTool);
+    if (!override) return v;
+    const { net, state, resolvedTool, reason } = v;
+    return { net, state, resolvedTool, kind: "overridden", reason, override: override.id };
+  });
+
+  emit?.({
+    type: "tool_call",
+    toolCallId: event.toolCallId,
+    toolName: event.toolName,
+    input: event.input,
+    verdicts: verdicts.map((v) => ({
+      net: v.net.name,
+      verdict: v.kind,
+      resolvedTool: v.resolvedTool,
+      ...(v.kind === "gated" ? { transition: v.transition.name } : {}),
+      ...(v.kind === "gated" && v.candidates ? { candidates: v.candidates } : {}),
+      ...(v.kind === "gated" && v.cost !== undefined ? { cost: v.cost } : {}),
+      ...(v.kind === "blocked" || v.kind === "overridden" ? { reason: v.reason } : {}),
+      ...(v.kind === "overridden" ? { override: v.override } : {}),
+    })),
   });
 
   // If any net blocks, reject immediately
@@ -108,30 +175,45 @@ export async function composedToolCall(
     (v): v is Extract<NetVerdict<string>, { kind: "gated" }> => v.kind === "gated",
   );
 
-  // No gated nets → all free/abstain → allow
+  // No gated nets → all free/abstain/overridden → allow
   if (gated.length === 0) {
     return undefined;
   }
 
+  /** Block the call on a gated net's behalf, recording which net it was */
+  const reject = (v: (typeof gated)[number], reason: string): GateDecision => {
+    emit?.({ type: "rejected", toolCallId: event.toolCallId, net: v.net.name, transition: v.transition.name, reason });
+    return { block: true, reason };
+  };
+
   // --- Phase 2: Manual approvals ---
   for (const v of gated) {
     if (v.transition.type === "manual") {
-      if (!ctx.hasUI) {
-        const meta = v.net.ruleMetadata;
-        const reason = meta?.kind === "approval"
-          ? `${meta.tool} requires human approval.`
-          : `${v.resolvedTool} requires human approval.`;
-        return { block: true, reason };
+      const asked = now();
+      const result = await requestApproval(ctx, {
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        input: event.input,
+        net: v.net.name,
+        transition: v.transition.name,
+        tool: v.resolvedTool,
+        title: `Approve: ${v.transition.name} (${v.net.name})`,
+        message: `Allow '${v.resolvedTool}' via transition '${v.transition.name}' in net '${v.net.name}'?`,
+      });
+      if (!result) {
+        return reject(v, approvalRequiredReason(v.net, v.resolvedTool));
       }
-      const approved = await ctx.confirm(
-        `Approve: ${v.transition.name} (${v.net.name})`,
-        `Allow '${v.resolvedTool}' via transition '${v.transition.name}' in net '${v.net.name}'?`,
-      );
-      if (!approved) {
-        return {
-          block: true,
-          reason: `${v.resolvedTool} was rejected by human review.`,
-        };
+      emit?.({
+        type: "approval",
+        toolCallId: event.toolCallId,
+        net: v.net.name,
+        transition: v.transition.name,
+        tool: v.resolvedTool,
+        ...result,
+        waitedMs: now() - asked,
+      });
+      if (!result.approved) {
+        return { block: true, reason: approvalRejectedReason(v.resolvedTool, result) };
       }
     }
   }
@@ -154,7 +236,7 @@ export async function composedToolCall(
         for (let j = 0; j <= i; j++) {
           gated[j]!.state.meta = metaSnapshots[j]!;
         }
-        return rejection;
+        return reject(v, rejection.reason);
       }
     }
   }
@@ -162,24 +244,26 @@ export async function composedToolCall(
   // --- Phase 4: Commit ---
   // Re-validate enablement — marking may have changed during awaits
   for (const v of gated) {
-    if (!v.transition.deferred && !canFire(v.state.marking, v.transition)) {
-      return {
-        block: true,
-        reason: `Tool '${v.resolvedTool}' is no longer available (state changed).`,
-      };
+    const enabled = canFire(v.state.marking, v.transition) && canAfford(v.state.marking, v.transition, v.cost ?? 0);
+    if (!v.transition.deferred && !enabled) {
+      return reject(v, `Tool '${v.resolvedTool}' is no longer available (state changed).`);
     }
   }
 
   for (const v of gated) {
+    const base = { toolCallId: event.toolCallId, net: v.net.name, transition: v.transition.name };
     if (v.transition.deferred) {
-      v.state.pending.set(event.toolCallId, {
-        toolCallId: event.toolCallId,
-        transition: v.transition,
-        resolvedTool: v.resolvedTool,
-      });
+      v.state.pending.set(
+        event.toolCallId,
+        pendingEntry(event.toolCallId, v.transition, v.resolvedTool, now(), v.cost),
+      );
+      emit?.({ type: "deferred", ...base });
     } else {
-      v.state.marking = fire(v.state.marking, v.transition);
+      const before = { ...v.state.marking };
+      v.state.marking = fireCharged(v.state.marking, v.transition, v.cost ?? 0);
+      scheduleRefills(v.net, v.state, v.transition, now(), v.cost);
       v.state.marking = autoAdvance(v.net, v.state.marking);
+      emit?.({ type: "fired", ...base, before, after: { ...v.state.marking } });
     }
   }
 
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "bun:test";
+import { defineSkillNet } from "./types.js";
+import type { RuleMetadata } from "./types.js";
+import { createGateManager } from "./manager.js";
+import type { DecisionDetail } from "./manager.js";
+import { createGateState, handleToolCall, handleToolResult } from "./gate.js";
+import { checkCost } from "./cost.js";
+import type { GateContext, GateToolCall } from "./events.js";
+
+let callIdCounter = 0;
+function makeEvent(toolName: string, input: Record<string, unknown> = {}): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input };
+}
+
+const ctx: GateContext = { hasUI: false, confirm: async () => false };
+
+const tokensMeta: RuleMetadata = {
+  kind: "limit",
+  tool: "llm.generate",
+  limit: 100,
+  scope: "session",
+  unit: "tokens",
+  cost: "input.maxTokens",
+};
+
+// 100 tokens per session, charged by input.maxTokens, at most 60 per call
+function tokenBudget(opts: { deferred?: boolean; meta?: boolean } = {}) {
+  return defineSkillNet({
+    name: "token-budget",
+    places: ["ready", "budget"],
+    initialMarking: { ready: 1, budget: 100 },
+    transitions: [
+      {
+        name: "generate",
+        type: "auto",
+        inputs: ["ready"],
+        outputs: ["ready"],
+        tools: ["llm.generate"],
+        deferred: opts.deferred,
+        cost: { place: "budget", amount: (input) => input.maxTokens as number, max: 60 },
+      },
+    ],
+    freeTools: [],
+    terminalPlaces: [],
+    ...(opts.meta === false ? {} : { ruleMetadata: tokensMeta }),
+  });
+}
+
+// 100 tokens per hour, returned when the hour is up
+const hourlyBudget = defineSkillNet({
+  name: "hourly",
+  places: ["budget", "spent"],
+  initialMarking: { budget: 100, spent: 0 },
+  transitions: [
+    {
+      name: "generate",
+      type: "auto",
+      inputs: [],
+      outputs: [],
+      tools: ["llm.generate"],
+      cost: { place: "budget", to: "spent", amount: (input) => input.maxTokens as number, max: 100 },
+    },
+  ],
+  refills: [{ transition: "generate", from: "spent", to: "budget", windowMs: 3_600_000 }],
+  freeTools: [],
+  terminalPlaces: [],
+  ruleMetadata: { ...tokensMeta, scope: "1h", windowMs: 3_600_000 },
+});
+
+describe("cost-charged transitions", () => {
+  it("charges the cost place by the call's input", async () => {
+    const net = tokenBudget();
+    const state = createGateState({ ...net.initialMarking });
+    expect(await handleToolCall(makeEvent("llm.generate", { maxTokens: 40 }), ctx, net, state)).toBeUndefined();
+    expect(state.marking).toEqual({ ready: 1, budget: 60 });
+  });
+
+  it("rounds fractional charges up", async () => {
+    const net = tokenBudget();
+    const state = createGateState({ ...net.initialMarking });
+    await handleToolCall(makeEvent("llm.generate", { maxTokens: 2.5 }), ctx, net, state);
+    expect(state.marking.budget).toBe(97);
+  });
+
+  it("blocks with the remaining budget once the charge exceeds it", async () => {
+    const net = tokenBudget();
+    const state = createGateState({ ...net.initialMarking });
+    await handleToolCall(makeEvent("llm.generate", { maxTokens: 60 }), ctx, net, state);
+
+    const decision = await handleToolCall(makeEvent("llm.generate", { maxTokens: 50 }), ctx, net, state);
+    expect(decision).toEqual({
+      block: true,
+      reason: "llm.generate would cost 50 tokens, but only 40 of 100 tokens remain per session.",
+    });
+    expect(state.marking.budget).toBe(40);
+  });
+
+  it("blocks calls above the per-call maximum", async () => {
+    const net = tokenBudget();
+    const state = createGateState({ ...net.initialMarking });
+    const decision = await handleToolCall(makeEvent("llm.generate", { maxTokens: 80 }), ctx, net, state);
+    expect(decision?.reason).toBe("llm.generate would cost 80 tokens, more than the 60 one call may use.");
+  });
+
+  it("blocks calls whose cost cannot be computed", async () => {
+    const net = tokenBudget();
+    const state = createGateState({ ...net.initialMarking });
+    for (const input of [{}, { maxTokens: -1 }, { maxTokens: "lots" }]) {
+      const decision = await handleToolCall(makeEvent("llm.generate", input), ctx, net, state);
+      expect(decision?.reason).toBe("Cannot work out the cost of llm.generate from input.maxTokens.");
+    }
+    expect(state.marking.budget).toBe(100);
+  });
+
+  it("names the place without rule metadata", () => {
+    const net = tokenBudget({ meta: false });
+    const check = checkCost(net, net.transitions[0]!, "llm.generate", { maxTokens: 50 }, { ready: 1, budget: 10 });
+    expect(check).toEqual({
+      ok: false,
+      reason: "llm.generate would cost 50 units, but only 10 remain in 'budget'.",
+    });
+  });
+
+  it("charges deferred calls only on success", async () => {
+    const net = tokenBudget({ deferred: true });
+    const state = createGateState({ ...net.initialMarking });
+
+    const failed = makeEvent("llm.generate", { maxTokens: 30 });
+    await handleToolCall(failed, ctx, net, state);
+    handleToolResult({ ...failed, isError: true }, net, state);
+    expect(state.marking.budget).toBe(100);
+
+    const ok = makeEvent("llm.generate", { maxTokens: 30 });
+    await handleToolCall(ok, ctx, net, state);
+    expect(state.marking.budget).toBe(100);
+    handleToolResult({ ...ok, isError: false }, net, state);
+    expect(state.marking.budget).toBe(70);
+  });
+
+  it("returns the whole charge when the window elapses", async () => {
+    let now = 0;
+    const manager = createGateManager([hourlyBudget], { mode: "enforce", now: () => now });
+    const call = (maxTokens: number) => manager.handleToolCall(makeEvent("llm.generate", { maxTokens }), ctx);
+
+    expect(await call(70)).toBeUndefined();
+    now = 1_800_000;
+    expect(await call(20)).toBeUndefined();
+    expect((await call(20))?.reason).toBe(
+      "llm.generate would cost 20 tokens, but only 10 of 100 tokens remain per 1h. Budget refills in 30m.",
+    );
+
+    now = 3_600_000;
+    expect(await call(20)).toBeUndefined();
+    expect(manager.getActiveNets()[0]!.state.marking).toEqual({ budget: 60, spent: 40 });
+  });
+
+  it("reports the charge with the decision and survives snapshots", async () => {
+    const details: DecisionDetail[] = [];
+    const manager = createGateManager([tokenBudget({ deferred: true })], {
+      mode: "enforce",
+      onDecision: (_event, _decision, detail) => details.push(detail),
+    });
+    const event = makeEvent("llm.generate", { maxTokens: 25 });
+    await manager.handleToolCall(event, ctx);
+    expect(details[0]!.transitions).toEqual([{ net: "token-budget", transition: "generate", cost: 25 }]);
+
+    const restored = createGateManager([tokenBudget({ deferred: true })]);
+    restored.restore(JSON.parse(JSON.stringify(manager.snapshot())));
+    restored.handleToolResult({ ...event, isError: false });
+    expect(restored.getActiveNets()[0]!.state.marking.budget).toBe(75);
+  });
+
+  it("replays charges", () => {
+    const manager = createGateManager([tokenBudget()]);
+    manager.replay([
+      { toolName: "llm.generate", input: { maxTokens: 30 }, isError: false },
+      { toolName: "llm.generate", input: { maxTokens: 30 }, isError: true },
+      { toolName: "llm.generate", input: { maxTokens: 90 }, isError: false },
+    ]);
+    expect(manager.getActiveNets()[0]!.state.marking.budget).toBe(70);
+  });
+});
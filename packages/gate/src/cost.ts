@@ -0,0 +1,77 @@
+import { fire } from "@petriflow/engine";
+import type { Marking } from "@petriflow/engine";
+import type { GatedTransition, SkillNet } from "./types.js";
+import { formatCostReason } from "./format.js";
+import type { CostProblem } from "./format.js";
+
+/** What a call would be charged by a transition, or why it cannot be */
+export type CostCheck = { ok: true; amount: number } | { ok: false; reason: string };
+
+/** Tokens of the cost place a transition's own inputs already take */
+function ownInputs<P extends string>(transition: GatedTransition<P>, place: P): number {
+  return transition.inputs.filter((p) => p === place).length;
+}
+
+/**
+ * Work out a call's charge and whether the marking covers it. Transitions
+ * without a cost charge nothing. Pass `refillInMs` to mention the next
+ * refill in the block reason.
+ */
+export function checkCost<P extends string>(
+  net: SkillNet<P>,
+  transition: GatedTransition<P>,
+  resolvedTool: string,
+  input: Record<string, unknown>,
+  marking: Marking<P>,
+  refillInMs?: number,
+): CostCheck {
+  const cost = transition.cost;
+  if (!cost) return { ok: true, amount: 0 };
+
+  let raw: number;
+  try {
+    raw = cost.amount(input);
+  } catch {
+    raw = NaN;
+  }
+  const fail = (problem: CostProblem): CostCheck => ({
+    ok: false,
+    reason: formatCostReason(net as SkillNet<string>, resolvedTool, problem, refillInMs),
+  });
+
+  if (typeof raw !== "number" || !Number.isFinite(raw) || raw < 0) return fail({ kind: "invalid" });
+  const amount = Math.ceil(raw);
+  if (amount > cost.max) return fail({ kind: "over-max", amount, max: cost.max });
+
+  const available = (marking[cost.place] ?? 0) - ownInputs(transition, cost.place);
+  if (available < amount) {
+    return fail({ kind: "insufficient", amount, remaining: Math.max(0, available), place: cost.place });
+  }
+  return { ok: true, amount };
+}
+
+/** Whether the marking covers a charge of `amount`, beyond the transition's own inputs */
+export function canAfford<P extends string>(
+  marking: Marking<P>,
+  transition: GatedTransition<P>,
+  amount: number,
+): boolean {
+  const cost = transition.cost;
+  if (!cost || amount === 0) return true;
+  return (marking[cost.place] ?? 0) - ownInputs(transition, cost.place) >= amount;
+}
+
+/** Fire a transition and take its charge from the cost place */
+export function fireCharged<P extends string>(
+  marking: Marking<P>,
+  transition: GatedTransition<P>,
+  amount: number,
+): Marking<P> {
+  const next = fire(marking, transition);
+  const cost = transition.cost;
+  if (!cost || amount === 0) return next;
+
+  next[cost.place] = (next[cost.place] ?? 0) - amount;
+  if (cost.to !== undefined) next[cost.to] = (next[cost.to] ?? 0) + amount;
+  return next;
+}
@@ -0,0 +1,101 @@
+import type { ApprovalResult } from "./events.js";
+import type { ChosenTransition } from "./manager.js";
+
+type Marking = Record<string, number>;
+
+/** Events a GateManager emits, by name */
+export type GateEvents = {
+  /** After every gating decision */
+  decision: {
+    toolCallId: string;
+    toolName: string;
+    input: Record<string, unknown>;
+    /** Whether the call goes ahead — true for blocks shadow mode let through */
+    allowed: boolean;
+    /** Why the rules block the call */
+    reason?: string;
+    /** True when shadow mode let a blocked call through */
+    shadowed?: boolean;
+    /** The net that blocked the call, when one did */
+    net?: string;
+    /** Empty unless the call was allowed through a gated transition */
+    transitions: ChosenTransition[];
+  };
+  /** A transition fired on the call itself */
+  fired: {
+    toolCallId: string;
+    net: string;
+    transition: string;
+    before: Marking;
+    after: Marking;
+  };
+  /** A deferred transition now waits for the call's result */
+  deferred: {
+    toolCallId: string;
+    net: string;
+    transition: string;
+  };
+  /** A deferred transition fired on its result, or never will */
+  "deferred-resolved": {
+    toolCallId: string;
+    net: string;
+    transition: string;
+    fired: boolean;
+    /** Why it did not fire */
+    cause?: "tool_error" | "not_enabled" | "timeout";
+  };
+  /** A manual transition was approved or rejected */
+  approval: {
+    toolCallId: string;
+    net: string;
+    transition: string;
+    tool: string;
+    /** How long the approval took to come back */
+    waitedMs: number;
+  } & ApprovalResult;
+  "net-added": { name: string; ok: boolean; message: string };
+  "net-removed": { name: string; ok: boolean; message: string };
+};
+
+export type GateEventName = keyof GateEvents;
+
+export type GateEventListener<K extends GateEventName> = (event: GateEvents[K]) => void;
+
+export type GateEventEmitter = {
+  /** Call `listener` on every `type` event. Returns a function that stops it. */
+  on: <K extends GateEventName>(type: K, listener: GateEventListener<K>) => () => void;
+  /** Call every `type` listener in the order they were added */
+  emit: <K extends GateEventName>(type: K, event: GateEvents[K]) => void;
+};
+
+/**
+ * A typed emitter for gate events. Every manager has one (see
+ * `GateManager.on`); pass your own as `GateManagerOptions.events` to
+ * share it between managers, e.g. the per-call managers of
+ * `createStoredGateManager`. Listeners run synchronously, inside the
+ * call that caused the event — for a stored manager, once its state is
+ * committed.
+ */
+export function createGateEventEmitter(): GateEventEmitter {
+  const listeners = new Map<GateEventName, Set<GateEventListener<never>>>();
+
+  return {
+    on(type, listener) {
+      let set = listeners.get(type);
+      if (!set) {
+        set = new Set();
+        listeners.set(type, set);
+      }
+      const entry = listener as GateEventListener<never>;
+      set.add(entry);
+      return () => void set.delete(entry);
+    },
+
+    emit(type, event) {
+      // Copy first: listeners added or re-added while emitting wait for the next event
+      for (const listener of Array.from(listeners.get(type) ?? [])) {
+        (listener as GateEventListener<typeof type>)(event);
+      }
+    },
+  };
+}
@@ -1,3 +1,5 @@
+import type { GateOverride } from "./overrides.js";
+
 /** Generic tool call event — framework-agnostic */
 export type GateToolCall = {
   toolCallId: string;
@@ -13,10 +15,51 @@ export type GateToolResult = {
   isError: boolean;
 };
 
+/** An approval answer that names who gave it, for the audit log */
+export type ApprovalResult = {
+  approved: boolean;
+  approver?: string;
+  /** Every approver, when a quorum decided */
+  approvers?: string[];
+  /** Why the call was approved or rejected */
+  reason?: string;
+  /** The approval request, when one was sent out */
+  approvalId?: string;
+  /** The standing grant that approved the call without asking */
+  grantId?: string;
+};
+
+/** What a manual transition asks approval for */
+export type ApprovalPrompt = {
+  toolCallId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  net: string;
+  transition: string;
+  /** The virtual tool after the net's toolMapper */
+  tool: string;
+  title: string;
+  message: string;
+};
+
 /** Generic context for gating decisions */
 export type GateContext = {
   hasUI: boolean;
-  confirm: (title: string, message: string) => Promise<boolean>;
+  confirm: (title: string, message: string) => Promise<boolean | ApprovalResult>;
+  /**
+   * Asynchronous approvals. When set, manual transitions ask here instead
+   * of `confirm`, with or without a UI. The manager sets it from
+   * `GateManagerOptions.approvals`.
+   */
+  approve?: (prompt: ApprovalPrompt) => Promise<ApprovalResult>;
+  /**
+   * Operator overrides, asked for each net that blocks the call. An
+   * override lets the call through that net without firing anything in
+   * it. The manager sets it from `GateManager.grantOverride`.
+   */
+  override?: (net: string, tool: string) => GateOverride | undefined;
+  /** Clock for time-windowed refills, in epoch milliseconds. Defaults to Date.now. */
+  now?: () => number;
 };
 
 /** A gating decision: block with reason, or undefined to allow */
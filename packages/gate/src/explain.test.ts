@@ -0,0 +1,214 @@
+import { describe, expect, it } from "bun:test";
+import type { GateToolCall, GateToolResult, GateContext } from "./events.js";
+import { defineSkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import { formatExplanation } from "./explain.js";
+import type { AuditEvent, AuditLog } from "./audit.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let callIdCounter = 0;
+function makeEvent(toolName: string, input: Record<string, unknown> = {}): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input };
+}
+
+function makeResult(callEvent: GateToolCall, isError: boolean): GateToolResult {
+  return { ...callEvent, isError };
+}
+
+const ctx: GateContext = { hasUI: false, confirm: async () => false };
+
+// lint → test → deploy, each step deferred until it succeeds
+const pipelineNet = defineSkillNet({
+  name: "pipeline",
+  places: ["idle", "ready", "linted", "tested"],
+  initialMarking: { idle: 1, ready: 0, linted: 0, tested: 0 },
+  transitions: [
+    { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+    { name: "lint", type: "auto", inputs: ["ready"], outputs: ["linted"], tools: ["lint"], deferred: true },
+    { name: "test", type: "auto", inputs: ["linted"], outputs: ["tested"], tools: ["test"], deferred: true },
+    { name: "deploy", type: "auto", inputs: ["tested"], outputs: ["ready"], tools: ["deploy"] },
+  ],
+  freeTools: ["read"],
+  terminalPlaces: [],
+  ruleMetadata: { kind: "sequence", prerequisite: "test", dependent: "deploy" },
+});
+
+// bash "rm" resolves to the virtual tool "delete", which is never enabled
+const noDeleteNet = defineSkillNet({
+  name: "no-delete",
+  places: ["locked"],
+  initialMarking: { locked: 0 },
+  transitions: [
+    { name: "delete", type: "auto", inputs: ["locked"], outputs: ["locked"], tools: ["delete"] },
+  ],
+  freeTools: [],
+  terminalPlaces: [],
+  toolMapper: ({ toolName, input }) =>
+    toolName === "bash" && /\brm\b/.test(String(input.command)) ? "delete" : toolName,
+  ruleMetadata: { kind: "block", tool: "delete" },
+});
+
+// ---------------------------------------------------------------------------
+// explain
+// ---------------------------------------------------------------------------
+
+describe("manager.explain", () => {
+  it("returns every active net's verdict and resolved tool", () => {
+    const manager = createGateManager([pipelineNet, noDeleteNet]);
+
+    expect(manager.explain("read")).toEqual({
+      toolName: "read",
+      allowed: true,
+      nets: [
+        { name: "pipeline", verdict: "free", resolvedTool: "read", missing: [], path: [] },
+        { name: "no-delete", verdict: "abstain", resolvedTool: "read", missing: [], path: [] },
+      ],
+    });
+    expect(manager.explain("lint").nets[0]).toMatchObject({ verdict: "gated", path: [] });
+  });
+
+  it("finds the missing tokens and the shortest enabling path", () => {
+    const manager = createGateManager([pipelineNet]);
+    const [net] = manager.explain("deploy").nets;
+
+    expect(net).toEqual({
+      name: "pipeline",
+      verdict: "blocked",
+      resolvedTool: "deploy",
+      reason: "deploy requires a successful call to test first.",
+      missing: [{ place: "tested", have: 0, need: 1 }],
+      path: ["lint", "test"],
+    });
+  });
+
+  it("follows the net as calls succeed", async () => {
+    const manager = createGateManager([pipelineNet]);
+    const lint = makeEvent("lint");
+    await manager.handleToolCall(lint, ctx);
+    manager.handleToolResult(makeResult(lint, false));
+
+    expect(manager.explain("deploy").nets[0]!.path).toEqual(["test"]);
+  });
+
+  it("resolves the tool through the net's toolMapper using the real input", () => {
+    const manager = createGateManager([noDeleteNet]);
+
+    expect(manager.explain("bash", { command: "ls" }).allowed).toBe(true);
+    expect(manager.explain("bash", { command: "rm -rf /" }).nets[0]).toEqual({
+      name: "no-delete",
+      verdict: "blocked",
+      resolvedTool: "delete",
+      reason: "delete is blocked and cannot be called.",
+      missing: [{ place: "locked", have: 0, need: 1 }],
+      path: null,
+    });
+  });
+
+  it("runs validation without consuming meta", () => {
+    const channelNet = defineSkillNet({
+      name: "channels",
+      places: ["ready"],
+      initialMarking: { ready: 1 },
+      transitions: [
+        { name: "send", type: "auto", inputs: ["ready"], outputs: ["ready"], tools: ["send"] },
+      ],
+      freeTools: [],
+      terminalPlaces: [],
+      validateToolCall(event, _tool, _transition, state) {
+        const seen = (state.meta.seen as string[] | undefined) ?? [];
+        if (!seen.includes(String(event.input.channel))) {
+          return { block: true, reason: `read ${String(event.input.channel)} first` };
+        }
+        state.meta.seen = seen.filter((c) => c !== event.input.channel);
+      },
+    });
+    const manager = createGateManager([channelNet]);
+    manager.getActiveNets()[0]!.state.meta.seen = ["general"];
+
+    expect(manager.explain("send", { channel: "random" }).nets[0]).toMatchObject({
+      verdict: "blocked",
+      reason: "read random first",
+      path: null,
+    });
+    expect(manager.explain("send", { channel: "general" }).allowed).toBe(true);
+    expect(manager.getActiveNets()[0]!.state.meta.seen).toEqual(["general"]);
+  });
+
+  it("only explains active nets in registry mode", () => {
+    const manager = createGateManager({
+      registry: { pipeline: pipelineNet, "no-delete": noDeleteNet },
+      active: ["no-delete"],
+    });
+    expect(manager.explain("deploy").nets.map((n) => n.name)).toEqual(["no-delete"]);
+  });
+
+  it("reports the refill time of a windowed budget", () => {
+    let now = 0;
+    const windowed = defineSkillNet({
+      name: "limit-fetch",
+      places: ["ready", "budget", "spent"],
+      initialMarking: { ready: 1, budget: 0, spent: 1 },
+      transitions: [
+        { name: "fetch", type: "auto", inputs: ["ready", "budget"], outputs: ["ready", "spent"], tools: ["fetch"] },
+      ],
+      refills: [{ transition: "fetch", from: "spent", to: "budget", windowMs: 60_000 }],
+      freeTools: [],
+      terminalPlaces: [],
+    });
+    const manager = createGateManager([windowed], { mode: "enforce", now: () => now });
+    manager.getActiveNets()[0]!.state.refills.push({ from: "spent", to: "budget", due: 45_000 });
+
+    expect(manager.explain("fetch").nets[0]).toMatchObject({ verdict: "blocked", refillInMs: 45_000 });
+    now = 45_000;
+    expect(manager.explain("fetch").allowed).toBe(true);
+  });
+
+  it("leaves due refills for the next call to apply and audit", async () => {
+    let now = 0;
+    const windowed = defineSkillNet({
+      name: "limit-push",
+      places: ["ready", "budget", "spent"],
+      initialMarking: { ready: 1, budget: 0, spent: 1 },
+      transitions: [
+        { name: "push", type: "auto", inputs: ["ready", "budget"], outputs: ["ready", "spent"], tools: ["push"] },
+      ],
+      refills: [{ transition: "push", from: "spent", to: "budget", windowMs: 60_000 }],
+      freeTools: [],
+      terminalPlaces: [],
+    });
+    const events: AuditEvent[] = [];
+    const audit: AuditLog = { append: (e) => events.push(e), flush: async () => {} };
+    const manager = createGateManager([windowed], { mode: "enforce", now: () => now, audit });
+    const { state } = manager.getActiveNets()[0]!;
+    state.refills.push({ from: "spent", to: "budget", due: 60_000 });
+
+    now = 60_000;
+    expect(manager.explain("push").allowed).toBe(true);
+    expect(state.marking).toMatchObject({ budget: 0, spent: 1 });
+    expect(state.refills).toHaveLength(1);
+
+    expect(await manager.handleToolCall(makeEvent("push"), { ...ctx, now: () => now })).toBeUndefined();
+    expect(events.map((e) => e.type)).toContain("refilled");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatExplanation
+// ---------------------------------------------------------------------------
+
+describe("formatExplanation", () => {
+  it("turns blocking nets into guidance", () => {
+    const manager = createGateManager([pipelineNet, noDeleteNet]);
+
+    expect(formatExplanation(manager.explain("deploy"))).toBe(
+      "deploy is blocked:\n- pipeline: deploy requires a successful call to test first. Call first: lint → test.",
+    );
+    expect(formatExplanation(manager.explain("bash", { command: "rm x" }))).toBe(
+      "bash is blocked:\n- no-delete: delete is blocked and cannot be called. No sequence of calls unblocks it.",
+    );
+    expect(formatExplanation(manager.explain("lint"))).toBe("lint is allowed.");
+  });
+});
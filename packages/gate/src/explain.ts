@@ -0,0 +1,211 @@
+import { fire } from "@petriflow/engine";
+import type { Marking } from "@petriflow/engine";
+import type { SkillNet } from "./types.js";
+import type { GateState } from "./gate.js";
+import { getEnabledToolTransitions } from "./gate.js";
+import { autoAdvance } from "./advance.js";
+import { classifyNets } from "./compose.js";
+import type { NetVerdict } from "./compose.js";
+import { applyRefills, nextRefillIn } from "./refill.js";
+
+/** An input place holding fewer tokens than a transition consumes */
+export type MissingTokens = {
+  place: string;
+  have: number;
+  need: number;
+};
+
+/** One net's view of a tool call */
+export type NetExplanation = {
+  name: string;
+  verdict: NetVerdict<string>["kind"];
+  /** The virtual tool name after the net's toolMapper */
+  resolvedTool: string;
+  /** Why the net blocks — set when `verdict` is "blocked" */
+  reason?: string;
+  /**
+   * Input places short of tokens, for the transition closest to firing
+   * the tool. Empty unless the net blocks structurally.
+   */
+  missing: MissingTokens[];
+  /**
+   * Shortest sequence of successful tool calls after which the net
+   * enables the tool: `[]` if it already does, null if no sequence does
+   * (within the search bound) or the net's own validation blocks the call.
+   */
+  path: string[] | null;
+  /** Time until a windowed budget refills, when one is pending */
+  refillInMs?: number;
+};
+
+export type Explanation = {
+  toolName: string;
+  /** Whether every net lets the call through (human approval aside) */
+  allowed: boolean;
+  nets: NetExplanation[];
+};
+
+/** Markings explored per net when searching for an enabling path */
+const MAX_SEARCH_STATES = 10_000;
+
+// ---------------------------------------------------------------------------
+// Structural analysis
+// ---------------------------------------------------------------------------
+
+/** Missing tokens for the transition firing `tool` that is fewest tokens short. */
+function missingTokens(
+  net: SkillNet<string>,
+  marking: Marking<string>,
+  tool: string,
+): MissingTokens[] {
+  let best: { missing: MissingTokens[]; short: number } | null = null;
+
+  for (const t of net.transitions) {
+    if (!t.tools?.includes(tool)) continue;
+    const missing: MissingTokens[] = [];
+    for (const place of new Set(t.inputs)) {
+      const need = t.inputs.filter((p) => p === place).length;
+      const have = marking[place] ?? 0;
+      if (have < need) missing.push({ place, have, need });
+    }
+    const short = missing.reduce((sum, m) => sum + m.need - m.have, 0);
+    if (!best || short < best.short) best = { missing, short };
+  }
+
+  return best?.missing ?? [];
+}
+
+/**
+ * Breadth-first search over the net's markings for the fewest tool calls
+ * that enable `tool`. Each step fires one tool transition (labelled with
+ * its first tool) and then auto-advances, as a successful call would.
+ */
+function shortestPath(
+  net: SkillNet<string>,
+  marking: Marking<string>,
+  tool: string,
+): string[] | null {
+  const enables = (m: Marking<string>) =>
+    getEnabledToolTransitions(net, m).some((t) => t.tools!.includes(tool));
+  const key = (m: Marking<string>) => net.places.map((p) => m[p] ?? 0).join(",");
+
+  if (enables(marking)) return [];
+
+  const seen = new Set([key(marking)]);
+  const queue: { marking: Marking<string>; path: string[] }[] = [{ marking, path: [] }];
+
+  for (let i = 0; i < queue.length; i++) {
+    const { marking: current, path } = queue[i]!;
+    for (const t of getEnabledToolTransitions(net, current)) {
+      const next = autoAdvance(net, fire(current, t));
+      const k = key(next);
+      if (seen.has(k)) continue;
+      seen.add(k);
+
+      const steps = [...path, t.tools![0]!];
+      if (enables(next)) return steps;
+      if (seen.size >= MAX_SEARCH_STATES) return null;
+      queue.push({ marking: next, path: steps });
+    }
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Explain
+// ---------------------------------------------------------------------------
+
+/**
+ * Explain how each net judges a tool call: its verdict, the virtual tool
+ * it resolves to, the tokens it is missing, and the shortest sequence of
+ * tool calls that would enable the tool. Refills and validation hooks run
+ * against copies of each net's state, so nothing changes.
+ */
+export function explainNets(
+  nets: Array<{ name: string; net: SkillNet<string>; state: GateState<string> }>,
+  event: { toolName: string; input: Record<string, unknown> },
+  now: number,
+): Explanation {
+  // Refills due by now count, but land on copies — the live state is left
+  // for the next tool call to refill and audit
+  const views = nets.map(({ name, net, state }) => {
+    const view = { ...state };
+    applyRefills(net, view, now);
+    return { name, net, state: view };
+  });
+
+  const verdicts = classifyNets(
+    views.map((n) => n.net),
+    views.map((n) => n.state),
+    event,
+    now,
+  );
+
+  const explained = verdicts.map((v, i): NetExplanation => {
+    const { name, net, state } = views[i]!;
+    const base = { name, resolvedTool: v.resolvedTool };
+    const refillInMs = nextRefillIn(state, now);
+    const refill = refillInMs === undefined ? {} : { refillInMs };
+
+    switch (v.kind) {
+      case "free":
+      case "abstain":
+        return { ...base, verdict: v.kind, missing: [], path: [] };
+
+      // Explanations follow the rules alone, overrides aside
+      case "blocked":
+      case "overridden":
+        return {
+          ...base,
+          verdict: "blocked",
+          reason: v.reason,
+          missing: missingTokens(net, state.marking, v.resolvedTool),
+          path: shortestPath(net, state.marking, v.resolvedTool),
+          ...refill,
+        };
+
+      case "gated": {
+        const rejection = net.validateToolCall?.(
+          event,
+          v.resolvedTool,
+          v.transition,
+          { marking: state.marking, meta: structuredClone(state.meta) },
+        );
+        if (rejection) {
+          return { ...base, verdict: "blocked", reason: rejection.reason, missing: [], path: null };
+        }
+        return { ...base, verdict: "gated", missing: [], path: [] };
+      }
+    }
+  });
+
+  return {
+    toolName: event.toolName,
+    allowed: explained.every((n) => n.verdict !== "blocked"),
+    nets: explained,
+  };
+}
+
+/**
+ * Render an explanation as guidance for the model, e.g.
+ * "deploy is blocked:\n- require-test-before-deploy: deploy requires a
+ * successful call to test first. Call first: test."
+ */
+export function formatExplanation(explanation: Explanation): string {
+  if (explanation.allowed) return `${explanation.toolName} is allowed.`;
+
+  const lines = explanation.nets
+    .filter((n) => n.verdict === "blocked")
+    .map((n) => {
+      const parts = [n.reason!];
+      if (n.path && n.path.length > 0) parts.push(`Call first: ${n.path.join(" → ")}.`);
+      // Windowed reasons already say when the budget refills
+      if (n.path === null && n.refillInMs === undefined && n.missing.length > 0) {
+        parts.push("No sequence of calls unblocks it.");
+      }
+      return `- ${n.name}: ${parts.join(" ")}`;
+    });
+
+  return `${explanation.toolName} is blocked:\n${lines.join("\n")}`;
+}
@@ -1,13 +1,20 @@
 import type { GateManager } from "./manager.js";
 import { classifyNets } from "./compose.js";
 
-/** Find the name of the net that actually blocked a tool call. */
-export function findBlockingNet(manager: GateManager, toolName: string): string {
+/**
+ * Find the name of the net that actually blocked a tool call. Pass the
+ * call's input so nets with a toolMapper resolve the same virtual tool.
+ */
+export function findBlockingNet(
+  manager: GateManager,
+  toolName: string,
+  input: Record<string, unknown> = {},
+): string {
   const activeNets = manager.getActiveNets();
   const nets = activeNets.map((n) => n.net);
   const states = activeNets.map((n) => n.state);
 
-  const verdicts = classifyNets(nets, states, { toolName, input: {} });
+  const verdicts = classifyNets(nets, states, { toolName, input });
 
   for (let i = 0; i < verdicts.length; i++) {
     if (verdicts[i]!.kind === "blocked") {
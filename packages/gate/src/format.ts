@@ -5,32 +5,96 @@ import type { SkillNet } from "./types.js";
  *
  * With metadata (from the rules compiler), returns a constraint-stating message:
  *   - sequence: "deploy requires a successful call to test first."
+ *   - matching: "delete requires a successful call to backup with the same path first."
  *   - limit:    "deploy has reached its limit of 3 calls per session."
+ *   - windowed: "deploy has reached its limit of 1 calls per 24h. Budget refills in 3h 12m."
  *   - block:    "rm is blocked and cannot be called."
  *   - approval: "deploy requires human approval."
+ *   - when:     "bash is blocked and cannot be called when command matches /sudo/."
  *
  * Without metadata (hand-built nets), falls back to a generic message.
  */
 export function formatBlockReason(
   net: SkillNet<string>,
   resolvedTool: string,
+  refillInMs?: number,
 ): string {
   const meta = net.ruleMetadata;
 
   if (meta) {
+    const when = meta.when ? ` when ${meta.when}` : "";
     switch (meta.kind) {
-      case "sequence":
-        return `${meta.dependent} requires a successful call to ${meta.prerequisite} first.`;
-      case "limit":
-        return meta.scope === "session"
-          ? `${meta.tool} has reached its limit of ${meta.limit} calls per session.`
-          : `${meta.tool} has reached its limit of ${meta.limit} calls per ${meta.scope}.`;
+      case "sequence": {
+        const matching = meta.matching ? ` with the same ${meta.matching}` : "";
+        return `${meta.dependent} requires a successful call to ${meta.prerequisite}${matching} first${when}.`;
+      }
+      case "limit": {
+        const base = `${meta.tool} has reached its limit of ${meta.limit} ${meta.unit ?? "calls"} per ${meta.scope}${when}.`;
+        return meta.windowMs !== undefined && refillInMs !== undefined
+          ? `${base} Budget refills in ${formatDuration(refillInMs)}.`
+          : base;
+      }
       case "block":
-        return `${meta.tool} is blocked and cannot be called.`;
+        return `${meta.tool} is blocked and cannot be called${when}.`;
       case "approval":
-        return `${meta.tool} requires human approval.`;
+        return `${meta.tool} requires human approval${when}.`;
     }
   }
 
   return `Tool '${resolvedTool}' is not available in the current state.`;
 }
+
+/** Why a call's charge cannot be taken (see `checkCost`) */
+export type CostProblem =
+  | { kind: "invalid" }
+  | { kind: "over-max"; amount: number; max: number }
+  | { kind: "insufficient"; amount: number; remaining: number; place: string };
+
+/**
+ * Block reason for a call a cost-charged transition cannot take, stating
+ * the remaining budget:
+ *   - "llm.generate would cost 8000 tokens, but only 1200 of 100000 tokens remain per session."
+ *   - "llm.generate would cost 150000 tokens, more than the 100000 one call may use."
+ *   - "Cannot work out the cost of llm.generate from input.maxTokens."
+ */
+export function formatCostReason(
+  net: SkillNet<string>,
+  resolvedTool: string,
+  problem: CostProblem,
+  refillInMs?: number,
+): string {
+  const meta = net.ruleMetadata?.kind === "limit" ? net.ruleMetadata : undefined;
+  const tool = meta?.tool ?? resolvedTool;
+  const unit = meta?.unit ?? "units";
+  const when = meta?.when ? ` when ${meta.when}` : "";
+
+  switch (problem.kind) {
+    case "invalid":
+      return meta?.cost
+        ? `Cannot work out the cost of ${tool} from ${meta.cost}${when}.`
+        : `Cannot work out the cost of ${tool} from its input.`;
+    case "over-max":
+      return `${tool} would cost ${problem.amount} ${unit}, more than the ${problem.max} one call may use${when}.`;
+    case "insufficient": {
+      const base = meta
+        ? `${tool} would cost ${problem.amount} ${unit}, but only ${problem.remaining} of ${meta.limit} ${unit} remain per ${meta.scope}${when}.`
+        : `${tool} would cost ${problem.amount} ${unit}, but only ${problem.remaining} remain in '${problem.place}'.`;
+      return refillInMs !== undefined ? `${base} Budget refills in ${formatDuration(refillInMs)}.` : base;
+    }
+  }
+}
+
+/** Format a duration as a compact human string: "42s", "3m 5s", "2h 10m", "1d 4h". */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  const units: [string, number][] = [["d", 86400], ["h", 3600], ["m", 60], ["s", 1]];
+
+  const i = units.findIndex(([, size]) => seconds >= size);
+  const [label, size] = units[i]!;
+  const head = `${Math.floor(seconds / size)}${label}`;
+
+  const next = units[i + 1];
+  if (!next) return head;
+  const remainder = Math.floor((seconds % size) / next[1]);
+  return remainder > 0 ? `${head} ${remainder}${next[0]}` : head;
+}
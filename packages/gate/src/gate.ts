@@ -1,9 +1,20 @@
-import { canFire, fire } from "@petriflow/engine";
+import { canFire } from "@petriflow/engine";
 import type { Marking } from "@petriflow/engine";
-import type { GateToolCall, GateToolResult, GateContext, GateDecision } from "./events.js";
+import type {
+  ApprovalPrompt,
+  ApprovalResult,
+  GateToolCall,
+  GateToolResult,
+  GateContext,
+  GateDecision,
+} from "./events.js";
 import type { GatedTransition, SkillNet } from "./types.js";
 import { autoAdvance } from "./advance.js";
 import { formatBlockReason } from "./format.js";
+import { applyRefills, nextRefillIn, scheduleRefills } from "./refill.js";
+import type { ScheduledRefill } from "./refill.js";
+import { canAfford, checkCost, fireCharged } from "./cost.js";
+import type { AuditEvent } from "./audit.js";
 
 /** Resolve the virtual tool name for a tool call event */
 export function resolveTool<P extends string>(
@@ -37,6 +48,62 @@ export function getEnabledToolTransitions<P extends string>(
   return enabledToolTransitions(net, marking);
 }
 
+/** Transitions ordered by priority, highest first; ties keep array order */
+export function rankTransitions<P extends string>(transitions: GatedTransition<P>[]): GatedTransition<P>[] {
+  return transitions.slice().sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+/**
+ * Pick the transition a tool call fires from the enabled ones matching
+ * it: the highest priority, unless the net's `resolveTransition` picks
+ * another. A resolver answer outside the candidates is ignored.
+ */
+export function chooseTransition<P extends string>(
+  net: SkillNet<P>,
+  candidates: GatedTransition<P>[],
+  event: { toolName: string; input: Record<string, unknown> },
+  resolvedTool: string,
+  state: { marking: Marking<P>; meta: Record<string, unknown> },
+): GatedTransition<P> {
+  const ranked = rankTransitions(candidates);
+  if (ranked.length < 2 || !net.resolveTransition) return ranked[0]!;
+  const chosen = net.resolveTransition(ranked, { event, resolvedTool, state });
+  return chosen && ranked.includes(chosen) ? chosen : ranked[0]!;
+}
+
+/** The transition a call fires and what it is charged, or why none can fire */
+export type TransitionSelection<P extends string> =
+  | { ok: true; transition: GatedTransition<P>; cost: number }
+  | { ok: false; reason: string };
+
+/**
+ * Choose among the enabled transitions matching a call, leaving out those
+ * whose cost the marking cannot cover. When none can pay, the reason is
+ * the first candidate's cost problem.
+ */
+export function selectTransition<P extends string>(
+  net: SkillNet<P>,
+  matching: GatedTransition<P>[],
+  event: { toolName: string; input: Record<string, unknown> },
+  resolvedTool: string,
+  state: GateState<P>,
+  now?: number,
+): TransitionSelection<P> {
+  const costs = new Map<GatedTransition<P>, number>();
+  let reason: string | undefined;
+  const refillIn = now === undefined ? undefined : nextRefillIn(state, now);
+  for (const t of rankTransitions(matching)) {
+    const check = checkCost(net, t, resolvedTool, event.input, state.marking, refillIn);
+    if (check.ok) costs.set(t, check.amount);
+    else reason ??= check.reason;
+  }
+  if (costs.size === 0) return { ok: false, reason: reason! };
+
+  const payable = matching.filter((t) => costs.has(t));
+  const transition = chooseTransition(net, payable, event, resolvedTool, state);
+  return { ok: true, transition, cost: costs.get(transition)! };
+}
+
 /** Format marking for display */
 export function formatMarking<P extends string>(marking: Marking<P>): string {
   return Object.entries(marking)
@@ -45,11 +112,55 @@ export function formatMarking<P extends string>(marking: Marking<P>): string {
     .join(", ");
 }
 
+/** Normalise a `confirm` answer — a plain boolean names no approver */
+function toApprovalResult(answer: boolean | ApprovalResult): ApprovalResult {
+  return typeof answer === "boolean" ? { approved: answer } : answer;
+}
+
+/**
+ * Ask for a manual transition's approval: through `ctx.approve` when
+ * set, else `ctx.confirm` when there is a UI. Null if there is no one to ask.
+ */
+export async function requestApproval(
+  ctx: GateContext,
+  prompt: ApprovalPrompt,
+): Promise<ApprovalResult | null> {
+  if (ctx.approve) return ctx.approve(prompt);
+  if (!ctx.hasUI) return null;
+  return toApprovalResult(await ctx.confirm(prompt.title, prompt.message));
+}
+
+/** Block reason for a manual transition no one could approve */
+export function approvalRequiredReason(net: SkillNet<string>, resolvedTool: string): string {
+  const meta = net.ruleMetadata;
+  return meta?.kind === "approval"
+    ? `${meta.tool} requires human approval.`
+    : `${resolvedTool} requires human approval.`;
+}
+
+/** Block reason for a rejected approval */
+export function approvalRejectedReason(resolvedTool: string, result: ApprovalResult): string {
+  const base = `${resolvedTool} was rejected by human review.`;
+  return result.reason ? `${base} Reason: ${result.reason}` : base;
+}
+
 /** A pending deferred transition awaiting tool_result */
 type PendingDeferred<P extends string> = {
   toolCallId: string;
   transition: GatedTransition<P>;
   resolvedTool: string;
+  /** When the call times out (see GatedTransition.deferredTimeoutMs) */
+  expiresAt?: number;
+  /** Charge taken when the transition fires (see GatedTransition.cost) */
+  cost?: number;
+};
+
+/** A pending deferred call that timed out */
+export type ExpiredDeferred = {
+  net: string;
+  toolCallId: string;
+  transition: string;
+  resolvedTool: string;
 };
 
 export type GateState<P extends string> = {
@@ -58,10 +169,46 @@ export type GateState<P extends string> = {
   meta: Record<string, unknown>;
   /** Deferred transitions waiting for tool_result */
   pending: Map<string, PendingDeferred<P>>;
+  /** Tokens waiting for their time window to elapse (see SkillNet.refills) */
+  refills: ScheduledRefill<P>[];
 };
 
 export function createGateState<P extends string>(marking: Marking<P>): GateState<P> {
-  return { marking, meta: {}, pending: new Map() };
+  return { marking, meta: {}, pending: new Map(), refills: [] };
+}
+
+/** A pending entry for a deferred call made at `now` */
+export function pendingEntry<P extends string>(
+  toolCallId: string,
+  transition: GatedTransition<P>,
+  resolvedTool: string,
+  now: number,
+  cost = 0,
+): PendingDeferred<P> {
+  const entry: PendingDeferred<P> = { toolCallId, transition, resolvedTool };
+  if (transition.deferredTimeoutMs !== undefined) entry.expiresAt = now + transition.deferredTimeoutMs;
+  if (cost > 0) entry.cost = cost;
+  return entry;
+}
+
+/**
+ * Drop pending deferred calls whose timeout has passed, as failures:
+ * their transitions never fire. Returns the expired calls.
+ */
+export function expirePending<P extends string>(
+  net: SkillNet<P>,
+  state: GateState<P>,
+  now: number,
+  emit?: (event: AuditEvent) => void,
+): ExpiredDeferred[] {
+  const expired: ExpiredDeferred[] = [];
+  for (const [id, p] of state.pending) {
+    if (p.expiresAt === undefined || p.expiresAt > now) continue;
+    state.pending.delete(id);
+    expired.push({ net: net.name, toolCallId: id, transition: p.transition.name, resolvedTool: p.resolvedTool });
+    emit?.({ type: "deferred_failed", toolCallId: id, net: net.name, transition: p.transition.name, cause: "timeout" });
+  }
+  return expired;
 }
 
 /**
@@ -76,23 +223,28 @@ export async function handleToolCall<P extends string>(
   state: GateState<P>,
 ): Promise<GateDecision> {
   const resolvedTool = resolveTool(net, event);
+  const now = ctx.now ?? Date.now;
 
   // Free tools always pass
   if (net.freeTools.includes(resolvedTool)) {
     return undefined;
   }
 
+  applyRefills(net, state, now());
+
   const enabled = enabledToolTransitions(net, state.marking);
   const matching = enabled.filter((t) => t.tools!.includes(resolvedTool));
 
   if (matching.length === 0) {
     return {
       block: true,
-      reason: formatBlockReason(net as SkillNet<string>, resolvedTool),
+      reason: formatBlockReason(net as SkillNet<string>, resolvedTool, nextRefillIn(state, now())),
     };
   }
 
-  const transition = matching[0]!;
+  const selection = selectTransition(net, matching, event, resolvedTool, state, now());
+  if (!selection.ok) return { block: true, reason: selection.reason };
+  const { transition, cost } = selection;
 
   // Skill-specific validation (e.g. path coverage)
   if (net.validateToolCall) {
@@ -106,38 +258,41 @@ export async function handleToolCall<P extends string>(
   }
 
   if (transition.type === "manual") {
-    if (!ctx.hasUI) {
-      const meta = net.ruleMetadata;
-      const reason = meta?.kind === "approval"
-        ? `${meta.tool} requires human approval.`
-        : `${resolvedTool} requires human approval.`;
-      return { block: true, reason };
+    const result = await requestApproval(ctx, {
+      toolCallId: event.toolCallId,
+      toolName: event.toolName,
+      input: event.input,
+      net: net.name,
+      transition: transition.name,
+      tool: resolvedTool,
+      title: `Approve: ${transition.name}`,
+      message: `Allow '${resolvedTool}' via transition '${transition.name}'?`,
+    });
+    if (!result) {
+      return { block: true, reason: approvalRequiredReason(net as SkillNet<string>, resolvedTool) };
     }
-    const approved = await ctx.confirm(
-      `Approve: ${transition.name}`,
-      `Allow '${resolvedTool}' via transition '${transition.name}'?`,
-    );
-    if (!approved) {
-      return { block: true, reason: `${resolvedTool} was rejected by human review.` };
+    if (!result.approved) {
+      return { block: true, reason: approvalRejectedReason(resolvedTool, result) };
     }
   }
 
   // Re-check enablement — marking may have changed during await ctx.confirm()
-  if (!canFire(state.marking, transition)) {
+  if (!canFire(state.marking, transition) || !canAfford(state.marking, transition, cost)) {
     return {
       block: true,
-      reason: formatBlockReason(net as SkillNet<string>, resolvedTool),
+      reason: formatBlockReason(net as SkillNet<string>, resolvedTool, nextRefillIn(state, now())),
     };
   }
 
   if (transition.deferred) {
     // Allow the tool call but don't fire yet — wait for tool_result
-    state.pending.set(event.toolCallId, { toolCallId: event.toolCallId, transition, resolvedTool });
+    state.pending.set(event.toolCallId, pendingEntry(event.toolCallId, transition, resolvedTool, now(), cost));
     return undefined;
   }
 
   // Fire immediately
-  state.marking = fire(state.marking, transition);
+  state.marking = fireCharged(state.marking, transition, cost);
+  scheduleRefills(net, state, transition, now(), cost);
   state.marking = autoAdvance(net, state.marking);
 
   return undefined;
@@ -145,41 +300,53 @@ export async function handleToolCall<P extends string>(
 
 /**
  * Handle a tool_result event. Fires deferred transitions on success.
- * Returns void (tool_result handler doesn't block).
+ * Returns void (tool_result handler doesn't block). `emit` receives
+ * audit events for the firing or failure.
  */
 export function handleToolResult<P extends string>(
   event: GateToolResult,
   net: SkillNet<P>,
   state: GateState<P>,
+  now: () => number = Date.now,
+  emit?: (event: AuditEvent) => void,
 ): void {
   const pending = state.pending.get(event.toolCallId);
   if (!pending) return;
 
   state.pending.delete(event.toolCallId);
+  const base = { toolCallId: event.toolCallId, net: net.name, transition: pending.transition.name };
 
   if (event.isError) {
     // Tool failed — don't fire the transition, marking unchanged
+    emit?.({ type: "deferred_failed", ...base, cause: "tool_error" });
     return;
   }
 
   // Tool succeeded — fire the deferred transition
-  if (canFire(state.marking, pending.transition)) {
-    state.marking = fire(state.marking, pending.transition);
-
-    // Notify the skill of the successful deferred result
-    if (net.onDeferredResult) {
-      net.onDeferredResult(
-        {
-          toolCallId: event.toolCallId,
-          input: event.input,
-          isError: event.isError,
-        },
-        pending.resolvedTool,
-        pending.transition,
-        state,
-      );
-    }
+  const cost = pending.cost ?? 0;
+  if (!canFire(state.marking, pending.transition) || !canAfford(state.marking, pending.transition, cost)) {
+    emit?.({ type: "deferred_failed", ...base, cause: "not_enabled" });
+    return;
+  }
+
+  const before = { ...state.marking };
+  state.marking = fireCharged(state.marking, pending.transition, cost);
+  scheduleRefills(net, state, pending.transition, now(), cost);
 
-    state.marking = autoAdvance(net, state.marking);
+  // Notify the skill of the successful deferred result
+  if (net.onDeferredResult) {
+    net.onDeferredResult(
+      {
+        toolCallId: event.toolCallId,
+        input: event.input,
+        isError: event.isError,
+      },
+      pending.resolvedTool,
+      pending.transition,
+      state,
+    );
   }
+
+  state.marking = autoAdvance(net, state.marking);
+  emit?.({ type: "deferred_fired", ...base, before, after: { ...state.marking } });
 }
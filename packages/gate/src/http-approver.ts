@@ -0,0 +1,93 @@
+import type { ApprovalRequest, ApprovalVote, Approver } from "./approvals.js";
+
+export type HttpApproverOptions = {
+  /** Require `Authorization: Bearer <token>` on every request */
+  token?: string;
+};
+
+export type HttpApprover = Approver & {
+  /** Web-standard handler — pass to `Bun.serve({ fetch })` or any server taking `Request` */
+  fetch: (req: Request) => Promise<Response>;
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/** Read a vote from a request body, or describe what is wrong with it */
+function parseVote(body: unknown): ApprovalVote | string {
+  if (body === null || typeof body !== "object") return "body must be a JSON object";
+  const { approver, approved, reason, grant } = body as Record<string, unknown>;
+  if (typeof approver !== "string" || approver === "") return "'approver' must be a non-empty string";
+  if (typeof approved !== "boolean") return "'approved' must be a boolean";
+  if (reason !== undefined && typeof reason !== "string") return "'reason' must be a string";
+
+  const vote: ApprovalVote = { approver, approved };
+  if (reason !== undefined) vote.reason = reason;
+  if (grant !== undefined) {
+    if (grant === null || typeof grant !== "object") return "'grant' must be an object";
+    const { calls, ms } = grant as Record<string, unknown>;
+    for (const [key, value] of [["calls", calls], ["ms", ms]] as const) {
+      if (value !== undefined && !(typeof value === "number" && Number.isInteger(value) && value > 0)) {
+        return `'grant.${key}' must be a positive integer`;
+      }
+    }
+    vote.grant = { calls: calls as number | undefined, ms: ms as number | undefined };
+  }
+  return vote;
+}
+
+/**
+ * Approver served over HTTP, for a local approval queue:
+ *
+ * - `GET /approvals` — pending requests
+ * - `GET /approvals/:id` — one pending request
+ * - `POST /approvals/:id` — vote with `{ approver, approved, reason?, grant? }`
+ */
+export function createHttpApprover(opts: HttpApproverOptions = {}): HttpApprover {
+  const open = new Map<string, { request: ApprovalRequest; respond: (vote: ApprovalVote) => void }>();
+
+  return {
+    request(request, respond, signal) {
+      open.set(request.id, { request, respond });
+      signal.addEventListener("abort", () => open.delete(request.id));
+    },
+
+    async fetch(req) {
+      if (opts.token !== undefined && req.headers.get("authorization") !== `Bearer ${opts.token}`) {
+        return json({ error: "unauthorized" }, 401);
+      }
+
+      const path = new URL(req.url).pathname.replace(/\/+$/, "");
+      if (path === "/approvals") {
+        if (req.method !== "GET") return json({ error: "method not allowed" }, 405);
+        return json([...open.values()].map((o) => o.request));
+      }
+
+      const match = /^\/approvals\/([^/]+)$/.exec(path);
+      if (!match) return json({ error: "not found" }, 404);
+      const entry = open.get(decodeURIComponent(match[1]!));
+
+      if (req.method === "GET") {
+        return entry ? json(entry.request) : json({ error: "no pending approval with this id" }, 404);
+      }
+      if (req.method !== "POST") return json({ error: "method not allowed" }, 405);
+      if (!entry) return json({ error: "no pending approval with this id" }, 404);
+
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return json({ error: "body must be JSON" }, 400);
+      }
+      const vote = parseVote(body);
+      if (typeof vote === "string") return json({ error: vote }, 400);
+
+      entry.respond(vote);
+      return json({ ok: true });
+    },
+  };
+}
@@ -1,12 +1,36 @@
 // Types
 export { defineSkillNet } from "./types.js";
-export type { SkillNet, GatedTransition, ToolEvent, RuleMetadata } from "./types.js";
+export type {
+  SkillNet,
+  GatedTransition,
+  ToolEvent,
+  RuleMetadata,
+  TimedRefill,
+  TransitionChoice,
+  TransitionCost,
+} from "./types.js";
 
 // Block reason formatting
-export { formatBlockReason } from "./format.js";
+export { formatBlockReason, formatCostReason, formatDuration } from "./format.js";
+export type { CostProblem } from "./format.js";
+
+// Cost-charged transitions
+export { checkCost, canAfford, fireCharged } from "./cost.js";
+export type { CostCheck } from "./cost.js";
+
+// Time-windowed refills
+export { applyRefills, scheduleRefills, nextRefillIn } from "./refill.js";
+export type { ScheduledRefill } from "./refill.js";
 
 // Generic event types
-export type { GateToolCall, GateToolResult, GateContext, GateDecision } from "./events.js";
+export type {
+  GateToolCall,
+  GateToolResult,
+  GateContext,
+  GateDecision,
+  ApprovalResult,
+  ApprovalPrompt,
+} from "./events.js";
 
 // Auto-advance
 export { autoAdvance } from "./advance.js";
@@ -17,10 +41,14 @@ export {
   handleToolResult,
   formatMarking,
   getEnabledToolTransitions,
+  rankTransitions,
+  chooseTransition,
+  selectTransition,
   createGateState,
   resolveTool,
+  expirePending,
 } from "./gate.js";
-export type { GateState } from "./gate.js";
+export type { GateState, ExpiredDeferred, TransitionSelection } from "./gate.js";
 
 // Multi-net composition
 export { classifyNets, composedToolCall } from "./compose.js";
@@ -28,7 +56,95 @@ export type { ComposeConfig, NetVerdict } from "./compose.js";
 
 // Manager
 export { createGateManager } from "./manager.js";
-export type { GateManager, GateManagerOptions, ReplayEntry } from "./manager.js";
+export type {
+  GateManager,
+  GateManagerOptions,
+  ReplayEntry,
+  ChosenTransition,
+  DecisionDetail,
+  ChildScope,
+  ChildScopeOptions,
+} from "./manager.js";
+
+// Operator overrides
+export { formatOverride, parseOverrideCommand } from "./overrides.js";
+export type { GateOverride, OverrideOptions, OverrideResult, ParsedOverrideCommand } from "./overrides.js";
+
+// Events and metrics
+export { createGateEventEmitter } from "./emitter.js";
+export type { GateEvents, GateEventName, GateEventListener, GateEventEmitter } from "./emitter.js";
+export { createGateMetrics } from "./metrics.js";
+export type { GateMetrics, GateMetricsOptions, GateMetricsSnapshot, ApprovalMetrics } from "./metrics.js";
+
+// Snapshots
+export { SNAPSHOT_VERSION, fingerprintNet, snapshotNets, restoreNets } from "./snapshot.js";
+export type {
+  GateSnapshot,
+  NetSnapshot,
+  PendingSnapshot,
+  RestoreOptions,
+  RestoreResult,
+} from "./snapshot.js";
+
+// State stores
+export { createMemoryStateStore } from "./store.js";
+export type { GateStateStore, StoredState } from "./store.js";
+export { createSqliteStateStore } from "./sqlite-store.js";
+export { createStoredGateManager } from "./stored-manager.js";
+export type { StoredGateManager, StoredGateManagerOptions } from "./stored-manager.js";
+
+// Audit log
+export {
+  GENESIS_HASH,
+  createAuditLog,
+  verifyAuditChain,
+  createJsonlAuditSink,
+  parseAuditJsonl,
+} from "./audit.js";
+export type {
+  AuditEvent,
+  AuditRecord,
+  AuditSink,
+  AuditHead,
+  AuditLog,
+  AuditLogOptions,
+  AuditVerification,
+  VerdictRecord,
+} from "./audit.js";
+export { createSqliteAuditSink } from "./sqlite-audit.js";
+export type { SqliteAuditSink } from "./sqlite-audit.js";
+
+// Approvals
+export { createApprovalBroker, createMemoryApprovalStore, createMemoryApprover } from "./approvals.js";
+export type {
+  ApprovalBroker,
+  ApprovalBrokerOptions,
+  ApprovalGrant,
+  ApprovalRecord,
+  ApprovalRequest,
+  ApprovalStatus,
+  ApprovalStore,
+  ApprovalVote,
+  Approver,
+  GrantTerms,
+  MemoryApprover,
+} from "./approvals.js";
+export { createHttpApprover } from "./http-approver.js";
+export type { HttpApprover, HttpApproverOptions } from "./http-approver.js";
+
+// Simulation
+export { simulate, diffSimulation } from "./simulate.js";
+export type {
+  SimulateOptions,
+  SimulationChange,
+  SimulationDiff,
+  SimulationStep,
+  TraceEntry,
+} from "./simulate.js";
+
+// Explain
+export { explainNets, formatExplanation } from "./explain.js";
+export type { Explanation, MissingTokens, NetExplanation } from "./explain.js";
 
 // Utilities
 export { findBlockingNet } from "./find-blocking-net.js";
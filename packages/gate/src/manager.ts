@@ -1,17 +1,31 @@
-import { canFire, fire } from "@petriflow/engine";
+import { canFire } from "@petriflow/engine";
 import type { GateToolCall, GateToolResult, GateContext, GateDecision } from "./events.js";
 import type { SkillNet } from "./types.js";
-import type { GateState } from "./gate.js";
+import type { ExpiredDeferred, GateState } from "./gate.js";
 import {
   createGateState,
+  expirePending,
   formatMarking,
   getEnabledToolTransitions,
   handleToolResult as handleToolResultSingle,
   resolveTool,
+  selectTransition,
 } from "./gate.js";
 import { autoAdvance } from "./advance.js";
 import { composedToolCall } from "./compose.js";
+import { explainNets } from "./explain.js";
+import type { Explanation } from "./explain.js";
+import { restoreNets, snapshotNets } from "./snapshot.js";
+import type { GateSnapshot, RestoreOptions, RestoreResult } from "./snapshot.js";
+import { scheduleRefills } from "./refill.js";
+import { fireCharged } from "./cost.js";
 import type { ComposeConfig } from "./compose.js";
+import type { AuditEvent, AuditLog, VerdictRecord } from "./audit.js";
+import type { ApprovalBroker } from "./approvals.js";
+import { createGateEventEmitter } from "./emitter.js";
+import type { GateEventEmitter } from "./emitter.js";
+import { createOverrideLedger, formatOverride } from "./overrides.js";
+import type { GateOverride, OverrideOptions, OverrideResult } from "./overrides.js";
 
 export type ReplayEntry = {
   toolName: string;
@@ -30,40 +44,412 @@ export type GateManager = {
    * (treated as successful calls).
    */
   replay: (entries: ReplayEntry[] | string[]) => void;
+  /**
+   * Expire pending deferred calls older than their transition's
+   * `deferredTimeoutMs`, as failures. Runs before every tool call and
+   * result; call it on a timer to also catch calls that never return.
+   */
+  sweep: () => ExpiredDeferred[];
+  /**
+   * Explain how every active net judges a call to `toolName` with `input`:
+   * its verdict, resolved tool, missing tokens, and the shortest sequence
+   * of tool calls that would enable the tool. Does not change net state.
+   */
+  explain: (toolName: string, input?: Record<string, unknown>) => Explanation;
+  /**
+   * Capture every net's marking, meta, pending deferred calls and
+   * scheduled refills, plus which nets are active, as versioned JSON.
+   */
+  snapshot: () => GateSnapshot;
+  /**
+   * Restore a snapshot into this manager's nets. Nets whose structure
+   * changed since the snapshot are passed to `opts.migrate`, or reset to
+   * their initial state. Throws on an unknown snapshot version.
+   */
+  restore: (snapshot: GateSnapshot, opts?: RestoreOptions) => RestoreResult;
   addNet: (name: string) => { ok: boolean; message: string };
   removeNet: (name: string) => { ok: boolean; message: string };
+  /**
+   * Break glass: let `count` calls of `tool` through `net` before
+   * `expiresAt`, even though the net would block them. The override is
+   * kept apart from the net's marking — the calls fire nothing in the net —
+   * so what was verified about the net still holds. Other nets gate the
+   * calls as usual, and every grant and use is audited.
+   */
+  grantOverride: (opts: OverrideOptions) => OverrideResult;
+  revokeOverride: (id: string) => { ok: boolean; message: string };
+  /** Overrides that have neither expired nor run out */
+  getOverrides: () => GateOverride[];
+  /**
+   * A gate scope for a subagent. The child is gated by the parent's
+   * active nets, plus `opts.nets` to tighten it, with sequence state of
+   * its own — except for shared nets, whose state it uses in place, so
+   * its calls draw down the parent's budgets. Throws when `opts.share`
+   * names a net the parent does not have active.
+   */
+  createChild: (opts?: ChildScopeOptions) => ChildScope;
   getActiveNets: () => Array<{ name: string; net: SkillNet<string>; state: GateState<string> }>;
   getAllNets: () => Array<{ name: string; net: SkillNet<string>; state: GateState<string>; active: boolean }>;
   formatStatus: () => string;
   formatSystemPrompt: () => string;
   isDynamic: boolean;
+  /** Listen for decisions, firings, approvals and net changes — see `GateEvents` */
+  on: GateEventEmitter["on"];
+};
+
+/** What the array and registry managers build, before events, overrides and scopes are attached */
+type BaseManager = Omit<GateManager, "on" | "grantOverride" | "revokeOverride" | "getOverrides" | "createChild">;
+
+export type ChildScopeOptions = {
+  /** Names the scope in its `scope_finished` audit record. Defaults to "child". */
+  name?: string;
+  /** Nets that gate only the child, on top of the parent's */
+  nets?: SkillNet<string>[];
+  /**
+   * Parent nets whose state the child uses instead of a copy of its own,
+   * by name. Defaults to the nets of `limit` rules.
+   */
+  share?: string[];
+  /** Tools whose successful results in the child are replayed into the parent on `finish` */
+  returns?: string[];
+};
+
+export type ChildScope = GateManager & {
+  /**
+   * End the scope: later tool calls are blocked, and the successful
+   * results of `returns` tools are replayed into the parent's nets —
+   * shared nets aside, which saw the calls already. Returns the replayed
+   * entries. Results still pending are handled as before.
+   */
+  finish: () => ReplayEntry[];
+};
+
+/** The transition a net fired (or deferred) for an allowed call */
+export type ChosenTransition = {
+  net: string;
+  transition: string;
+  /** Every enabled transition matching the tool, when there was a choice */
+  candidates?: string[];
+  /** What the transition charges, when it has a cost */
+  cost?: number;
+};
+
+export type DecisionDetail = {
+  /** Empty unless the call was allowed through a gated transition */
+  transitions: ChosenTransition[];
 };
 
 export type GateManagerOptions = {
   /** "enforce" blocks disallowed tools. "shadow" logs but never blocks. */
   mode: "enforce" | "shadow";
   /** Called after every gating decision. Use for logging, metrics, debugging. */
-  onDecision?: (event: GateToolCall, decision: GateDecision) => void;
+  onDecision?: (event: GateToolCall, decision: GateDecision, detail: DecisionDetail) => void;
+  /** Clock for time-windowed refills, in epoch milliseconds. Defaults to Date.now. */
+  now?: () => number;
+  /** Records every tool call, verdict, approval, firing, replay and net change */
+  audit?: AuditLog;
+  /** Sends manual-transition approvals to approvers instead of `ctx.confirm` */
+  approvals?: ApprovalBroker;
+  /** Emit events through this emitter instead of the manager's own */
+  events?: GateEventEmitter;
 };
 
 export function createGateManager(input: SkillNet<string>[] | ComposeConfig, opts?: GateManagerOptions): GateManager {
-  const manager = Array.isArray(input) ? createArrayManager(input) : createRegistryManager(input);
+  return buildManager(input, opts);
+}
+
+/** A manager whose nets start from `states` where given, e.g. a parent's shared nets */
+function buildManager(
+  input: SkillNet<string>[] | ComposeConfig,
+  opts: GateManagerOptions | undefined,
+  states?: Map<SkillNet<string>, GateState<string>>,
+): GateManager {
+  const clock = opts?.now ?? Date.now;
+  const audit = opts?.audit;
+  const events = opts?.events ?? createGateEventEmitter();
+  // Gated verdicts of calls in flight, to report the transitions chosen
+  const verdicts = new Map<string, VerdictRecord[]>();
+  // The net that blocked each call in flight
+  const blockers = new Map<string, string>();
+  const emit = (event: AuditEvent) => {
+    if (event.type === "tool_call") {
+      verdicts.set(event.toolCallId, event.verdicts);
+      const blocked = event.verdicts.find((v) => v.verdict === "blocked");
+      if (blocked) blockers.set(event.toolCallId, blocked.net);
+    }
+    if (event.type === "rejected" || (event.type === "approval" && !event.approved)) {
+      blockers.set(event.toolCallId, event.net);
+    }
+    audit?.append(event);
+    emitGateEvent(events, event);
+  };
+  const base = Array.isArray(input)
+    ? createArrayManager(input, clock, emit, states)
+    : createRegistryManager(input, clock, emit);
+  const overrides = createOverrideLedger(clock);
+  const manager: GateManager = Object.assign(base, {
+    on: events.on,
+    ...manageOverrides(base, overrides, clock, emit),
+    createChild: (scope: ChildScopeOptions = {}) => createChild(manager, scope, { ...opts, mode: opts?.mode ?? "enforce", events }, emit),
+  });
 
-  if (opts) {
+  const approvals = opts?.approvals;
+  if (approvals) {
     const original = manager.handleToolCall;
-    manager.handleToolCall = async (event, ctx) => {
-      const decision = await original.call(manager, event, ctx);
-      opts.onDecision?.(event, decision);
-      if (opts.mode === "shadow" && decision?.block) {
-        return undefined;
-      }
-      return decision;
-    };
+    manager.handleToolCall = (event, ctx) => original.call(manager, event, { ...ctx, approve: approvals.approve });
   }
 
+  const original = manager.handleToolCall;
+  manager.handleToolCall = async (event, ctx) => {
+    const override = (net: string, tool: string) => overrides.take(event.toolCallId, net, tool);
+    let decision: GateDecision;
+    // Uses are spent only when overrides let through a call enforce mode would block
+    let used = false;
+    let spent: GateOverride[];
+    try {
+      decision = await original.call(manager, event, { ...ctx, override });
+      used = opts?.mode !== "shadow" && !decision?.block;
+    } finally {
+      // Hands the uses back when the call threw, too
+      spent = overrides.settle(event.toolCallId, used);
+    }
+    const transitions = decision ? [] : chosenTransitions(verdicts.get(event.toolCallId) ?? []);
+    const net = decision ? blockers.get(event.toolCallId) : undefined;
+    verdicts.delete(event.toolCallId);
+    blockers.delete(event.toolCallId);
+    opts?.onDecision?.(event, decision, { transitions });
+    const shadowed = opts?.mode === "shadow" && decision?.block === true;
+    const outcome = {
+      toolCallId: event.toolCallId,
+      toolName: event.toolName,
+      allowed: !decision?.block || shadowed,
+      ...(decision ? { reason: decision.reason } : {}),
+      ...(shadowed ? { shadowed } : {}),
+    };
+    for (const { id, net, tool, remaining, reason, actor } of spent) {
+      emit({ type: "override_used", toolCallId: event.toolCallId, id, net, tool, remaining, reason, actor });
+    }
+    audit?.append({ type: "decision", ...outcome, ...(transitions.length > 0 ? { transitions } : {}) });
+    events.emit("decision", { ...outcome, input: event.input, ...(net ? { net } : {}), transitions });
+    return shadowed ? undefined : decision;
+  };
+
+  manageNets(manager, emit, !!audit);
+
   return manager;
 }
 
+/** Grant, revoke and list overrides; keep them in snapshots and status */
+function manageOverrides(
+  base: BaseManager,
+  overrides: ReturnType<typeof createOverrideLedger>,
+  clock: () => number,
+  emit: (event: AuditEvent) => void,
+): Pick<GateManager, "grantOverride" | "revokeOverride" | "getOverrides"> {
+  const { snapshot, restore, formatStatus } = base;
+  base.snapshot = () => {
+    const live = overrides.list();
+    return live.length > 0 ? { ...snapshot.call(base), overrides: live } : snapshot.call(base);
+  };
+  base.restore = (saved, opts) => {
+    const result = restore.call(base, saved, opts);
+    overrides.load(saved.overrides ?? []);
+    return result;
+  };
+  base.formatStatus = () => {
+    const live = overrides.list();
+    const status = formatStatus.call(base);
+    if (live.length === 0) return status;
+    return `${status}\nOverrides:\n${live.map((o) => `  ${formatOverride(o, clock())}`).join("\n")}`;
+  };
+
+  return {
+    grantOverride(opts) {
+      const entry = base.getAllNets().find((n) => n.name === opts.net || n.net.name === opts.net);
+      if (!entry) {
+        const available = base.getAllNets().map((n) => n.name).join(", ");
+        return { ok: false, message: `Unknown net '${opts.net}'. Available: ${available}` };
+      }
+      if (!entry.net.transitions.some((t) => t.tools?.includes(opts.tool))) {
+        return { ok: false, message: `'${entry.name}' does not gate '${opts.tool}'` };
+      }
+      const count = opts.count ?? 1;
+      if (!Number.isInteger(count) || count < 1) {
+        return { ok: false, message: `Override count must be a positive whole number, got ${count}` };
+      }
+      if (!opts.reason.trim() || !opts.actor.trim()) {
+        return { ok: false, message: "An override needs a reason and an actor" };
+      }
+      const now = clock();
+      if (opts.expiresAt <= now) {
+        return { ok: false, message: "Override would expire before it starts" };
+      }
+
+      const override: GateOverride = {
+        id: crypto.randomUUID(),
+        net: entry.net.name,
+        tool: opts.tool,
+        remaining: count,
+        expiresAt: opts.expiresAt,
+        reason: opts.reason,
+        actor: opts.actor,
+        createdAt: now,
+      };
+      overrides.add(override);
+      emit({ type: "override_granted", ...override });
+      return { ok: true, message: `Override ${formatOverride(override, now)}`, override };
+    },
+
+    revokeOverride(id) {
+      const override = overrides.revoke(id);
+      if (!override) return { ok: false, message: `No override '${id}'` };
+      const { net, tool, remaining } = override;
+      emit({ type: "override_revoked", id, net, tool, remaining });
+      return { ok: true, message: `Revoked override ${id}` };
+    },
+
+    getOverrides: () => overrides.list(),
+  };
+}
+
+function createChild(
+  parent: GateManager,
+  scope: ChildScopeOptions,
+  opts: GateManagerOptions,
+  emit: (event: AuditEvent) => void,
+): ChildScope {
+  const name = scope.name ?? "child";
+  const clock = opts.now ?? Date.now;
+  const inherited = parent.getActiveNets();
+  const named = (entry: { name: string; net: SkillNet<string> }, names: string[]) =>
+    names.includes(entry.name) || names.includes(entry.net.name);
+
+  const unknown = (scope.share ?? []).filter((n) => !inherited.some((entry) => named(entry, [n])));
+  if (unknown.length > 0) {
+    throw new Error(`Cannot share ${unknown.map((n) => `'${n}'`).join(", ")} with scope '${name}': not an active net`);
+  }
+  const shared = scope.share
+    ? inherited.filter((entry) => named(entry, scope.share!))
+    : inherited.filter((entry) => entry.net.ruleMetadata?.kind === "limit");
+  const sharedStates = new Set(shared.map((entry) => entry.state));
+
+  const child = buildManager(
+    [...inherited.map((entry) => entry.net), ...(scope.nets ?? [])],
+    opts,
+    new Map(shared.map((entry) => [entry.net, entry.state])),
+  );
+
+  // Successful results of `returns` tools, for calls the child allowed
+  const returns = new Set(scope.returns ?? []);
+  const allowed = new Set<string>();
+  const returned: ReplayEntry[] = [];
+  let finished = false;
+
+  const { handleToolCall, handleToolResult } = child;
+  child.handleToolCall = async (event, ctx) => {
+    if (finished) return { block: true, reason: `Scope '${name}' has finished.` };
+    const decision = await handleToolCall.call(child, event, ctx);
+    if (!decision && returns.has(event.toolName)) allowed.add(event.toolCallId);
+    return decision;
+  };
+  child.handleToolResult = (event) => {
+    handleToolResult.call(child, event);
+    if (!allowed.delete(event.toolCallId) || event.isError) return;
+    returned.push({ toolName: event.toolName, input: event.input, isError: false });
+  };
+
+  return Object.assign(child, {
+    finish() {
+      if (finished) return [];
+      finished = true;
+      const targets = parent.getActiveNets().filter((entry) => !sharedStates.has(entry.state));
+      const markings = () => Object.fromEntries(targets.map((entry) => [entry.name, { ...entry.state.marking }]));
+      const before = markings();
+      replayNets(
+        targets.map((entry) => entry.net),
+        targets.map((entry) => entry.state),
+        returned,
+        clock,
+      );
+      emit({ type: "scope_finished", scope: name, returned: [...returned], before, after: markings() });
+      return [...returned];
+    },
+  });
+}
+
+function chosenTransitions(verdicts: VerdictRecord[]): ChosenTransition[] {
+  return verdicts.flatMap(({ net, verdict, transition, candidates, cost }) =>
+    verdict === "gated"
+      ? [{ net, transition: transition!, ...(candidates ? { candidates } : {}), ...(cost !== undefined ? { cost } : {}) }]
+      : [],
+  );
+}
+
+/** Pass the audit events listeners care about on to the emitter */
+function emitGateEvent(events: GateEventEmitter, event: AuditEvent): void {
+  switch (event.type) {
+    case "fired":
+    case "deferred": {
+      const { type, ...rest } = event;
+      events.emit(type, rest);
+      return;
+    }
+    case "approval": {
+      const { type: _, ...rest } = event;
+      events.emit("approval", rest);
+      return;
+    }
+    case "deferred_fired":
+      events.emit("deferred-resolved", {
+        toolCallId: event.toolCallId,
+        net: event.net,
+        transition: event.transition,
+        fired: true,
+      });
+      return;
+    case "deferred_failed":
+      events.emit("deferred-resolved", {
+        toolCallId: event.toolCallId,
+        net: event.net,
+        transition: event.transition,
+        fired: false,
+        cause: event.cause,
+      });
+      return;
+    case "net_added":
+    case "net_removed": {
+      const { type, ...rest } = event;
+      events.emit(type === "net_added" ? "net-added" : "net-removed", rest);
+      return;
+    }
+  }
+}
+
+/** Report net activation changes, and replays when `replays` is set */
+function manageNets(manager: GateManager, emit: (event: AuditEvent) => void, replays: boolean): void {
+  const markings = () =>
+    Object.fromEntries(manager.getAllNets().map(({ name, state }) => [name, { ...state.marking }]));
+
+  const { replay, addNet, removeNet } = manager;
+  if (replays) {
+    manager.replay = (entries) => {
+      const before = markings();
+      replay.call(manager, entries);
+      emit({ type: "replay", entries: normalizeEntries(entries), before, after: markings() });
+    };
+  }
+  manager.addNet = (name) => {
+    const result = addNet.call(manager, name);
+    emit({ type: "net_added", name, ...result });
+    return result;
+  };
+  manager.removeNet = (name) => {
+    const result = removeNet.call(manager, name);
+    emit({ type: "net_removed", name, ...result });
+    return result;
+  };
+}
+
 function normalizeEntries(entries: ReplayEntry[] | string[]): ReplayEntry[] {
   if (entries.length === 0) return [];
   if (typeof entries[0] === "string") {
@@ -76,6 +462,7 @@ function replayNets(
   nets: SkillNet<string>[],
   states: GateState<string>[],
   entries: ReplayEntry[],
+  clock: () => number,
 ): void {
   for (let ei = 0; ei < entries.length; ei++) {
     const entry = entries[ei]!;
@@ -91,9 +478,12 @@ function replayNets(
       const matching = enabled.filter((t) => t.tools!.includes(resolved));
       if (matching.length === 0) continue;
 
-      const transition = matching[0]!;
+      const selection = selectTransition(net, matching, { toolName: entry.toolName, input: entry.input ?? {} }, resolved, state);
+      if (!selection.ok) continue;
+      const { transition, cost } = selection;
       if (canFire(state.marking, transition)) {
-        state.marking = fire(state.marking, transition);
+        state.marking = fireCharged(state.marking, transition, cost);
+        scheduleRefills(net, state, transition, clock(), cost);
 
         if (transition.deferred && net.onDeferredResult) {
           net.onDeferredResult(
@@ -110,27 +500,53 @@ function replayNets(
   }
 }
 
-function createArrayManager(nets: SkillNet<string>[]): GateManager {
+function createArrayManager(
+  nets: SkillNet<string>[],
+  clock: () => number,
+  emit?: (event: AuditEvent) => void,
+  given?: Map<SkillNet<string>, GateState<string>>,
+): BaseManager {
   const states = nets.map((net) =>
-    createGateState(autoAdvance(net, { ...net.initialMarking })),
+    given?.get(net) ?? createGateState(autoAdvance(net, { ...net.initialMarking })),
   );
 
   const getNets = () => nets;
   const getStates = () => states;
 
+  const sweep = () => nets.flatMap((net, i) => expirePending(net, states[i]!, clock(), emit));
+
   return {
     handleToolCall(event, ctx) {
-      return composedToolCall(getNets, getStates, event, ctx);
+      sweep();
+      return composedToolCall(getNets, getStates, event, { ...ctx, now: ctx.now ?? clock }, emit);
     },
 
     handleToolResult(event) {
+      sweep();
       for (let i = 0; i < nets.length; i++) {
-        handleToolResultSingle(event, nets[i]!, states[i]!);
+        handleToolResultSingle(event, nets[i]!, states[i]!, clock, emit);
       }
     },
 
     replay(entries) {
-      replayNets(nets, states, normalizeEntries(entries));
+      replayNets(nets, states, normalizeEntries(entries), clock);
+    },
+
+    sweep,
+
+    explain(toolName, input = {}) {
+      const active = nets.map((net, i) => ({ name: net.name, net, state: states[i]! }));
+      return explainNets(active, { toolName, input }, clock());
+    },
+
+    snapshot() {
+      const entries = nets.map((net, i) => ({ name: net.name, net, state: states[i]! }));
+      return snapshotNets(entries, nets.map((net) => net.name));
+    },
+
+    restore(snapshot, opts) {
+      const entries = nets.map((net, i) => ({ name: net.name, net, state: states[i]! }));
+      return restoreNets(entries, snapshot, opts);
     },
 
     addNet() {
@@ -163,7 +579,11 @@ function createArrayManager(nets: SkillNet<string>[]): GateManager {
   };
 }
 
-function createRegistryManager(config: ComposeConfig): GateManager {
+function createRegistryManager(
+  config: ComposeConfig,
+  clock: () => number,
+  emit?: (event: AuditEvent) => void,
+): BaseManager {
   const registry = new Map<string, { net: SkillNet<string>; state: GateState<string> }>();
   for (const [name, net] of Object.entries(config.registry)) {
     registry.set(name, {
@@ -172,33 +592,84 @@ function createRegistryManager(config: ComposeConfig): GateManager {
     });
   }
 
+  const groups = new Map<string, string[]>(
+    Object.entries(config.groups ?? {}).map(([name, members]) => [
+      name,
+      members.filter((n) => registry.has(n)),
+    ]),
+  );
+
+  // A group name stands for all of its member nets
+  const expand = (name: string): string[] => groups.get(name) ?? [name];
+
   const activeNames = new Set<string>(
-    (config.active ?? Object.keys(config.registry)).filter((n) => registry.has(n)),
+    (config.active ?? Object.keys(config.registry)).flatMap(expand).filter((n) => registry.has(n)),
   );
 
   const getActiveNets = () => [...activeNames].map((n) => registry.get(n)!.net);
   const getActiveStates = () => [...activeNames].map((n) => registry.get(n)!.state);
 
+  // Inactive nets' pending calls expire too: their state is preserved
+  const sweep = () =>
+    [...registry.values()].flatMap(({ net, state }) => expirePending(net, state, clock(), emit));
+
   return {
     handleToolCall(event, ctx) {
-      return composedToolCall(getActiveNets, getActiveStates, event, ctx);
+      sweep();
+      return composedToolCall(getActiveNets, getActiveStates, event, { ...ctx, now: ctx.now ?? clock }, emit);
     },
 
     handleToolResult(event) {
+      sweep();
       for (const { net, state } of registry.values()) {
-        handleToolResultSingle(event, net, state);
+        handleToolResultSingle(event, net, state, clock, emit);
       }
     },
 
     replay(entries) {
       const activeNets = getActiveNets();
       const activeStates = getActiveStates();
-      replayNets(activeNets, activeStates, normalizeEntries(entries));
+      replayNets(activeNets, activeStates, normalizeEntries(entries), clock);
+    },
+
+    sweep,
+
+    explain(toolName, input = {}) {
+      const active = [...activeNames].map((name) => ({ name, ...registry.get(name)! }));
+      return explainNets(active, { toolName, input }, clock());
+    },
+
+    snapshot() {
+      const entries = [...registry].map(([name, entry]) => ({ name, ...entry }));
+      return snapshotNets(entries, [...activeNames]);
+    },
+
+    restore(snapshot, opts) {
+      const entries = [...registry].map(([name, entry]) => ({ name, ...entry }));
+      const result = restoreNets(entries, snapshot, opts);
+      // Nets the snapshot does not know keep their current activation
+      for (const name of registry.keys()) {
+        if (!(name in snapshot.nets)) continue;
+        if (snapshot.active.includes(name)) activeNames.add(name);
+        else activeNames.delete(name);
+      }
+      return result;
     },
 
     addNet(name) {
+      const group = groups.get(name);
+      if (group) {
+        const inactive = group.filter((n) => !activeNames.has(n));
+        if (inactive.length === 0) {
+          return { ok: false, message: `Group '${name}' is already active` };
+        }
+        for (const n of inactive) activeNames.add(n);
+        return { ok: true, message: `Activated group '${name}' (${inactive.join(", ")})` };
+      }
+
       if (!registry.has(name)) {
-        return { ok: false, message: `Unknown net '${name}'. Available: ${[...registry.keys()].join(", ")}` };
+        const available = [...registry.keys(), ...groups.keys()].join(", ");
+        return { ok: false, message: `Unknown net '${name}'. Available: ${available}` };
       }
       if (activeNames.has(name)) {
         return { ok: false, message: `'${name}' is already active` };
@@ -208,6 +679,16 @@ function createRegistryManager(config: ComposeConfig): GateManager {
     },
 
     removeNet(name) {
+      const group = groups.get(name);
+      if (group) {
+        const active = group.filter((n) => activeNames.has(n));
+        if (active.length === 0) {
+          return { ok: false, message: `Group '${name}' is not active` };
+        }
+        for (const n of active) activeNames.delete(n);
+        return { ok: true, message: `Deactivated group '${name}' (${active.join(", ")}, state preserved)` };
+      }
+
       if (!activeNames.has(name)) {
         return { ok: false, message: `'${name}' is not active. Active: ${[...activeNames].join(", ")}` };
       }
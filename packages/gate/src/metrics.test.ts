@@ -0,0 +1,260 @@
+import { describe, expect, it } from "bun:test";
+import { defineSkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import { createGateEventEmitter } from "./emitter.js";
+import type { GateEvents } from "./emitter.js";
+import { createGateMetrics } from "./metrics.js";
+import type { GateContext, GateToolCall } from "./events.js";
+
+let callIdCounter = 0;
+function makeEvent(toolName: string, input: Record<string, unknown> = {}): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input };
+}
+
+const ctx: GateContext = { hasUI: false, confirm: async () => false };
+
+// test (deferred) before deploy
+const testBeforeDeploy = defineSkillNet({
+  name: "test-before-deploy",
+  places: ["ready", "tested"],
+  initialMarking: { ready: 1, tested: 0 },
+  transitions: [
+    { name: "run-test", type: "auto", inputs: ["ready"], outputs: ["tested"], tools: ["test"], deferred: true },
+    { name: "run-deploy", type: "auto", inputs: ["tested"], outputs: ["ready"], tools: ["deploy"] },
+  ],
+  freeTools: ["ls"],
+  terminalPlaces: [],
+});
+
+// pushes need a human
+const approvePush = defineSkillNet({
+  name: "approve-push",
+  places: ["ready"],
+  initialMarking: { ready: 1 },
+  transitions: [{ name: "approve", type: "manual", inputs: ["ready"], outputs: ["ready"], tools: ["push"] }],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+/** A context whose approver answers after `waitMs` of the manager's clock */
+function approving(clock: { now: number }, approved: boolean, waitMs: number): GateContext {
+  return {
+    hasUI: true,
+    confirm: async () => {
+      clock.now += waitMs;
+      return approved;
+    },
+  };
+}
+
+describe("GateManager events", () => {
+  it("emits decisions with the blocking net", async () => {
+    const manager = createGateManager([testBeforeDeploy]);
+    const decisions: GateEvents["decision"][] = [];
+    const stop = manager.on("decision", (e) => decisions.push(e));
+
+    const deploy = makeEvent("deploy");
+    await manager.handleToolCall(deploy, ctx);
+    expect(decisions).toEqual([
+      {
+        toolCallId: deploy.toolCallId,
+        toolName: "deploy",
+        input: {},
+        allowed: false,
+        reason: "Tool 'deploy' is not available in the current state.",
+        net: "test-before-deploy",
+        transitions: [],
+      },
+    ]);
+
+    stop();
+    await manager.handleToolCall(makeEvent("ls"), ctx);
+    expect(decisions).toHaveLength(1);
+  });
+
+  it("emits firings, deferrals and their resolution", async () => {
+    const manager = createGateManager([testBeforeDeploy]);
+    const seen: string[] = [];
+    manager.on("fired", (e) => seen.push(`fired ${e.transition}`));
+    manager.on("deferred", (e) => seen.push(`deferred ${e.transition}`));
+    manager.on("deferred-resolved", (e) => seen.push(`resolved ${e.transition} ${e.fired} ${e.cause ?? ""}`.trim()));
+
+    const failing = makeEvent("test");
+    await manager.handleToolCall(failing, ctx);
+    manager.handleToolResult({ ...failing, isError: true });
+    const passing = makeEvent("test");
+    await manager.handleToolCall(passing, ctx);
+    manager.handleToolResult({ ...passing, isError: false });
+    await manager.handleToolCall(makeEvent("deploy"), ctx);
+
+    expect(seen).toEqual([
+      "deferred run-test",
+      "resolved run-test false tool_error",
+      "deferred run-test",
+      "resolved run-test true",
+      "fired run-deploy",
+    ]);
+  });
+
+  it("emits approvals with how long they took", async () => {
+    const clock = { now: 0 };
+    const manager = createGateManager([approvePush], { mode: "enforce", now: () => clock.now });
+    const approvals: GateEvents["approval"][] = [];
+    const decisions: GateEvents["decision"][] = [];
+    manager.on("approval", (e) => approvals.push(e));
+    manager.on("decision", (e) => decisions.push(e));
+
+    await manager.handleToolCall(makeEvent("push"), approving(clock, false, 4_000));
+    expect(approvals).toEqual([expect.objectContaining({ net: "approve-push", approved: false, waitedMs: 4_000 })]);
+    expect(decisions[0]).toMatchObject({ allowed: false, net: "approve-push" });
+  });
+
+  it("emits net changes", () => {
+    const manager = createGateManager({ registry: { tests: testBeforeDeploy }, active: [] });
+    const changes: string[] = [];
+    manager.on("net-added", (e) => changes.push(`added ${e.name} ${e.ok}`));
+    manager.on("net-removed", (e) => changes.push(`removed ${e.name} ${e.ok}`));
+    manager.addNet("tests");
+    manager.addNet("nope");
+    manager.removeNet("tests");
+    expect(changes).toEqual(["added tests true", "added nope false", "removed tests true"]);
+  });
+
+  it("shares an emitter between managers", async () => {
+    const events = createGateEventEmitter();
+    const tools: string[] = [];
+    events.on("decision", (e) => tools.push(e.toolName));
+
+    await createGateManager([testBeforeDeploy], { mode: "enforce", events }).handleToolCall(makeEvent("ls"), ctx);
+    await createGateManager([testBeforeDeploy], { mode: "enforce", events }).handleToolCall(makeEvent("test"), ctx);
+    expect(tools).toEqual(["ls", "test"]);
+  });
+
+  it("sends each event to the listeners subscribed when it was emitted", () => {
+    const events = createGateEventEmitter();
+    const calls: string[] = [];
+    const event = { name: "tests", ok: true, message: "" };
+
+    // Re-subscribes itself on every call — must not run again for the same event
+    let off = events.on("net-added", function resubscribe() {
+      calls.push("resubscribe");
+      off();
+      off = events.on("net-added", resubscribe);
+    });
+    events.on("net-added", () => {
+      calls.push("first");
+      events.on("net-added", () => calls.push("late"));
+    });
+
+    events.emit("net-added", event);
+    expect(calls).toEqual(["resubscribe", "first"]);
+
+    calls.length = 0;
+    events.emit("net-added", event);
+    expect(calls).toEqual(["first", "resubscribe", "late"]);
+  });
+
+  it("marks shadowed blocks", async () => {
+    const manager = createGateManager([testBeforeDeploy], { mode: "shadow" });
+    const decisions: GateEvents["decision"][] = [];
+    manager.on("decision", (e) => decisions.push(e));
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+    expect(decisions[0]).toMatchObject({ allowed: true, shadowed: true, net: "test-before-deploy" });
+  });
+});
+
+describe("createGateMetrics", () => {
+  async function session() {
+    const clock = { now: 0 };
+    const manager = createGateManager([testBeforeDeploy, approvePush], { mode: "enforce", now: () => clock.now });
+    const metrics = createGateMetrics(manager, { buckets: [1, 10] });
+
+    await manager.handleToolCall(makeEvent("deploy"), ctx);
+    await manager.handleToolCall(makeEvent("deploy"), ctx);
+    await manager.handleToolCall(makeEvent("ls"), ctx);
+    const test = makeEvent("test");
+    await manager.handleToolCall(test, ctx);
+    await manager.handleToolCall(makeEvent("push"), approving(clock, true, 500));
+    await manager.handleToolCall(makeEvent("push"), approving(clock, false, 5_000));
+    return { manager, metrics, test };
+  }
+
+  it("counts decisions, blocks, firings, approvals and pending calls", async () => {
+    const { manager, metrics, test } = await session();
+    expect(metrics.toJSON()).toEqual({
+      decisions: [
+        { tool: "deploy", outcome: "blocked", count: 2 },
+        { tool: "ls", outcome: "allowed", count: 1 },
+        { tool: "test", outcome: "allowed", count: 1 },
+        { tool: "push", outcome: "allowed", count: 1 },
+        { tool: "push", outcome: "blocked", count: 1 },
+      ],
+      blocks: [
+        { net: "test-before-deploy", tool: "deploy", count: 2 },
+        { net: "approve-push", tool: "push", count: 1 },
+      ],
+      fired: [{ net: "approve-push", transition: "approve", count: 1 }],
+      approvals: [{ net: "approve-push", approved: 1, rejected: 1, waitSeconds: 5.5, waitBuckets: { "1": 1, "10": 2 } }],
+      pending: { "test-before-deploy": 1 },
+    });
+
+    manager.handleToolResult({ ...test, isError: false });
+    expect(metrics.toJSON().pending).toEqual({ "test-before-deploy": 0 });
+    expect(metrics.toJSON().fired).toContainEqual({ net: "test-before-deploy", transition: "run-test", count: 1 });
+  });
+
+  it("renders the Prometheus text format", async () => {
+    const { metrics } = await session();
+    const text = metrics.render();
+
+    expect(text).toContain(
+      [
+        "# HELP petriflow_blocks_total Tool calls blocked (or shadowed), by blocking net and tool.",
+        "# TYPE petriflow_blocks_total counter",
+        'petriflow_blocks_total{net="test-before-deploy",tool="deploy"} 2',
+        'petriflow_blocks_total{net="approve-push",tool="push"} 1',
+      ].join("\n"),
+    );
+    expect(text).toContain(
+      [
+        "# TYPE petriflow_approval_wait_seconds histogram",
+        'petriflow_approval_wait_seconds_bucket{net="approve-push",le="1"} 1',
+        'petriflow_approval_wait_seconds_bucket{net="approve-push",le="10"} 2',
+        'petriflow_approval_wait_seconds_bucket{net="approve-push",le="+Inf"} 2',
+        'petriflow_approval_wait_seconds_sum{net="approve-push"} 5.5',
+        'petriflow_approval_wait_seconds_count{net="approve-push"} 2',
+      ].join("\n"),
+    );
+    expect(text).toContain('petriflow_pending_deferred{net="test-before-deploy"} 1');
+    expect(text.endsWith("\n")).toBe(true);
+  });
+
+  it("escapes label values and takes a prefix", async () => {
+    const manager = createGateManager([testBeforeDeploy]);
+    const metrics = createGateMetrics(manager, { prefix: "agent" });
+    await manager.handleToolCall(makeEvent('say "hi"\\'), ctx);
+    expect(metrics.render()).toContain('agent_decisions_total{tool="say \\"hi\\"\\\\",outcome="allowed"} 1');
+  });
+
+  it("counts down only the deferred calls it counted up", async () => {
+    const before = createGateManager([testBeforeDeploy]);
+    const test = makeEvent("test");
+    await before.handleToolCall(test, ctx);
+
+    const manager = createGateManager([testBeforeDeploy]);
+    manager.restore(before.snapshot());
+    const metrics = createGateMetrics(manager);
+    manager.handleToolResult({ ...test, isError: false });
+
+    expect(metrics.toJSON().pending).toEqual({});
+    expect(metrics.toJSON().fired).toEqual([{ net: "test-before-deploy", transition: "run-test", count: 1 }]);
+  });
+
+  it("stops collecting", async () => {
+    const manager = createGateManager([testBeforeDeploy]);
+    const metrics = createGateMetrics(manager);
+    metrics.stop();
+    await manager.handleToolCall(makeEvent("ls"), ctx);
+    expect(metrics.toJSON().decisions).toEqual([]);
+  });
+});
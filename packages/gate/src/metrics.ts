@@ -0,0 +1,203 @@
+import type { GateEventEmitter } from "./emitter.js";
+
+export type GateMetricsOptions = {
+  /** Metric name prefix. Defaults to "petriflow". */
+  prefix?: string;
+  /** Upper bounds of the approval wait histogram, in seconds */
+  buckets?: number[];
+};
+
+/** Approval counts and wait times for one net */
+export type ApprovalMetrics = {
+  net: string;
+  approved: number;
+  rejected: number;
+  /** Sum of the waits, in seconds */
+  waitSeconds: number;
+  /** Approvals that came back within each bucket's bound, cumulative, keyed by bound */
+  waitBuckets: Record<string, number>;
+};
+
+/** Every metric's current value, as `GateMetrics.toJSON` returns it */
+export type GateMetricsSnapshot = {
+  decisions: Array<{ tool: string; outcome: "allowed" | "blocked" | "shadowed"; count: number }>;
+  blocks: Array<{ net: string; tool: string; count: number }>;
+  fired: Array<{ net: string; transition: string; count: number }>;
+  approvals: ApprovalMetrics[];
+  /** Deferred calls awaiting their result, by net */
+  pending: Record<string, number>;
+};
+
+export type GateMetrics = {
+  /** Prometheus text exposition format, e.g. for a `/metrics` endpoint */
+  render: () => string;
+  toJSON: () => GateMetricsSnapshot;
+  /** Stop listening; the values collected so far remain */
+  stop: () => void;
+};
+
+const DEFAULT_BUCKETS = [1, 5, 15, 30, 60, 300, 900, 3600];
+
+type Labels = Record<string, string>;
+
+/** A labelled counter or gauge */
+function series() {
+  const values = new Map<string, { labels: Labels; value: number }>();
+  return {
+    add(labels: Labels, by = 1) {
+      const key = JSON.stringify(labels);
+      const entry = values.get(key) ?? { labels, value: 0 };
+      entry.value += by;
+      values.set(key, entry);
+    },
+    entries: () => [...values.values()],
+  };
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return `${name}${pairs.length > 0 ? `{${pairs.join(",")}}` : ""} ${value}`;
+}
+
+/**
+ * Collect gate metrics from a manager's events (or a shared emitter):
+ * decisions per tool, blocks per net and tool, transitions fired,
+ * approvals with their wait times, and pending deferred calls. Pending
+ * counts cover calls deferred while the collector was listening.
+ */
+export function createGateMetrics(
+  source: { on: GateEventEmitter["on"] },
+  opts: GateMetricsOptions = {},
+): GateMetrics {
+  const prefix = opts.prefix ?? "petriflow";
+  const buckets = [...(opts.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+
+  const decisions = series();
+  const blocks = series();
+  const fired = series();
+  const pending = series();
+  // Deferred calls counted in `pending`, so only those are counted back down
+  const deferred = new Set<string>();
+  const deferredKey = (e: { toolCallId: string; net: string; transition: string }) =>
+    JSON.stringify([e.toolCallId, e.net, e.transition]);
+  const approvals = new Map<string, ApprovalMetrics>();
+
+  const stops = [
+    source.on("decision", (e) => {
+      const outcome = e.shadowed ? "shadowed" : e.allowed ? "allowed" : "blocked";
+      decisions.add({ tool: e.toolName, outcome });
+      if (outcome !== "allowed") blocks.add({ net: e.net ?? "", tool: e.toolName });
+    }),
+    source.on("fired", (e) => fired.add({ net: e.net, transition: e.transition })),
+    source.on("deferred", (e) => {
+      deferred.add(deferredKey(e));
+      pending.add({ net: e.net });
+    }),
+    source.on("deferred-resolved", (e) => {
+      if (deferred.delete(deferredKey(e))) pending.add({ net: e.net }, -1);
+      if (e.fired) fired.add({ net: e.net, transition: e.transition });
+    }),
+    source.on("approval", (e) => {
+      let entry = approvals.get(e.net);
+      if (!entry) {
+        entry = { net: e.net, approved: 0, rejected: 0, waitSeconds: 0, waitBuckets: {} };
+        for (const bound of buckets) entry.waitBuckets[String(bound)] = 0;
+        approvals.set(e.net, entry);
+      }
+      const seconds = e.waitedMs / 1000;
+      if (e.approved) entry.approved++;
+      else entry.rejected++;
+      entry.waitSeconds += seconds;
+      for (const bound of buckets) {
+        if (seconds <= bound) entry.waitBuckets[String(bound)]!++;
+      }
+    }),
+  ];
+
+  const toJSON = (): GateMetricsSnapshot => ({
+    decisions: decisions.entries().map(({ labels, value }) => ({
+      tool: labels.tool!,
+      outcome: labels.outcome as "allowed" | "blocked" | "shadowed",
+      count: value,
+    })),
+    blocks: blocks.entries().map(({ labels, value }) => ({ net: labels.net!, tool: labels.tool!, count: value })),
+    fired: fired.entries().map(({ labels, value }) => ({
+      net: labels.net!,
+      transition: labels.transition!,
+      count: value,
+    })),
+    approvals: [...approvals.values()].map((a) => ({ ...a, waitBuckets: { ...a.waitBuckets } })),
+    pending: Object.fromEntries(pending.entries().map(({ labels, value }) => [labels.net!, value])),
+  });
+
+  const render = (): string => {
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string, samples: string[]) => {
+      lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`, ...samples);
+    };
+
+    family(
+      "decisions_total",
+      "counter",
+      "Tool calls gated, by tool and outcome.",
+      decisions.entries().map(({ labels, value }) => sample(`${prefix}_decisions_total`, labels, value)),
+    );
+    family(
+      "blocks_total",
+      "counter",
+      "Tool calls blocked (or shadowed), by blocking net and tool.",
+      blocks.entries().map(({ labels, value }) => sample(`${prefix}_blocks_total`, labels, value)),
+    );
+    family(
+      "transitions_fired_total",
+      "counter",
+      "Tool transitions fired, by net and transition.",
+      fired.entries().map(({ labels, value }) => sample(`${prefix}_transitions_fired_total`, labels, value)),
+    );
+    family(
+      "approvals_total",
+      "counter",
+      "Manual transition approvals, by net and outcome.",
+      [...approvals.values()].flatMap((a) => [
+        sample(`${prefix}_approvals_total`, { net: a.net, outcome: "approved" }, a.approved),
+        sample(`${prefix}_approvals_total`, { net: a.net, outcome: "rejected" }, a.rejected),
+      ]),
+    );
+    family(
+      "approval_wait_seconds",
+      "histogram",
+      "Time from asking for an approval to the answer, by net.",
+      [...approvals.values()].flatMap((a) => {
+        const count = a.approved + a.rejected;
+        return [
+          ...buckets.map((bound) =>
+            sample(`${prefix}_approval_wait_seconds_bucket`, { net: a.net, le: String(bound) }, a.waitBuckets[String(bound)]!),
+          ),
+          sample(`${prefix}_approval_wait_seconds_bucket`, { net: a.net, le: "+Inf" }, count),
+          sample(`${prefix}_approval_wait_seconds_sum`, { net: a.net }, a.waitSeconds),
+          sample(`${prefix}_approval_wait_seconds_count`, { net: a.net }, count),
+        ];
+      }),
+    );
+    family(
+      "pending_deferred",
+      "gauge",
+      "Deferred calls awaiting their result, by net.",
+      pending.entries().map(({ labels, value }) => sample(`${prefix}_pending_deferred`, labels, value)),
+    );
+
+    return `${lines.join("\n")}\n`;
+  };
+
+  return {
+    render,
+    toJSON,
+    stop() {
+      for (const stop of stops) stop();
+    },
+  };
+}
@@ -0,0 +1,206 @@
+import { describe, expect, it } from "bun:test";
+import { defineSkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import type { AuditEvent } from "./audit.js";
+import { parseOverrideCommand } from "./overrides.js";
+import type { OverrideOptions } from "./overrides.js";
+import type { GateContext, GateToolCall } from "./events.js";
+
+let callIdCounter = 0;
+function makeEvent(toolName: string, input: Record<string, unknown> = {}): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input };
+}
+
+const ctx: GateContext = { hasUI: false, confirm: async () => false };
+
+// One deploy per session
+const deployOnce = defineSkillNet({
+  name: "deploy-once",
+  places: ["budget"],
+  initialMarking: { budget: 1 },
+  transitions: [{ name: "deploy", type: "auto", inputs: ["budget"], outputs: [], tools: ["deploy"] }],
+  freeTools: ["ls"],
+  terminalPlaces: [],
+});
+
+// Deploys need a human
+const approveDeploy = defineSkillNet({
+  name: "approve-deploy",
+  places: ["ready"],
+  initialMarking: { ready: 1 },
+  transitions: [{ name: "approve", type: "manual", inputs: ["ready"], outputs: ["ready"], tools: ["deploy"] }],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+function override(opts: Partial<OverrideOptions> = {}): OverrideOptions {
+  return { net: "deploy-once", tool: "deploy", expiresAt: 60_000, reason: "INC-42", actor: "alice", ...opts };
+}
+
+/** A manager that has spent its one deploy */
+async function spent(opts: { now?: () => number; records?: AuditEvent[] } = {}) {
+  const records = opts.records;
+  const audit = records ? { append: (e: AuditEvent) => void records.push(e), flush: async () => {} } : undefined;
+  const manager = createGateManager([deployOnce], { mode: "enforce", now: opts.now ?? (() => 0), audit });
+  expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+  return manager;
+}
+
+describe("GateManager.grantOverride", () => {
+  it("lets the granted number of blocked calls through without touching the marking", async () => {
+    const manager = await spent();
+    expect(manager.grantOverride(override({ count: 2 })).ok).toBe(true);
+
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+    expect((await manager.handleToolCall(makeEvent("deploy"), ctx))?.block).toBe(true);
+    expect(manager.getActiveNets()[0]!.state.marking).toEqual({ budget: 0 });
+    expect(manager.getOverrides()).toEqual([]);
+  });
+
+  it("leaves calls the net allows to the net", async () => {
+    const manager = createGateManager([deployOnce], { mode: "enforce", now: () => 0 });
+    manager.grantOverride(override());
+    await manager.handleToolCall(makeEvent("deploy"), ctx);
+    expect(manager.getActiveNets()[0]!.state.marking).toEqual({ budget: 0 });
+    expect(manager.getOverrides()[0]!.remaining).toBe(1);
+  });
+
+  it("expires", async () => {
+    let now = 0;
+    const manager = await spent({ now: () => now });
+    manager.grantOverride(override({ expiresAt: 1_000 }));
+    now = 1_000;
+    expect((await manager.handleToolCall(makeEvent("deploy"), ctx))?.block).toBe(true);
+    expect(manager.getOverrides()).toEqual([]);
+  });
+
+  it("does not spend a use on a call another net blocks", async () => {
+    const manager = createGateManager([deployOnce, approveDeploy], { mode: "enforce", now: () => 0 });
+    const approving: GateContext = { hasUI: true, confirm: async () => true };
+    await manager.handleToolCall(makeEvent("deploy"), approving);
+    manager.grantOverride(override());
+
+    // No UI: approve-deploy still blocks, and the override is kept
+    expect((await manager.handleToolCall(makeEvent("deploy"), ctx))?.block).toBe(true);
+    expect(manager.getOverrides()[0]!.remaining).toBe(1);
+
+    expect(await manager.handleToolCall(makeEvent("deploy"), approving)).toBeUndefined();
+    expect(manager.getOverrides()).toEqual([]);
+  });
+
+  it("spends no uses in shadow mode, where blocked calls go through anyway", async () => {
+    const manager = createGateManager([deployOnce, approveDeploy], { mode: "shadow", now: () => 0 });
+    const approving: GateContext = { hasUI: true, confirm: async () => true };
+    await manager.handleToolCall(makeEvent("deploy"), approving);
+    manager.grantOverride(override());
+
+    // Shadowed block by approve-deploy, and a call the override alone lets through
+    expect(await manager.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+    expect(await manager.handleToolCall(makeEvent("deploy"), approving)).toBeUndefined();
+    expect(manager.getOverrides()[0]!.remaining).toBe(1);
+  });
+
+  it("hands the use back when the call throws", async () => {
+    const manager = createGateManager([deployOnce, approveDeploy], { mode: "enforce", now: () => 0 });
+    await manager.handleToolCall(makeEvent("deploy"), { hasUI: true, confirm: async () => true });
+    manager.grantOverride(override());
+
+    const failing: GateContext = {
+      hasUI: true,
+      confirm: async () => {
+        throw new Error("prompt closed");
+      },
+    };
+    await expect(manager.handleToolCall(makeEvent("deploy"), failing)).rejects.toThrow("prompt closed");
+    expect(manager.getOverrides()[0]!.remaining).toBe(1);
+  });
+
+  it("audits grants, uses and revocations", async () => {
+    const records: AuditEvent[] = [];
+    const manager = await spent({ records });
+    const { override: granted } = manager.grantOverride(override({ count: 2 }));
+    const event = makeEvent("deploy");
+    await manager.handleToolCall(event, ctx);
+    manager.revokeOverride(granted!.id);
+    await manager.handleToolCall(makeEvent("deploy"), ctx);
+
+    const kinds = records.map((r) => r.type);
+    expect(kinds.filter((k) => k.startsWith("override_"))).toEqual([
+      "override_granted",
+      "override_used",
+      "override_revoked",
+    ]);
+    expect(records.find((r) => r.type === "override_used")).toMatchObject({
+      toolCallId: event.toolCallId,
+      id: granted!.id,
+      net: "deploy-once",
+      tool: "deploy",
+      remaining: 1,
+      reason: "INC-42",
+      actor: "alice",
+    });
+    const call = records.find((r) => r.type === "tool_call" && r.toolCallId === event.toolCallId);
+    expect(call).toMatchObject({
+      verdicts: [{ net: "deploy-once", verdict: "overridden", override: granted!.id }],
+    });
+  });
+
+  it("refuses unknown nets, ungated tools and bad terms", () => {
+    const manager = createGateManager({ registry: { deploys: deployOnce } }, { mode: "enforce", now: () => 0 });
+    expect(manager.grantOverride(override({ net: "nope" })).message).toBe("Unknown net 'nope'. Available: deploys");
+    expect(manager.grantOverride(override({ tool: "ls" })).message).toBe("'deploys' does not gate 'ls'");
+    expect(manager.grantOverride(override({ count: 0 })).ok).toBe(false);
+    expect(manager.grantOverride(override({ expiresAt: 0 })).ok).toBe(false);
+    expect(manager.grantOverride(override({ reason: " " })).ok).toBe(false);
+
+    // Registry and net names both work
+    expect(manager.grantOverride(override({ net: "deploys" })).override?.net).toBe("deploy-once");
+  });
+
+  it("shows live overrides in the status", async () => {
+    const manager = await spent();
+    const { override: granted } = manager.grantOverride(override());
+    expect(manager.formatStatus()).toContain(
+      `Overrides:\n  ${granted!.id}: 1 call of 'deploy' past 'deploy-once' for 1m — INC-42 (alice)`,
+    );
+  });
+
+  it("survives snapshots", async () => {
+    const manager = await spent();
+    manager.grantOverride(override());
+
+    const restored = createGateManager([deployOnce], { mode: "enforce", now: () => 0 });
+    restored.restore(JSON.parse(JSON.stringify(manager.snapshot())));
+    expect(await restored.handleToolCall(makeEvent("deploy"), ctx)).toBeUndefined();
+    expect(restored.snapshot().overrides).toBeUndefined();
+  });
+});
+
+describe("parseOverrideCommand", () => {
+  it("reads count, duration and reason", () => {
+    expect(parseOverrideCommand("deploy-once deploy 3 2h INC-42 hotfix", "bob", 1_000)).toEqual({
+      ok: true,
+      options: {
+        net: "deploy-once",
+        tool: "deploy",
+        count: 3,
+        expiresAt: 1_000 + 7_200_000,
+        reason: "INC-42 hotfix",
+        actor: "bob",
+      },
+    });
+  });
+
+  it("defaults to one call for 15 minutes", () => {
+    const parsed = parseOverrideCommand("deploy-once deploy INC-42", "bob", 0);
+    expect(parsed).toMatchObject({ ok: true, options: { count: 1, expiresAt: 900_000 } });
+  });
+
+  it("needs a reason", () => {
+    expect(parseOverrideCommand("deploy-once deploy 2 30m", "bob", 0)).toEqual({
+      ok: false,
+      message: "Usage: /override <net> <tool> [count] [duration, e.g. 30m] <reason>",
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { formatDuration } from "./format.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What `GateManager.grantOverride` asks for */
+export type OverrideOptions = {
+  /** The net to let calls through — its registry name or net name */
+  net: string;
+  /** The tool, as the net sees it (after its toolMapper) */
+  tool: string;
+  /** Calls to let through. Defaults to 1. */
+  count?: number;
+  /** Epoch milliseconds */
+  expiresAt: number;
+  /** Why, for the audit log — e.g. an incident number */
+  reason: string;
+  /** Who granted it */
+  actor: string;
+};
+
+/**
+ * Capacity to let calls of a tool through a net that would block them,
+ * kept apart from the net's marking
+ */
+export type GateOverride = {
+  id: string;
+  /** The net's name */
+  net: string;
+  tool: string;
+  /** Calls left */
+  remaining: number;
+  expiresAt: number;
+  reason: string;
+  actor: string;
+  createdAt: number;
+};
+
+export type OverrideResult = { ok: boolean; message: string; override?: GateOverride };
+
+/** What `parseOverrideCommand` makes of a command's arguments */
+export type ParsedOverrideCommand = { ok: true; options: OverrideOptions } | { ok: false; message: string };
+
+/** How long a command-line override lasts without a duration */
+const DEFAULT_OVERRIDE_MS = 15 * 60_000;
+
+const OVERRIDE_USAGE = "Usage: /override <net> <tool> [count] [duration, e.g. 30m] <reason>";
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+// ---------------------------------------------------------------------------
+// Ledger
+// ---------------------------------------------------------------------------
+
+/**
+ * The manager's live overrides. A call takes one use of an override as a
+ * net blocks it, and `settle` spends the uses once the call is decided —
+ * or hands them back when something else blocked it.
+ */
+export function createOverrideLedger(clock: () => number) {
+  const overrides = new Map<string, GateOverride>();
+  // Uses taken by calls in flight, by toolCallId
+  const held = new Map<string, GateOverride[]>();
+
+  const live = () => {
+    const now = clock();
+    for (const [id, o] of overrides) {
+      if (o.expiresAt <= now) overrides.delete(id);
+    }
+    return [...overrides.values()];
+  };
+
+  return {
+    add(override: GateOverride) {
+      overrides.set(override.id, { ...override });
+    },
+
+    list: () => live().map((o) => ({ ...o })),
+
+    revoke(id: string): GateOverride | undefined {
+      const override = overrides.get(id);
+      overrides.delete(id);
+      return override;
+    },
+
+    take(toolCallId: string, net: string, tool: string): GateOverride | undefined {
+      const override = live().find((o) => o.net === net && o.tool === tool && o.remaining > 0);
+      if (!override) return undefined;
+      override.remaining--;
+      held.set(toolCallId, [...(held.get(toolCallId) ?? []), { ...override }]);
+      return { ...override };
+    },
+
+    /** The uses a call took, spent when `used`; otherwise handed back */
+    settle(toolCallId: string, used: boolean): GateOverride[] {
+      const taken = held.get(toolCallId) ?? [];
+      held.delete(toolCallId);
+      for (const { id } of taken) {
+        const current = overrides.get(id);
+        if (!current) continue;
+        if (!used) current.remaining++;
+        else if (current.remaining === 0) overrides.delete(id);
+      }
+      return used ? taken : [];
+    },
+
+    /** Replace every override, e.g. from a snapshot */
+    load(saved: GateOverride[]) {
+      overrides.clear();
+      for (const o of saved) overrides.set(o.id, { ...o });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Formatting and commands
+// ---------------------------------------------------------------------------
+
+/** One line per live override, for status output */
+export function formatOverride(override: GateOverride, now: number): string {
+  const calls = override.remaining === 1 ? "1 call" : `${override.remaining} calls`;
+  return `${override.id}: ${calls} of '${override.tool}' past '${override.net}' for ${formatDuration(override.expiresAt - now)} — ${override.reason} (${override.actor})`;
+}
+
+/**
+ * Parse `/override` arguments: `<net> <tool> [count] [duration] <reason>`,
+ * e.g. `deploy-limit deploy 2 30m INC-1234 hotfix`. One call for 15
+ * minutes unless given.
+ */
+export function parseOverrideCommand(args: string, actor: string, now: number): ParsedOverrideCommand {
+  const words = args.trim().split(/\s+/).filter(Boolean);
+  const [net, tool] = words;
+  let rest = words.slice(2);
+
+  let count = 1;
+  if (rest[0] !== undefined && /^\d+$/.test(rest[0])) {
+    count = Number(rest[0]);
+    rest = rest.slice(1);
+  }
+
+  let ms = DEFAULT_OVERRIDE_MS;
+  const duration = rest[0] === undefined ? null : /^(\d+)([smhd])$/.exec(rest[0]);
+  if (duration) {
+    ms = Number(duration[1]) * DURATION_UNITS[duration[2]!]!;
+    rest = rest.slice(1);
+  }
+
+  if (!net || !tool || rest.length === 0) return { ok: false, message: OVERRIDE_USAGE };
+  return { ok: true, options: { net, tool, count, expiresAt: now + ms, reason: rest.join(" "), actor } };
+}
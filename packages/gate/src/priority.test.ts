@@ -0,0 +1,143 @@
+import { describe, expect, it } from "bun:test";
+import { defineSkillNet } from "./types.js";
+import type { GatedTransition } from "./types.js";
+import { createGateManager } from "./manager.js";
+import type { DecisionDetail } from "./manager.js";
+import { autoAdvance } from "./advance.js";
+import { classifyNets } from "./compose.js";
+import { createGateState, handleToolCall } from "./gate.js";
+import type { GateContext, GateToolCall } from "./events.js";
+
+let callIdCounter = 0;
+function makeEvent(toolName: string, input: Record<string, unknown> = {}): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input };
+}
+
+const ctx: GateContext = { hasUI: false, confirm: async () => false };
+
+type Place = "ready" | "deployed" | "incident";
+
+function deployTransitions(priority?: { ordinary?: number; emergency?: number }): GatedTransition<Place>[] {
+  return [
+    { name: "deploy", type: "auto", inputs: ["ready"], outputs: ["deployed"], tools: ["deploy"], priority: priority?.ordinary },
+    {
+      name: "emergency-deploy",
+      type: "auto",
+      inputs: ["ready"],
+      outputs: ["incident"],
+      tools: ["deploy"],
+      priority: priority?.emergency,
+    },
+  ];
+}
+
+function deployNet(opts: { priority?: { ordinary?: number; emergency?: number }; resolve?: boolean } = {}) {
+  return defineSkillNet<Place>({
+    name: "deploy",
+    places: ["ready", "deployed", "incident"],
+    initialMarking: { ready: 1, deployed: 0, incident: 0 },
+    transitions: deployTransitions(opts.priority),
+    freeTools: [],
+    terminalPlaces: [],
+    ...(opts.resolve
+      ? {
+          resolveTransition: (candidates, { event }) =>
+            candidates.find((t) => (t.name === "emergency-deploy") === (event.input.emergency === true)),
+        }
+      : {}),
+  });
+}
+
+describe("transition priorities — tool matches", () => {
+  it("takes the first matching transition when priorities tie", async () => {
+    const net = deployNet();
+    const state = createGateState({ ...net.initialMarking });
+    await handleToolCall(makeEvent("deploy"), ctx, net, state);
+    expect(state.marking).toEqual({ ready: 0, deployed: 1, incident: 0 });
+  });
+
+  it("takes the highest priority regardless of array order", async () => {
+    const net = deployNet({ priority: { emergency: 1 } });
+    const state = createGateState({ ...net.initialMarking });
+    await handleToolCall(makeEvent("deploy"), ctx, net, state);
+    expect(state.marking).toEqual({ ready: 0, deployed: 0, incident: 1 });
+  });
+
+  it("lets the net's resolver choose from the call", async () => {
+    const net = deployNet({ resolve: true });
+    const ordinary = createGateState({ ...net.initialMarking });
+    await handleToolCall(makeEvent("deploy"), ctx, net, ordinary);
+    expect(ordinary.marking.deployed).toBe(1);
+
+    const emergency = createGateState({ ...net.initialMarking });
+    await handleToolCall(makeEvent("deploy", { emergency: true }), ctx, net, emergency);
+    expect(emergency.marking.incident).toBe(1);
+  });
+
+  it("ignores a resolver answer outside the candidates", async () => {
+    const net = defineSkillNet<Place>({
+      ...deployNet({ priority: { emergency: 1 } }),
+      resolveTransition: () => ({ name: "rogue", type: "auto", inputs: [], outputs: ["deployed"] }),
+    });
+    const state = createGateState({ ...net.initialMarking });
+    await handleToolCall(makeEvent("deploy"), ctx, net, state);
+    expect(state.marking.incident).toBe(1);
+  });
+
+  it("lists the candidates in the verdict", () => {
+    const net = deployNet({ priority: { emergency: 1 } });
+    const [verdict] = classifyNets([net], [createGateState({ ...net.initialMarking })], makeEvent("deploy"));
+    expect(verdict).toMatchObject({ kind: "gated", candidates: ["deploy", "emergency-deploy"] });
+    expect(verdict!.kind === "gated" && verdict!.transition.name).toBe("emergency-deploy");
+  });
+
+  it("reports the chosen transition with the decision", async () => {
+    const details: DecisionDetail[] = [];
+    const manager = createGateManager([deployNet({ resolve: true })], {
+      mode: "enforce",
+      onDecision: (_event, _decision, detail) => details.push(detail),
+    });
+    await manager.handleToolCall(makeEvent("deploy", { emergency: true }), ctx);
+    await manager.handleToolCall(makeEvent("deploy"), ctx);
+
+    expect(details).toEqual([
+      {
+        transitions: [
+          { net: "deploy", transition: "emergency-deploy", candidates: ["deploy", "emergency-deploy"] },
+        ],
+      },
+      { transitions: [] },
+    ]);
+  });
+
+  it("replays through the same choice", () => {
+    const manager = createGateManager([deployNet({ resolve: true })]);
+    manager.replay([{ toolName: "deploy", input: { emergency: true }, isError: false }]);
+    expect(manager.getActiveNets()[0]!.state.marking).toEqual({ ready: 0, deployed: 0, incident: 1 });
+  });
+});
+
+describe("transition priorities — structural conflicts", () => {
+  const forkNet = (priority?: number) =>
+    defineSkillNet({
+      name: "fork",
+      places: ["start", "left", "right"],
+      initialMarking: { start: 1, left: 0, right: 0 },
+      transitions: [
+        { name: "go-left", type: "auto", inputs: ["start"], outputs: ["left"] },
+        { name: "go-right", type: "auto", inputs: ["start"], outputs: ["right"], priority },
+      ],
+      freeTools: [],
+      terminalPlaces: [],
+    });
+
+  it("fires neither transition when priorities tie", () => {
+    const net = forkNet();
+    expect(autoAdvance(net, { ...net.initialMarking })).toEqual({ start: 1, left: 0, right: 0 });
+  });
+
+  it("fires the higher-priority transition", () => {
+    const net = forkNet(1);
+    expect(autoAdvance(net, { ...net.initialMarking })).toEqual({ start: 0, left: 0, right: 1 });
+  });
+});
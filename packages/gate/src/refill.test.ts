@@ -0,0 +1,122 @@
+import { describe, expect, it } from "bun:test";
+import { defineSkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import { autoAdvance } from "./advance.js";
+import { createGateState, handleToolCall } from "./gate.js";
+import { formatBlockReason, formatDuration } from "./format.js";
+import type { GateContext, GateToolCall } from "./events.js";
+
+let callIdCounter = 0;
+function makeEvent(toolName: string): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input: {} };
+}
+
+function makeCtx(now?: () => number): GateContext {
+  return { hasUI: false, confirm: async () => false, now };
+}
+
+const MINUTE = 60_000;
+
+// 2 sends per minute, sliding window
+const windowedNet = defineSkillNet({
+  name: "limit-send-2-per-1m",
+  places: ["ready", "budget", "spent"],
+  terminalPlaces: [],
+  freeTools: [],
+  initialMarking: { ready: 1, budget: 2, spent: 0 },
+  transitions: [
+    { name: "do-send", type: "auto" as const, inputs: ["ready", "budget"], outputs: ["ready", "spent"], tools: ["send"] },
+  ],
+  refills: [{ transition: "do-send", from: "spent", to: "budget", windowMs: MINUTE }],
+  ruleMetadata: { kind: "limit", tool: "send", limit: 2, scope: "1m", windowMs: MINUTE },
+});
+
+describe("timed refills — GateManager", () => {
+  it("blocks once the window budget is spent and reports the refill time", async () => {
+    let now = 0;
+    const manager = createGateManager([windowedNet], { mode: "enforce", now: () => now });
+
+    expect(await manager.handleToolCall(makeEvent("send"), makeCtx())).toBeUndefined();
+    now = 10_000;
+    expect(await manager.handleToolCall(makeEvent("send"), makeCtx())).toBeUndefined();
+
+    now = 20_000;
+    expect(await manager.handleToolCall(makeEvent("send"), makeCtx())).toEqual({
+      block: true,
+      reason: "send has reached its limit of 2 calls per 1m. Budget refills in 40s.",
+    });
+  });
+
+  it("returns each token one window after it was spent", async () => {
+    let now = 0;
+    const manager = createGateManager([windowedNet], { mode: "enforce", now: () => now });
+
+    await manager.handleToolCall(makeEvent("send"), makeCtx());
+    now = 30_000;
+    await manager.handleToolCall(makeEvent("send"), makeCtx());
+
+    // First token back at 60s, second still out
+    now = MINUTE;
+    expect(await manager.handleToolCall(makeEvent("send"), makeCtx())).toBeUndefined();
+    expect(await manager.handleToolCall(makeEvent("send"), makeCtx())).toEqual({
+      block: true,
+      reason: expect.stringContaining("Budget refills in 30s."),
+    });
+
+    now = 90_000;
+    expect(await manager.handleToolCall(makeEvent("send"), makeCtx())).toBeUndefined();
+  });
+
+  it("prefers the context clock over the manager clock", async () => {
+    const manager = createGateManager([windowedNet], { mode: "enforce", now: () => 0 });
+
+    await manager.handleToolCall(makeEvent("send"), makeCtx());
+    await manager.handleToolCall(makeEvent("send"), makeCtx());
+
+    const later = await manager.handleToolCall(makeEvent("send"), makeCtx(() => 2 * MINUTE));
+    expect(later).toBeUndefined();
+  });
+
+  it("schedules refills for replayed calls", async () => {
+    let now = 0;
+    const manager = createGateManager([windowedNet], { mode: "enforce", now: () => now });
+    manager.replay(["send", "send"]);
+
+    expect((await manager.handleToolCall(makeEvent("send"), makeCtx()))?.block).toBe(true);
+    now = MINUTE;
+    expect(await manager.handleToolCall(makeEvent("send"), makeCtx())).toBeUndefined();
+  });
+});
+
+describe("timed refills — single net", () => {
+  it("handleToolCall applies refills using ctx.now", async () => {
+    const state = createGateState(autoAdvance(windowedNet, { ...windowedNet.initialMarking }));
+    const ctx = makeCtx(() => 0);
+
+    await handleToolCall(makeEvent("send"), ctx, windowedNet, state);
+    await handleToolCall(makeEvent("send"), ctx, windowedNet, state);
+    expect(state.refills).toHaveLength(2);
+
+    const result = await handleToolCall(makeEvent("send"), makeCtx(() => MINUTE), windowedNet, state);
+    expect(result).toBeUndefined();
+    expect(state.marking).toEqual({ ready: 1, budget: 1, spent: 1 });
+  });
+});
+
+describe("formatBlockReason — windowed limits", () => {
+  it("omits the refill hint when no refill is scheduled", () => {
+    expect(formatBlockReason(windowedNet, "send")).toBe(
+      "send has reached its limit of 2 calls per 1m.",
+    );
+  });
+});
+
+describe("formatDuration", () => {
+  it("formats seconds, minutes, hours and days", () => {
+    expect(formatDuration(400)).toBe("1s");
+    expect(formatDuration(42_000)).toBe("42s");
+    expect(formatDuration(185_000)).toBe("3m 5s");
+    expect(formatDuration(2 * 3600_000 + 10 * MINUTE)).toBe("2h 10m");
+    expect(formatDuration(86400_000)).toBe("1d");
+  });
+});
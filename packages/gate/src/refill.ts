@@ -0,0 +1,75 @@
+import type { GatedTransition, SkillNet } from "./types.js";
+import type { GateState } from "./gate.js";
+import { autoAdvance } from "./advance.js";
+
+/** A token due to move back to its budget place */
+export type ScheduledRefill<P extends string> = {
+  from: P;
+  to: P;
+  due: number;
+  /** Tokens to move; 1 when absent */
+  count?: number;
+};
+
+/**
+ * Schedule the refills declared for a transition that just fired. A
+ * cost-charged transition passes its charge, so the whole charge comes
+ * back when the window elapses.
+ */
+export function scheduleRefills<P extends string>(
+  net: SkillNet<P>,
+  state: GateState<P>,
+  transition: GatedTransition<P>,
+  now: number,
+  charge?: number,
+): void {
+  const count = transition.cost ? (charge ?? 0) : 1;
+  if (count === 0) return;
+  for (const r of net.refills ?? []) {
+    if (r.transition !== transition.name) continue;
+    const refill: ScheduledRefill<P> = { from: r.from, to: r.to, due: now + r.windowMs };
+    if (count !== 1) refill.count = count;
+    state.refills.push(refill);
+  }
+}
+
+/**
+ * Move every token whose window has elapsed back to its budget place,
+ * then auto-advance. Returns true if the marking changed.
+ */
+export function applyRefills<P extends string>(
+  net: SkillNet<P>,
+  state: GateState<P>,
+  now: number,
+): boolean {
+  if (state.refills.length === 0) return false;
+
+  let changed = false;
+  const remaining: ScheduledRefill<P>[] = [];
+  for (const r of state.refills) {
+    const count = r.count ?? 1;
+    if (r.due > now || (state.marking[r.from] ?? 0) < count) {
+      remaining.push(r);
+      continue;
+    }
+    state.marking = {
+      ...state.marking,
+      [r.from]: state.marking[r.from] - count,
+      [r.to]: (state.marking[r.to] ?? 0) + count,
+    };
+    changed = true;
+  }
+  state.refills = remaining;
+  if (changed) state.marking = autoAdvance(net, state.marking);
+  return changed;
+}
+
+/** Milliseconds until the next scheduled refill, or undefined if none. */
+export function nextRefillIn<P extends string>(
+  state: GateState<P>,
+  now: number,
+): number | undefined {
+  if (state.refills.length === 0) return undefined;
+  const due = Math.min(...state.refills.map((r) => r.due));
+  return Math.max(0, due - now);
+}
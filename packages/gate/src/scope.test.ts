@@ -0,0 +1,159 @@
+import { describe, expect, it } from "bun:test";
+import { defineSkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import type { GateManager } from "./manager.js";
+import type { AuditEvent } from "./audit.js";
+import type { GateContext, GateToolCall } from "./events.js";
+
+let callIdCounter = 0;
+function makeEvent(toolName: string, input: Record<string, unknown> = {}): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input };
+}
+
+const ctx: GateContext = { hasUI: false, confirm: async () => false };
+
+// test (deferred) before deploy
+const testBeforeDeploy = defineSkillNet({
+  name: "test-before-deploy",
+  places: ["ready", "tested"],
+  initialMarking: { ready: 1, tested: 0 },
+  transitions: [
+    { name: "run-test", type: "auto", inputs: ["ready"], outputs: ["tested"], tools: ["test"], deferred: true },
+    { name: "run-deploy", type: "auto", inputs: ["tested"], outputs: ["ready"], tools: ["deploy"] },
+  ],
+  freeTools: ["ls"],
+  terminalPlaces: [],
+});
+
+// 2 searches per session
+const searchLimit = defineSkillNet({
+  name: "search-limit",
+  places: ["budget"],
+  initialMarking: { budget: 2 },
+  transitions: [{ name: "search", type: "auto", inputs: ["budget"], outputs: [], tools: ["search"] }],
+  freeTools: [],
+  terminalPlaces: [],
+  ruleMetadata: { kind: "limit", tool: "search", limit: 2, scope: "session" },
+});
+
+// No pushes at all
+const noPush = defineSkillNet({
+  name: "no-push",
+  places: ["never"],
+  initialMarking: { never: 0 },
+  transitions: [{ name: "push", type: "auto", inputs: ["never"], outputs: ["never"], tools: ["push"] }],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+/** Call `tool` and report its result as a success */
+async function succeed(manager: Pick<GateManager, "handleToolCall" | "handleToolResult">, tool: string) {
+  const event = makeEvent(tool);
+  const decision = await manager.handleToolCall(event, ctx);
+  if (!decision) manager.handleToolResult({ ...event, isError: false });
+  return decision;
+}
+
+describe("GateManager.createChild", () => {
+  it("keeps the child's sequence state apart from the parent's", async () => {
+    const parent = createGateManager([testBeforeDeploy], { mode: "enforce" });
+    const child = parent.createChild();
+
+    expect(await succeed(child, "test")).toBeUndefined();
+    expect(await succeed(child, "deploy")).toBeUndefined();
+    expect((await succeed(parent, "deploy"))?.block).toBe(true);
+    expect(parent.getActiveNets()[0]!.state.marking).toEqual({ ready: 1, tested: 0 });
+  });
+
+  it("draws limit budgets down from the parent", async () => {
+    const parent = createGateManager([searchLimit], { mode: "enforce" });
+    const child = parent.createChild();
+    const grandchild = child.createChild();
+
+    expect(await succeed(child, "search")).toBeUndefined();
+    expect(await succeed(grandchild, "search")).toBeUndefined();
+    expect((await succeed(parent, "search"))?.block).toBe(true);
+    expect((await succeed(child, "search"))?.block).toBe(true);
+  });
+
+  it("shares the nets named in share instead", async () => {
+    const parent = createGateManager([testBeforeDeploy, searchLimit], { mode: "enforce" });
+    const child = parent.createChild({ share: ["test-before-deploy"] });
+
+    await succeed(child, "test");
+    expect(await succeed(parent, "deploy")).toBeUndefined();
+
+    await succeed(child, "search");
+    await succeed(child, "search");
+    expect(await succeed(parent, "search")).toBeUndefined();
+  });
+
+  it("tightens the parent's rules with nets of its own", async () => {
+    const parent = createGateManager({ registry: { budget: searchLimit } }, { mode: "enforce" });
+    const child = parent.createChild({ nets: [noPush] });
+
+    expect((await succeed(child, "push"))?.block).toBe(true);
+    expect(await succeed(parent, "push")).toBeUndefined();
+    expect(child.getActiveNets().map((n) => n.name)).toEqual(["search-limit", "no-push"]);
+  });
+
+  it("refuses to share a net the parent does not have", () => {
+    const parent = createGateManager([searchLimit], { mode: "enforce" });
+    expect(() => parent.createChild({ name: "worker", share: ["nope"] })).toThrow(
+      "Cannot share 'nope' with scope 'worker': not an active net",
+    );
+  });
+});
+
+describe("ChildScope.finish", () => {
+  it("replays returned results into the parent", async () => {
+    const parent = createGateManager([testBeforeDeploy], { mode: "enforce" });
+    const child = parent.createChild({ returns: ["test"] });
+
+    const failed = makeEvent("test");
+    await child.handleToolCall(failed, ctx);
+    child.handleToolResult({ ...failed, isError: true });
+    await succeed(child, "test");
+    expect((await succeed(parent, "deploy"))?.block).toBe(true);
+
+    expect(child.finish()).toEqual([{ toolName: "test", input: {}, isError: false }]);
+    expect(await succeed(parent, "deploy")).toBeUndefined();
+  });
+
+  it("returns only the tools listed", async () => {
+    const parent = createGateManager([testBeforeDeploy], { mode: "enforce" });
+    const child = parent.createChild();
+    await succeed(child, "test");
+    expect(child.finish()).toEqual([]);
+    expect((await succeed(parent, "deploy"))?.block).toBe(true);
+  });
+
+  it("does not charge shared budgets twice", async () => {
+    const parent = createGateManager([searchLimit], { mode: "enforce" });
+    const child = parent.createChild({ returns: ["search"] });
+    await succeed(child, "search");
+    child.finish();
+    expect(parent.getActiveNets()[0]!.state.marking).toEqual({ budget: 1 });
+  });
+
+  it("blocks later calls and audits the hand-back", async () => {
+    const records: AuditEvent[] = [];
+    const audit = { append: (e: AuditEvent) => void records.push(e), flush: async () => {} };
+    const parent = createGateManager([testBeforeDeploy, searchLimit], { mode: "enforce", audit });
+    const child = parent.createChild({ name: "tester", returns: ["test"] });
+    await succeed(child, "test");
+    child.finish();
+
+    expect(await succeed(child, "ls")).toEqual({ block: true, reason: "Scope 'tester' has finished." });
+    expect(child.finish()).toEqual([]);
+    expect(records.filter((r) => r.type === "scope_finished")).toEqual([
+      {
+        type: "scope_finished",
+        scope: "tester",
+        returned: [{ toolName: "test", input: {}, isError: false }],
+        before: { "test-before-deploy": { ready: 1, tested: 0 } },
+        after: { "test-before-deploy": { ready: 0, tested: 1 } },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "bun:test";
+import { defineSkillNet } from "./types.js";
+import type { SkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import { diffSimulation, simulate } from "./simulate.js";
+import type { TraceEntry } from "./simulate.js";
+
+// ---------------------------------------------------------------------------
+// Nets
+// ---------------------------------------------------------------------------
+
+// deploy only after a successful test
+const testBeforeDeploy = defineSkillNet({
+  name: "test-before-deploy",
+  places: ["idle", "ready", "tested"],
+  initialMarking: { idle: 1, ready: 0, tested: 0 },
+  transitions: [
+    { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+    { name: "run-test", type: "auto", inputs: ["ready"], outputs: ["tested"], tools: ["test"], deferred: true },
+    { name: "run-deploy", type: "auto", inputs: ["tested"], outputs: ["ready"], tools: ["deploy"] },
+  ],
+  freeTools: ["ls"],
+  terminalPlaces: [],
+});
+
+// at most two deploys per hour
+const deployBudget = defineSkillNet({
+  name: "deploy-budget",
+  places: ["budget", "spent"],
+  initialMarking: { budget: 2, spent: 0 },
+  transitions: [
+    { name: "spend", type: "auto", inputs: ["budget"], outputs: ["spent"], tools: ["deploy"] },
+  ],
+  refills: [{ transition: "spend", from: "spent", to: "budget", windowMs: 3_600_000 }],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+// deploys need a human
+const approveDeploy = defineSkillNet({
+  name: "approve-deploy",
+  places: ["ready"],
+  initialMarking: { ready: 1 },
+  transitions: [
+    { name: "approve", type: "manual", inputs: ["ready"], outputs: ["ready"], tools: ["deploy"] },
+  ],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+// never deploy to prod
+const noProd: SkillNet<string> = defineSkillNet({
+  name: "no-prod",
+  places: ["ready"],
+  initialMarking: { ready: 1 },
+  transitions: [
+    { name: "deploy", type: "auto", inputs: ["ready"], outputs: ["ready"], tools: ["deploy"] },
+  ],
+  freeTools: [],
+  terminalPlaces: [],
+  validateToolCall(event) {
+    if (event.input.env === "prod") return { block: true, reason: "No prod deploys." };
+  },
+});
+
+const trace: TraceEntry[] = [
+  { toolName: "ls", isError: false },
+  { toolName: "test", isError: false },
+  { toolName: "deploy", input: { env: "staging" }, isError: false },
+  { toolName: "deploy", input: { env: "prod" }, isError: false },
+];
+
+// ---------------------------------------------------------------------------
+// simulate
+// ---------------------------------------------------------------------------
+
+describe("simulate", () => {
+  it("reports each call's decision, blocking net and markings", async () => {
+    const steps = await simulate([testBeforeDeploy], trace);
+
+    expect(steps.map((s) => s.decision?.block ?? false)).toEqual([false, false, false, true]);
+    expect(steps[0]).toMatchObject({ index: 0, toolCallId: "sim-0", toolName: "ls", input: {} });
+    expect(steps[1]!.markings).toEqual({ "test-before-deploy": { idle: 0, ready: 0, tested: 1 } });
+    expect(steps[2]!.markings).toEqual({ "test-before-deploy": { idle: 0, ready: 1, tested: 0 } });
+    expect(steps[3]).toMatchObject({
+      blockingNet: "test-before-deploy",
+      decision: { block: true, reason: "Tool 'deploy' is not available in the current state." },
+    });
+    expect(steps[2]!.blockingNet).toBeUndefined();
+  });
+
+  it("does not fire deferred transitions for failed or blocked calls", async () => {
+    const steps = await simulate([testBeforeDeploy], [
+      { toolName: "test", isError: true },
+      { toolName: "deploy", isError: false },
+    ]);
+    expect(steps[0]!.markings["test-before-deploy"]!.tested).toBe(0);
+    expect(steps[1]!.decision?.block).toBe(true);
+  });
+
+  it("names the net whose validation blocked the call", async () => {
+    const steps = await simulate([deployBudget, noProd], trace.slice(2));
+    expect(steps[1]).toMatchObject({ blockingNet: "no-prod", decision: { block: true, reason: "No prod deploys." } });
+    // Rejected validation rolls back, so the budget is not spent
+    expect(steps[1]!.markings["deploy-budget"]).toEqual({ budget: 1, spent: 1 });
+  });
+
+  it("approves manual transitions unless told otherwise", async () => {
+    const deploy: TraceEntry[] = [{ toolName: "deploy", isError: false }];
+    expect((await simulate([approveDeploy], deploy))[0]!.decision).toBeUndefined();
+
+    const [rejected] = await simulate([approveDeploy], deploy, { approve: () => false });
+    expect(rejected).toMatchObject({ blockingNet: "approve-deploy", decision: { block: true } });
+  });
+
+  it("uses trace timestamps for windowed budgets", async () => {
+    const deploys = (...ts: number[]): TraceEntry[] => ts.map((t) => ({ toolName: "deploy", ts: t, isError: false }));
+    const blocked = (entries: TraceEntry[]) =>
+      simulate([deployBudget], entries).then((steps) => steps.map((s) => !!s.decision));
+
+    expect(await blocked(deploys(0, 1_000, 2_000))).toEqual([false, false, true]);
+    expect(await blocked(deploys(0, 1_000, 3_600_000))).toEqual([false, false, false]);
+  });
+
+  it("starts from a snapshot without touching the live manager", async () => {
+    const live = createGateManager([testBeforeDeploy], { mode: "enforce" });
+    live.replay(["test"]);
+    const before = live.snapshot();
+
+    const steps = await simulate([testBeforeDeploy], [{ toolName: "deploy", isError: false }], { from: before });
+    expect(steps[0]!.decision).toBeUndefined();
+    expect(live.snapshot()).toEqual(before);
+  });
+
+  it("works with registry configs", async () => {
+    const steps = await simulate({ registry: { tests: testBeforeDeploy, budget: deployBudget } }, trace);
+    expect(Object.keys(steps[0]!.markings)).toEqual(["tests", "budget"]);
+    expect(steps[3]!.blockingNet).toBe("test-before-deploy");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// diffSimulation
+// ---------------------------------------------------------------------------
+
+describe("diffSimulation", () => {
+  it("lists calls a candidate rule set newly blocks or allows", async () => {
+    const diff = await diffSimulation([testBeforeDeploy], [noProd], trace);
+
+    expect(diff.newlyBlocked.map((c) => c.index)).toEqual([]);
+    expect(diff.newlyAllowed).toHaveLength(0);
+
+    const tighter = await diffSimulation([noProd], [noProd, deployBudget], [
+      ...trace,
+      { toolName: "deploy", input: { env: "staging" }, isError: false },
+      { toolName: "deploy", input: { env: "staging" }, isError: false },
+    ]);
+    expect(tighter.newlyBlocked.map((c) => c.index)).toEqual([5]);
+    expect(tighter.newlyBlocked[0]).toMatchObject({
+      toolName: "deploy",
+      input: { env: "staging" },
+      before: { decision: undefined },
+      after: { blockingNet: "deploy-budget" },
+    });
+
+    const looser = await diffSimulation([testBeforeDeploy], [], trace);
+    expect(looser.newlyAllowed.map((c) => c.index)).toEqual([3]);
+    expect(looser.newlyBlocked).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import type { ApprovalPrompt, GateDecision } from "./events.js";
+import type { SkillNet } from "./types.js";
+import type { ComposeConfig } from "./compose.js";
+import { createGateManager } from "./manager.js";
+import type { ReplayEntry } from "./manager.js";
+import type { AuditEvent } from "./audit.js";
+import type { GateSnapshot, RestoreOptions } from "./snapshot.js";
+
+type Marking = Record<string, number>;
+
+/** A recorded tool call. `ts` (epoch milliseconds) drives windowed budgets and timeouts. */
+export type TraceEntry = ReplayEntry & {
+  toolCallId?: string;
+  ts?: number;
+};
+
+export type SimulateOptions = {
+  /**
+   * Answer manual transitions. Defaults to approving every call, since a
+   * recorded call already happened.
+   */
+  approve?: (prompt: ApprovalPrompt) => boolean;
+  /** Start from this state instead of the nets' initial markings, e.g. `manager.snapshot()` */
+  from?: GateSnapshot;
+  /** Passed to `restore` with `from` */
+  migrate?: RestoreOptions["migrate"];
+};
+
+/** What the gate would have done with one call of a trace */
+export type SimulationStep = {
+  index: number;
+  toolCallId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  decision: GateDecision;
+  /** The net that blocked the call */
+  blockingNet?: string;
+  /** Every net's marking after the call and its result */
+  markings: Record<string, Marking>;
+};
+
+/** A call the two rule sets decide differently */
+export type SimulationChange = {
+  index: number;
+  toolName: string;
+  input: Record<string, unknown>;
+  before: SimulationStep;
+  after: SimulationStep;
+};
+
+export type SimulationDiff = {
+  newlyBlocked: SimulationChange[];
+  newlyAllowed: SimulationChange[];
+};
+
+type NetInput = SkillNet<string>[] | ComposeConfig;
+
+/**
+ * Run a trace of recorded tool calls through a fresh gate, offline. Each
+ * allowed call's result is fed back as recorded; blocked calls never ran,
+ * so their results are dropped. Nothing outside the simulation changes —
+ * pass `from: manager.snapshot()` to start where a live session stands.
+ */
+export async function simulate(
+  input: NetInput,
+  trace: TraceEntry[],
+  opts: SimulateOptions = {},
+): Promise<SimulationStep[]> {
+  // Calls without a timestamp happen at the time of the last one that had one
+  let ts = 0;
+  const events: AuditEvent[] = [];
+  const manager = createGateManager(input, {
+    mode: "enforce",
+    now: () => ts,
+    audit: { append: (event) => void events.push(event), flush: async () => {} },
+  });
+  if (opts.from) manager.restore(opts.from, { migrate: opts.migrate });
+
+  const approve = opts.approve ?? (() => true);
+  const steps: SimulationStep[] = [];
+
+  for (const [index, entry] of trace.entries()) {
+    ts = entry.ts ?? ts;
+    const event = {
+      toolCallId: entry.toolCallId ?? `sim-${index}`,
+      toolName: entry.toolName,
+      input: entry.input ?? {},
+    };
+
+    events.length = 0;
+    const decision = await manager.handleToolCall(event, {
+      hasUI: false,
+      confirm: async () => false,
+      approve: async (prompt) => ({ approved: approve(prompt), approver: "simulation" }),
+    });
+    if (!decision) manager.handleToolResult({ ...event, isError: entry.isError });
+
+    const step: SimulationStep = {
+      index,
+      ...event,
+      decision,
+      markings: Object.fromEntries(manager.getAllNets().map(({ name, state }) => [name, { ...state.marking }])),
+    };
+    const blockingNet = decision && blockedBy(events);
+    if (blockingNet) step.blockingNet = blockingNet;
+    steps.push(step);
+  }
+
+  return steps;
+}
+
+/** The net whose verdict, approval or validation blocked the call */
+function blockedBy(events: AuditEvent[]): string | undefined {
+  for (const event of events) {
+    if (event.type === "tool_call") {
+      const blocked = event.verdicts.find((v) => v.verdict === "blocked");
+      if (blocked) return blocked.net;
+    }
+    if (event.type === "approval" && !event.approved) return event.net;
+    if (event.type === "rejected") return event.net;
+  }
+  return undefined;
+}
+
+/**
+ * Simulate one trace under two rule sets and list the calls the candidate
+ * would newly block or newly allow. Once decisions diverge the two runs
+ * see different state, so later changes may follow from earlier ones.
+ */
+export async function diffSimulation(
+  baseline: NetInput,
+  candidate: NetInput,
+  trace: TraceEntry[],
+  opts: SimulateOptions = {},
+): Promise<SimulationDiff> {
+  const before = await simulate(baseline, trace, opts);
+  const after = await simulate(candidate, trace, opts);
+  const diff: SimulationDiff = { newlyBlocked: [], newlyAllowed: [] };
+
+  for (let i = 0; i < trace.length; i++) {
+    const b = before[i]!;
+    const a = after[i]!;
+    if (!b.decision === !a.decision) continue;
+    const change = { index: i, toolName: b.toolName, input: b.input, before: b, after: a };
+    (a.decision ? diff.newlyBlocked : diff.newlyAllowed).push(change);
+  }
+
+  return diff;
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "bun:test";
+import type { GateContext } from "./events.js";
+import { defineSkillNet } from "./types.js";
+import type { SkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import { fingerprintNet, SNAPSHOT_VERSION } from "./snapshot.js";
+import type { GateSnapshot } from "./snapshot.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ctx: GateContext = { hasUI: false, confirm: async () => false };
+
+const backupNet = defineSkillNet({
+  name: "backup",
+  places: ["idle", "ready", "backedUp"],
+  initialMarking: { idle: 1, ready: 0, backedUp: 0 },
+  transitions: [
+    { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+    { name: "backup", type: "auto", inputs: ["ready"], outputs: ["backedUp"], tools: ["backup"], deferred: true },
+    { name: "destroy", type: "auto", inputs: ["backedUp"], outputs: ["ready"], tools: ["destroy"] },
+  ],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+const budgetNet = defineSkillNet({
+  name: "budget",
+  places: ["ready", "budget", "spent"],
+  initialMarking: { ready: 1, budget: 2, spent: 0 },
+  transitions: [
+    { name: "fetch", type: "auto", inputs: ["ready", "budget"], outputs: ["ready", "spent"], tools: ["fetch"] },
+  ],
+  refills: [{ transition: "fetch", from: "spent", to: "budget", windowMs: 60_000 }],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+/** Round-trip through JSON, as a snapshot on disk would */
+function viaJson(snapshot: GateSnapshot): GateSnapshot {
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+// ---------------------------------------------------------------------------
+// snapshot / restore
+// ---------------------------------------------------------------------------
+
+describe("manager.snapshot", () => {
+  it("captures markings, meta, pending calls and refills", async () => {
+    const manager = createGateManager([backupNet, budgetNet], { mode: "enforce", now: () => 1_000 });
+    await manager.handleToolCall({ toolCallId: "tc-1", toolName: "backup", input: {} }, ctx);
+    await manager.handleToolCall({ toolCallId: "tc-2", toolName: "fetch", input: {} }, ctx);
+    manager.getActiveNets()[0]!.state.meta.paths = ["/data"];
+
+    expect(manager.snapshot()).toEqual({
+      version: SNAPSHOT_VERSION,
+      active: ["backup", "budget"],
+      nets: {
+        backup: {
+          fingerprint: fingerprintNet(backupNet),
+          marking: { idle: 0, ready: 1, backedUp: 0 },
+          meta: { paths: ["/data"] },
+          pending: [{ toolCallId: "tc-1", transition: "backup", resolvedTool: "backup" }],
+          refills: [],
+        },
+        budget: {
+          fingerprint: fingerprintNet(budgetNet),
+          marking: { ready: 1, budget: 1, spent: 1 },
+          meta: {},
+          pending: [],
+          refills: [{ from: "spent", to: "budget", due: 61_000 }],
+        },
+      },
+    });
+  });
+
+  it("does not share meta with the live state", () => {
+    const manager = createGateManager([backupNet]);
+    manager.getActiveNets()[0]!.state.meta.paths = ["/data"];
+    const snapshot = manager.snapshot();
+    (manager.getActiveNets()[0]!.state.meta.paths as string[]).push("/etc");
+
+    expect(snapshot.nets.backup!.meta).toEqual({ paths: ["/data"] });
+  });
+});
+
+describe("manager.restore", () => {
+  it("restores a JSON snapshot into a fresh manager, re-linking pending calls", async () => {
+    const first = createGateManager([backupNet]);
+    await first.handleToolCall({ toolCallId: "tc-1", toolName: "backup", input: {} }, ctx);
+
+    const second = createGateManager([backupNet]);
+    expect(second.restore(viaJson(first.snapshot()))).toEqual({
+      restored: ["backup"],
+      migrated: [],
+      reset: [],
+      dropped: [],
+    });
+
+    const { state } = second.getActiveNets()[0]!;
+    expect(state.pending.get("tc-1")!.transition).toBe(backupNet.transitions[1]!);
+
+    second.handleToolResult({ toolCallId: "tc-1", toolName: "backup", input: {}, isError: false });
+    expect(await second.handleToolCall({ toolCallId: "tc-2", toolName: "destroy", input: {} }, ctx)).toBeUndefined();
+  });
+
+  it("restores which registry nets are active", () => {
+    const first = createGateManager({ registry: { backup: backupNet, budget: budgetNet } });
+    first.removeNet("budget");
+
+    const second = createGateManager({ registry: { backup: backupNet, budget: budgetNet } });
+    second.restore(viaJson(first.snapshot()));
+    expect(second.getActiveNets().map((n) => n.name)).toEqual(["backup"]);
+  });
+
+  it("keeps nets the snapshot does not know, and reports nets it no longer has", () => {
+    const snapshot = viaJson(createGateManager({ registry: { budget: budgetNet } }).snapshot());
+
+    const manager = createGateManager({ registry: { backup: backupNet } });
+    expect(manager.restore(snapshot).dropped).toEqual(["budget"]);
+    expect(manager.getActiveNets().map((n) => n.name)).toEqual(["backup"]);
+  });
+
+  it("resets a net whose structure changed instead of restoring stale state", async () => {
+    const first = createGateManager([budgetNet]);
+    await first.handleToolCall({ toolCallId: "tc-1", toolName: "fetch", input: {} }, ctx);
+
+    const changed: SkillNet<string> = {
+      ...budgetNet,
+      initialMarking: { ready: 1, budget: 5, spent: 0 },
+    };
+    const second = createGateManager([changed]);
+    await second.handleToolCall({ toolCallId: "tc-2", toolName: "fetch", input: {} }, ctx);
+
+    expect(second.restore(viaJson(first.snapshot())).reset).toEqual(["budget"]);
+    expect(second.getActiveNets()[0]!.state.marking).toEqual({ ready: 1, budget: 5, spent: 0 });
+  });
+
+  it("passes changed nets to the migrate hook", async () => {
+    const first = createGateManager([budgetNet]);
+    await first.handleToolCall({ toolCallId: "tc-1", toolName: "fetch", input: {} }, ctx);
+
+    const changed: SkillNet<string> = { ...budgetNet, initialMarking: { ready: 1, budget: 5, spent: 0 } };
+    const second = createGateManager([changed]);
+    const result = second.restore(viaJson(first.snapshot()), {
+      migrate: (saved, net, name) => {
+        expect(name).toBe("budget");
+        expect(net).toBe(changed);
+        // Carry the calls already made over to the bigger budget
+        const spent = saved.marking.spent!;
+        return { ...saved, marking: { ready: 1, budget: 5 - spent, spent } };
+      },
+    });
+
+    expect(result).toMatchObject({ restored: [], migrated: ["budget"] });
+    expect(second.getActiveNets()[0]!.state.marking).toEqual({ ready: 1, budget: 4, spent: 1 });
+  });
+
+  it("rejects snapshots of another schema version", () => {
+    const manager = createGateManager([backupNet]);
+    const snapshot = { ...manager.snapshot(), version: 99 };
+    expect(() => manager.restore(snapshot)).toThrow(
+      `Unsupported gate snapshot version 99 (expected ${SNAPSHOT_VERSION})`,
+    );
+  });
+});
+
+describe("fingerprintNet", () => {
+  it("changes with structure, not with functions", () => {
+    const mapped: SkillNet<string> = { ...backupNet, toolMapper: ({ toolName }) => toolName };
+    expect(fingerprintNet(mapped)).toBe(fingerprintNet(backupNet));
+
+    const retooled: SkillNet<string> = {
+      ...backupNet,
+      transitions: backupNet.transitions.map((t) => (t.name === "destroy" ? { ...t, tools: ["rm"] } : t)),
+    };
+    expect(fingerprintNet(retooled)).not.toBe(fingerprintNet(backupNet));
+    expect(fingerprintNet(backupNet)).toMatch(/^[0-9a-f]{8}$/);
+  });
+});
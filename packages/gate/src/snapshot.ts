@@ -0,0 +1,189 @@
+import type { SkillNet } from "./types.js";
+import type { GateState } from "./gate.js";
+import { autoAdvance } from "./advance.js";
+import type { ScheduledRefill } from "./refill.js";
+import type { GateOverride } from "./overrides.js";
+
+/** Schema version written by `snapshot()`; `restore()` rejects any other */
+export const SNAPSHOT_VERSION = 1;
+
+/** A deferred call awaiting its tool_result, by transition name */
+export type PendingSnapshot = {
+  toolCallId: string;
+  transition: string;
+  resolvedTool: string;
+  expiresAt?: number;
+  cost?: number;
+};
+
+/** One net's saved state */
+export type NetSnapshot = {
+  /** `fingerprintNet` of the net the state was taken from */
+  fingerprint: string;
+  marking: Record<string, number>;
+  meta: Record<string, unknown>;
+  pending: PendingSnapshot[];
+  refills: ScheduledRefill<string>[];
+};
+
+/** JSON-serializable gate session state — see `GateManager.snapshot` */
+export type GateSnapshot = {
+  version: number;
+  /** Names of the active nets */
+  active: string[];
+  /** Every net's state, active or not, by name */
+  nets: Record<string, NetSnapshot>;
+  /** Live operator overrides, when there are any */
+  overrides?: GateOverride[];
+};
+
+export type RestoreOptions = {
+  /**
+   * Called for a saved net whose fingerprint no longer matches — the rules
+   * changed since the snapshot. Return the state to restore (its
+   * fingerprint is ignored), or undefined to start the net afresh.
+   */
+  migrate?: (saved: NetSnapshot, net: SkillNet<string>, name: string) => NetSnapshot | undefined;
+};
+
+export type RestoreResult = {
+  /** Nets restored as saved */
+  restored: string[];
+  /** Nets whose fingerprint changed and the `migrate` hook rewrote */
+  migrated: string[];
+  /** Nets whose fingerprint changed with nothing to migrate them — back in their initial state */
+  reset: string[];
+  /** Saved nets the manager no longer has */
+  dropped: string[];
+};
+
+type NetEntry = { name: string; net: SkillNet<string>; state: GateState<string> };
+
+// ---------------------------------------------------------------------------
+// Fingerprint
+// ---------------------------------------------------------------------------
+
+/** 32-bit FNV-1a, as 8 hex digits */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Structural fingerprint of a net: places, transitions, initial marking,
+ * free tools and refills. Functions (toolMapper, hooks) are not covered.
+ */
+export function fingerprintNet(net: SkillNet<string>): string {
+  const structure = {
+    places: net.places,
+    initialMarking: net.places.map((p) => net.initialMarking[p] ?? 0),
+    transitions: net.transitions.map((t) => [
+      t.name,
+      t.type,
+      t.inputs,
+      t.outputs,
+      t.tools ?? [],
+      t.deferred ?? false,
+      // Only cost-charged transitions carry this, so older fingerprints hold
+      ...(t.cost ? [[t.cost.place, t.cost.to ?? null, t.cost.max]] : []),
+    ]),
+    freeTools: net.freeTools,
+    refills: (net.refills ?? []).map((r) => [r.transition, r.from, r.to, r.windowMs]),
+  };
+  return fnv1a(JSON.stringify(structure));
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot / restore
+// ---------------------------------------------------------------------------
+
+export function snapshotNets(entries: NetEntry[], active: string[]): GateSnapshot {
+  const nets: Record<string, NetSnapshot> = {};
+  for (const { name, net, state } of entries) {
+    nets[name] = {
+      fingerprint: fingerprintNet(net),
+      marking: { ...state.marking },
+      meta: structuredClone(state.meta),
+      pending: [...state.pending.values()].map((p) => ({
+        toolCallId: p.toolCallId,
+        transition: p.transition.name,
+        resolvedTool: p.resolvedTool,
+        ...(p.expiresAt === undefined ? {} : { expiresAt: p.expiresAt }),
+        ...(p.cost === undefined ? {} : { cost: p.cost }),
+      })),
+      refills: state.refills.map((r) => ({ ...r })),
+    };
+  }
+  return { version: SNAPSHOT_VERSION, active: [...active], nets };
+}
+
+function applyNetSnapshot(net: SkillNet<string>, state: GateState<string>, saved: NetSnapshot): void {
+  state.marking = { ...saved.marking };
+  state.meta = structuredClone(saved.meta);
+  state.refills = saved.refills.map((r) => ({ ...r }));
+
+  // Re-link pending calls to the net's transitions
+  state.pending.clear();
+  for (const p of saved.pending) {
+    const transition = net.transitions.find((t) => t.name === p.transition);
+    if (transition) {
+      state.pending.set(p.toolCallId, { ...p, transition });
+    }
+  }
+}
+
+function resetNet(net: SkillNet<string>, state: GateState<string>): void {
+  state.marking = autoAdvance(net, { ...net.initialMarking });
+  state.meta = {};
+  state.refills = [];
+  state.pending.clear();
+}
+
+/**
+ * Restore saved state into the given nets, in place. Nets whose
+ * fingerprint changed go through `opts.migrate`, or are reset.
+ * Throws on an unknown schema version.
+ */
+export function restoreNets(
+  entries: NetEntry[],
+  snapshot: GateSnapshot,
+  opts?: RestoreOptions,
+): RestoreResult {
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported gate snapshot version ${String(snapshot.version)} (expected ${SNAPSHOT_VERSION})`,
+    );
+  }
+
+  const result: RestoreResult = { restored: [], migrated: [], reset: [], dropped: [] };
+  const byName = new Map(entries.map((e) => [e.name, e]));
+
+  for (const [name, saved] of Object.entries(snapshot.nets)) {
+    const entry = byName.get(name);
+    if (!entry) {
+      result.dropped.push(name);
+      continue;
+    }
+
+    if (saved.fingerprint === fingerprintNet(entry.net)) {
+      applyNetSnapshot(entry.net, entry.state, saved);
+      result.restored.push(name);
+      continue;
+    }
+
+    const migrated = opts?.migrate?.(structuredClone(saved), entry.net, name);
+    if (migrated) {
+      applyNetSnapshot(entry.net, entry.state, migrated);
+      result.migrated.push(name);
+    } else {
+      resetNet(entry.net, entry.state);
+      result.reset.push(name);
+    }
+  }
+
+  return result;
+}
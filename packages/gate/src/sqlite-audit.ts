@@ -0,0 +1,78 @@
+import type { Database } from "bun:sqlite";
+import type { AuditHead, AuditRecord, AuditSink } from "./audit.js";
+
+const CREATE_GATE_AUDIT = `
+  CREATE TABLE IF NOT EXISTS gate_audit (
+    log TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    ts INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    tool_call_id TEXT,
+    record TEXT NOT NULL,
+    prev_hash TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    PRIMARY KEY (log, seq)
+  )
+`;
+
+// Rows can be added, never changed
+const CREATE_GATE_AUDIT_NO_UPDATE = `
+  CREATE TRIGGER IF NOT EXISTS gate_audit_no_update BEFORE UPDATE ON gate_audit
+  BEGIN SELECT RAISE(ABORT, 'gate_audit is append-only'); END
+`;
+
+const CREATE_GATE_AUDIT_NO_DELETE = `
+  CREATE TRIGGER IF NOT EXISTS gate_audit_no_delete BEFORE DELETE ON gate_audit
+  BEGIN SELECT RAISE(ABORT, 'gate_audit is append-only'); END
+`;
+
+export type SqliteAuditSink = AuditSink & {
+  /** Every record of the log, in order */
+  read: () => AuditRecord[];
+  /** The log's last record, to continue its chain after a restart */
+  head: () => AuditHead | undefined;
+};
+
+/**
+ * Sink appending records to a `bun:sqlite` table. Several logs can share
+ * the table under different `log` names; each keeps its own chain.
+ */
+export function createSqliteAuditSink(db: Database, log = "gate"): SqliteAuditSink {
+  db.run(CREATE_GATE_AUDIT);
+  db.run(CREATE_GATE_AUDIT_NO_UPDATE);
+  db.run(CREATE_GATE_AUDIT_NO_DELETE);
+
+  const insertRow = db.query<void, [string, number, number, string, string | null, string, string, string]>(
+    `INSERT INTO gate_audit (log, seq, ts, type, tool_call_id, record, prev_hash, hash)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  const selectAll = db.query<{ record: string }, [string]>(
+    "SELECT record FROM gate_audit WHERE log = ? ORDER BY seq ASC",
+  );
+  const selectLast = db.query<{ seq: number; hash: string }, [string]>(
+    "SELECT seq, hash FROM gate_audit WHERE log = ? ORDER BY seq DESC LIMIT 1",
+  );
+
+  return {
+    write(record) {
+      insertRow.run(
+        log,
+        record.seq,
+        record.ts,
+        record.type,
+        "toolCallId" in record ? record.toolCallId : null,
+        JSON.stringify(record),
+        record.prevHash,
+        record.hash,
+      );
+    },
+
+    read() {
+      return selectAll.all(log).map((row) => JSON.parse(row.record) as AuditRecord);
+    },
+
+    head() {
+      return selectLast.get(log) ?? undefined;
+    },
+  };
+}
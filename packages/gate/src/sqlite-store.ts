@@ -0,0 +1,91 @@
+import type { Database } from "bun:sqlite";
+import type { GateSnapshot } from "./snapshot.js";
+import type { GateStateStore } from "./store.js";
+
+const CREATE_GATE_SESSIONS = `
+  CREATE TABLE IF NOT EXISTS gate_sessions (
+    session_id TEXT PRIMARY KEY,
+    snapshot TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+  )
+`;
+
+const CREATE_GATE_SESSION_LOCKS = `
+  CREATE TABLE IF NOT EXISTS gate_session_locks (
+    session_id TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  )
+`;
+
+/** How often a waiting `lock` retries, in milliseconds */
+const LOCK_POLL_MS = 10;
+
+type Row = {
+  snapshot: string;
+  revision: number;
+};
+
+/**
+ * Store backed by `bun:sqlite`. Processes sharing the database file share
+ * sessions; locks are lease rows, so a crashed holder's lock expires.
+ */
+export function createSqliteStateStore(db: Database): GateStateStore {
+  db.run(CREATE_GATE_SESSIONS);
+  db.run(CREATE_GATE_SESSION_LOCKS);
+
+  const selectOne = db.query<Row, [string]>(
+    "SELECT snapshot, revision FROM gate_sessions WHERE session_id = ?",
+  );
+  const insertRow = db.query<void, [string, string]>(
+    `INSERT INTO gate_sessions (session_id, snapshot, revision) VALUES (?, ?, 1)
+     ON CONFLICT (session_id) DO NOTHING`,
+  );
+  const updateRow = db.query<void, [string, string, number]>(
+    `UPDATE gate_sessions SET snapshot = ?, revision = revision + 1, updated_at = unixepoch()
+     WHERE session_id = ? AND revision = ?`,
+  );
+  const deleteExpiredLock = db.query<void, [string, number]>(
+    "DELETE FROM gate_session_locks WHERE session_id = ? AND expires_at <= ?",
+  );
+  const insertLock = db.query<void, [string, string, number]>(
+    `INSERT INTO gate_session_locks (session_id, owner, expires_at) VALUES (?, ?, ?)
+     ON CONFLICT (session_id) DO NOTHING`,
+  );
+  const deleteLock = db.query<void, [string, string]>(
+    "DELETE FROM gate_session_locks WHERE session_id = ? AND owner = ?",
+  );
+
+  const tryLock = db.transaction((sessionId: string, owner: string, ttlMs: number): boolean => {
+    const now = Date.now();
+    deleteExpiredLock.run(sessionId, now);
+    return insertLock.run(sessionId, owner, now + ttlMs).changes === 1;
+  });
+
+  return {
+    async load(sessionId) {
+      const row = selectOne.get(sessionId);
+      if (!row) return undefined;
+      return { snapshot: JSON.parse(row.snapshot) as GateSnapshot, revision: row.revision };
+    },
+
+    async save(sessionId, snapshot, expected) {
+      const json = JSON.stringify(snapshot);
+      if (expected === undefined) {
+        return insertRow.run(sessionId, json).changes === 1 ? 1 : null;
+      }
+      return updateRow.run(json, sessionId, expected).changes === 1 ? expected + 1 : null;
+    },
+
+    async lock(sessionId, ttlMs) {
+      const owner = crypto.randomUUID();
+      while (!tryLock(sessionId, owner, ttlMs)) {
+        await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+      }
+      return async () => {
+        deleteLock.run(sessionId, owner);
+      };
+    },
+  };
+}
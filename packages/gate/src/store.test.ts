@@ -0,0 +1,243 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { GateContext, GateDecision, GateToolCall } from "./events.js";
+import type { AuditEvent, AuditLog } from "./audit.js";
+import { createGateEventEmitter } from "./emitter.js";
+import { defineSkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import { createMemoryStateStore } from "./store.js";
+import type { GateStateStore } from "./store.js";
+import { createSqliteStateStore } from "./sqlite-store.js";
+import { createStoredGateManager } from "./stored-manager.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ctx: GateContext = { hasUI: false, confirm: async () => false };
+
+let callIdCounter = 0;
+function makeEvent(toolName: string): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input: {} };
+}
+
+const backupNet = defineSkillNet({
+  name: "backup",
+  places: ["idle", "ready", "backedUp"],
+  initialMarking: { idle: 1, ready: 0, backedUp: 0 },
+  transitions: [
+    { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+    { name: "backup", type: "auto", inputs: ["ready"], outputs: ["backedUp"], tools: ["backup"], deferred: true },
+    { name: "destroy", type: "auto", inputs: ["backedUp"], outputs: ["ready"], tools: ["destroy"] },
+  ],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+const budgetNet = defineSkillNet({
+  name: "budget",
+  places: ["ready", "budget", "spent"],
+  initialMarking: { ready: 1, budget: 2, spent: 0 },
+  transitions: [
+    { name: "fetch", type: "auto", inputs: ["ready", "budget"], outputs: ["ready", "spent"], tools: ["fetch"] },
+  ],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+const snapshot = createGateManager([budgetNet]).snapshot();
+
+/** Fire `count` fetches at once, spread over `workers` managers sharing the store */
+async function fetchConcurrently(stores: GateStateStore[], count: number) {
+  const workers = stores.map((store) => createStoredGateManager([budgetNet], { store, sessionId: "s1" }));
+  const decisions = await Promise.all(
+    Array.from({ length: count }, (_, i) => workers[i % workers.length]!.handleToolCall(makeEvent("fetch"), ctx)),
+  );
+  return decisions.filter((d) => d === undefined).length;
+}
+
+// ---------------------------------------------------------------------------
+// Stores
+// ---------------------------------------------------------------------------
+
+const tempDirs: string[] = [];
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+function sqliteFile(): string {
+  const dir = mkdtempSync(join(tmpdir(), "petriflow-gate-"));
+  tempDirs.push(dir);
+  return join(dir, "gate.db");
+}
+
+describe.each([
+  ["memory", () => createMemoryStateStore()],
+  ["sqlite", () => createSqliteStateStore(new Database(":memory:"))],
+] as const)("%s store", (_, createStore) => {
+  it("saves with compare-and-swap on the revision", async () => {
+    const store = createStore();
+    expect(await store.load("s1")).toBeUndefined();
+
+    expect(await store.save("s1", snapshot, undefined)).toBe(1);
+    expect(await store.save("s1", snapshot, undefined)).toBeNull();
+    expect(await store.save("s1", snapshot, 1)).toBe(2);
+    expect(await store.save("s1", snapshot, 1)).toBeNull();
+
+    expect(await store.load("s1")).toEqual({ snapshot, revision: 2 });
+    expect(await store.load("s2")).toBeUndefined();
+  });
+
+  it("hands the lock to one holder at a time", async () => {
+    const store = createStore();
+    const order: string[] = [];
+
+    const release = await store.lock("s1", 10_000);
+    const waiting = store.lock("s1", 10_000).then((next) => {
+      order.push("second");
+      return next;
+    });
+    // Another session's lock is independent
+    await (await store.lock("s2", 10_000))();
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    order.push("first");
+    await release();
+    await (await waiting)();
+
+    expect(order).toEqual(["first", "second"]);
+  });
+
+  it("frees a lock whose lease ran out", async () => {
+    const store = createStore();
+    await store.lock("s1", 20);
+    const release = await store.lock("s1", 10_000);
+    await release();
+  });
+});
+
+describe("sqlite store — shared file", () => {
+  it("shares sessions between connections to one database file", async () => {
+    const file = sqliteFile();
+    const first = createSqliteStateStore(new Database(file));
+    const second = createSqliteStateStore(new Database(file));
+
+    await first.save("s1", snapshot, undefined);
+    expect(await second.load("s1")).toEqual({ snapshot, revision: 1 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createStoredGateManager
+// ---------------------------------------------------------------------------
+
+describe("createStoredGateManager", () => {
+  it("carries state between managers through the store", async () => {
+    const store = createMemoryStateStore();
+    const a = createStoredGateManager([backupNet], { store, sessionId: "s1" });
+    const b = createStoredGateManager([backupNet], { store, sessionId: "s1" });
+
+    const backup = makeEvent("backup");
+    expect(await a.handleToolCall(backup, ctx)).toBeUndefined();
+    expect((await b.handleToolCall(makeEvent("destroy"), ctx))?.block).toBe(true);
+
+    // The result lands on another worker than the call
+    await b.handleToolResult({ ...backup, isError: false });
+    expect(await a.handleToolCall(makeEvent("destroy"), ctx)).toBeUndefined();
+  });
+
+  it("keeps sessions apart", async () => {
+    const store = createMemoryStateStore();
+    const s1 = createStoredGateManager([budgetNet], { store, sessionId: "s1" });
+    const s2 = createStoredGateManager([budgetNet], { store, sessionId: "s2" });
+
+    await s1.handleToolCall(makeEvent("fetch"), ctx);
+    await s1.handleToolCall(makeEvent("fetch"), ctx);
+    expect((await s1.handleToolCall(makeEvent("fetch"), ctx))?.block).toBe(true);
+    expect(await s2.handleToolCall(makeEvent("fetch"), ctx)).toBeUndefined();
+  });
+
+  it("does not double-spend a budget under concurrent calls", async () => {
+    const store = createMemoryStateStore();
+    expect(await fetchConcurrently([store, store, store], 6)).toBe(2);
+  });
+
+  it("does not double-spend across processes sharing a sqlite file", async () => {
+    const file = sqliteFile();
+    const stores = [0, 1, 2].map(() => createSqliteStateStore(new Database(file)));
+    expect(await fetchConcurrently(stores, 6)).toBe(2);
+  });
+
+  it("blocks a call whose commit lost a race", async () => {
+    const inner = createMemoryStateStore();
+    const store: GateStateStore = { ...inner, save: async () => null };
+    const manager = createStoredGateManager([budgetNet], { store, sessionId: "s1" });
+
+    expect(await manager.handleToolCall(makeEvent("fetch"), ctx)).toEqual({
+      block: true,
+      reason: "Gate state for session 's1' changed concurrently; retry the call.",
+    });
+  });
+
+  it("records nothing of an attempt whose commit lost a race", async () => {
+    const inner = createMemoryStateStore();
+    let conflicts = 1;
+    const store: GateStateStore = {
+      ...inner,
+      save: async (...args) => (conflicts-- > 0 ? null : inner.save(...args)),
+    };
+    const audited: AuditEvent[] = [];
+    const audit: AuditLog = { append: (e) => audited.push(e), flush: async () => {} };
+    const events = createGateEventEmitter();
+    const emitted: string[] = [];
+    events.on("decision", (e) => emitted.push(`decision ${e.allowed}`));
+    events.on("fired", (e) => emitted.push(`fired ${e.transition}`));
+    const decisions: GateDecision[] = [];
+    const manager = createStoredGateManager([budgetNet], {
+      store,
+      sessionId: "s1",
+      audit,
+      events,
+      onDecision: (_event, decision) => decisions.push(decision),
+    });
+
+    expect(await manager.handleToolCall(makeEvent("fetch"), ctx)).toMatchObject({ block: true });
+    expect(audited).toEqual([]);
+    expect(emitted).toEqual([]);
+    expect(decisions).toEqual([]);
+
+    expect(await manager.handleToolCall(makeEvent("fetch"), ctx)).toBeUndefined();
+    expect(audited.filter((e) => e.type === "decision")).toHaveLength(1);
+    expect(emitted).toEqual(["fired fetch", "decision true"]);
+    expect(decisions).toEqual([undefined]);
+  });
+
+  it("retries a result whose commit lost a race", async () => {
+    const inner = createMemoryStateStore();
+    let conflicts = 1;
+    const store: GateStateStore = {
+      ...inner,
+      save: async (...args) => (conflicts-- > 0 ? null : inner.save(...args)),
+    };
+    const manager = createStoredGateManager([backupNet], { store: inner, sessionId: "s1" });
+    const backup = makeEvent("backup");
+    await manager.handleToolCall(backup, ctx);
+
+    const retrying = createStoredGateManager([backupNet], { store, sessionId: "s1" });
+    await retrying.handleToolResult({ ...backup, isError: false });
+    expect(await manager.handleToolCall(makeEvent("destroy"), ctx)).toBeUndefined();
+  });
+
+  it("stores registry activation", async () => {
+    const store = createMemoryStateStore();
+    const config = { registry: { backup: backupNet, budget: budgetNet }, active: ["backup"] };
+    const a = createStoredGateManager(config, { store, sessionId: "s1" });
+
+    expect((await a.addNet("budget")).ok).toBe(true);
+    const loaded = await createStoredGateManager(config, { store, sessionId: "s1" }).load();
+    expect(loaded.getActiveNets().map((n) => n.name)).toEqual(["backup", "budget"]);
+  });
+});
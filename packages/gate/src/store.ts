@@ -0,0 +1,67 @@
+import type { GateSnapshot } from "./snapshot.js";
+
+/** A session's saved snapshot and the revision it was saved at */
+export type StoredState = {
+  snapshot: GateSnapshot;
+  revision: number;
+};
+
+/**
+ * Shared storage for gate session state, so one conversation's tool
+ * calls can be gated by whichever process receives them.
+ */
+export type GateStateStore = {
+  /** The session's latest state, or undefined if none has been saved */
+  load: (sessionId: string) => Promise<StoredState | undefined>;
+  /**
+   * Compare-and-swap: save only if the stored revision is still `expected`
+   * (undefined when nothing was stored). Resolves to the new revision, or
+   * null if another writer saved first.
+   */
+  save: (sessionId: string, snapshot: GateSnapshot, expected: number | undefined) => Promise<number | null>;
+  /**
+   * Take the session's exclusive lock, waiting until the holder releases
+   * it or its lease of `ttlMs` runs out. Resolves to the release function.
+   */
+  lock: (sessionId: string, ttlMs: number) => Promise<() => Promise<void>>;
+};
+
+/**
+ * In-process store. Snapshots are copied in and out, so state is never
+ * shared with a manager. For tests and single-process deployments.
+ */
+export function createMemoryStateStore(): GateStateStore {
+  const states = new Map<string, StoredState>();
+  // Tail of each session's lock queue: resolves when the last holder is done
+  const tails = new Map<string, Promise<void>>();
+
+  return {
+    async load(sessionId) {
+      const stored = states.get(sessionId);
+      return stored && structuredClone(stored);
+    },
+
+    async save(sessionId, snapshot, expected) {
+      if (states.get(sessionId)?.revision !== expected) return null;
+      const revision = (expected ?? 0) + 1;
+      states.set(sessionId, { snapshot: structuredClone(snapshot), revision });
+      return revision;
+    },
+
+    async lock(sessionId, ttlMs) {
+      const previous = tails.get(sessionId) ?? Promise.resolve();
+      let done!: () => void;
+      const held = new Promise<void>((resolve) => (done = resolve));
+      const tail = previous.then(() => held);
+      tails.set(sessionId, tail);
+
+      await previous;
+      const lease = setTimeout(done, ttlMs);
+      return async () => {
+        clearTimeout(lease);
+        done();
+        if (tails.get(sessionId) === tail) tails.delete(sessionId);
+      };
+    },
+  };
+}
@@ -0,0 +1,169 @@
+import type { GateToolCall, GateToolResult, GateContext, GateDecision } from "./events.js";
+import type { ExpiredDeferred } from "./gate.js";
+import type { SkillNet } from "./types.js";
+import type { ComposeConfig } from "./compose.js";
+import { createGateManager } from "./manager.js";
+import type { GateManager, GateManagerOptions } from "./manager.js";
+import type { GateEventEmitter } from "./emitter.js";
+import type { RestoreOptions } from "./snapshot.js";
+import type { GateStateStore } from "./store.js";
+import type { OverrideOptions, OverrideResult } from "./overrides.js";
+
+export type StoredGateManagerOptions = Partial<GateManagerOptions> & {
+  store: GateStateStore;
+  sessionId: string;
+  /**
+   * Lease on the session lock per call, in milliseconds. Must outlast a
+   * human approval prompt, which is awaited while the lock is held.
+   * Defaults to 30 seconds.
+   */
+  lockTtlMs?: number;
+  /** Passed to `restore` when the rules changed since the state was saved */
+  migrate?: RestoreOptions["migrate"];
+};
+
+export type StoredGateManager = {
+  handleToolCall: (event: GateToolCall, ctx: GateContext) => Promise<GateDecision>;
+  handleToolResult: (event: GateToolResult) => Promise<void>;
+  addNet: (name: string) => Promise<{ ok: boolean; message: string }>;
+  removeNet: (name: string) => Promise<{ ok: boolean; message: string }>;
+  /** Saved with the session's state — see `GateManager.grantOverride` */
+  grantOverride: (opts: OverrideOptions) => Promise<OverrideResult>;
+  revokeOverride: (id: string) => Promise<{ ok: boolean; message: string }>;
+  /** Expire the session's timed-out deferred calls — see `GateManager.sweep` */
+  sweep: () => Promise<ExpiredDeferred[]>;
+  /**
+   * A manager holding the session's current state, for read-only use
+   * (status, system prompt, explain). Changes to it are not saved.
+   */
+  load: () => Promise<GateManager>;
+};
+
+const DEFAULT_LOCK_TTL_MS = 30_000;
+
+/** Attempts at committing a tool result before giving up */
+const RESULT_ATTEMPTS = 3;
+
+/**
+ * Gate a session whose state lives in a `GateStateStore`. Every call
+ * takes the session lock, loads the state, decides, and commits it with a
+ * compare-and-swap save, so concurrent calls from any number of processes
+ * are gated one at a time and never double-spend a budget.
+ *
+ * If the lock lease lapses and another process commits first, the save
+ * fails: a tool call is then blocked (fail closed) and a tool result is
+ * retried against the fresh state. Audit records, `onDecision` calls and
+ * events of an attempt are held until it commits — a lost attempt leaves
+ * no trace.
+ */
+export function createStoredGateManager(
+  input: SkillNet<string>[] | ComposeConfig,
+  opts: StoredGateManagerOptions,
+): StoredGateManager {
+  const { store, sessionId, migrate } = opts;
+  const lockTtlMs = opts.lockTtlMs ?? DEFAULT_LOCK_TTL_MS;
+  const managerOpts: GateManagerOptions = {
+    mode: opts.mode ?? "enforce",
+    onDecision: opts.onDecision,
+    now: opts.now,
+    audit: opts.audit,
+    approvals: opts.approvals,
+    events: opts.events,
+  };
+
+  async function load(
+    options: GateManagerOptions = managerOpts,
+  ): Promise<{ manager: GateManager; revision: number | undefined }> {
+    const stored = await store.load(sessionId);
+    const manager = createGateManager(input, options);
+    if (stored) manager.restore(stored.snapshot, { migrate });
+    return { manager, revision: stored?.revision };
+  }
+
+  /** Run `fn` against the session's state under its lock; false if the commit lost a race */
+  async function transact<T>(
+    fn: (manager: GateManager) => T | Promise<T>,
+  ): Promise<{ committed: boolean; result: T }> {
+    const release = await store.lock(sessionId, lockTtlMs);
+    try {
+      const outbox = createOutbox(managerOpts);
+      const { manager, revision } = await load(outbox.options);
+      const result = await fn(manager);
+      const saved = await store.save(sessionId, manager.snapshot(), revision);
+      if (saved !== null) outbox.send();
+      return { committed: saved !== null, result };
+    } finally {
+      await release();
+    }
+  }
+
+  async function transactOrRetry<T>(fn: (manager: GateManager) => T): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const { committed, result } = await transact(fn);
+      if (committed) return result;
+      if (attempt === RESULT_ATTEMPTS) {
+        throw new Error(
+          `Gate state for session '${sessionId}' kept changing concurrently; gave up after ${RESULT_ATTEMPTS} attempts`,
+        );
+      }
+    }
+  }
+
+  return {
+    async handleToolCall(event, ctx) {
+      const { committed, result } = await transact((manager) => manager.handleToolCall(event, ctx));
+      if (!committed) {
+        return {
+          block: true,
+          reason: `Gate state for session '${sessionId}' changed concurrently; retry the call.`,
+        };
+      }
+      return result;
+    },
+
+    async handleToolResult(event) {
+      await transactOrRetry((manager) => manager.handleToolResult(event));
+    },
+
+    addNet: (name) => transactOrRetry((manager) => manager.addNet(name)),
+    removeNet: (name) => transactOrRetry((manager) => manager.removeNet(name)),
+    grantOverride: (override) => transactOrRetry((manager) => manager.grantOverride(override)),
+    revokeOverride: (id) => transactOrRetry((manager) => manager.revokeOverride(id)),
+    sweep: () => transactOrRetry((manager) => manager.sweep()),
+
+    async load() {
+      return (await load()).manager;
+    },
+  };
+}
+
+/**
+ * Manager options whose audit log, `onDecision` and emitter only queue
+ * what they are given; `send` passes it all on, in order.
+ */
+function createOutbox(opts: GateManagerOptions): { options: GateManagerOptions; send: () => void } {
+  const queued: Array<() => void> = [];
+  const { audit, onDecision, events } = opts;
+
+  const options: GateManagerOptions = { ...opts };
+  if (audit) {
+    options.audit = { append: (event) => queued.push(() => audit.append(event)), flush: audit.flush };
+  }
+  if (onDecision) {
+    options.onDecision = (...args) => queued.push(() => onDecision(...args));
+  }
+  if (events) {
+    const held: GateEventEmitter = {
+      on: events.on,
+      emit: (type, event) => queued.push(() => events.emit(type, event)),
+    };
+    options.events = held;
+  }
+
+  return {
+    options,
+    send() {
+      for (const deliver of queued.splice(0)) deliver();
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "bun:test";
+import { defineSkillNet } from "./types.js";
+import { createGateManager } from "./manager.js";
+import { autoAdvance } from "./advance.js";
+import { createGateState, expirePending, handleToolCall } from "./gate.js";
+import { createAuditLog } from "./audit.js";
+import type { AuditRecord } from "./audit.js";
+import type { GateContext, GateToolCall } from "./events.js";
+
+let callIdCounter = 0;
+function makeEvent(toolName: string): GateToolCall {
+  return { toolCallId: `call-${++callIdCounter}`, toolName, input: {} };
+}
+
+function makeCtx(now?: () => number): GateContext {
+  return { hasUI: false, confirm: async () => false, now };
+}
+
+const MINUTE = 60_000;
+
+// backup must succeed within 5 minutes before delete unlocks
+const backupNet = defineSkillNet({
+  name: "require-backup-before-delete",
+  places: ["idle", "ready", "gate"],
+  terminalPlaces: [],
+  freeTools: [],
+  initialMarking: { idle: 1, ready: 0, gate: 0 },
+  transitions: [
+    { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+    {
+      name: "do-backup",
+      type: "auto",
+      inputs: ["ready"],
+      outputs: ["gate"],
+      tools: ["backup"],
+      deferred: true,
+      deferredTimeoutMs: 5 * MINUTE,
+    },
+    { name: "do-delete", type: "auto", inputs: ["gate"], outputs: ["ready"], tools: ["delete"] },
+  ],
+});
+
+describe("deferred timeouts — single net", () => {
+  it("stamps pending calls with their expiry and expires them once due", async () => {
+    const state = createGateState(autoAdvance(backupNet, { ...backupNet.initialMarking }));
+    const backup = makeEvent("backup");
+    await handleToolCall(backup, makeCtx(() => 1_000), backupNet, state);
+
+    expect(state.pending.get(backup.toolCallId)!.expiresAt).toBe(1_000 + 5 * MINUTE);
+    expect(expirePending(backupNet, state, 5 * MINUTE)).toEqual([]);
+    expect(expirePending(backupNet, state, 1_000 + 5 * MINUTE)).toEqual([
+      {
+        net: "require-backup-before-delete",
+        toolCallId: backup.toolCallId,
+        transition: "do-backup",
+        resolvedTool: "backup",
+      },
+    ]);
+    expect(state.pending.size).toBe(0);
+  });
+
+  it("leaves calls without a timeout pending", async () => {
+    const untimed = defineSkillNet({
+      ...backupNet,
+      transitions: backupNet.transitions.map(({ deferredTimeoutMs: _, ...t }) => t),
+    });
+    const state = createGateState(autoAdvance(untimed, { ...untimed.initialMarking }));
+    await handleToolCall(makeEvent("backup"), makeCtx(() => 0), untimed, state);
+
+    expect(expirePending(untimed, state, 365 * 24 * 60 * MINUTE)).toEqual([]);
+    expect(state.pending.size).toBe(1);
+  });
+});
+
+describe("deferred timeouts — GateManager", () => {
+  it("ignores a result that arrives after the timeout", async () => {
+    let now = 0;
+    const manager = createGateManager([backupNet], { mode: "enforce", now: () => now });
+    const backup = makeEvent("backup");
+    await manager.handleToolCall(backup, makeCtx());
+
+    now = 6 * MINUTE;
+    manager.handleToolResult({ ...backup, isError: false });
+    expect((await manager.handleToolCall(makeEvent("delete"), makeCtx()))?.block).toBe(true);
+  });
+
+  it("fires a result that arrives in time", async () => {
+    let now = 0;
+    const manager = createGateManager([backupNet], { mode: "enforce", now: () => now });
+    const backup = makeEvent("backup");
+    await manager.handleToolCall(backup, makeCtx());
+
+    now = 4 * MINUTE;
+    manager.handleToolResult({ ...backup, isError: false });
+    expect(await manager.handleToolCall(makeEvent("delete"), makeCtx())).toBeUndefined();
+  });
+
+  it("sweeps stale calls on demand, including inactive registry nets", async () => {
+    let now = 0;
+    const manager = createGateManager({ registry: { backup: backupNet } }, { mode: "enforce", now: () => now });
+    const backup = makeEvent("backup");
+    await manager.handleToolCall(backup, makeCtx());
+    manager.removeNet("backup");
+
+    now = 5 * MINUTE;
+    expect(manager.sweep().map((e) => e.toolCallId)).toEqual([backup.toolCallId]);
+    expect(manager.getAllNets()[0]!.state.pending.size).toBe(0);
+    expect(manager.sweep()).toEqual([]);
+  });
+
+  it("records expired calls as failures in the audit log", async () => {
+    let now = 0;
+    const records: AuditRecord[] = [];
+    const audit = createAuditLog({ sinks: [{ write: (r) => void records.push(r) }] });
+    const manager = createGateManager([backupNet], { mode: "enforce", now: () => now, audit });
+    const backup = makeEvent("backup");
+    await manager.handleToolCall(backup, makeCtx());
+
+    now = 5 * MINUTE;
+    manager.sweep();
+    await audit.flush();
+
+    expect(records.at(-1)).toMatchObject({
+      type: "deferred_failed",
+      toolCallId: backup.toolCallId,
+      net: "require-backup-before-delete",
+      transition: "do-backup",
+      cause: "timeout",
+    });
+  });
+
+  it("keeps the expiry through a snapshot", async () => {
+    let now = 0;
+    const first = createGateManager([backupNet], { mode: "enforce", now: () => now });
+    const backup = makeEvent("backup");
+    await first.handleToolCall(backup, makeCtx());
+
+    const second = createGateManager([backupNet], { mode: "enforce", now: () => now });
+    second.restore(JSON.parse(JSON.stringify(first.snapshot())));
+    now = 5 * MINUTE;
+    expect(second.sweep().map((e) => e.toolCallId)).toEqual([backup.toolCallId]);
+  });
+});
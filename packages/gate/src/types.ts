@@ -1,11 +1,33 @@
 import type { Marking } from "@petriflow/engine";
 
 /** Structured metadata for generating user-facing block messages */
-export type RuleMetadata =
-  | { kind: "sequence"; prerequisite: string; dependent: string }
+export type RuleMetadata = (
+  | {
+      kind: "sequence";
+      prerequisite: string;
+      dependent: string;
+      /** Input field that pairs each dependent call with a prerequisite call, e.g. "path" */
+      matching?: string;
+      /** How long the prerequisite call may take to succeed, in milliseconds */
+      withinMs?: number;
+    }
   | { kind: "approval"; tool: string }
   | { kind: "block"; tool: string }
-  | { kind: "limit"; tool: string; limit: number; scope: "session" | string };
+  | {
+      kind: "limit";
+      tool: string;
+      limit: number;
+      scope: "session" | string;
+      windowMs?: number;
+      /** What the budget counts, e.g. "tokens"; calls when absent */
+      unit?: string;
+      /** Source of a cost-charged budget's per-call cost, e.g. "input.maxTokens" */
+      cost?: string;
+    }
+) & {
+  /** Input condition the rule applies under, e.g. "command matches /sudo/" */
+  when?: string;
+};
 
 /** A transition that optionally gates tool access */
 export type GatedTransition<Place extends string> = {
@@ -23,6 +45,62 @@ export type GatedTransition<Place extends string> = {
    * the net advances (e.g. backup must succeed before delete unlocks).
    */
   deferred?: boolean;
+  /**
+   * For deferred transitions: how long to wait for the tool_result, in
+   * milliseconds. A pending call older than this is expired by the
+   * manager's sweep and treated as a failure — a late result is ignored.
+   */
+  deferredTimeoutMs?: number;
+  /**
+   * Precedence when several enabled transitions match the same tool, or
+   * structural transitions compete for the same token: the highest
+   * wins. Defaults to 0. Tool matches of equal priority fall back to the
+   * net's `resolveTransition`, then to array order; competing structural
+   * transitions of equal priority do not fire.
+   */
+  priority?: number;
+  /** Tokens the call is charged on top of `inputs`, computed from its input */
+  cost?: TransitionCost<Place>;
+};
+
+/**
+ * An input arc whose weight is computed from each call's input, e.g. an
+ * LLM call charged by `input.maxTokens` against a token budget.
+ */
+export type TransitionCost<Place extends string> = {
+  /** The place the charge is taken from */
+  place: Place;
+  /**
+   * The charge for a call, rounded up to a whole number of tokens. A
+   * result that is not a finite number of zero or more blocks the call.
+   */
+  amount: (input: Record<string, unknown>) => number;
+  /**
+   * The most one call may be charged. Costlier calls are blocked, so
+   * analysis can rely on every charge lying between 0 and `max`.
+   */
+  max: number;
+  /** Where the charged tokens go, e.g. a `spent` place a refill returns them from. Dropped if unset. */
+  to?: Place;
+};
+
+/** What `resolveTransition` is told about a call several transitions match */
+export type TransitionChoice<Place extends string> = {
+  event: ToolEvent;
+  /** The virtual tool name after the net's toolMapper */
+  resolvedTool: string;
+  state: { marking: Marking<Place>; meta: Record<string, unknown> };
+};
+
+/**
+ * Sliding-window refill. Every firing of `transition` schedules one token
+ * to move from `from` back to `to` once `windowMs` has elapsed.
+ */
+export type TimedRefill<Place extends string> = {
+  transition: string;
+  from: Place;
+  to: Place;
+  windowMs: number;
 };
 
 /** Minimal tool event shape for toolMapper */
@@ -69,6 +147,20 @@ export type SkillNet<Place extends string> = {
     transition: GatedTransition<Place>,
     state: { marking: Marking<Place>; meta: Record<string, unknown> },
   ): void;
+  /**
+   * Pick the transition a tool call fires when several match it, e.g. an
+   * ordinary deploy versus an emergency deploy. `candidates` are ordered
+   * by priority, highest first. Return one of them, or undefined for the
+   * first.
+   *
+   * Method syntax is intentional — bivariant so SkillNet<Place> widens to SkillNet<string>.
+   */
+  resolveTransition?(
+    candidates: GatedTransition<Place>[],
+    choice: TransitionChoice<Place>,
+  ): GatedTransition<Place> | undefined;
+  /** Clock-driven refills for time-windowed budgets (e.g. 5 calls per minute) */
+  refills?: TimedRefill<Place>[];
   /** Structured rule metadata for generating constraint-stating block messages */
   ruleMetadata?: RuleMetadata;
 };
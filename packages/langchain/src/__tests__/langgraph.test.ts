@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import type { BaseMessage } from "@langchain/core/messages";
+import { tool } from "@langchain/core/tools";
+import { z } from "zod";
+import type { SkillNet } from "@petriflow/gate";
+import { createPetriflowGate } from "../index.js";
+import { PetriflowToolNode } from "../langgraph.js";
+
+// backup (deferred) before destroy
+const backupBeforeDestroy: SkillNet<string> = {
+  name: "backup-before-destroy",
+  places: ["ready", "backedUp"],
+  terminalPlaces: [],
+  freeTools: [],
+  initialMarking: { ready: 1, backedUp: 0 },
+  transitions: [
+    { name: "backup", type: "auto", inputs: ["ready"], outputs: ["backedUp"], tools: ["backup"], deferred: true },
+    { name: "destroy", type: "auto", inputs: ["backedUp"], outputs: ["ready"], tools: ["destroy"] },
+  ],
+};
+
+const tools = ["backup", "destroy"].map((name) =>
+  tool(async () => `${name} done`, { name, description: name, schema: z.object({}) }),
+);
+
+let callIdCounter = 0;
+function calling(name: string) {
+  return new AIMessage({ content: "", tool_calls: [{ name, args: {}, id: `call-${++callIdCounter}`, type: "tool_call" }] });
+}
+
+async function run(node: PetriflowToolNode, messages: BaseMessage[], threadId?: string) {
+  const config = threadId === undefined ? {} : { configurable: { thread_id: threadId } };
+  const { messages: out } = (await node.invoke({ messages }, config)) as { messages: ToolMessage[] };
+  return out[0]!;
+}
+
+describe("PetriflowToolNode", () => {
+  it("answers blocked calls with error ToolMessages", async () => {
+    const node = new PetriflowToolNode(createPetriflowGate([backupBeforeDestroy]), tools);
+    const result = await run(node, [calling("destroy")]);
+
+    expect(result).toBeInstanceOf(ToolMessage);
+    expect(result.status).toBe("error");
+    expect(result.content).toBe("Tool 'destroy' is not available in the current state.");
+  });
+
+  it("carries state between runs of a thread", async () => {
+    const node = new PetriflowToolNode(createPetriflowGate([backupBeforeDestroy]), tools);
+    const history: BaseMessage[] = [calling("backup")];
+    history.push(await run(node, history, "t1"));
+    history.push(calling("destroy"));
+
+    expect((await run(node, history, "t1")).content).toBe("destroy done");
+  });
+
+  it("keeps threads apart", async () => {
+    const node = new PetriflowToolNode(createPetriflowGate([backupBeforeDestroy]), tools);
+    await run(node, [calling("backup")], "t1");
+
+    expect((await run(node, [calling("destroy")], "t2")).status).toBe("error");
+    expect(node.getSession("t1")!.manager.getActiveNets()[0]!.state.marking).toEqual({ ready: 0, backedUp: 1 });
+  });
+
+  it("rebuilds a thread it has not seen from its messages", async () => {
+    const node = new PetriflowToolNode(createPetriflowGate([backupBeforeDestroy]), tools);
+    const backup = calling("backup");
+    const history = [
+      backup,
+      new ToolMessage({ content: "backup done", tool_call_id: backup.tool_calls![0]!.id!, name: "backup" }),
+      calling("destroy"),
+    ];
+
+    expect((await run(node, history, "resumed")).content).toBe("destroy done");
+  });
+
+  it("forgets deleted threads", async () => {
+    const node = new PetriflowToolNode(createPetriflowGate([backupBeforeDestroy]), tools);
+    await run(node, [calling("backup")], "t1");
+    expect(node.deleteSession("t1")).toBe(true);
+    expect(node.getSession("t1")).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "bun:test";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { extractReplayEntries } from "../replay.js";
+
+function aiCalls(...calls: { name: string; id: string; args?: Record<string, unknown> }[]) {
+  return new AIMessage({
+    content: "",
+    tool_calls: calls.map((c) => ({ name: c.name, id: c.id, args: c.args ?? {}, type: "tool_call" as const })),
+  });
+}
+
+describe("extractReplayEntries", () => {
+  it("returns tool results in message order with their call's input", () => {
+    const entries = extractReplayEntries([
+      new HumanMessage("go"),
+      aiCalls({ name: "lint", id: "a" }, { name: "bash", id: "b", args: { command: "bun test" } }),
+      new ToolMessage({ content: "ok", tool_call_id: "b" }),
+      new ToolMessage({ content: "ok", tool_call_id: "a" }),
+    ]);
+
+    expect(entries).toEqual([
+      { toolName: "bash", input: { command: "bun test" }, isError: false },
+      { toolName: "lint", input: {}, isError: false },
+    ]);
+  });
+
+  it("marks error tool messages as failures", () => {
+    const entries = extractReplayEntries([
+      aiCalls({ name: "test", id: "a" }),
+      new ToolMessage({ content: "Tool 'test' is not available", tool_call_id: "a", status: "error" }),
+    ]);
+    expect(entries).toEqual([{ toolName: "test", input: {}, isError: true }]);
+  });
+
+  it("consults isToolResultError with the message content", () => {
+    const entries = extractReplayEntries(
+      [
+        aiCalls({ name: "test", id: "a" }, { name: "test", id: "b" }),
+        new ToolMessage({ content: "1 failed", tool_call_id: "a" }),
+        new ToolMessage({ content: "all passed", tool_call_id: "b" }),
+      ],
+      { isToolResultError: (_name, result) => String(result).includes("failed") },
+    );
+    expect(entries.map((e) => e.isError)).toEqual([true, false]);
+  });
+
+  it("treats a throwing isToolResultError as a failure", () => {
+    const entries = extractReplayEntries(
+      [aiCalls({ name: "test", id: "a" }), new ToolMessage({ content: "ok", tool_call_id: "a" })],
+      {
+        isToolResultError: () => {
+          throw new Error("boom");
+        },
+      },
+    );
+    expect(entries[0]!.isError).toBe(true);
+  });
+
+  it("falls back to the tool message's name when the call is missing", () => {
+    const entries = extractReplayEntries([
+      new ToolMessage({ content: "ok", tool_call_id: "gone", name: "backup" }),
+      new ToolMessage({ content: "ok", tool_call_id: "unnamed" }),
+    ]);
+    expect(entries).toEqual([{ toolName: "backup", input: undefined, isError: false }]);
+  });
+
+  it("ignores calls that have no result yet", () => {
+    expect(extractReplayEntries([aiCalls({ name: "deploy", id: "a" })])).toEqual([]);
+  });
+});
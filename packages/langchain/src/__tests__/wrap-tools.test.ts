@@ -0,0 +1,209 @@
+import { describe, expect, it, mock } from "bun:test";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { DynamicTool, StructuredTool, tool } from "@langchain/core/tools";
+import { z } from "zod";
+import type { SkillNet } from "@petriflow/gate";
+import { createPetriflowGate } from "../index.js";
+import { ToolCallBlockedError } from "../errors.js";
+
+/** Helper to define test nets typed as SkillNet<string> (avoids contravariance issues) */
+function testNet(n: SkillNet<string>): SkillNet<string> { return n; }
+
+// ---------------------------------------------------------------------------
+// Tool helpers
+// ---------------------------------------------------------------------------
+
+function mockTool(name: string, fn?: (input: any) => any) {
+  const func = mock(fn ?? (async (input: any) => `${name} ok ${JSON.stringify(input)}`));
+  return { func, tool: tool(func, { name, description: `The ${name} tool`, schema: z.object({ path: z.string().optional() }) }) };
+}
+
+let callIdCounter = 0;
+function toolCall(name: string, args: Record<string, unknown> = {}) {
+  return { name, args, id: `call-${++callIdCounter}`, type: "tool_call" as const };
+}
+
+// ---------------------------------------------------------------------------
+// Test nets
+// ---------------------------------------------------------------------------
+
+const blockingNet = testNet({
+  name: "blocker",
+  places: ["locked", "unlocked"],
+  terminalPlaces: [],
+  freeTools: ["readData"],
+  initialMarking: { locked: 1, unlocked: 0 },
+  transitions: [
+    { name: "write", type: "auto" as const, inputs: ["unlocked"], outputs: ["locked"], tools: ["writeData"] },
+  ],
+});
+
+const deferredNet = testNet({
+  name: "deferred",
+  places: ["ready", "backedUp"],
+  terminalPlaces: [],
+  freeTools: ["readData"],
+  initialMarking: { ready: 1, backedUp: 0 },
+  transitions: [
+    { name: "backup", type: "auto" as const, inputs: ["ready"], outputs: ["backedUp"], tools: ["backup"], deferred: true },
+    { name: "destroy", type: "auto" as const, inputs: ["backedUp"], outputs: ["ready"], tools: ["destroy"] },
+  ],
+});
+
+const manualNet = testNet({
+  name: "manual",
+  places: ["ready"],
+  terminalPlaces: [],
+  freeTools: [],
+  initialMarking: { ready: 1 },
+  transitions: [
+    { name: "write", type: "manual" as const, inputs: ["ready"], outputs: ["ready"], tools: ["writeData"] },
+  ],
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("wrapTools", () => {
+  it("keeps the tool's identity", () => {
+    const { tool: read } = mockTool("readData");
+    const [wrapped] = createPetriflowGate([blockingNet]).wrapTools([read]).tools;
+
+    expect(wrapped!.name).toBe("readData");
+    expect(wrapped!.description).toBe("The readData tool");
+    expect(wrapped!.schema).toBe(read.schema);
+    expect(wrapped).toBeInstanceOf(StructuredTool);
+  });
+
+  it("passes allowed calls through", async () => {
+    const { func, tool: read } = mockTool("readData");
+    const [wrapped] = createPetriflowGate([blockingNet]).wrapTools([read]).tools;
+
+    expect(await wrapped!.invoke({ path: "a.txt" })).toBe('readData ok {"path":"a.txt"}');
+    const call = toolCall("readData", { path: "b.txt" });
+    const message = await wrapped!.invoke(call);
+    expect(message).toBeInstanceOf(ToolMessage);
+    expect(message.tool_call_id).toBe(call.id);
+    expect(func).toHaveBeenCalledTimes(2);
+  });
+
+  it("answers blocked tool calls with an error ToolMessage", async () => {
+    const { func, tool: write } = mockTool("writeData");
+    const [wrapped] = createPetriflowGate([blockingNet]).wrapTools([write]).tools;
+
+    const call = toolCall("writeData");
+    const message = await wrapped!.invoke(call);
+    expect(message).toBeInstanceOf(ToolMessage);
+    expect(message).toMatchObject({
+      tool_call_id: call.id,
+      name: "writeData",
+      status: "error",
+      content: "Tool 'writeData' is not available in the current state.",
+    });
+    expect(func).not.toHaveBeenCalled();
+  });
+
+  it("throws ToolCallBlockedError for blocked calls without a tool call id", async () => {
+    const { tool: write } = mockTool("writeData");
+    const [wrapped] = createPetriflowGate([blockingNet]).wrapTools([write]).tools;
+    await expect(wrapped!.invoke({})).rejects.toBeInstanceOf(ToolCallBlockedError);
+  });
+
+  it("applies transformBlockReason", async () => {
+    const { tool: write } = mockTool("writeData");
+    const gate = createPetriflowGate([blockingNet], {
+      transformBlockReason: (name, reason) => `[${name}] ${reason} Ask the user first.`,
+    });
+    const [wrapped] = gate.wrapTools([write]).tools;
+
+    const message = await wrapped!.invoke(toolCall("writeData"));
+    expect(message.content).toBe("[writeData] Tool 'writeData' is not available in the current state. Ask the user first.");
+  });
+
+  it("asks confirm for manual transitions", async () => {
+    const confirm = mock(async () => true);
+    const { func, tool: write } = mockTool("writeData");
+    const [wrapped] = createPetriflowGate([manualNet], { confirm }).wrapTools([write]).tools;
+
+    expect((await wrapped!.invoke(toolCall("writeData"))).status).not.toBe("error");
+    expect(confirm).toHaveBeenCalledTimes(1);
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives DynamicTool string input to the nets as `input`", async () => {
+    const seen: unknown[] = [];
+    const net = testNet({
+      ...blockingNet,
+      freeTools: ["shell"],
+      toolMapper: (event) => {
+        seen.push(event.input);
+        return event.toolName;
+      },
+    });
+    const shell = new DynamicTool({ name: "shell", description: "Run a command", func: async (cmd) => `ran ${cmd}` });
+    const [wrapped] = createPetriflowGate([net]).wrapTools([shell]).tools;
+
+    expect(await wrapped!.invoke("ls")).toBe("ran ls");
+    expect(seen).toEqual([{ input: "ls" }]);
+  });
+});
+
+describe("deferred transitions", () => {
+  it("advance when the tool succeeds", async () => {
+    const { tool: backup } = mockTool("backup");
+    const { func, tool: destroy } = mockTool("destroy");
+    const [b, d] = createPetriflowGate([deferredNet]).wrapTools([backup, destroy]).tools;
+
+    await b!.invoke(toolCall("backup"));
+    expect((await d!.invoke(toolCall("destroy"))).status).not.toBe("error");
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+
+  it("do not advance when the tool throws", async () => {
+    const { tool: backup } = mockTool("backup", async () => {
+      throw new Error("disk full");
+    });
+    const { tool: destroy } = mockTool("destroy");
+    const [b, d] = createPetriflowGate([deferredNet]).wrapTools([backup, destroy]).tools;
+
+    await expect(b!.invoke(toolCall("backup"))).rejects.toThrow("disk full");
+    expect((await d!.invoke(toolCall("destroy"))).status).toBe("error");
+  });
+
+  it("do not advance when isToolResultError says the result failed", async () => {
+    const { tool: backup } = mockTool("backup", async () => "FAILED");
+    const { tool: destroy } = mockTool("destroy");
+    const isToolResultError = mock((_name: string, result: unknown) => result === "FAILED");
+    const [b, d] = createPetriflowGate([deferredNet], { isToolResultError }).wrapTools([backup, destroy]).tools;
+
+    await b!.invoke(toolCall("backup"));
+    expect(isToolResultError).toHaveBeenCalledWith("backup", "FAILED");
+    expect((await d!.invoke(toolCall("destroy"))).status).toBe("error");
+  });
+});
+
+describe("wrapTools({ messages })", () => {
+  it("rebuilds state from the conversation history", async () => {
+    const { tool: destroy } = mockTool("destroy");
+    const messages = [
+      new HumanMessage("clean up"),
+      new AIMessage({ content: "", tool_calls: [{ name: "backup", args: {}, id: "b1", type: "tool_call" }] }),
+      new ToolMessage({ content: "done", tool_call_id: "b1", name: "backup" }),
+    ];
+    const [d] = createPetriflowGate([deferredNet]).wrapTools([destroy], { messages }).tools;
+
+    expect((await d!.invoke(toolCall("destroy"))).status).not.toBe("error");
+  });
+
+  it("skips blocked and failed calls", async () => {
+    const { tool: destroy } = mockTool("destroy");
+    const messages = [
+      new AIMessage({ content: "", tool_calls: [{ name: "backup", args: {}, id: "b1", type: "tool_call" }] }),
+      new ToolMessage({ content: "Tool 'backup' is not available", tool_call_id: "b1", name: "backup", status: "error" }),
+    ];
+    const [d] = createPetriflowGate([deferredNet]).wrapTools([destroy], { messages }).tools;
+
+    expect((await d!.invoke(toolCall("destroy"))).status).toBe("error");
+  });
+});
@@ -0,0 +1,95 @@
+import type { BaseMessage } from "@langchain/core/messages";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { createGateManager } from "@petriflow/gate";
+import type { ComposeConfig, GateContext, GateManagerOptions, SkillNet } from "@petriflow/gate";
+import { extractReplayEntries } from "./replay.js";
+import { wrapTools as wrapToolsInternal } from "./wrap-tools.js";
+
+type GateOptions = Omit<GateManagerOptions, "mode"> & {
+  mode?: GateManagerOptions["mode"];
+  /** Called for manual transitions. If not provided, manual transitions are blocked. */
+  confirm?: GateContext["confirm"];
+  /** Transform block reasons before they reach the model. Receives the default constraint message. */
+  transformBlockReason?: (toolName: string, reason: string) => string;
+  /**
+   * Classify a tool result as an error, for tools that report failure in
+   * their return value instead of throwing. Applied in both live execution
+   * and replay; receives the tool's output, or a `ToolMessage`'s `content`.
+   *
+   * Tool messages with `status: "error"` are always failures — this
+   * callback is only consulted for the rest.
+   */
+  isToolResultError?: (toolName: string, result: unknown) => boolean;
+};
+
+type WrapToolsOptions = {
+  /** Initialize gate state from existing conversation history. */
+  messages?: BaseMessage[];
+};
+
+export function createPetriflowGate(nets: SkillNet<string>[], opts?: GateOptions): PetriflowGate;
+export function createPetriflowGate(config: ComposeConfig, opts?: GateOptions): PetriflowGate;
+export function createPetriflowGate(
+  input: SkillNet<string>[] | ComposeConfig,
+  opts?: GateOptions,
+): PetriflowGate {
+  const managerOpts: GateManagerOptions = {
+    mode: opts?.mode ?? "enforce",
+    onDecision: opts?.onDecision,
+    now: opts?.now,
+    audit: opts?.audit,
+    approvals: opts?.approvals,
+    events: opts?.events,
+  };
+
+  const ctx: GateContext = {
+    hasUI: !!opts?.confirm,
+    confirm: opts?.confirm ?? (async () => false),
+  };
+
+  return {
+    wrapTools: <T extends StructuredToolInterface[]>(tools: T, wrapOpts?: WrapToolsOptions): GateSession<T> => {
+      const manager = createGateManager(input, managerOpts);
+
+      if (wrapOpts?.messages) {
+        manager.replay(extractReplayEntries(wrapOpts.messages, { isToolResultError: opts?.isToolResultError }));
+      }
+
+      return {
+        tools: wrapToolsInternal(tools, manager, ctx, {
+          transformBlockReason: opts?.transformBlockReason,
+          isToolResultError: opts?.isToolResultError,
+        }),
+        systemPrompt: () => manager.formatSystemPrompt(),
+        formatStatus: () => manager.formatStatus(),
+        addNet: (name: string) => manager.addNet(name),
+        removeNet: (name: string) => manager.removeNet(name),
+        manager,
+      };
+    },
+  };
+}
+
+export type GateSession<T extends StructuredToolInterface[] = StructuredToolInterface[]> = {
+  tools: T;
+  systemPrompt: () => string;
+  formatStatus: () => string;
+  addNet: (name: string) => { ok: boolean; message: string };
+  removeNet: (name: string) => { ok: boolean; message: string };
+  manager: ReturnType<typeof createGateManager>;
+};
+
+export type PetriflowGate = {
+  wrapTools: <T extends StructuredToolInterface[]>(tools: T, opts?: WrapToolsOptions) => GateSession<T>;
+};
+
+// Re-export gate types for convenience
+export type { SkillNet, ComposeConfig, GateManager, GateManagerOptions, ReplayEntry, RuleMetadata } from "@petriflow/gate";
+export { defineSkillNet, createGateManager } from "@petriflow/gate";
+
+// Read message histories as traces for replay
+export { extractReplayEntries } from "./replay.js";
+export type { ExtractReplayOptions } from "./replay.js";
+
+// Re-export errors
+export { ToolCallBlockedError } from "./errors.js";
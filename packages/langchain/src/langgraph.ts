@@ -0,0 +1,54 @@
+import type { BaseMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { ToolNode } from "@langchain/langgraph/prebuilt";
+import type { ToolNodeOptions } from "@langchain/langgraph/prebuilt";
+import type { GateSession, PetriflowGate } from "./index.js";
+
+/**
+ * A LangGraph `ToolNode` whose tools are gated per thread.
+ *
+ * A compiled graph serves many threads, so the node keeps one gate
+ * session per `configurable.thread_id`. The first time it runs for a
+ * thread — including a thread resumed from a checkpoint in a new
+ * process — it rebuilds the session from the thread's `messages`, the
+ * same way `wrapTools({ messages })` does. Runs without a thread id
+ * share one session.
+ *
+ * Blocked calls come back as `ToolMessage`s with `status: "error"`, so
+ * the graph routes them back to the model like any other tool result.
+ */
+export class PetriflowToolNode extends ToolNode {
+  private readonly gate: PetriflowGate;
+  private readonly nodeOptions: ToolNodeOptions | undefined;
+  private readonly threads = new Map<string, { session: GateSession; node: ToolNode }>();
+
+  constructor(gate: PetriflowGate, tools: StructuredToolInterface[], options?: ToolNodeOptions) {
+    super(tools, options);
+    this.gate = gate;
+    this.nodeOptions = options;
+  }
+
+  /** The gate session for a thread, once the node has run for it */
+  getSession(threadId = ""): GateSession | undefined {
+    return this.threads.get(threadId)?.session;
+  }
+
+  /** Drop a thread's session, e.g. when the thread is deleted */
+  deleteSession(threadId = ""): boolean {
+    return this.threads.delete(threadId);
+  }
+
+  protected override async run(input: any, config: RunnableConfig): Promise<any> {
+    const threadId = String(config.configurable?.thread_id ?? "");
+    let thread = this.threads.get(threadId);
+    if (!thread) {
+      // Pending calls in the last AI message have no results yet, so replay skips them
+      const messages: BaseMessage[] = Array.isArray(input) ? input : (input?.messages ?? []);
+      const session = this.gate.wrapTools(this.tools as StructuredToolInterface[], { messages });
+      thread = { session, node: new ToolNode(session.tools, this.nodeOptions) };
+      this.threads.set(threadId, thread);
+    }
+    return thread.node.invoke(input, config);
+  }
+}
@@ -0,0 +1,58 @@
+import { isAIMessage, isToolMessage } from "@langchain/core/messages";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { ReplayEntry } from "@petriflow/gate";
+
+export type ExtractReplayOptions = {
+  /**
+   * Custom predicate to classify a tool result as an error. Called for
+   * tool messages whose `status` is not already `"error"`, with the tool
+   * name and the message's `content`.
+   */
+  isToolResultError?: (toolName: string, result: unknown) => boolean;
+};
+
+/**
+ * Extract replay entries from a LangChain message history — an agent's
+ * `messages`, or a LangGraph checkpoint's `messages` channel.
+ *
+ * Correlates `tool_calls` on AI messages with tool messages by
+ * `tool_call_id`. The input from the call is preserved for toolMapper
+ * resolution. Tool messages with `status: "error"` are failures, which
+ * covers calls the gate blocked.
+ *
+ * Results are returned in the order tool messages appear.
+ *
+ * **Security:** The message history is treated as authoritative. Use
+ * server-persisted messages, not client-provided history.
+ */
+export function extractReplayEntries(messages: BaseMessage[], opts?: ExtractReplayOptions): ReplayEntry[] {
+  // Index tool calls by id
+  const calls = new Map<string, { name: string; args: Record<string, unknown> }>();
+  for (const msg of messages) {
+    if (!isAIMessage(msg)) continue;
+    for (const call of msg.tool_calls ?? []) {
+      if (call.id !== undefined) calls.set(call.id, call);
+    }
+  }
+
+  const entries: ReplayEntry[] = [];
+  for (const msg of messages) {
+    if (!isToolMessage(msg)) continue;
+    const call = calls.get(msg.tool_call_id);
+    const toolName = call?.name ?? msg.name;
+    if (toolName === undefined) continue;
+
+    let isError = msg.status === "error";
+    if (!isError && opts?.isToolResultError) {
+      try {
+        isError = opts.isToolResultError(toolName, msg.content);
+      } catch {
+        // Callback threw — treat as error to avoid advancing on unknown state
+        isError = true;
+      }
+    }
+    entries.push({ toolName, input: call?.args, isError });
+  }
+
+  return entries;
+}
@@ -0,0 +1,91 @@
+import { ToolMessage } from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import type { GateContext, GateManager } from "@petriflow/gate";
+import { ToolCallBlockedError } from "./errors.js";
+
+type WrapToolsOpts = {
+  transformBlockReason?: (toolName: string, reason: string) => string;
+  isToolResultError?: (toolName: string, result: unknown) => boolean;
+};
+
+/** Tool input as the nets see it — `DynamicTool` takes a bare string, which LangChain calls `input` */
+function toInput(arg: unknown): Record<string, unknown> {
+  if (typeof arg === "object" && arg !== null) return arg as Record<string, unknown>;
+  return arg === undefined ? {} : { input: arg };
+}
+
+/** Whether a tool's return value is a failure, by `ToolMessage.status` and then the callback */
+function isErrorResult(name: string, result: unknown, opts: WrapToolsOpts): boolean {
+  if (result instanceof ToolMessage && result.status === "error") return true;
+  if (!opts.isToolResultError) return false;
+  try {
+    return opts.isToolResultError(name, result instanceof ToolMessage ? result.content : result);
+  } catch {
+    // Callback threw — treat as error to avoid advancing on unknown state
+    return true;
+  }
+}
+
+/**
+ * Wraps each tool's `call` with Petri net gating. Every entry point —
+ * `invoke`, `ToolNode`, agent executors — goes through `call`.
+ *
+ * - Before the call: `manager.handleToolCall()`
+ * - Blocked, invoked with a `ToolCall` (as `ToolNode` and agents do): a
+ *   `ToolMessage` with `status: "error"` and the reason as its content,
+ *   so the model sees why and the graph keeps running
+ * - Blocked, invoked with bare arguments: throws `ToolCallBlockedError`,
+ *   since there is no tool call id to answer
+ * - After success: `manager.handleToolResult({ isError })` — a `ToolMessage`
+ *   with `status: "error"` or a true `isToolResultError` counts as failure
+ * - After thrown error: `manager.handleToolResult({ isError: true })`, re-throws
+ *
+ * The wrapper inherits from the original tool, so its name, schema and
+ * `instanceof` checks are unchanged.
+ */
+export function wrapTools<T extends StructuredToolInterface[]>(
+  tools: T,
+  manager: GateManager,
+  ctx: GateContext,
+  opts: WrapToolsOpts,
+): T {
+  // Ids for calls made without a ToolCall — they only pair a call with its result
+  let nextCallId = 0;
+
+  return tools.map((tool) => {
+    const originalCall = tool.call;
+    const wrapped: StructuredToolInterface = Object.create(tool);
+
+    wrapped.call = async function (
+      this: StructuredToolInterface,
+      arg: unknown,
+      configArg?: unknown,
+      ...rest: unknown[]
+    ) {
+      const name = tool.name;
+      const toolCall = (configArg as { toolCall?: ToolCall } | undefined)?.toolCall;
+      const toolCallId = toolCall?.id ?? `langchain-${++nextCallId}`;
+      const input = toInput(arg);
+
+      const decision = await manager.handleToolCall({ toolCallId, toolName: name, input }, ctx);
+
+      if (decision?.block) {
+        const reason = opts.transformBlockReason ? opts.transformBlockReason(name, decision.reason) : decision.reason;
+        if (toolCall?.id === undefined) throw new ToolCallBlockedError(name, toolCallId, reason);
+        return new ToolMessage({ content: reason, tool_call_id: toolCall.id, name, status: "error" });
+      }
+
+      try {
+        const result = await Reflect.apply(originalCall, this, [arg, configArg, ...rest]);
+        manager.handleToolResult({ toolCallId, toolName: name, input, isError: isErrorResult(name, result, opts) });
+        return result;
+      } catch (error) {
+        manager.handleToolResult({ toolCallId, toolName: name, input, isError: true });
+        throw error;
+      }
+    } as StructuredToolInterface["call"];
+
+    return wrapped;
+  }) as T;
+}
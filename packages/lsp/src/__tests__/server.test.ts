@@ -0,0 +1,263 @@
+import { describe, expect, it } from "bun:test";
+import { createRulesServer } from "../server.js";
+import { createMessageReader, frame } from "../rpc.js";
+import type { Message, NotificationMessage, ResponseMessage } from "../rpc.js";
+
+// ---------------------------------------------------------------------------
+// In-process client — messages round-trip through the wire framing
+// ---------------------------------------------------------------------------
+
+function connect(initializationOptions?: { tools?: string[] }) {
+  const responses = new Map<number | string | null, ResponseMessage>();
+  const notifications: NotificationMessage[] = [];
+  let exitCode: number | undefined;
+
+  const toClient = createMessageReader((message) => {
+    if ("method" in message) notifications.push(message);
+    else responses.set(message.id, message);
+  });
+  const server = createRulesServer({
+    send: (message) => toClient(frame(message)),
+    onExit: (code) => {
+      exitCode = code;
+    },
+  });
+  const toServer = createMessageReader((message) => server.handleMessage(message));
+
+  let nextId = 0;
+  const client = {
+    notifications,
+    exitCode: () => exitCode,
+    request(method: string, params?: unknown): ResponseMessage {
+      const id = ++nextId;
+      toServer(frame({ jsonrpc: "2.0", id, method, params }));
+      return responses.get(id)!;
+    },
+    notify(method: string, params?: unknown) {
+      toServer(frame({ jsonrpc: "2.0", method, params }));
+    },
+    open(text: string, uri = "file:///safety.rules") {
+      client.notify("textDocument/didOpen", {
+        textDocument: { uri, languageId: "petriflow-rules", version: 1, text },
+      });
+    },
+    lastDiagnostics() {
+      const published = notifications.filter((n) => n.method === "textDocument/publishDiagnostics");
+      return (published[published.length - 1]!.params as { diagnostics: unknown[] }).diagnostics;
+    },
+    at(line: number, character: number) {
+      return { textDocument: { uri: "file:///safety.rules" }, position: { line, character } };
+    },
+  };
+
+  client.request("initialize", { processId: null, rootUri: null, capabilities: {}, initializationOptions });
+  client.notify("initialized", {});
+  return client;
+}
+
+describe("lifecycle", () => {
+  it("advertises its capabilities", () => {
+    const responses: Message[] = [];
+    const server = createRulesServer({ send: (m) => responses.push(m) });
+    server.handleMessage({ jsonrpc: "2.0", id: 1, method: "initialize", params: { capabilities: {} } });
+
+    expect(responses[0]).toEqual({
+      jsonrpc: "2.0",
+      id: 1,
+      result: {
+        capabilities: {
+          textDocumentSync: 1,
+          completionProvider: { triggerCharacters: [" "] },
+          hoverProvider: true,
+          definitionProvider: true,
+        },
+        serverInfo: { name: "petriflow-rules" },
+      },
+    });
+  });
+
+  it("rejects requests before initialize and unknown methods", () => {
+    const responses: ResponseMessage[] = [];
+    const server = createRulesServer({ send: (m) => responses.push(m as ResponseMessage) });
+    server.handleMessage({ jsonrpc: "2.0", id: 1, method: "textDocument/hover", params: {} });
+    expect(responses[0]!.error!.code).toBe(-32002);
+
+    server.handleMessage({ jsonrpc: "2.0", id: 2, method: "initialize", params: {} });
+    server.handleMessage({ jsonrpc: "2.0", id: 3, method: "textDocument/rename", params: {} });
+    expect(responses[2]!.error!.code).toBe(-32601);
+
+    server.handleMessage({ jsonrpc: "2.0", id: 4, method: "toString", params: {} });
+    expect(responses[3]!.error!.code).toBe(-32601);
+  });
+
+  it("exits cleanly after shutdown", () => {
+    const client = connect();
+    expect(client.request("shutdown").result).toBeNull();
+    client.notify("exit");
+    expect(client.exitCode()).toBe(0);
+  });
+});
+
+describe("diagnostics", () => {
+  it("publishes diagnostics on open and change", () => {
+    const client = connect();
+    client.open("requre test before deploy");
+
+    expect(client.lastDiagnostics()).toEqual([
+      {
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 6 } },
+        severity: 1,
+        code: "unknown-keyword",
+        source: "petriflow",
+        message:
+          "unknown keyword 'requre'. Expected 'map', 'require', 'limit', 'block', 'group', or 'include'. Did you mean 'require'?",
+      },
+    ]);
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri: "file:///safety.rules", version: 2 },
+      contentChanges: [{ text: "require test before deploy\ninclude ./base.rules" }],
+    });
+    expect(client.lastDiagnostics()).toEqual([]);
+  });
+
+  it("checks tools against the configured manifest", () => {
+    const client = connect({ tools: ["test", "deploy"] });
+    client.open("require test before deply");
+    expect(client.lastDiagnostics()).toEqual([
+      expect.objectContaining({ severity: 2, code: "unknown-tool" }),
+    ]);
+
+    client.notify("workspace/didChangeConfiguration", {
+      settings: { petriflow: { tools: ["test", "deply"] } },
+    });
+    expect(client.lastDiagnostics()).toEqual([]);
+  });
+
+  it("clears diagnostics on close", () => {
+    const client = connect();
+    client.open("block");
+    client.notify("textDocument/didClose", { textDocument: { uri: "file:///safety.rules" } });
+    expect(client.lastDiagnostics()).toEqual([]);
+  });
+});
+
+describe("completion", () => {
+  const labels = (response: ResponseMessage) =>
+    (response.result as { label: string }[]).map((i) => i.label);
+
+  it("offers keywords at the start of a line", () => {
+    const client = connect();
+    client.open("re");
+    expect(labels(client.request("textDocument/completion", client.at(0, 2)))).toEqual([
+      "require",
+      "block",
+      "limit",
+      "map",
+      "group",
+      "include",
+    ]);
+  });
+
+  it("offers manifest, document and mapped tools in tool positions", () => {
+    const client = connect({ tools: ["deploy", "bash"] });
+    client.open("map bash.command rm as delete\nblock lint\nrequire ");
+    expect(labels(client.request("textDocument/completion", client.at(2, 8)))).toEqual([
+      "human-approval",
+      "bash",
+      "delete",
+      "deploy",
+      "lint",
+    ]);
+  });
+
+  it("offers the next fixed word of a rule", () => {
+    const client = connect();
+    client.open("limit deploy to 3 ");
+    expect(labels(client.request("textDocument/completion", client.at(0, 18)))).toEqual(["per"]);
+
+    client.open("limit llm.generate to 1000 tokens per session ");
+    expect(labels(client.request("textDocument/completion", client.at(0, 46)))).toEqual(["cost", "when"]);
+
+    client.open("limit llm.generate to 1000 tokens per session cost maxTokens ");
+    expect(labels(client.request("textDocument/completion", client.at(0, 61)))).toEqual(["max", "when"]);
+
+    client.open("require test before deploy ");
+    expect(labels(client.request("textDocument/completion", client.at(0, 27)))).toEqual([
+      "matching",
+      "within",
+      "when",
+    ]);
+
+    client.open("require backup before delete matching path ");
+    expect(labels(client.request("textDocument/completion", client.at(0, 43)))).toEqual([
+      "within",
+      "when",
+    ]);
+  });
+});
+
+describe("hover", () => {
+  it("shows the compiled net for a rule line", () => {
+    const client = connect();
+    client.open("# deploy safety\n  require test before deploy");
+
+    const hover = client.request("textDocument/hover", client.at(1, 5)).result as {
+      contents: { value: string };
+      range: unknown;
+    };
+    expect(hover.contents.value).toBe(
+      [
+        "**require-test-before-deploy** — 3 reachable states",
+        "",
+        "Places: idle:1, ready:0, gate:0",
+        "",
+        "Transitions:",
+        "- `start`: idle → ready",
+        "- `do-test`: ready → gate (test, deferred)",
+        "- `do-deploy`: gate → ready (deploy)",
+      ].join("\n"),
+    );
+    expect(hover.range).toEqual({
+      start: { line: 1, character: 2 },
+      end: { line: 1, character: 28 },
+    });
+  });
+
+  it("resolves mapped tools and returns null off rule lines", () => {
+    const client = connect();
+    client.open("map bash.command rm as delete\nblock delete");
+
+    const hover = client.request("textDocument/hover", client.at(1, 0)).result as {
+      contents: { value: string };
+    };
+    expect(hover.contents.value).toContain("**block-delete**");
+    expect(client.request("textDocument/hover", client.at(0, 0)).result).toBeNull();
+  });
+});
+
+describe("definition", () => {
+  it("jumps from a virtual tool name to its map line", () => {
+    const client = connect();
+    client.open("map bash.command /rm\\s/ as delete\n\nrequire backup before delete");
+
+    expect(client.request("textDocument/definition", client.at(2, 25)).result).toEqual({
+      uri: "file:///safety.rules",
+      range: { start: { line: 0, character: 27 }, end: { line: 0, character: 33 } },
+    });
+    expect(client.request("textDocument/definition", client.at(2, 10)).result).toBeNull();
+  });
+});
+
+describe("framing", () => {
+  it("reassembles messages split across chunks, counting bytes", () => {
+    const received: Message[] = [];
+    const read = createMessageReader((m) => received.push(m));
+    const wire = frame({ jsonrpc: "2.0", method: "note", params: { text: "naïve → ok" } });
+
+    read(wire.slice(0, 10));
+    read(wire.slice(10) + wire);
+    expect(received).toHaveLength(2);
+    expect(received[0]).toEqual({ jsonrpc: "2.0", method: "note", params: { text: "naïve → ok" } });
+  });
+});
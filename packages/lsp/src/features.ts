@@ -0,0 +1,232 @@
+import { compile, formatDiagnostic, parseRules } from "@petriflow/rules";
+import type { Diagnostic, RuleStatement } from "@petriflow/rules";
+
+// ---------------------------------------------------------------------------
+// LSP shapes (the subset this server speaks). Positions are 0-based.
+// ---------------------------------------------------------------------------
+
+export type Position = { line: number; character: number };
+export type Range = { start: Position; end: Position };
+
+export type LspDiagnostic = {
+  range: Range;
+  severity: 1 | 2;
+  code: string;
+  source: "petriflow";
+  message: string;
+};
+
+export const CompletionItemKind = { Function: 3, Keyword: 14 } as const;
+
+export type CompletionItem = {
+  label: string;
+  kind: (typeof CompletionItemKind)[keyof typeof CompletionItemKind];
+  detail?: string;
+};
+
+export type Hover = { contents: { kind: "markdown"; value: string }; range: Range };
+
+// ---------------------------------------------------------------------------
+// Document helpers
+// ---------------------------------------------------------------------------
+
+type Word = { text: string; start: number; end: number };
+
+function wordsOf(line: string): Word[] {
+  const code = line.split("#")[0]!;
+  return [...code.matchAll(/\S+/g)].map((m) => ({
+    text: m[0],
+    start: m.index,
+    end: m.index + m[0].length,
+  }));
+}
+
+function lineRange(line: number, start: number, end: number): Range {
+  return { start: { line, character: start }, end: { line, character: end } };
+}
+
+function parse(text: string, tools?: string[]) {
+  return parseRules(text, { tools, allowInclude: true });
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostics
+// ---------------------------------------------------------------------------
+
+function toLspDiagnostic(d: Diagnostic): LspDiagnostic {
+  // The message drops the `Line N:` prefix — the editor shows the position
+  const message = formatDiagnostic(d).replace(/^Line \d+: /, "");
+  return {
+    range: lineRange(d.line - 1, d.column - 1, d.endColumn - 1),
+    severity: d.severity === "error" ? 1 : 2,
+    code: d.code,
+    source: "petriflow",
+    message,
+  };
+}
+
+export function getDiagnostics(text: string, tools?: string[]): LspDiagnostic[] {
+  return parse(text, tools).diagnostics.map(toLspDiagnostic);
+}
+
+// ---------------------------------------------------------------------------
+// Completion
+// ---------------------------------------------------------------------------
+
+const KEYWORDS: Record<string, string> = {
+  require: "require <tool> before <tool> [matching <field>] [within <window>]",
+  block: "block <tool>",
+  limit: "limit <tool> to <N> [<unit>] per <scope> [cost <expr> [max <M>]]",
+  map: "map <tool>.<field> <pattern> as <name>",
+  group: "group <name> { ... }",
+  include: "include <path>",
+};
+
+type Slot = { words: string[]; tools: boolean };
+
+/** What may go in token `index` of a line starting with `keyword` */
+function slotFor(keyword: string, index: number, previous: string[]): Slot {
+  const none = { words: [], tools: false };
+  const tools = { words: [], tools: true };
+  const word = (...words: string[]) => ({ words, tools: false });
+
+  if (previous.includes("when")) return none;
+
+  switch (keyword) {
+    case "require":
+      if (index === 1) return { words: ["human-approval"], tools: true };
+      if (index === 2) return word("before");
+      if (index === 3) return tools;
+      if (previous[1] === "human-approval") return word("when");
+      // The field or window after `matching` / `within`
+      if (previous[index - 1] === "matching" || previous[index - 1] === "within") return none;
+      if (previous.includes("within")) return word("when");
+      if (previous.includes("matching")) return word("within", "when");
+      return word("matching", "within", "when");
+    case "block":
+      return index === 1 ? tools : word("when");
+    case "limit": {
+      if (index === 1) return tools;
+      if (index === 2) return word("to");
+      if (index === 3) return none;
+      // `per`, or a unit before it
+      const per = previous.indexOf("per", 4);
+      if (per === -1) return index <= 5 ? word("per") : none;
+      if (index === per + 1) return { words: ["session"], tools: true };
+      // The expression after `cost` / the number after `max`
+      if (previous[index - 1] === "cost" || previous[index - 1] === "max") return none;
+      if (previous.includes("max")) return word("when");
+      if (previous.includes("cost")) return word("max", "when");
+      return word("cost", "when");
+    }
+    case "map":
+      return index === 3 ? word("as") : none;
+    default:
+      return none;
+  }
+}
+
+function knownTools(statements: RuleStatement[], tools: string[] = []): string[] {
+  const names = new Set(tools);
+  for (const s of statements) {
+    if (s.defines !== undefined) names.add(s.defines);
+    else for (const t of s.tools) names.add(t);
+  }
+  return [...names].sort();
+}
+
+export function getCompletions(text: string, position: Position, tools?: string[]): CompletionItem[] {
+  const line = text.split("\n")[position.line] ?? "";
+  const before = wordsOf(line.slice(0, position.character));
+  // The word under the cursor (if any) is being completed, not counted
+  const typing = /\S$/.test(line.slice(0, position.character));
+  const previous = (typing ? before.slice(0, -1) : before).map((w) => w.text);
+
+  if (previous.length === 0) {
+    return Object.entries(KEYWORDS).map(([label, detail]) => ({
+      label,
+      kind: CompletionItemKind.Keyword,
+      detail,
+    }));
+  }
+
+  const slot = slotFor(previous[0]!, previous.length, previous);
+  const items: CompletionItem[] = slot.words.map((label) => ({
+    label,
+    kind: CompletionItemKind.Keyword,
+  }));
+  if (slot.tools) {
+    const { statements } = parse(text, tools);
+    for (const label of knownTools(statements, tools)) {
+      items.push({ label, kind: CompletionItemKind.Function, detail: "tool" });
+    }
+  }
+  return items;
+}
+
+// ---------------------------------------------------------------------------
+// Hover — the compiled net behind a rule line
+// ---------------------------------------------------------------------------
+
+export function getHover(text: string, position: Position): Hover | null {
+  const lines = text.split("\n");
+  const { statements } = parse(text);
+  const statement = statements.find((s) => s.line === position.line + 1);
+  if (!statement || statement.kind === "map") return null;
+
+  // Compile the rule on its own, with every map so virtual names resolve
+  const maps = statements.filter((s) => s.kind === "map").map((s) => lines[s.line - 1]!);
+  let compiled;
+  try {
+    compiled = compile([...maps, lines[position.line]!]);
+  } catch {
+    return null;
+  }
+  const net = compiled.nets[0]!;
+  const { reachableStates } = compiled.verification[0]!;
+
+  const transitions = net.transitions.map((t) => {
+    const arrow = `${t.inputs.join(", ") || "∅"} → ${t.outputs.join(", ") || "∅"}`;
+    const notes = [
+      ...(t.tools ?? []),
+      ...(t.type === "manual" ? ["manual"] : []),
+      ...(t.deferred ? ["deferred"] : []),
+    ];
+    return `- \`${t.name}\`: ${arrow}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`;
+  });
+  const marking = net.places.map((p) => `${p}:${net.initialMarking[p] ?? 0}`).join(", ");
+
+  const value = [
+    `**${net.name}** — ${reachableStates} reachable state${reachableStates === 1 ? "" : "s"}`,
+    "",
+    `Places: ${marking}`,
+    "",
+    "Transitions:",
+    ...transitions,
+  ].join("\n");
+
+  const words = wordsOf(lines[position.line]!);
+  return {
+    contents: { kind: "markdown", value },
+    range: lineRange(position.line, words[0]!.start, words[words.length - 1]!.end),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Go to definition — virtual tool name → its `map` line
+// ---------------------------------------------------------------------------
+
+export function getDefinition(text: string, position: Position): Range | null {
+  const lines = text.split("\n");
+  const word = wordsOf(lines[position.line] ?? "").find(
+    (w) => w.start <= position.character && position.character <= w.end,
+  );
+  if (!word) return null;
+
+  const map = parse(text).statements.find((s) => s.defines === word.text);
+  if (!map) return null;
+
+  const mapWords = wordsOf(lines[map.line - 1]!);
+  const name = mapWords[mapWords.length - 1]!;
+  return lineRange(map.line - 1, name.start, name.end);
+}
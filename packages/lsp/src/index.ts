@@ -0,0 +1,8 @@
+export { createRulesServer } from "./server.js";
+export type { RulesServer, RulesServerOptions } from "./server.js";
+
+export { getCompletions, getDefinition, getDiagnostics, getHover, CompletionItemKind } from "./features.js";
+export type { CompletionItem, Hover, LspDiagnostic, Position, Range } from "./features.js";
+
+export { createMessageReader, frame, ErrorCodes } from "./rpc.js";
+export type { Message, NotificationMessage, RequestMessage, ResponseMessage } from "./rpc.js";
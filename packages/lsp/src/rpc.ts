@@ -0,0 +1,83 @@
+// ---------------------------------------------------------------------------
+// JSON-RPC 2.0 messages and LSP base-protocol framing
+// ---------------------------------------------------------------------------
+
+export type RequestMessage = {
+  jsonrpc: "2.0";
+  id: number | string;
+  method: string;
+  params?: unknown;
+};
+
+export type NotificationMessage = {
+  jsonrpc: "2.0";
+  method: string;
+  params?: unknown;
+};
+
+export type ResponseMessage = {
+  jsonrpc: "2.0";
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+/** Wrap a message in a `Content-Length` header for the wire. */
+export function frame(message: Message): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, "utf-8")}\r\n\r\n${body}`;
+}
+
+/**
+ * Incremental reader for framed messages. Feed it chunks as they arrive;
+ * it calls `onMessage` once per complete message. A body that is not
+ * valid JSON is reported to `onError` and skipped.
+ */
+export function createMessageReader(
+  onMessage: (message: Message) => void,
+  onError: (error: Error) => void = () => {},
+): (chunk: Uint8Array | string) => void {
+  let buffer = Buffer.alloc(0);
+
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, typeof chunk === "string" ? Buffer.from(chunk, "utf-8") : chunk]);
+
+    for (;;) {
+      const headerEnd = buffer.indexOf("\r\n\r\n");
+      if (headerEnd === -1) return;
+
+      const header = buffer.subarray(0, headerEnd).toString("ascii");
+      const length = /Content-Length:\s*(\d+)/i.exec(header)?.[1];
+      if (length === undefined) {
+        onError(new Error(`Missing Content-Length in header: ${header}`));
+        buffer = buffer.subarray(headerEnd + 4);
+        continue;
+      }
+
+      const start = headerEnd + 4;
+      const end = start + parseInt(length, 10);
+      if (buffer.length < end) return;
+
+      const body = buffer.subarray(start, end).toString("utf-8");
+      buffer = buffer.subarray(end);
+
+      let message: Message;
+      try {
+        message = JSON.parse(body) as Message;
+      } catch (err) {
+        onError(err as Error);
+        continue;
+      }
+      onMessage(message);
+    }
+  };
+}
@@ -0,0 +1,185 @@
+import { getCompletions, getDefinition, getDiagnostics, getHover } from "./features.js";
+import type { Position } from "./features.js";
+import { ErrorCodes } from "./rpc.js";
+import type { Message, NotificationMessage, RequestMessage, ResponseMessage } from "./rpc.js";
+
+export type RulesServerOptions = {
+  /** Deliver a response or notification to the client */
+  send: (message: ResponseMessage | NotificationMessage) => void;
+  /** Called on the `exit` notification — 0 after `shutdown`, 1 otherwise */
+  onExit?: (code: number) => void;
+};
+
+export type RulesServer = {
+  /** Handle one incoming client message */
+  handleMessage: (message: Message) => void;
+};
+
+/** Settings a client may pass as `initializationOptions` or `settings.petriflow` */
+type Settings = { tools?: string[] };
+
+type TextDocumentPosition = { textDocument: { uri: string }; position: Position };
+
+/** The params of each request the server answers, by method */
+type RequestParams = {
+  initialize: { initializationOptions?: Settings };
+  shutdown: object;
+  "textDocument/completion": TextDocumentPosition;
+  "textDocument/hover": TextDocumentPosition;
+  "textDocument/definition": TextDocumentPosition;
+};
+
+/** The params of each notification the server handles, by method */
+type NotificationParams = {
+  initialized: object;
+  exit: object;
+  "textDocument/didOpen": { textDocument: { uri: string; text: string } };
+  "textDocument/didChange": { textDocument: { uri: string }; contentChanges: { text: string }[] };
+  "textDocument/didClose": { textDocument: { uri: string } };
+  "workspace/didChangeConfiguration": { settings?: { petriflow?: Settings } };
+};
+
+type RequestMethod = keyof RequestParams;
+type NotificationMethod = keyof NotificationParams;
+
+/** Full document sync: every change carries the whole text */
+const TextDocumentSyncKind = { Full: 1 } as const;
+
+/**
+ * Language server for `.rules` files. Transport-agnostic: feed it parsed
+ * JSON-RPC messages and it replies through `send`. See `stdio.ts` for the
+ * stdio binding.
+ */
+export function createRulesServer(opts: RulesServerOptions): RulesServer {
+  const documents = new Map<string, string>();
+  let tools: string[] | undefined;
+  let initialized = false;
+  let shuttingDown = false;
+
+  const notify = (method: string, params: unknown) => {
+    opts.send({ jsonrpc: "2.0", method, params });
+  };
+
+  const publish = (uri: string) => {
+    const text = documents.get(uri);
+    notify("textDocument/publishDiagnostics", {
+      uri,
+      diagnostics: text === undefined ? [] : getDiagnostics(text, tools),
+    });
+  };
+
+  const applySettings = (settings: Settings | undefined) => {
+    if (settings?.tools !== undefined) tools = settings.tools;
+  };
+
+  const requests: { [M in RequestMethod]: (params: RequestParams[M]) => unknown } = {
+    initialize(params) {
+      applySettings(params.initializationOptions);
+      initialized = true;
+      return {
+        capabilities: {
+          textDocumentSync: TextDocumentSyncKind.Full,
+          completionProvider: { triggerCharacters: [" "] },
+          hoverProvider: true,
+          definitionProvider: true,
+        },
+        serverInfo: { name: "petriflow-rules" },
+      };
+    },
+
+    shutdown() {
+      shuttingDown = true;
+      return null;
+    },
+
+    "textDocument/completion"({ textDocument, position }) {
+      const text = documents.get(textDocument.uri);
+      return text === undefined ? [] : getCompletions(text, position, tools);
+    },
+
+    "textDocument/hover"({ textDocument, position }) {
+      const text = documents.get(textDocument.uri);
+      return text === undefined ? null : getHover(text, position);
+    },
+
+    "textDocument/definition"({ textDocument, position }) {
+      const text = documents.get(textDocument.uri);
+      const range = text === undefined ? null : getDefinition(text, position);
+      return range === null ? null : { uri: textDocument.uri, range };
+    },
+  };
+
+  const notifications: { [M in NotificationMethod]: (params: NotificationParams[M]) => void } = {
+    initialized() {},
+
+    exit() {
+      opts.onExit?.(shuttingDown ? 0 : 1);
+    },
+
+    "textDocument/didOpen"({ textDocument }) {
+      documents.set(textDocument.uri, textDocument.text);
+      publish(textDocument.uri);
+    },
+
+    "textDocument/didChange"(params) {
+      const last = params.contentChanges[params.contentChanges.length - 1];
+      if (last === undefined) return;
+      documents.set(params.textDocument.uri, last.text);
+      publish(params.textDocument.uri);
+    },
+
+    "textDocument/didClose"({ textDocument }) {
+      documents.delete(textDocument.uri);
+      publish(textDocument.uri);
+    },
+
+    "workspace/didChangeConfiguration"(params) {
+      applySettings(params.settings?.petriflow);
+      for (const uri of documents.keys()) publish(uri);
+    },
+  };
+
+  // Own keys only — "toString" and friends are not methods
+  const isRequest = (method: string): method is RequestMethod => Object.hasOwn(requests, method);
+  const isNotification = (method: string): method is NotificationMethod => Object.hasOwn(notifications, method);
+
+  const dispatchRequest = <M extends RequestMethod>(method: M, params: RequestParams[M]) => requests[method](params);
+  const dispatchNotification = <M extends NotificationMethod>(method: M, params: NotificationParams[M]) =>
+    notifications[method](params);
+
+  const respond = (request: RequestMessage) => {
+    const reply = (body: Pick<ResponseMessage, "result" | "error">) =>
+      opts.send({ jsonrpc: "2.0", id: request.id, ...body });
+
+    const method = request.method;
+    if (!isRequest(method)) {
+      reply({ error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${method}` } });
+      return;
+    }
+    if (!initialized && method !== "initialize") {
+      reply({ error: { code: ErrorCodes.ServerNotInitialized, message: "Server not initialized" } });
+      return;
+    }
+
+    try {
+      // Params come off the wire as the client sent them, shaped by the method
+      reply({ result: dispatchRequest(method, (request.params ?? {}) as RequestParams[typeof method]) });
+    } catch (err) {
+      reply({ error: { code: ErrorCodes.InternalError, message: (err as Error).message } });
+    }
+  };
+
+  return {
+    handleMessage(message) {
+      if (!("method" in message)) return; // responses to server requests — none are sent
+      if ("id" in message) {
+        respond(message);
+      } else {
+        const method = message.method;
+        if (isNotification(method)) {
+          dispatchNotification(method, (message.params ?? {}) as NotificationParams[typeof method]);
+        }
+      }
+    },
+  };
+}
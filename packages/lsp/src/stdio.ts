@@ -0,0 +1,21 @@
+#!/usr/bin/env bun
+
+import { createRulesServer } from "./server.js";
+import { createMessageReader, frame } from "./rpc.js";
+
+// ---------------------------------------------------------------------------
+// stdio transport — `petriflow-lsp` for any editor's LSP client
+// ---------------------------------------------------------------------------
+
+const server = createRulesServer({
+  send: (message) => process.stdout.write(frame(message)),
+  onExit: (code) => process.exit(code),
+});
+
+process.stdin.on(
+  "data",
+  createMessageReader(
+    (message) => server.handleMessage(message),
+    (error) => process.stderr.write(`[petriflow-lsp] ${error.message}\n`),
+  ),
+);
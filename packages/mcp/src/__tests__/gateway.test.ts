@@ -0,0 +1,387 @@
+import { describe, expect, it } from "bun:test";
+import { defineSkillNet } from "@petriflow/gate";
+import { createMcpGateway } from "../gateway.js";
+import type { McpGatewayOptions } from "../gateway.js";
+import { createMessageReader, frame } from "../rpc.js";
+import type { Message, NotificationMessage, RequestMessage, ResponseMessage } from "../rpc.js";
+
+// ---------------------------------------------------------------------------
+// Nets
+// ---------------------------------------------------------------------------
+
+// test (deferred) before deploy
+const testBeforeDeploy = defineSkillNet({
+  name: "test-before-deploy",
+  places: ["ready", "tested"],
+  initialMarking: { ready: 1, tested: 0 },
+  transitions: [
+    { name: "run-test", type: "auto", inputs: ["ready"], outputs: ["tested"], tools: ["test"], deferred: true },
+    { name: "run-deploy", type: "auto", inputs: ["tested"], outputs: ["ready"], tools: ["deploy"] },
+  ],
+  freeTools: ["read"],
+  terminalPlaces: [],
+});
+
+// delete is never allowed
+const noDelete = defineSkillNet({
+  name: "no-delete",
+  places: ["never"],
+  initialMarking: { never: 0 },
+  transitions: [{ name: "delete", type: "auto", inputs: ["never"], outputs: ["never"], tools: ["delete"] }],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+// one reset per session
+const resetOnce = defineSkillNet({
+  name: "reset-once",
+  places: ["budget"],
+  initialMarking: { budget: 1 },
+  transitions: [{ name: "reset", type: "auto", inputs: ["budget"], outputs: [], tools: ["reset"] }],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+// pushes need a human
+const approvePush = defineSkillNet({
+  name: "approve-push",
+  places: ["ready"],
+  initialMarking: { ready: 1 },
+  transitions: [{ name: "approve", type: "manual", inputs: ["ready"], outputs: ["ready"], tools: ["push"] }],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+// ---------------------------------------------------------------------------
+// In-process fake upstream server and client
+// ---------------------------------------------------------------------------
+
+type FakeTool = { name: string; description?: string };
+
+/** An MCP server whose tools succeed with their name and arguments, or fail when named "fail*" */
+function fakeServer(tools: FakeTool[], opts: { pageSize?: number } = {}) {
+  const received: Message[] = [];
+  let reply: (message: Message) => void = () => {};
+
+  const handle = (message: Message) => {
+    received.push(message);
+    if (!("method" in message) || !("id" in message)) return;
+    const respond = (body: Pick<ResponseMessage, "result" | "error">) =>
+      reply({ jsonrpc: "2.0", id: message.id, ...body });
+    const params = (message.params ?? {}) as Record<string, any>;
+
+    switch (message.method) {
+      case "initialize":
+        return respond({ result: { protocolVersion: params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: "fake" } } });
+      case "tools/list": {
+        const size = opts.pageSize ?? tools.length;
+        const start = Number(params.cursor ?? 0);
+        const next = start + size;
+        return respond({
+          result: {
+            tools: tools.slice(start, next).map((t) => ({ ...t, inputSchema: { type: "object" } })),
+            ...(next < tools.length ? { nextCursor: String(next) } : {}),
+          },
+        });
+      }
+      case "tools/call":
+        if (params.name === "crash") return respond({ error: { code: -32000, message: "upstream crashed" } });
+        return respond({
+          result: {
+            content: [{ type: "text", text: `${params.name} ${JSON.stringify(params.arguments ?? {})}` }],
+            ...(String(params.name).startsWith("fail") ? { isError: true } : {}),
+          },
+        });
+    }
+  };
+
+  return {
+    received,
+    calls: () => received.filter((m): m is RequestMessage => "method" in m && m.method === "tools/call"),
+    /** Messages round-trip through the wire framing */
+    send: (() => {
+      const read = createMessageReader(handle);
+      return (message: Message) => read(frame(message));
+    })(),
+    connect(to: (message: Message) => void) {
+      reply = to;
+    },
+  };
+}
+
+function connect(
+  nets: Parameters<typeof createMcpGateway>[0],
+  servers: Record<string, ReturnType<typeof fakeServer> & { prefix?: string }>,
+  opts: Partial<McpGatewayOptions> & { elicitation?: "accept" | "decline" } = {},
+) {
+  const { elicitation, ...gatewayOpts } = opts;
+  const responses = new Map<number | string | null, (message: ResponseMessage) => void>();
+  const notifications: NotificationMessage[] = [];
+  const asked: unknown[] = [];
+
+  const toClient = createMessageReader((message) => {
+    if (!("method" in message)) {
+      responses.get(message.id)?.(message);
+    } else if ("id" in message) {
+      asked.push(message.params);
+      gateway.handleClientMessage({ jsonrpc: "2.0", id: message.id, result: { action: elicitation } });
+    } else {
+      notifications.push(message);
+    }
+  });
+
+  const gateway = createMcpGateway(nets, {
+    ...gatewayOpts,
+    send: (message) => toClient(frame(message)),
+    upstreams: Object.fromEntries(
+      Object.entries(servers).map(([name, server]) => [name, { send: server.send, prefix: server.prefix }]),
+    ),
+  });
+  for (const [name, server] of Object.entries(servers)) {
+    server.connect((message) => gateway.handleUpstreamMessage(name, message));
+  }
+
+  let nextId = 0;
+  const client = {
+    gateway,
+    notifications,
+    asked,
+    request(method: string, params?: unknown): Promise<ResponseMessage> {
+      const id = ++nextId;
+      return new Promise((resolve) => {
+        responses.set(id, resolve);
+        gateway.handleClientMessage({ jsonrpc: "2.0", id, method, params });
+      });
+    },
+    async call(name: string, args: Record<string, unknown> = {}) {
+      return (await client.request("tools/call", { name, arguments: args })).result as {
+        content: { type: string; text: string }[];
+        isError?: boolean;
+      };
+    },
+    async tools() {
+      return ((await client.request("tools/list")).result as { tools: FakeTool[] }).tools;
+    },
+  };
+
+  const capabilities = elicitation ? { elicitation: {} } : {};
+  const ready = client.request("initialize", { protocolVersion: "2025-06-18", capabilities, clientInfo: { name: "test" } });
+  return { client, ready };
+}
+
+const devTools = [{ name: "test" }, { name: "deploy" }, { name: "read" }, { name: "delete", description: "Delete a file" }];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("initialize", () => {
+  it("initializes every upstream and advertises changing tools", async () => {
+    const a = fakeServer([]);
+    const b = fakeServer([]);
+    const { ready } = connect([testBeforeDeploy], { a, b });
+
+    expect((await ready).result).toEqual({
+      protocolVersion: "2025-06-18",
+      capabilities: { tools: { listChanged: true } },
+      serverInfo: { name: "petriflow-mcp", version: "0.1.0" },
+    });
+    for (const server of [a, b]) {
+      expect(server.received.map((m) => ("method" in m ? m.method : "response"))).toEqual([
+        "initialize",
+        "notifications/initialized",
+      ]);
+    }
+  });
+
+  it("answers pings and rejects unknown methods", async () => {
+    const { client, ready } = connect([testBeforeDeploy], { dev: fakeServer([]) });
+    await ready;
+    expect((await client.request("ping")).result).toEqual({});
+    expect((await client.request("resources/list")).error).toEqual({
+      code: -32601,
+      message: "Unhandled method resources/list",
+    });
+    expect((await client.request("toString")).error).toEqual({
+      code: -32601,
+      message: "Unhandled method toString",
+    });
+  });
+});
+
+describe("tools/list", () => {
+  it("merges every upstream's pages under their prefixes", async () => {
+    const dev = fakeServer(devTools, { pageSize: 3 });
+    const ops = Object.assign(fakeServer([{ name: "deploy" }]), { prefix: "ops." });
+    const { client, ready } = connect([testBeforeDeploy], { dev, ops });
+    await ready;
+
+    expect((await client.tools()).map((t) => t.name)).toEqual(["test", "deploy", "read", "delete", "ops.deploy"]);
+  });
+
+  it("notes permanently blocked tools in their description", async () => {
+    const { client, ready } = connect([testBeforeDeploy, noDelete], { dev: fakeServer(devTools) });
+    await ready;
+    const tools = await client.tools();
+
+    expect(tools.find((t) => t.name === "delete")!.description).toBe(
+      "Delete a file\n\nBlocked: Tool 'delete' is not available in the current state.",
+    );
+    // deploy is blocked now, but a test unlocks it
+    expect(tools.find((t) => t.name === "deploy")!.description).toBeUndefined();
+  });
+
+  it("hides permanently blocked tools when asked", async () => {
+    const { client, ready } = connect([noDelete], { dev: fakeServer(devTools) }, { blockedTools: "hide" });
+    await ready;
+    expect((await client.tools()).map((t) => t.name)).toEqual(["test", "deploy", "read"]);
+  });
+
+  it("refuses tools two upstreams offer under one name", async () => {
+    const { client, ready } = connect([testBeforeDeploy], { a: fakeServer(devTools), b: fakeServer([{ name: "read" }]) });
+    await ready;
+    expect((await client.request("tools/list")).error?.message).toBe(
+      "Tool 'read' is offered by both 'a' and 'b'; give one of them a prefix",
+    );
+  });
+});
+
+describe("tools/call", () => {
+  it("returns blocks as tool errors without calling the upstream", async () => {
+    const dev = fakeServer(devTools);
+    const { client, ready } = connect([testBeforeDeploy], { dev });
+    await ready;
+
+    expect(await client.call("deploy")).toEqual({
+      content: [{ type: "text", text: "Tool 'deploy' is not available in the current state." }],
+      isError: true,
+    });
+    expect(dev.calls()).toHaveLength(0);
+  });
+
+  it("forwards allowed calls under the upstream's own name", async () => {
+    const ops = Object.assign(fakeServer([{ name: "read" }]), { prefix: "ops." });
+    const { client, ready } = connect([testBeforeDeploy], { ops });
+    await ready;
+
+    expect(await client.call("ops.read", { path: "a.txt" })).toEqual({
+      content: [{ type: "text", text: 'read {"path":"a.txt"}' }],
+    });
+    expect(ops.calls()[0]!.params).toEqual({ name: "read", arguments: { path: "a.txt" } });
+  });
+
+  it("advances deferred transitions on successful results only", async () => {
+    const dev = fakeServer([...devTools, { name: "fail-test" }]);
+    const net = defineSkillNet({
+      ...testBeforeDeploy,
+      toolMapper: (event) => (event.toolName === "fail-test" ? "test" : event.toolName),
+    });
+    const { client, ready } = connect([net], { dev });
+    await ready;
+
+    expect((await client.call("fail-test")).isError).toBe(true);
+    expect((await client.call("deploy")).isError).toBe(true);
+
+    expect((await client.call("test")).isError).toBeUndefined();
+    expect((await client.call("deploy")).isError).toBeUndefined();
+  });
+
+  it("passes upstream errors on and counts them as failures", async () => {
+    const net = defineSkillNet({
+      ...testBeforeDeploy,
+      toolMapper: (event) => (event.toolName === "crash" ? "test" : event.toolName),
+    });
+    const { client, ready } = connect([net], { dev: fakeServer([...devTools, { name: "crash" }]) });
+    await ready;
+
+    expect((await client.request("tools/call", { name: "crash" })).error).toEqual({
+      code: -32000,
+      message: "upstream crashed",
+    });
+    expect((await client.call("deploy")).isError).toBe(true);
+  });
+
+  it("rejects unknown tools", async () => {
+    const { client, ready } = connect([testBeforeDeploy], { dev: fakeServer(devTools) });
+    await ready;
+    expect((await client.request("tools/call", { name: "nope" })).error).toEqual({
+      code: -32602,
+      message: "Unknown tool: nope",
+    });
+  });
+
+  it("tells the client when a call blocks a tool for good", async () => {
+    const { client, ready } = connect([resetOnce], { dev: fakeServer([{ name: "reset" }]) });
+    await ready;
+    await client.tools();
+
+    await client.call("reset");
+    expect(client.notifications.map((n) => n.method)).toEqual(["notifications/tools/list_changed"]);
+    expect((await client.tools())[0]!.description).toContain("Blocked:");
+  });
+});
+
+describe("manual transitions", () => {
+  it("block without elicitation", async () => {
+    const { client, ready } = connect([approvePush], { dev: fakeServer([{ name: "push" }]) });
+    await ready;
+    expect((await client.call("push")).isError).toBe(true);
+    expect(client.asked).toEqual([]);
+  });
+
+  it("ask the client through elicitation", async () => {
+    const { client, ready } = connect([approvePush], { dev: fakeServer([{ name: "push" }]) }, { elicitation: "accept" });
+    await ready;
+
+    expect((await client.call("push")).isError).toBeUndefined();
+    expect(client.asked).toEqual([
+      {
+        message: "Approve: approve (approve-push)\n\nAllow 'push' via transition 'approve' in net 'approve-push'?",
+        requestedSchema: { type: "object", properties: {} },
+      },
+    ]);
+  });
+
+  it("block when the client declines", async () => {
+    const { client, ready } = connect([approvePush], { dev: fakeServer([{ name: "push" }]) }, { elicitation: "decline" });
+    await ready;
+    expect((await client.call("push")).isError).toBe(true);
+  });
+});
+
+describe("upstream notifications", () => {
+  it("passes tool list changes on", async () => {
+    const dev = fakeServer(devTools);
+    const { client, ready } = connect([testBeforeDeploy], { dev });
+    await ready;
+    client.gateway.handleUpstreamMessage("dev", { jsonrpc: "2.0", method: "notifications/tools/list_changed" });
+    expect(client.notifications.map((n) => n.method)).toEqual(["notifications/tools/list_changed"]);
+  });
+
+  it("fails calls waiting on a closed upstream", async () => {
+    const dev = fakeServer(devTools);
+    const { client } = connect([testBeforeDeploy], { dev });
+    dev.connect(() => {}); // never answers
+    const listing = client.request("tools/list");
+    client.gateway.closeUpstream("dev", "MCP server 'dev' exited");
+    expect((await listing).error).toEqual({ code: -32603, message: "MCP server 'dev' exited" });
+  });
+});
+
+describe("framing", () => {
+  it("reads messages split across chunks and skips bad lines", () => {
+    const messages: Message[] = [];
+    const errors: Error[] = [];
+    const read = createMessageReader((m) => messages.push(m), (e) => errors.push(e));
+
+    read('{"jsonrpc":"2.0","me');
+    read('thod":"ping","id":1}\nnot json\n\n');
+    read(new TextEncoder().encode('{"jsonrpc":"2.0","id":1,"result":{}}\n'));
+
+    expect(messages).toEqual([
+      { jsonrpc: "2.0", method: "ping", id: 1 },
+      { jsonrpc: "2.0", id: 1, result: {} },
+    ]);
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,306 @@
+import { createGateManager } from "@petriflow/gate";
+import type { ComposeConfig, GateContext, GateManager, GateManagerOptions, SkillNet } from "@petriflow/gate";
+import { ErrorCodes, RpcError, createRequester } from "./rpc.js";
+import type { Message, NotificationMessage, RequestMessage, ResponseMessage, Requester } from "./rpc.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type McpUpstream = {
+  /** Deliver a message to the upstream server */
+  send: (message: Message) => void;
+  /**
+   * Put in front of the server's tool names, e.g. "github." — needed when
+   * two servers offer a tool of the same name
+   */
+  prefix?: string;
+};
+
+export type McpGatewayOptions = Partial<GateManagerOptions> & {
+  /** Deliver a response, request or notification to the client */
+  send: (message: Message) => void;
+  /** The servers whose tools are gated, by name */
+  upstreams: Record<string, McpUpstream>;
+  /**
+   * What `tools/list` does with tools no reachable state of the nets
+   * allows: note the block in their description, or leave them out.
+   * Defaults to "annotate".
+   */
+  blockedTools?: "annotate" | "hide";
+};
+
+export type McpGateway = {
+  /** Handle one message from the client */
+  handleClientMessage: (message: Message) => void;
+  /** Handle one message from the upstream server `name` */
+  handleUpstreamMessage: (name: string, message: Message) => void;
+  /** Fail the calls waiting on upstream `name`, e.g. when its process exited */
+  closeUpstream: (name: string, reason: string) => void;
+  manager: GateManager;
+};
+
+/** How `petriflow-mcp` starts an upstream server */
+export type McpServerCommand = {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  prefix?: string;
+};
+
+/** The default export of a `petriflow-mcp` config module */
+export type McpGatewayConfig = Omit<McpGatewayOptions, "send" | "upstreams"> & {
+  nets: SkillNet<string>[] | ComposeConfig;
+  upstreams: Record<string, McpServerCommand>;
+};
+
+/** The parts of an MCP tool definition the gateway reads */
+type Tool = { name: string; description?: string; [key: string]: unknown };
+
+type CallToolResult = { content: unknown[]; isError?: boolean; [key: string]: unknown };
+
+type CallToolParams = { name: string; arguments?: Record<string, unknown> };
+
+type InitializeParams = {
+  protocolVersion: string;
+  capabilities?: { elicitation?: object };
+};
+
+/** The params of each client request the gateway answers, by method */
+type RequestParams = {
+  initialize: InitializeParams;
+  ping: object;
+  "tools/list": { cursor?: string };
+  "tools/call": CallToolParams;
+};
+
+type RequestMethod = keyof RequestParams;
+
+/** A listed tool and the upstream it comes from */
+type ToolRoute = { upstream: string; name: string; tool: Tool };
+
+const SERVER_INFO = { name: "petriflow-mcp", version: "0.1.0" };
+
+// ---------------------------------------------------------------------------
+// Gateway
+// ---------------------------------------------------------------------------
+
+/**
+ * Gate the tools of one or more MCP servers. Sits between a client and
+ * the servers: `tools/call` requests go through `createGateManager`
+ * first, and blocked calls come back as tool errors carrying the block
+ * reason. Manual transitions ask the client through elicitation, when it
+ * supports it. Transport-agnostic — see `stdio.ts` for the stdio binding.
+ */
+export function createMcpGateway(input: SkillNet<string>[] | ComposeConfig, opts: McpGatewayOptions): McpGateway {
+  const manager = createGateManager(input, { ...opts, mode: opts.mode ?? "enforce" });
+  const blockedTools = opts.blockedTools ?? "annotate";
+  const client = createRequester(opts.send);
+  const upstreams = new Map<string, McpUpstream & { rpc: Requester }>(
+    Object.entries(opts.upstreams).map(([name, upstream]) => [name, { ...upstream, rpc: createRequester(upstream.send) }]),
+  );
+
+  let clientCapabilities: InitializeParams["capabilities"] = {};
+  // Every upstream's tools under their exposed names, once listed
+  let routes: Map<string, ToolRoute> | undefined;
+  // Listed tools no reachable state allows, with the reason
+  let dead = new Map<string, string>();
+  let nextCallId = 0;
+
+  const notify = (method: string) => opts.send({ jsonrpc: "2.0", method } satisfies NotificationMessage);
+
+  /** Why no reachable state allows `tool` — a structural block no call sequence or refill lifts */
+  const deadReason = (tool: string): string | undefined =>
+    manager
+      .explain(tool)
+      .nets.find((n) => n.verdict === "blocked" && n.path === null && n.missing.length > 0 && n.refillInMs === undefined)
+      ?.reason;
+
+  const findDead = (names: Iterable<string>) => {
+    const found = new Map<string, string>();
+    for (const name of names) {
+      const reason = deadReason(name);
+      if (reason !== undefined) found.set(name, reason);
+    }
+    return found;
+  };
+
+  /** Tell the client when a call changed which tools are dead */
+  const refreshDead = () => {
+    if (!routes) return;
+    const next = findDead(routes.keys());
+    const changed = next.size !== dead.size || [...next.keys()].some((name) => !dead.has(name));
+    dead = next;
+    if (changed) notify("notifications/tools/list_changed");
+  };
+
+  async function listTools(): Promise<Map<string, ToolRoute>> {
+    const listed = new Map<string, ToolRoute>();
+    for (const [upstream, { rpc, prefix = "" }] of upstreams) {
+      let cursor: string | undefined;
+      do {
+        const page = (await rpc.request("tools/list", cursor === undefined ? {} : { cursor })) as {
+          tools: Tool[];
+          nextCursor?: string;
+        };
+        for (const tool of page.tools) {
+          const name = `${prefix}${tool.name}`;
+          const existing = listed.get(name);
+          if (existing) {
+            throw new RpcError(
+              ErrorCodes.InternalError,
+              `Tool '${name}' is offered by both '${existing.upstream}' and '${upstream}'; give one of them a prefix`,
+            );
+          }
+          listed.set(name, { upstream, name: tool.name, tool: { ...tool, name } });
+        }
+        cursor = page.nextCursor;
+      } while (cursor !== undefined);
+    }
+    routes = listed;
+    dead = findDead(listed.keys());
+    return listed;
+  }
+
+  const ctx = (): GateContext => ({
+    hasUI: clientCapabilities?.elicitation !== undefined,
+    async confirm(title, message) {
+      if (clientCapabilities?.elicitation === undefined) return false;
+      try {
+        const answer = (await client.request("elicitation/create", {
+          message: `${title}\n\n${message}`,
+          requestedSchema: { type: "object", properties: {} },
+        })) as { action: string };
+        return answer.action === "accept";
+      } catch {
+        return false;
+      }
+    },
+  });
+
+  const requests: { [M in RequestMethod]: (params: RequestParams[M]) => Promise<unknown> } = {
+    async initialize(params: InitializeParams) {
+      clientCapabilities = params.capabilities ?? {};
+      await Promise.all(
+        [...upstreams.values()].map(async (upstream) => {
+          await upstream.rpc.request("initialize", {
+            protocolVersion: params.protocolVersion,
+            capabilities: {},
+            clientInfo: SERVER_INFO,
+          });
+          upstream.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+        }),
+      );
+      return {
+        protocolVersion: params.protocolVersion,
+        capabilities: { tools: { listChanged: true } },
+        serverInfo: SERVER_INFO,
+      };
+    },
+
+    async ping() {
+      return {};
+    },
+
+    async "tools/list"() {
+      const tools: Tool[] = [];
+      for (const { tool } of (await listTools()).values()) {
+        const reason = dead.get(tool.name);
+        if (reason === undefined) tools.push(tool);
+        else if (blockedTools === "annotate") {
+          tools.push({ ...tool, description: [tool.description, `Blocked: ${reason}`].filter(Boolean).join("\n\n") });
+        }
+      }
+      return { tools };
+    },
+
+    async "tools/call"(params: CallToolParams) {
+      // Unknown names may be new upstream tools — list again before giving up
+      const route = (routes ?? (await listTools())).get(params.name) ?? (await listTools()).get(params.name);
+      if (!route) throw new RpcError(ErrorCodes.InvalidParams, `Unknown tool: ${params.name}`);
+
+      const event = { toolCallId: `mcp-${++nextCallId}`, toolName: params.name, input: params.arguments ?? {} };
+      const decision = await manager.handleToolCall(event, ctx());
+      if (decision?.block) {
+        return { content: [{ type: "text", text: decision.reason }], isError: true } satisfies CallToolResult;
+      }
+
+      let result: CallToolResult;
+      try {
+        result = (await upstreams.get(route.upstream)!.rpc.request("tools/call", {
+          ...params,
+          name: route.name,
+        })) as CallToolResult;
+      } catch (err) {
+        manager.handleToolResult({ ...event, isError: true });
+        refreshDead();
+        throw err;
+      }
+      manager.handleToolResult({ ...event, isError: result.isError === true });
+      refreshDead();
+      return result;
+    },
+  };
+
+  // Own keys only — "toString" and friends are not methods
+  const isRequestMethod = (method: string): method is RequestMethod => Object.hasOwn(requests, method);
+
+  const handle = <M extends RequestMethod>(method: M, params: RequestParams[M]) => requests[method](params);
+
+  const respond = async (request: RequestMessage) => {
+    const reply = (body: Pick<ResponseMessage, "result" | "error">) =>
+      opts.send({ jsonrpc: "2.0", id: request.id, ...body });
+
+    const method = request.method;
+    if (!isRequestMethod(method)) {
+      reply({ error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${method}` } });
+      return;
+    }
+
+    try {
+      // Params come off the wire as the client sent them, shaped by the method
+      reply({ result: await handle(method, (request.params ?? {}) as RequestParams[typeof method]) });
+    } catch (err) {
+      const code = err instanceof RpcError ? err.code : ErrorCodes.InternalError;
+      reply({ error: { code, message: (err as Error).message } });
+    }
+  };
+
+  return {
+    manager,
+
+    handleClientMessage(message) {
+      if (!("method" in message)) {
+        client.handleResponse(message);
+        return;
+      }
+      if ("id" in message) void respond(message);
+      // Notifications (initialized, cancelled) need nothing from the gateway
+    },
+
+    handleUpstreamMessage(name, message) {
+      const upstream = upstreams.get(name);
+      if (!upstream) return;
+      if (!("method" in message)) {
+        upstream.rpc.handleResponse(message);
+        return;
+      }
+      if ("id" in message) {
+        upstream.send({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: { code: ErrorCodes.MethodNotFound, message: `petriflow-mcp does not forward ${message.method}` },
+        });
+        return;
+      }
+      if (message.method === "notifications/tools/list_changed") {
+        routes = undefined;
+        notify("notifications/tools/list_changed");
+      }
+    },
+
+    closeUpstream(name, reason) {
+      upstreams.get(name)?.rpc.close(reason);
+    },
+  };
+}
@@ -0,0 +1,8 @@
+export { createMcpGateway } from "./gateway.js";
+export type { McpGateway, McpGatewayConfig, McpGatewayOptions, McpServerCommand, McpUpstream } from "./gateway.js";
+export { ErrorCodes, RpcError, createMessageReader, createRequester, frame } from "./rpc.js";
+export type { Message, NotificationMessage, RequestMessage, Requester, ResponseMessage } from "./rpc.js";
+
+// Re-export gate essentials for config files
+export { defineSkillNet } from "@petriflow/gate";
+export type { SkillNet, ComposeConfig } from "@petriflow/gate";
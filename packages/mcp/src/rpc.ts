@@ -0,0 +1,120 @@
+// ---------------------------------------------------------------------------
+// JSON-RPC 2.0 messages and MCP stdio framing
+// ---------------------------------------------------------------------------
+
+export type RequestMessage = {
+  jsonrpc: "2.0";
+  id: number | string;
+  method: string;
+  params?: unknown;
+};
+
+export type NotificationMessage = {
+  jsonrpc: "2.0";
+  method: string;
+  params?: unknown;
+};
+
+export type ResponseMessage = {
+  jsonrpc: "2.0";
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+};
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidParams: -32602,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+} as const;
+
+/** A JSON-RPC error response, as a rejected request */
+export class RpcError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = "RpcError";
+    this.code = code;
+  }
+}
+
+/** One message per line, as the MCP stdio transport sends it */
+export function frame(message: Message): string {
+  return `${JSON.stringify(message)}\n`;
+}
+
+/**
+ * Incremental reader for newline-delimited messages. Feed it chunks as
+ * they arrive; it calls `onMessage` once per complete line. A line that
+ * is not valid JSON is reported to `onError` and skipped.
+ */
+export function createMessageReader(
+  onMessage: (message: Message) => void,
+  onError: (error: Error) => void = () => {},
+): (chunk: Uint8Array | string) => void {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  return (chunk) => {
+    buffer += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line === "") continue;
+
+      let message: Message;
+      try {
+        message = JSON.parse(line) as Message;
+      } catch (err) {
+        onError(err as Error);
+        continue;
+      }
+      onMessage(message);
+    }
+  };
+}
+
+export type Requester = {
+  /** Send a request; resolves with its result, rejects with an `RpcError` */
+  request: (method: string, params?: unknown) => Promise<unknown>;
+  /** Settle the request a response answers. False when it answers none. */
+  handleResponse: (message: ResponseMessage) => boolean;
+  /** Reject every request still waiting, e.g. when the peer went away */
+  close: (reason: string) => void;
+};
+
+/** Requests to one peer, matched to their responses by id */
+export function createRequester(send: (message: RequestMessage) => void): Requester {
+  const pending = new Map<number | string, { resolve: (result: unknown) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+
+  return {
+    request(method, params) {
+      const id = ++nextId;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        send({ jsonrpc: "2.0", id, method, ...(params === undefined ? {} : { params }) });
+      });
+    },
+
+    handleResponse(message) {
+      const waiting = message.id === null ? undefined : pending.get(message.id);
+      if (!waiting) return false;
+      pending.delete(message.id!);
+      if (message.error) waiting.reject(new RpcError(message.error.code, message.error.message));
+      else waiting.resolve(message.result);
+      return true;
+    },
+
+    close(reason) {
+      for (const { reject } of pending.values()) reject(new RpcError(ErrorCodes.InternalError, reason));
+      pending.clear();
+    },
+  };
+}
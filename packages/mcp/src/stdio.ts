@@ -0,0 +1,63 @@
+#!/usr/bin/env bun
+
+import { spawn } from "node:child_process";
+import { resolve } from "node:path";
+import { createMcpGateway } from "./gateway.js";
+import type { McpGatewayConfig } from "./gateway.js";
+import { createMessageReader, frame } from "./rpc.js";
+
+// ---------------------------------------------------------------------------
+// stdio transport — `petriflow-mcp [config]` in any MCP client's server list
+// ---------------------------------------------------------------------------
+
+const log = (message: string) => process.stderr.write(`[petriflow-mcp] ${message}\n`);
+
+const configPath = resolve(process.cwd(), process.argv[2] ?? "petriflow.mcp.ts");
+const mod = await import(configPath);
+const { nets, upstreams: servers, ...opts } = (mod.default ?? mod) as McpGatewayConfig;
+
+const children = new Map(
+  Object.entries(servers).map(([name, server]) => [
+    name,
+    spawn(server.command, server.args ?? [], {
+      env: { ...process.env, ...server.env },
+      stdio: ["pipe", "pipe", "inherit"],
+    }),
+  ]),
+);
+
+const gateway = createMcpGateway(nets, {
+  ...opts,
+  send: (message) => process.stdout.write(frame(message)),
+  upstreams: Object.fromEntries(
+    Object.entries(servers).map(([name, server]) => [
+      name,
+      { prefix: server.prefix, send: (message) => children.get(name)!.stdin!.write(frame(message)) },
+    ]),
+  ),
+});
+
+for (const [name, child] of children) {
+  child.stdout!.on(
+    "data",
+    createMessageReader(
+      (message) => gateway.handleUpstreamMessage(name, message),
+      (error) => log(`${name}: ${error.message}`),
+    ),
+  );
+  child.on("exit", (code) => {
+    log(`${name} exited with code ${code}`);
+    gateway.closeUpstream(name, `MCP server '${name}' exited`);
+  });
+}
+
+process.stdin.on(
+  "data",
+  createMessageReader(
+    (message) => gateway.handleClientMessage(message),
+    (error) => log(error.message),
+  ),
+);
+process.stdin.on("end", () => {
+  for (const child of children.values()) child.kill();
+});
@@ -0,0 +1,256 @@
+import { describe, expect, it, mock } from "bun:test";
+import { Agent, RunContext, RunState, tool } from "@openai/agents";
+import type { AgentInputItem, FunctionCallItem } from "@openai/agents";
+import { createPetriflowGate, defineSkillNet } from "./index.js";
+import type { GateSession } from "./index.js";
+
+// ---------------------------------------------------------------------------
+// Helpers — simulate the Agents SDK runner
+// ---------------------------------------------------------------------------
+
+/** A run context whose approvals are set by the test, as `state.approve()` / `state.reject()` would */
+function runContext(approvals: Record<string, boolean> = {}): RunContext {
+  const context = new RunContext();
+  context.isToolApproved = ({ callId }) => approvals[callId];
+  return context;
+}
+
+const agent = new Agent({ name: "ops" });
+
+/** A tool built by the SDK's `tool()`: errors become output through its default error function */
+function fakeTool(name: string, execute: (args: Record<string, unknown>) => Promise<string> = async () => `${name} done`) {
+  const spy = mock(execute);
+  const built = tool({
+    name,
+    description: `The ${name} tool`,
+    parameters: { type: "object", properties: {}, required: [], additionalProperties: true },
+    strict: false,
+    execute: (args) => spy(args as Record<string, unknown>),
+  });
+  return { tool: built, spy };
+}
+
+type FakeTool = ReturnType<typeof fakeTool>["tool"];
+
+let callIdCounter = 0;
+function functionCall(name: string, args: Record<string, unknown> = {}): FunctionCallItem {
+  return { type: "function_call", callId: `call-${++callIdCounter}`, name, arguments: JSON.stringify(args) };
+}
+
+/** What the runner does with one call: ask for approval if needed, else invoke */
+async function runCall(tool: FakeTool, ctx: RunContext, call = functionCall(tool.name)) {
+  if (await tool.needsApproval(ctx, JSON.parse(call.arguments), call.callId)) {
+    const approved = ctx.isToolApproved({ toolName: tool.name, callId: call.callId });
+    if (approved === undefined) return { interrupted: true as const, call };
+    if (!approved) return { output: "Tool execution was not approved.", call };
+  }
+  return { output: await tool.invoke(ctx, call.arguments, { toolCall: call }), call };
+}
+
+// ---------------------------------------------------------------------------
+// Nets
+// ---------------------------------------------------------------------------
+
+// backup (deferred) before delete
+const backupBeforeDelete = defineSkillNet({
+  name: "backup-before-delete",
+  places: ["ready", "backedUp"],
+  initialMarking: { ready: 1, backedUp: 0 },
+  transitions: [
+    { name: "backup", type: "auto", inputs: ["ready"], outputs: ["backedUp"], tools: ["backup"], deferred: true },
+    { name: "delete", type: "auto", inputs: ["backedUp"], outputs: ["ready"], tools: ["delete"] },
+  ],
+  freeTools: ["read"],
+  terminalPlaces: [],
+});
+
+// deploys need a human
+const approveDeploy = defineSkillNet({
+  name: "approve-deploy",
+  places: ["ready"],
+  initialMarking: { ready: 1 },
+  transitions: [{ name: "approve", type: "manual", inputs: ["ready"], outputs: ["ready"], tools: ["deploy"] }],
+  freeTools: [],
+  terminalPlaces: [],
+});
+
+// ---------------------------------------------------------------------------
+// wrapTools
+// ---------------------------------------------------------------------------
+
+describe("wrapTools", () => {
+  it("keeps the tool definition and order", () => {
+    const session = createPetriflowGate([backupBeforeDelete]).createSession();
+    const tools = [fakeTool("read").tool, fakeTool("delete").tool];
+    const wrapped = session.wrapTools(tools);
+
+    expect(wrapped.map((t) => t.name)).toEqual(["read", "delete"]);
+    expect(wrapped[0]!.description).toBe("The read tool");
+    expect(wrapped[0]!.parameters).toBe(tools[0]!.parameters);
+  });
+
+  it("answers blocked calls with the reason instead of running the tool", async () => {
+    const session = createPetriflowGate([backupBeforeDelete]).createSession();
+    const { tool, spy } = fakeTool("delete");
+
+    const { output } = await runCall(session.wrapTool(tool), runContext());
+    expect(output).toBe("[blocked] Tool 'delete' is not available in the current state.");
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("applies transformBlockReason", async () => {
+    const gate = createPetriflowGate([backupBeforeDelete], {
+      transformBlockReason: (name, reason) => `${reason} Back up before calling ${name}.`,
+    });
+    const { output } = await runCall(gate.createSession().wrapTool(fakeTool("delete").tool), runContext());
+    expect(output).toBe("[blocked] Tool 'delete' is not available in the current state. Back up before calling delete.");
+  });
+
+  it("advances deferred transitions when the tool succeeds", async () => {
+    const session = createPetriflowGate([backupBeforeDelete]).createSession();
+    const [backup, del] = session.wrapTools([fakeTool("backup").tool, fakeTool("delete").tool]);
+
+    await runCall(backup!, runContext());
+    expect((await runCall(del!, runContext())).output).toBe("delete done");
+  });
+
+  it("does not advance when the tool fails", async () => {
+    const session = createPetriflowGate([backupBeforeDelete]).createSession();
+    const failing = fakeTool("backup", async () => {
+      throw new Error("disk full");
+    });
+    const [backup, del] = session.wrapTools([failing.tool, fakeTool("delete").tool]);
+
+    await runCall(backup!, runContext());
+    expect((await runCall(del!, runContext())).output).toStartWith("[blocked]");
+  });
+
+  it("consults isToolResultError", async () => {
+    const isToolResultError = mock((_name: string, result: unknown) => result === "FAILED");
+    const session = createPetriflowGate([backupBeforeDelete], { isToolResultError }).createSession();
+    const [backup, del] = session.wrapTools([fakeTool("backup", async () => "FAILED").tool, fakeTool("delete").tool]);
+
+    await runCall(backup!, runContext());
+    expect(isToolResultError).toHaveBeenCalledWith("backup", "FAILED");
+    expect((await runCall(del!, runContext())).output).toStartWith("[blocked]");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Human in the loop
+// ---------------------------------------------------------------------------
+
+describe("manual transitions", () => {
+  it("interrupt the run, then go through once approved", async () => {
+    const session = createPetriflowGate([approveDeploy]).createSession();
+    const { tool, spy } = fakeTool("deploy");
+    const deploy = session.wrapTool(tool);
+
+    const first = await runCall(deploy, runContext());
+    expect(first.interrupted).toBe(true);
+    expect(spy).not.toHaveBeenCalled();
+
+    // state.approve(interruption); run(agent, state)
+    const resumed = await runCall(deploy, runContext({ [first.call.callId]: true }), first.call);
+    expect(resumed.output).toBe("deploy done");
+  });
+
+  it("never reach the tool when rejected", async () => {
+    const session = createPetriflowGate([approveDeploy]).createSession();
+    const { tool, spy } = fakeTool("deploy");
+    const deploy = session.wrapTool(tool);
+
+    const first = await runCall(deploy, runContext());
+    await runCall(deploy, runContext({ [first.call.callId]: false }), first.call);
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("need no approval when another net blocks anyway", async () => {
+    const noDeploy = defineSkillNet({
+      name: "no-deploy",
+      places: ["never"],
+      initialMarking: { never: 0 },
+      transitions: [{ name: "deploy", type: "auto", inputs: ["never"], outputs: ["never"], tools: ["deploy"] }],
+      freeTools: [],
+      terminalPlaces: [],
+    });
+    const session = createPetriflowGate([noDeploy, approveDeploy]).createSession();
+    const { output } = await runCall(session.wrapTool(fakeTool("deploy").tool), runContext());
+    expect(output).toBe("[blocked] Tool 'deploy' is not available in the current state.");
+  });
+
+  it("keep the tool's own needsApproval", async () => {
+    const session = createPetriflowGate([backupBeforeDelete]).createSession();
+    const { tool } = fakeTool("read");
+    const read = session.wrapTool({ ...tool, needsApproval: async () => true });
+    expect((await runCall(read, runContext())).interrupted).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Guardrails
+// ---------------------------------------------------------------------------
+
+/** What the runner does with tool guardrails around an unwrapped tool */
+async function runGuarded(session: GateSession, tool: FakeTool, ctx: RunContext) {
+  const call = functionCall(tool.name);
+  const check = await session.inputGuardrail.run({ context: ctx, agent, toolCall: call });
+  if (check.behavior.type === "rejectContent") return check.behavior.message;
+  const output = await tool.invoke(ctx, call.arguments, { toolCall: call });
+  await session.outputGuardrail.run({ context: ctx, agent, toolCall: call, output });
+  return output;
+}
+
+describe("guardrails", () => {
+  it("reject blocked calls with the reason", async () => {
+    const session = createPetriflowGate([backupBeforeDelete]).createSession();
+    const { tool, spy } = fakeTool("delete");
+    expect(await runGuarded(session, tool, runContext())).toBe(
+      "[blocked] Tool 'delete' is not available in the current state.",
+    );
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("report results to deferred transitions", async () => {
+    const session = createPetriflowGate([backupBeforeDelete]).createSession();
+    await runGuarded(session, fakeTool("backup").tool, runContext());
+    expect(await runGuarded(session, fakeTool("delete").tool, runContext())).toBe("delete done");
+  });
+
+  it("offer needsApproval for manual transitions", async () => {
+    const session = createPetriflowGate([approveDeploy, backupBeforeDelete]).createSession();
+    expect(await session.needsApproval("deploy")(runContext(), {})).toBe(true);
+    expect(await session.needsApproval("read")(runContext(), {})).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Resuming
+// ---------------------------------------------------------------------------
+
+describe("createSession({ resume })", () => {
+  const history: AgentInputItem[] = [
+    { role: "user", content: "clean up" },
+    { type: "function_call", callId: "b1", name: "backup", arguments: "{}" },
+    { type: "function_call_result", callId: "b1", name: "backup", status: "completed", output: { type: "text", text: "ok" } },
+  ];
+
+  it("rebuilds state from a RunResult's history", async () => {
+    const session = createPetriflowGate([backupBeforeDelete]).createSession({ resume: { history } });
+    expect((await runCall(session.wrapTool(fakeTool("delete").tool), runContext())).output).toBe("delete done");
+  });
+
+  it("rebuilds state from a RunState", async () => {
+    const state = new RunState(new RunContext(), history, agent, 10);
+    const session = createPetriflowGate([backupBeforeDelete]).createSession({ resume: state });
+    expect((await runCall(session.wrapTool(fakeTool("delete").tool), runContext())).output).toBe("delete done");
+  });
+
+  it("leaves the interrupted call to the resumed run", async () => {
+    const pending: FunctionCallItem = { type: "function_call", callId: "d1", name: "deploy", arguments: "{}" };
+    const session = createPetriflowGate([approveDeploy]).createSession({ resume: [pending] });
+    const deploy = session.wrapTool(fakeTool("deploy").tool);
+
+    expect((await runCall(deploy, runContext({ d1: true }), pending)).output).toBe("deploy done");
+  });
+});
@@ -0,0 +1,237 @@
+import { classifyNets, createGateManager } from "@petriflow/gate";
+import type { ComposeConfig, GateContext, GateManager, GateManagerOptions, SkillNet } from "@petriflow/gate";
+import type {
+  AgentInputItem,
+  RunContext,
+  Tool,
+  ToolGuardrailFunctionOutput,
+  ToolInputGuardrailDefinition,
+  ToolOutputGuardrailDefinition,
+} from "@openai/agents";
+import { BLOCKED_PREFIX, extractReplayEntries, isFailureOutput, outputText, parseArguments } from "./replay.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * A run to resume from: anything with the run's `history` — a `RunState`
+ * (including one read back with `RunState.fromString`) or a `RunResult` —
+ * or the history items themselves.
+ */
+export type ResumeFrom = AgentInputItem[] | { history: AgentInputItem[] };
+
+/** A function tool as `tool()` builds it, whatever its parameters and result */
+type AnyFunctionTool = Extract<Tool, { type: "function" }>;
+
+type PetriflowAgentsOptions = Omit<GateManagerOptions, "mode"> & {
+  mode?: GateManagerOptions["mode"];
+  /** Transform block reasons before they reach the model. Receives the default constraint message. */
+  transformBlockReason?: (toolName: string, reason: string) => string;
+  /**
+   * Classify a tool output as an error, for tools that report failure in
+   * their output. Applied in both live execution and replay; receives the
+   * output's text, or the raw output when it is not text. Outputs of
+   * blocked calls, rejected approvals and `tool()`'s default error handler
+   * are always failures — this callback is only consulted for the rest.
+   */
+  isToolResultError?: (toolName: string, result: unknown) => boolean;
+};
+
+type SessionOptions = {
+  /** Rebuild gate state from the run being resumed. */
+  resume?: ResumeFrom;
+};
+
+export type GateSession = {
+  /**
+   * Gate each tool's `invoke`. Manual transitions become the SDK's tool
+   * approvals: `needsApproval` interrupts the run, and the call goes
+   * through once `state.approve()` is given and the run resumes.
+   */
+  wrapTools: <T extends AnyFunctionTool[]>(tools: T) => T;
+  wrapTool: <T extends AnyFunctionTool>(tool: T) => T;
+  /**
+   * Guardrails for tools you'd rather not wrap — add both to the tool's
+   * `inputGuardrails` and `outputGuardrails`. The input guardrail gates
+   * the call; the output guardrail reports its result.
+   */
+  inputGuardrail: ToolInputGuardrailDefinition;
+  outputGuardrail: ToolOutputGuardrailDefinition;
+  /**
+   * A `needsApproval` for `tool({ needsApproval })` that interrupts the
+   * run when the gate needs a human for `toolName` — pair it with the
+   * guardrails so manual transitions can be approved.
+   */
+  needsApproval: (toolName: string) => AnyFunctionTool["needsApproval"];
+  systemPrompt: () => string;
+  formatStatus: () => string;
+  addNet: (name: string) => { ok: boolean; message: string };
+  removeNet: (name: string) => { ok: boolean; message: string };
+  manager: GateManager;
+};
+
+export type PetriflowAgentsGate = {
+  /**
+   * A gate session for one conversation. Pass `resume` when picking a run
+   * back up in a process that has not seen it, e.g. after an approval.
+   */
+  createSession: (opts?: SessionOptions) => GateSession;
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The history items of a run, from whichever form it came in */
+function historyOf(run: ResumeFrom): AgentInputItem[] {
+  return Array.isArray(run) ? run : run.history;
+}
+
+const allow = (): ToolGuardrailFunctionOutput => ({ behavior: { type: "allow" } });
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+export function createPetriflowGate(nets: SkillNet<string>[], opts?: PetriflowAgentsOptions): PetriflowAgentsGate;
+export function createPetriflowGate(config: ComposeConfig, opts?: PetriflowAgentsOptions): PetriflowAgentsGate;
+export function createPetriflowGate(
+  input: SkillNet<string>[] | ComposeConfig,
+  opts?: PetriflowAgentsOptions,
+): PetriflowAgentsGate {
+  const managerOpts: GateManagerOptions = {
+    mode: opts?.mode ?? "enforce",
+    onDecision: opts?.onDecision,
+    now: opts?.now,
+    audit: opts?.audit,
+    approvals: opts?.approvals,
+    events: opts?.events,
+  };
+  const now = opts?.now ?? Date.now;
+
+  const blockedOutput = (toolName: string, reason: string) =>
+    BLOCKED_PREFIX + (opts?.transformBlockReason ? opts.transformBlockReason(toolName, reason) : reason);
+
+  const isErrorOutput = (toolName: string, output: unknown): boolean => {
+    if (isFailureOutput(output)) return true;
+    if (!opts?.isToolResultError) return false;
+    try {
+      return opts.isToolResultError(toolName, outputText(output) ?? output);
+    } catch {
+      // Callback threw — treat as error to avoid advancing on unknown state
+      return true;
+    }
+  };
+
+  return {
+    createSession(sessionOpts) {
+      const manager = createGateManager(input, managerOpts);
+      if (sessionOpts?.resume) {
+        manager.replay(
+          extractReplayEntries(historyOf(sessionOpts.resume), { isToolResultError: opts?.isToolResultError }),
+        );
+      }
+
+      // Ids for calls the SDK invoked without a tool call item
+      let nextCallId = 0;
+
+      /** Manual transitions are approved by the SDK's approval for this very call */
+      const contextFor = (runContext: RunContext, toolName: string, callId: string): GateContext => ({
+        hasUI: false,
+        confirm: async () => false,
+        approve: async () => ({ approved: runContext.isToolApproved({ toolName, callId }) === true }),
+      });
+
+      const gateCall = (runContext: RunContext, toolName: string, callId: string, args: Record<string, unknown>) =>
+        manager.handleToolCall({ toolCallId: callId, toolName, input: args }, contextFor(runContext, toolName, callId));
+
+      /** Whether the call is allowed except for a manual transition — the SDK then asks for approval */
+      const gateNeedsApproval = (toolName: string, args: Record<string, unknown>): boolean => {
+        // An approval broker answers manual transitions itself
+        if (managerOpts.approvals) return false;
+        const active = manager.getActiveNets();
+        const verdicts = classifyNets(
+          active.map((entry) => entry.net),
+          active.map((entry) => entry.state),
+          { toolName, input: args },
+          now(),
+        );
+        return (
+          !verdicts.some((v) => v.kind === "blocked") &&
+          verdicts.some((v) => v.kind === "gated" && v.transition.type === "manual")
+        );
+      };
+
+      const wrapTool = <T extends AnyFunctionTool>(tool: T): T => ({
+        ...tool,
+        needsApproval: async (runContext: RunContext, toolInput: unknown, callId?: string) =>
+          (await tool.needsApproval(runContext, toolInput, callId)) ||
+          gateNeedsApproval(tool.name, parseArguments(toolInput)),
+        invoke: async (runContext: RunContext, toolInput: string, details?: Parameters<T["invoke"]>[2]) => {
+          const callId = details?.toolCall?.callId ?? `openai-agents-${++nextCallId}`;
+          const args = parseArguments(toolInput);
+
+          const decision = await gateCall(runContext, tool.name, callId, args);
+          if (decision?.block) return blockedOutput(tool.name, decision.reason);
+
+          try {
+            const output = await tool.invoke(runContext, toolInput, details);
+            manager.handleToolResult({
+              toolCallId: callId,
+              toolName: tool.name,
+              input: args,
+              isError: isErrorOutput(tool.name, output),
+            });
+            return output;
+          } catch (error) {
+            manager.handleToolResult({ toolCallId: callId, toolName: tool.name, input: args, isError: true });
+            throw error;
+          }
+        },
+      });
+
+      return {
+        wrapTool,
+        wrapTools: <T extends AnyFunctionTool[]>(tools: T) => tools.map((tool) => wrapTool(tool)) as T,
+        inputGuardrail: {
+          type: "tool_input",
+          name: "petriflow",
+          async run({ context, toolCall }) {
+            const decision = await gateCall(context, toolCall.name, toolCall.callId, parseArguments(toolCall.arguments));
+            if (!decision?.block) return allow();
+            return { behavior: { type: "rejectContent", message: blockedOutput(toolCall.name, decision.reason) } };
+          },
+        },
+        outputGuardrail: {
+          type: "tool_output",
+          name: "petriflow",
+          async run({ toolCall, output }) {
+            manager.handleToolResult({
+              toolCallId: toolCall.callId,
+              toolName: toolCall.name,
+              input: parseArguments(toolCall.arguments),
+              isError: isErrorOutput(toolCall.name, output),
+            });
+            return allow();
+          },
+        },
+        needsApproval: (toolName) => async (_runContext, toolInput) =>
+          gateNeedsApproval(toolName, parseArguments(toolInput)),
+        systemPrompt: () => manager.formatSystemPrompt(),
+        formatStatus: () => manager.formatStatus(),
+        addNet: (name) => manager.addNet(name),
+        removeNet: (name) => manager.removeNet(name),
+        manager,
+      };
+    },
+  };
+}
+
+// Read run histories as traces for replay
+export { BLOCKED_PREFIX, extractReplayEntries } from "./replay.js";
+export type { ExtractReplayOptions } from "./replay.js";
+
+// Re-export gate types for convenience
+export type { SkillNet, ComposeConfig, GateManager, GateManagerOptions, ReplayEntry, RuleMetadata } from "@petriflow/gate";
+export { defineSkillNet, createGateManager } from "@petriflow/gate";
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "bun:test";
+import type { FunctionCallItem, FunctionCallResultItem } from "@openai/agents";
+import { extractReplayEntries, isFailureOutput, parseArguments } from "./replay.js";
+
+const call = (callId: string, name: string, args: Record<string, unknown> = {}): FunctionCallItem => ({
+  type: "function_call",
+  callId,
+  name,
+  arguments: JSON.stringify(args),
+});
+
+const result = (
+  callId: string,
+  name: string,
+  output: FunctionCallResultItem["output"],
+  status: FunctionCallResultItem["status"] = "completed",
+): FunctionCallResultItem => ({
+  type: "function_call_result",
+  callId,
+  name,
+  status,
+  output,
+});
+
+describe("extractReplayEntries", () => {
+  it("returns results in order with their call's arguments", () => {
+    const entries = extractReplayEntries([
+      { role: "user", content: "go" },
+      call("a", "lint"),
+      call("b", "bash", { command: "bun test" }),
+      result("b", "bash", { type: "text", text: "ok" }),
+      result("a", "lint", "ok"),
+    ]);
+
+    expect(entries).toEqual([
+      { toolName: "bash", input: { command: "bun test" }, isError: false },
+      { toolName: "lint", input: {}, isError: false },
+    ]);
+  });
+
+  it("marks blocked, rejected, failed and incomplete results as failures", () => {
+    const entries = extractReplayEntries([
+      result("a", "deploy", "[blocked] Tool 'deploy' is not available in the current state."),
+      result("b", "deploy", "Tool execution was not approved."),
+      result("c", "backup", { type: "text", text: "An error occurred while running the tool. Please try again. Error: x" }),
+      result("d", "backup", "partial", "incomplete"),
+    ]);
+    expect(entries.map((e) => e.isError)).toEqual([true, true, true, true]);
+  });
+
+  it("consults isToolResultError with the output text", () => {
+    const seen: unknown[] = [];
+    const entries = extractReplayEntries([result("a", "test", { type: "text", text: "1 failed" })], {
+      isToolResultError: (_name, output) => {
+        seen.push(output);
+        return true;
+      },
+    });
+    expect(seen).toEqual(["1 failed"]);
+    expect(entries[0]!.isError).toBe(true);
+  });
+
+  it("treats a throwing isToolResultError as a failure", () => {
+    const entries = extractReplayEntries([result("a", "test", "ok")], {
+      isToolResultError: () => {
+        throw new Error("boom");
+      },
+    });
+    expect(entries[0]!.isError).toBe(true);
+  });
+
+  it("skips calls waiting on approval", () => {
+    expect(extractReplayEntries([call("a", "deploy")])).toEqual([]);
+  });
+});
+
+describe("isFailureOutput", () => {
+  it("ignores outputs that are not text", () => {
+    expect(isFailureOutput({ type: "image", data: "..." })).toBe(false);
+    expect(isFailureOutput(42)).toBe(false);
+  });
+});
+
+describe("parseArguments", () => {
+  it("reads objects and drops everything else", () => {
+    expect(parseArguments('{"path":"a"}')).toEqual({ path: "a" });
+    expect(parseArguments({ path: "a" })).toEqual({ path: "a" });
+    expect(parseArguments("[1]")).toEqual({});
+    expect(parseArguments("not json")).toEqual({});
+  });
+});
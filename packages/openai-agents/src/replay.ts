@@ -0,0 +1,102 @@
+import type { ReplayEntry } from "@petriflow/gate";
+import type { AgentInputItem, FunctionCallItem } from "@openai/agents";
+
+// ---------------------------------------------------------------------------
+// Output classification
+// ---------------------------------------------------------------------------
+
+/** Marks tool outputs the gate wrote in place of a blocked call */
+export const BLOCKED_PREFIX = "[blocked] ";
+
+/**
+ * Outputs the SDK writes for calls that did not run: a rejected approval,
+ * and the default `errorFunction` of `tool()`. Tracks the Agents SDK —
+ * update if its wording changes.
+ */
+const SDK_FAILURE_OUTPUTS = ["Tool execution was not approved.", "An error occurred while running the tool."];
+
+/** The text of a tool output: a plain string, or `{ type: "text", text }` */
+export function outputText(output: unknown): string | undefined {
+  if (typeof output === "string") return output;
+  if (typeof output === "object" && output !== null && (output as { type?: unknown }).type === "text") {
+    const text = (output as { text?: unknown }).text;
+    return typeof text === "string" ? text : undefined;
+  }
+  return undefined;
+}
+
+/** Whether an output is the gate's or the SDK's stand-in for a call that did not succeed */
+export function isFailureOutput(output: unknown): boolean {
+  const text = outputText(output);
+  if (text === undefined) return false;
+  return text.startsWith(BLOCKED_PREFIX) || SDK_FAILURE_OUTPUTS.some((failure) => text.startsWith(failure));
+}
+
+/** Parse a call's JSON arguments; anything but an object reads as no input */
+export function parseArguments(args: unknown): Record<string, unknown> {
+  let parsed = args;
+  if (typeof args === "string") {
+    try {
+      parsed = JSON.parse(args);
+    } catch {
+      return {};
+    }
+  }
+  return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : {};
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+export type ExtractReplayOptions = {
+  /**
+   * Custom predicate to classify a tool result as an error. Called after
+   * the built-in checks, with the tool name and the output's text (or the
+   * raw output when it is not text).
+   */
+  isToolResultError?: (toolName: string, result: unknown) => boolean;
+};
+
+/**
+ * Extract replay entries from an Agents SDK run history — `result.history`
+ * or `RunState.history`.
+ *
+ * Correlates `function_call` items with `function_call_result` items by
+ * `callId`; the call's arguments are preserved for toolMapper resolution.
+ * Results that are not `completed`, that the gate blocked, or that the SDK
+ * wrote for a rejected approval or a thrown error are failures. Calls still
+ * waiting on approval have no result and are skipped.
+ *
+ * Results are returned in the order they appear.
+ *
+ * **Security:** The history is treated as authoritative. Use
+ * server-persisted run state, not client-provided history.
+ */
+export function extractReplayEntries(items: AgentInputItem[], opts?: ExtractReplayOptions): ReplayEntry[] {
+  const calls = new Map<string, FunctionCallItem>();
+  for (const item of items) {
+    if (item.type === "function_call") calls.set(item.callId, item);
+  }
+
+  const entries: ReplayEntry[] = [];
+  for (const result of items) {
+    if (result.type !== "function_call_result") continue;
+    const call = calls.get(result.callId);
+
+    let isError = (result.status !== undefined && result.status !== "completed") || isFailureOutput(result.output);
+    if (!isError && opts?.isToolResultError) {
+      try {
+        isError = opts.isToolResultError(result.name, outputText(result.output) ?? result.output);
+      } catch {
+        // Callback threw — treat as error to avoid advancing on unknown state
+        isError = true;
+      }
+    }
+    entries.push({ toolName: result.name, input: call ? parseArguments(call.arguments) : undefined, isError });
+  }
+
+  return entries;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import { createToolCallCorrelator, fingerprint } from "../correlate.js";
+
+describe("fingerprint", () => {
+  it("ignores key order at every depth", () => {
+    expect(fingerprint({ b: 1, a: { d: [1, { y: 2, x: 1 }], c: null } })).toBe(
+      fingerprint({ a: { c: null, d: [1, { x: 1, y: 2 }] }, b: 1 }),
+    );
+  });
+
+  it("tells different params apart", () => {
+    expect(fingerprint({ path: "a" })).not.toBe(fingerprint({ path: "b" }));
+    expect(fingerprint([1, 2])).not.toBe(fingerprint([2, 1]));
+  });
+});
+
+describe("createToolCallCorrelator", () => {
+  it("answers calls with the same key oldest first", () => {
+    const calls = createToolCallCorrelator();
+    const first = calls.start({}, "read", { path: "a" });
+    const second = calls.start({}, "read", { path: "a" });
+
+    expect(calls.finish({}, "read", { path: "a" }, true)).toEqual({ toolCallId: first, blocked: false, ambiguous: false });
+    expect(calls.finish({}, "read", { path: "a" }, false)).toEqual({ toolCallId: second, blocked: false, ambiguous: false });
+    expect(calls.size()).toBe(0);
+  });
+
+  it("gives successes only to calls that ran", () => {
+    const calls = createToolCallCorrelator();
+    const blocked = calls.start({}, "bash", {});
+    calls.block(blocked);
+    const allowed = calls.start({}, "bash", {});
+
+    expect(calls.finish({}, "bash", {}, false)?.toolCallId).toBe(allowed);
+    expect(calls.finish({}, "bash", {}, true)).toEqual({ toolCallId: blocked, blocked: true, ambiguous: false });
+  });
+
+  it("matches nothing for unknown results", () => {
+    const calls = createToolCallCorrelator();
+    calls.start({ runId: "1" }, "bash", {});
+    expect(calls.finish({ runId: "2" }, "bash", {}, false)).toBeUndefined();
+    expect(calls.finish({ runId: "1" }, "read", {}, false)).toBeUndefined();
+  });
+
+  it("ends sessions by key or id", () => {
+    const calls = createToolCallCorrelator();
+    const a = calls.start({ sessionKey: "a" }, "bash", {});
+    const b = calls.start({ sessionId: "b" }, "bash", {});
+    calls.block(calls.start({ sessionKey: "a" }, "bash", { x: 1 }));
+
+    expect(calls.endSession({ sessionKey: "a" })).toEqual([{ toolCallId: a, toolName: "bash", params: {} }]);
+    expect(calls.endSession({ sessionId: "b" })).toEqual([{ toolCallId: b, toolName: "bash", params: {} }]);
+    expect(calls.size()).toBe(0);
+  });
+});
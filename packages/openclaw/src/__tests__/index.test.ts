@@ -311,6 +311,34 @@ describe("createPetriGatePlugin — commands", () => {
   });
 });
 
+describe("createPetriGatePlugin — /override", () => {
+  it("lets blocked calls through and records who asked", async () => {
+    const { api, commands, callHook } = createMockApi();
+    createPetriGatePlugin([blockingNet]).register!(api);
+
+    const granted = commands.get("override")!.handler({ args: "blocker bash 2 1h outage", senderId: "ops" } as any);
+    expect(granted.text).toContain("2 calls of 'bash' past 'blocker' for 1h — outage (ops)");
+
+    for (let i = 0; i < 2; i++) {
+      expect(await callHook("before_tool_call", { toolName: "bash", params: {} }, { toolName: "bash" })).toBeUndefined();
+    }
+    const r = await callHook("before_tool_call", { toolName: "bash", params: {} }, { toolName: "bash" });
+    expect(r?.block).toBe(true);
+  });
+
+  it("rejects unknown nets and lists live overrides with the usage", () => {
+    const { api, commands } = createMockApi();
+    createPetriGatePlugin([blockingNet]).register!(api);
+    const cmd = commands.get("override")!;
+
+    expect(cmd.handler({ args: "nope bash outage" } as any).text).toContain("Unknown net 'nope'");
+    cmd.handler({ args: "blocker bash outage" } as any);
+    const usage = cmd.handler({ args: "" } as any).text;
+    expect(usage).toContain("Usage: /override");
+    expect(usage).toContain("1 call of 'bash' past 'blocker'");
+  });
+});
+
 describe("createPetriGatePlugin — integration with real nets", () => {
   it("toolApprovalNet: free tools pass through", async () => {
     const { api, callHook } = createMockApi();
@@ -330,3 +358,137 @@ describe("createPetriGatePlugin — integration with real nets", () => {
     expect(result).toEqual({ block: true, blockReason: expect.stringContaining("requires human approval") });
   });
 });
+
+describe("createPetriGatePlugin — concurrent correlation", () => {
+  // Each backup target unlocks its own drop
+  const perTargetNet = defineSkillNet({
+    name: "per-target",
+    places: ["dbReady", "dbSaved", "logsReady", "logsSaved"],
+    terminalPlaces: [],
+    freeTools: [],
+    initialMarking: { dbReady: 1, dbSaved: 0, logsReady: 1, logsSaved: 0 },
+    toolMapper: (event) =>
+      event.toolName === "backup" || event.toolName === "drop" ? `${event.toolName}-${event.input.target}` : event.toolName,
+    transitions: [
+      { name: "backupDb", type: "auto", inputs: ["dbReady"], outputs: ["dbSaved"], tools: ["backup-db"], deferred: true },
+      { name: "backupLogs", type: "auto", inputs: ["logsReady"], outputs: ["logsSaved"], tools: ["backup-logs"], deferred: true },
+      { name: "dropDb", type: "auto", inputs: ["dbSaved"], outputs: ["dbReady"], tools: ["drop-db"] },
+      { name: "dropLogs", type: "auto", inputs: ["logsSaved"], outputs: ["logsReady"], tools: ["drop-logs"] },
+    ],
+  });
+
+  const call = (toolName: string, params: Record<string, unknown>, ctx: Record<string, unknown> = {}) =>
+    [{ toolName, params }, { toolName, ...ctx }] as const;
+  const result = (toolName: string, params: Record<string, unknown>, error?: string, ctx: Record<string, unknown> = {}) =>
+    [{ toolName, params, result: error ? undefined : "ok", error }, { toolName, ...ctx }] as const;
+
+  function setup(nets = [perTargetNet]) {
+    const mock = createMockApi();
+    const warnings: string[] = [];
+    mock.api.logger.warn = (message: string) => warnings.push(message);
+    const records: { type: string; toolCallId?: string; cause?: string }[] = [];
+    const audit = { append: (e: any) => void records.push(e), flush: async () => {} };
+    createPetriGatePlugin(nets, { mode: "enforce", audit }).register!(mock.api);
+    return { ...mock, warnings, records };
+  }
+
+  it("pairs results with their own call when they come back out of order", async () => {
+    const { callHook } = setup();
+
+    await callHook("before_tool_call", ...call("backup", { target: "db" }));
+    await callHook("before_tool_call", ...call("backup", { target: "logs" }));
+    // The logs backup finishes first and succeeds; the db backup fails
+    await callHook("after_tool_call", ...result("backup", { target: "logs" }));
+    await callHook("after_tool_call", ...result("backup", { target: "db" }, "disk full"));
+
+    expect((await callHook("before_tool_call", ...call("drop", { target: "db" })))?.block).toBe(true);
+    expect(await callHook("before_tool_call", ...call("drop", { target: "logs" }))).toBeUndefined();
+  });
+
+  it("matches params whatever their key order", async () => {
+    const { callHook, warnings } = setup();
+
+    await callHook("before_tool_call", ...call("backup", { target: "db", mode: "full" }));
+    await callHook("after_tool_call", ...result("backup", { mode: "full", target: "db" }));
+
+    expect(warnings).toEqual([]);
+    expect(await callHook("before_tool_call", ...call("drop", { target: "db" }))).toBeUndefined();
+  });
+
+  it("keeps identical calls of different sessions and runs apart", async () => {
+    const { callHook } = setup();
+    const a = { sessionKey: "a", runId: "1" };
+    const b = { sessionKey: "b", runId: "1" };
+
+    await callHook("before_tool_call", ...call("backup", { target: "db" }, a));
+    await callHook("before_tool_call", ...call("backup", { target: "logs" }, b));
+    await callHook("before_tool_call", ...call("backup", { target: "db" }, { ...a, runId: "2" }));
+    await callHook("after_tool_call", ...result("backup", { target: "db" }, "failed", { ...a, runId: "2" }));
+    await callHook("after_tool_call", ...result("backup", { target: "logs" }, undefined, b));
+    await callHook("after_tool_call", ...result("backup", { target: "db" }, undefined, a));
+
+    expect(await callHook("before_tool_call", ...call("drop", { target: "db" }))).toBeUndefined();
+  });
+
+  it("reports a success that identical calls in flight could share as a failure", async () => {
+    const { callHook, warnings, records } = setup();
+
+    await callHook("before_tool_call", ...call("backup", { target: "db" }));
+    await callHook("before_tool_call", ...call("backup", { target: "db" }));
+    await callHook("after_tool_call", ...result("backup", { target: "db" }));
+
+    expect(warnings).toEqual([
+      "[petri-gate] result of backup matches several identical calls in flight; reported as a failure",
+    ]);
+    expect(records.filter((r) => r.type === "deferred_failed").map((r) => r.toolCallId)).toEqual(["gate-1"]);
+
+    // The second result has only one call left to belong to
+    await callHook("after_tool_call", ...result("backup", { target: "db" }));
+    expect(await callHook("before_tool_call", ...call("drop", { target: "db" }))).toBeUndefined();
+  });
+
+  it("pairs exactly by toolCallId when OpenClaw provides it", async () => {
+    const { callHook, warnings } = setup();
+
+    await callHook("before_tool_call", ...call("backup", { target: "db" }, { toolCallId: "t1" }));
+    await callHook("before_tool_call", ...call("backup", { target: "db" }, { toolCallId: "t2" }));
+    await callHook("after_tool_call", ...result("backup", { target: "db" }, "failed", { toolCallId: "t1" }));
+    await callHook("after_tool_call", ...result("backup", { target: "db" }, undefined, { toolCallId: "t2" }));
+
+    expect(warnings).toEqual([]);
+    expect(await callHook("before_tool_call", ...call("drop", { target: "db" }))).toBeUndefined();
+  });
+
+  it("does not take a blocked call's error for an allowed call's", async () => {
+    const { callHook, records } = setup();
+
+    await callHook("before_tool_call", ...call("backup", { target: "db" }));
+    // The db backup is still pending, so a drop is blocked
+    expect((await callHook("before_tool_call", ...call("drop", { target: "db" })))?.block).toBe(true);
+    await callHook("after_tool_call", ...result("drop", { target: "db" }, "blocked"));
+    await callHook("after_tool_call", ...result("backup", { target: "db" }));
+
+    expect(records.filter((r) => r.type === "deferred_fired")).toHaveLength(1);
+  });
+
+  it("fails the calls of a session that ends before they report back", async () => {
+    const { callHook, records, warnings } = setup();
+
+    await callHook("before_tool_call", ...call("backup", { target: "db" }, { sessionKey: "s", sessionId: "s-1" }));
+    await callHook("before_tool_call", ...call("backup", { target: "logs" }, { sessionKey: "other" }));
+    await callHook("session_end", { sessionId: "s-1", messageCount: 3 }, { sessionId: "s-1" });
+
+    expect(records.filter((r) => r.type === "deferred_failed")).toEqual([
+      expect.objectContaining({ toolCallId: "gate-1", cause: "tool_error" }),
+    ]);
+
+    // A late result finds nothing to resolve
+    await callHook("after_tool_call", ...result("backup", { target: "db" }, undefined, { sessionKey: "s" }));
+    expect(warnings).toEqual(["[petri-gate] no pending call matches the result of backup; ignored"]);
+    expect((await callHook("before_tool_call", ...call("drop", { target: "db" })))?.block).toBe(true);
+
+    // The other session's call is still waiting
+    await callHook("after_tool_call", ...result("backup", { target: "logs" }, undefined, { sessionKey: "other" }));
+    expect(await callHook("before_tool_call", ...call("drop", { target: "logs" }))).toBeUndefined();
+  });
+});
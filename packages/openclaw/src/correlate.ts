@@ -0,0 +1,138 @@
+// ---------------------------------------------------------------------------
+// Tool-call correlation across before_tool_call / after_tool_call
+// ---------------------------------------------------------------------------
+
+/**
+ * Identifiers OpenClaw puts on hook contexts. Which ones are present
+ * depends on the OpenClaw version and the hook, so all are optional.
+ */
+export type HookIds = {
+  sessionKey?: string;
+  sessionId?: string;
+  runId?: string;
+  toolCallId?: string;
+};
+
+type PendingCall = {
+  id: string;
+  toolName: string;
+  params: unknown;
+  sessionKey?: string;
+  sessionId?: string;
+  /** The gate blocked it — its result carries nothing for the nets */
+  blocked: boolean;
+};
+
+/** The call a result belongs to */
+export type CorrelatedResult = {
+  toolCallId: string;
+  blocked: boolean;
+  /**
+   * A success that more than one pending call could have produced. The
+   * result is attributed to the oldest of them, and must be reported as
+   * a failure so no deferred transition fires on a guess.
+   */
+  ambiguous: boolean;
+};
+
+export type ToolCallCorrelator = {
+  /** Record a gated call; returns the id to gate it under */
+  start: (ids: HookIds, toolName: string, params: unknown) => string;
+  /** Mark a started call as blocked by the gate */
+  block: (toolCallId: string) => void;
+  /** Find and forget the call a result belongs to; undefined when none matches */
+  finish: (ids: HookIds, toolName: string, params: unknown, isError: boolean) => CorrelatedResult | undefined;
+  /** Forget every call of a session; returns those the gate allowed, which will get no result now */
+  endSession: (ids: HookIds) => { toolCallId: string; toolName: string; params: unknown }[];
+  /** Number of calls waiting for their result */
+  size: () => number;
+};
+
+/** JSON with object keys sorted, so equal params give equal strings whatever their key order */
+export function fingerprint(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    typeof v === "object" && v !== null && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v,
+  ) ?? "";
+}
+
+/**
+ * Pairs each after_tool_call with the before_tool_call it answers. When
+ * OpenClaw supplies a `toolCallId` the pairing is exact. Otherwise calls
+ * are keyed by session, run, tool name and a fingerprint of their params,
+ * so parallel calls with different params never cross. Calls with the
+ * same key are answered oldest first; a success with several allowed
+ * candidates is flagged as ambiguous.
+ */
+export function createToolCallCorrelator(): ToolCallCorrelator {
+  let nextId = 0;
+  // Correlation key → calls awaiting their result, oldest first
+  const pending = new Map<string, PendingCall[]>();
+  const byId = new Map<string, PendingCall>();
+
+  const keyOf = (ids: HookIds, toolName: string, params: unknown): string =>
+    ids.toolCallId !== undefined
+      ? `id\0${ids.toolCallId}`
+      : [ids.sessionKey ?? ids.sessionId ?? "", ids.runId ?? "", toolName, fingerprint(params ?? {})].join("\0");
+
+  const remove = (key: string, call: PendingCall) => {
+    const queue = pending.get(key)!;
+    queue.splice(queue.indexOf(call), 1);
+    if (queue.length === 0) pending.delete(key);
+    byId.delete(call.id);
+  };
+
+  return {
+    start(ids, toolName, params) {
+      const call: PendingCall = {
+        id: ids.toolCallId ?? `gate-${++nextId}`,
+        toolName,
+        params,
+        sessionKey: ids.sessionKey,
+        sessionId: ids.sessionId,
+        blocked: false,
+      };
+      const key = keyOf(ids, toolName, params);
+      pending.set(key, [...(pending.get(key) ?? []), call]);
+      byId.set(call.id, call);
+      return call.id;
+    },
+
+    block(toolCallId) {
+      const call = byId.get(toolCallId);
+      if (call) call.blocked = true;
+    },
+
+    finish(ids, toolName, params, isError) {
+      const key = keyOf(ids, toolName, params);
+      const queue = pending.get(key);
+      if (!queue) return undefined;
+
+      // A blocked call never ran, so it can only have produced a failure
+      const allowed = queue.filter((c) => !c.blocked);
+      const call = isError ? (queue.find((c) => c.blocked) ?? queue[0]!) : allowed[0];
+      if (!call) return undefined;
+
+      remove(key, call);
+      return { toolCallId: call.id, blocked: call.blocked, ambiguous: !isError && allowed.length > 1 };
+    },
+
+    endSession(ids) {
+      const ended: { toolCallId: string; toolName: string; params: unknown }[] = [];
+      const inSession = (call: PendingCall) =>
+        (ids.sessionKey !== undefined && call.sessionKey === ids.sessionKey) ||
+        (ids.sessionId !== undefined && call.sessionId === ids.sessionId);
+      // Deleting the current key while iterating a Map is safe
+      for (const [key, queue] of pending) {
+        for (const call of queue.filter(inSession)) {
+          remove(key, call);
+          if (!call.blocked) ended.push({ toolCallId: call.id, toolName: call.toolName, params: call.params });
+        }
+      }
+      return ended;
+    },
+
+    size: () => byId.size,
+  };
+}
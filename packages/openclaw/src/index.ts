@@ -1,8 +1,10 @@
-import { createGateManager } from "@petriflow/gate";
+import { createGateManager, formatOverride, parseOverrideCommand } from "@petriflow/gate";
 import type { ComposeConfig, GateManager, GateManagerOptions, SkillNet } from "@petriflow/gate";
 
 // Import OpenClaw types (dev dependency — used for type checking only)
 import type { OpenClawPluginDefinition, OpenClawPluginApi } from "openclaw/plugin-sdk";
+import { createToolCallCorrelator } from "./correlate.js";
+import type { HookIds } from "./correlate.js";
 
 export function createPetriGatePlugin(nets: SkillNet<string>[], opts?: GateManagerOptions): OpenClawPluginDefinition;
 export function createPetriGatePlugin(config: ComposeConfig, opts?: GateManagerOptions): OpenClawPluginDefinition;
@@ -14,54 +16,68 @@ export function createPetriGatePlugin(input: SkillNet<string>[] | ComposeConfig,
     register(api) {
       const manager = createGateManager(input, opts);
       wireHooks(api, manager);
-      wireCommands(api, manager);
+      wireCommands(api, manager, opts?.now ?? Date.now);
     },
   };
 }
 
 function wireHooks(api: OpenClawPluginApi, manager: GateManager): void {
-  // --- Synthetic toolCallId correlation ---
-  // OpenClaw hooks don't expose toolCallId, so we generate synthetic IDs
-  // and correlate via FIFO queues per toolName.
-  let nextId = 0;
-  const pending = new Map<string, string[]>(); // toolName → [syntheticId, ...]
+  // --- Tool-call correlation ---
+  // Older OpenClaw hooks don't expose toolCallId, so calls are paired with
+  // their results by session, run, tool name and params — see correlate.ts
+  const calls = createToolCallCorrelator();
 
   // --- Gate tool calls via before_tool_call ---
-  api.on("before_tool_call", async (event) => {
-    const syntheticId = `gate-${++nextId}`;
+  api.on("before_tool_call", async (event, ctx) => {
+    const toolCallId = calls.start(hookIds(event, ctx), event.toolName, event.params);
     const decision = await manager.handleToolCall(
-      { toolCallId: syntheticId, toolName: event.toolName, input: event.params },
+      { toolCallId, toolName: event.toolName, input: event.params },
       { hasUI: false, confirm: async () => false },
     );
 
     if (decision?.block) {
+      // Still tracked, so the blocked call's error result can't be taken for another call's
+      calls.block(toolCallId);
       api.logger.info(`[petri-gate] blocked ${event.toolName}: ${decision.reason}`);
       return { block: true, blockReason: decision.reason };
     }
-
-    // Only track allowed calls — blocked tools don't need after_tool_call correlation
-    const queue = pending.get(event.toolName) ?? [];
-    queue.push(syntheticId);
-    pending.set(event.toolName, queue);
     return undefined;
   });
 
   // --- Resolve deferred transitions via after_tool_call ---
-  api.on("after_tool_call", async (event) => {
-    const queue = pending.get(event.toolName);
-    if (!queue?.length) return;
-
-    const syntheticId = queue.shift()!;
-    if (queue.length === 0) pending.delete(event.toolName);
+  api.on("after_tool_call", async (event, ctx) => {
+    const call = calls.finish(hookIds(event, ctx), event.toolName, event.params, !!event.error);
+    if (!call) {
+      api.logger.warn(`[petri-gate] no pending call matches the result of ${event.toolName}; ignored`);
+      return;
+    }
+    if (call.blocked) return;
+    if (call.ambiguous) {
+      api.logger.warn(
+        `[petri-gate] result of ${event.toolName} matches several identical calls in flight; reported as a failure`,
+      );
+    }
 
     manager.handleToolResult({
-      toolCallId: syntheticId,
+      toolCallId: call.toolCallId,
       toolName: event.toolName,
       input: event.params,
-      isError: !!event.error,
+      isError: !!event.error || call.ambiguous,
     });
   });
 
+  // --- Drop calls a finished session will never answer ---
+  api.on("session_end", (event, ctx) => {
+    for (const call of calls.endSession(hookIds(event, ctx))) {
+      manager.handleToolResult({
+        toolCallId: call.toolCallId,
+        toolName: call.toolName,
+        input: call.params as Record<string, unknown>,
+        isError: true,
+      });
+    }
+  });
+
   // --- Inject net status into system prompt ---
   api.on("before_agent_start", () => {
     const prompt = manager.formatSystemPrompt();
@@ -70,13 +86,39 @@ function wireHooks(api: OpenClawPluginApi, manager: GateManager): void {
   });
 }
 
-function wireCommands(api: OpenClawPluginApi, manager: GateManager): void {
+/** The ids a hook's event and context carry, whichever this OpenClaw version sets */
+function hookIds(event: object, ctx: object): HookIds {
+  const ids: HookIds = {};
+  for (const source of [ctx, event] as HookIds[]) {
+    for (const key of ["sessionKey", "sessionId", "runId", "toolCallId"] as const) {
+      if (typeof source[key] === "string") ids[key] = source[key];
+    }
+  }
+  return ids;
+}
+
+function wireCommands(api: OpenClawPluginApi, manager: GateManager, now: () => number): void {
   api.registerCommand({
     name: "net-status",
     description: "Show current Petri net state",
     handler: () => ({ text: manager.formatStatus() }),
   });
 
+  api.registerCommand({
+    name: "override",
+    description: "Let blocked calls of a tool through a net for a while (audited)",
+    acceptsArgs: true,
+    requireAuth: true,
+    handler: (ctx) => {
+      const parsed = parseOverrideCommand(ctx.args ?? "", ctx.senderId ?? "openclaw", now());
+      if (!parsed.ok) {
+        const live = manager.getOverrides().map((o) => formatOverride(o, now()));
+        return { text: live.length > 0 ? `${parsed.message}\nActive overrides:\n${live.join("\n")}` : parsed.message };
+      }
+      return { text: manager.grantOverride(parsed.options).message };
+    },
+  });
+
   if (manager.isDynamic) {
     api.registerCommand({
       name: "add-net",
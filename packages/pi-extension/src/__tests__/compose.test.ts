@@ -203,6 +203,32 @@ describe("composeGates — system prompt and commands", () => {
   });
 });
 
+describe("composeGates — /override", () => {
+  function notifier() {
+    const messages: string[] = [];
+    const ctx = { hasUI: true, ui: { notify: (msg: string) => messages.push(msg) } } as unknown as ExtensionContext;
+    return { messages, ctx };
+  }
+
+  it("lets one blocked call through the named net", async () => {
+    const { handlers, commands } = setupComposition([netE]);
+    const { messages, ctx } = notifier();
+
+    await commands["override"]!.handler("netE dangerous INC-7 rollback", ctx);
+    expect(messages[0]).toContain("1 call of 'dangerous' past 'netE'");
+
+    expect(await handlers.tool_call!(makeEvent("dangerous"), makeCtx())).toBeUndefined();
+    expect((await handlers.tool_call!(makeEvent("dangerous"), makeCtx()))?.block).toBe(true);
+  });
+
+  it("shows usage without a reason", async () => {
+    const { commands } = setupComposition([netE]);
+    const { messages, ctx } = notifier();
+    await commands["override"]!.handler("netE dangerous", ctx);
+    expect(messages[0]).toContain("Usage: /override");
+  });
+});
+
 describe("composeGates — dynamic management via pi-mono", () => {
   it("/add-net activates a net", async () => {
     const { handlers, commands } = setupRegistryComposition(
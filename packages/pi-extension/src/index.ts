@@ -1,5 +1,5 @@
 import type { ExtensionAPI, ExtensionContext, ToolCallEvent, ToolResultEvent } from "@mariozechner/pi-coding-agent";
-import { createGateManager, formatMarking } from "@petriflow/gate";
+import { createGateManager, formatMarking, formatOverride, parseOverrideCommand } from "@petriflow/gate";
 import type { ComposeConfig, GateManagerOptions, SkillNet } from "@petriflow/gate";
 
 export function createPetriGate<P extends string>(net: SkillNet<P>, opts?: GateManagerOptions) {
@@ -51,6 +51,21 @@ export function composeGates(input: SkillNet<string>[] | ComposeConfig, opts?: G
       },
     });
 
+    // /override — let blocked calls of a tool through a net, e.g. during an incident
+    pi.registerCommand("override", {
+      description: "Let blocked calls of a tool through a net for a while (audited)",
+      handler: async (args, ctx) => {
+        const now = opts?.now?.() ?? Date.now();
+        const parsed = parseOverrideCommand((args as string | undefined) ?? "", process.env.USER ?? "pi", now);
+        if (!parsed.ok) {
+          const live = manager.getOverrides().map((o) => formatOverride(o, now));
+          ctx.ui.notify(live.length > 0 ? `${parsed.message}\nActive overrides:\n${live.join("\n")}` : parsed.message);
+          return;
+        }
+        ctx.ui.notify(manager.grantOverride(parsed.options).message);
+      },
+    });
+
     // Dynamic commands (only for registry mode)
     if (manager.isDynamic) {
       pi.registerCommand("add-net", {
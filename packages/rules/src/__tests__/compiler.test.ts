@@ -1,4 +1,4 @@
-import { describe, expect, it } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
 import { compile, loadRules } from "../compiler.js";
 import {
   handleToolCall,
@@ -241,6 +241,204 @@ describe("require A before B", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Semantic tests — require A before B matching <field>
+// ---------------------------------------------------------------------------
+
+describe("require A before B matching <field>", () => {
+  async function succeed(net: SkillNet<string>, state: ReturnType<typeof initState>, event: GateToolCall) {
+    const result = await handleToolCall(event, makeCtx(), net, state);
+    handleToolResult(makeResult(event, false), net, state);
+    return result;
+  }
+
+  it("parses the matching field into the metadata", () => {
+    const net = compile("require backup before delete matching path").nets[0]!;
+    expect(net.name).toBe("require-backup-before-delete");
+    expect(net.ruleMetadata).toEqual({
+      kind: "sequence",
+      prerequisite: "backup",
+      dependent: "delete",
+      matching: "path",
+    });
+  });
+
+  it("allows B only for the key A succeeded on", async () => {
+    const net = compile("require backup before delete matching path").nets[0]!;
+    const state = initState(net);
+
+    await succeed(net, state, makeEvent("backup", { path: "/data" }));
+    expect(await handleToolCall(makeEvent("delete", { path: "/etc" }), makeCtx(), net, state)).toEqual({
+      block: true,
+      reason: "delete requires a successful call to backup with path '/etc' first. Seen: [/data]",
+    });
+    expect(
+      await handleToolCall(makeEvent("delete", { path: "/data" }), makeCtx(), net, state),
+    ).toBeUndefined();
+  });
+
+  it("consumes the key — the next B needs another A", async () => {
+    const net = compile("require backup before delete matching path").nets[0]!;
+    const state = initState(net);
+
+    await succeed(net, state, makeEvent("backup", { path: "/data" }));
+    await handleToolCall(makeEvent("delete", { path: "/data" }), makeCtx(), net, state);
+    expect(state.meta.seen).toEqual([]);
+    expect(await handleToolCall(makeEvent("delete", { path: "/data" }), makeCtx(), net, state)).toEqual({
+      block: true,
+      reason: "delete requires a successful call to backup with path '/data' first. Seen: [nothing]",
+    });
+  });
+
+  it("keeps several keys outstanding at once", async () => {
+    const net = compile("require backup before delete matching path").nets[0]!;
+    const state = initState(net);
+
+    await succeed(net, state, makeEvent("backup", { path: "/a" }));
+    expect(await succeed(net, state, makeEvent("backup", { path: "/b" }))).toBeUndefined();
+    expect(await handleToolCall(makeEvent("delete", { path: "/b" }), makeCtx(), net, state)).toBeUndefined();
+    expect(await succeed(net, state, makeEvent("backup", { path: "/c" }))).toBeUndefined();
+    expect(await handleToolCall(makeEvent("delete", { path: "/a" }), makeCtx(), net, state)).toBeUndefined();
+    expect(await handleToolCall(makeEvent("delete", { path: "/c" }), makeCtx(), net, state)).toBeUndefined();
+    expect(state.meta.seen).toEqual([]);
+  });
+
+  it("blocks A calls without the field, leaving the net usable", async () => {
+    const net = compile("require backup before delete matching path").nets[0]!;
+    const state = initState(net);
+
+    expect(await handleToolCall(makeEvent("backup", { target: "/data" }), makeCtx(), net, state)).toEqual({
+      block: true,
+      reason: "backup has no path for delete to match against.",
+    });
+    expect(await succeed(net, state, makeEvent("backup", { path: "/data" }))).toBeUndefined();
+    expect(await handleToolCall(makeEvent("delete", { path: "/data" }), makeCtx(), net, state)).toBeUndefined();
+  });
+
+  it("does not record a failed A", async () => {
+    const net = compile("require backup before delete matching path").nets[0]!;
+    const state = initState(net);
+
+    const backup = makeEvent("backup", { path: "/data" });
+    await handleToolCall(backup, makeCtx(), net, state);
+    handleToolResult(makeResult(backup, true), net, state);
+    expect(state.meta.seen).toBeUndefined();
+  });
+
+  it("blocks B calls without the field", async () => {
+    const net = compile("require backup before delete matching path").nets[0]!;
+    const state = initState(net);
+
+    await succeed(net, state, makeEvent("backup", { path: "/data" }));
+    expect(await handleToolCall(makeEvent("delete", {}), makeCtx(), net, state)).toEqual({
+      block: true,
+      reason: "delete has no path to match against backup.",
+    });
+  });
+
+  it("pairs dotted tools on a nested field", async () => {
+    const { nets } = compile(
+      "require slack.readMessages before slack.sendMessage matching target.channelId",
+    );
+    const manager = createGateManager(nets, { mode: "enforce" });
+    const slack = (action: string, channelId: string) =>
+      makeEvent("slack", { action, target: { channelId } });
+
+    const read = slack("readMessages", "C1");
+    await manager.handleToolCall(read, makeCtx());
+    manager.handleToolResult(makeResult(read, false));
+
+    expect(await manager.handleToolCall(slack("sendMessage", "C2"), makeCtx())).toEqual({
+      block: true,
+      reason: expect.stringContaining("with target.channelId 'C2' first"),
+    });
+    expect(await manager.handleToolCall(slack("sendMessage", "C1"), makeCtx())).toBeUndefined();
+  });
+
+  it("keys a conditioned rule, naming the plain tool", async () => {
+    const net = compile("require backup before bash matching cwd when command ~ rm").nets[0]!;
+    expect(net.ruleMetadata).toMatchObject({ dependent: "bash", matching: "cwd", when: "command ~ rm" });
+    const state = initState(net);
+
+    await succeed(net, state, makeEvent("backup", { cwd: "/a" }));
+    expect(
+      await handleToolCall(makeEvent("bash", { command: "rm x", cwd: "/b" }), makeCtx(), net, state),
+    ).toEqual({
+      block: true,
+      reason: "bash requires a successful call to backup with cwd '/b' first. Seen: [/a]",
+    });
+  });
+
+  it("throws on malformed matching clauses", () => {
+    expect(() => compile("require a before b matchng path")).toThrow(
+      "Line 1: expected 'matching' at position 5, got 'matchng'. Did you mean 'matching'?",
+    );
+    expect(() => compile("require a before b matching")).toThrow(
+      "Line 1: 'require <tool> before <tool> matching <field>' expects 6 tokens, got 5",
+    );
+    expect(() => compile("require a before b matching .path")).toThrow(
+      "Line 1: invalid matching field '.path'",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Semantic tests — require A before B within <window>
+// ---------------------------------------------------------------------------
+
+describe("require A before B within <window>", () => {
+  it("times out the prerequisite call", () => {
+    const net = compile("require backup before delete within 5m").nets[0]!;
+    expect(net.transitions.find((t) => t.name === "do-backup")).toMatchObject({
+      deferred: true,
+      deferredTimeoutMs: 5 * 60_000,
+    });
+    expect(net.ruleMetadata).toEqual({
+      kind: "sequence",
+      prerequisite: "backup",
+      dependent: "delete",
+      withinMs: 5 * 60_000,
+    });
+  });
+
+  it("ignores a prerequisite result that comes too late", async () => {
+    let now = 0;
+    const { nets } = compile("require backup before delete within 30s");
+    const manager = createGateManager(nets, { mode: "enforce", now: () => now });
+
+    const late = makeEvent("backup");
+    await manager.handleToolCall(late, makeCtx());
+    now = 31_000;
+    manager.handleToolResult(makeResult(late, false));
+    expect((await manager.handleToolCall(makeEvent("delete"), makeCtx()))?.block).toBe(true);
+
+    const prompt = makeEvent("backup");
+    await manager.handleToolCall(prompt, makeCtx());
+    now = 40_000;
+    manager.handleToolResult(makeResult(prompt, false));
+    expect(await manager.handleToolCall(makeEvent("delete"), makeCtx())).toBeUndefined();
+  });
+
+  it("combines with matching and when", () => {
+    const net = compile("require backup before bash matching cwd within 1h when command ~ rm").nets[0]!;
+    expect(net.ruleMetadata).toMatchObject({ matching: "cwd", withinMs: 3_600_000, when: "command ~ rm" });
+    expect(net.transitions.find((t) => t.deferred)!.deferredTimeoutMs).toBe(3_600_000);
+  });
+
+  it("throws on malformed within clauses", () => {
+    expect(() => compile("require a before b within")).toThrow(
+      "Line 1: 'require <tool> before <tool> within <window>' expects 6 tokens, got 5",
+    );
+    expect(() => compile("require a before b within soon")).toThrow(
+      "Line 1: within needs a window greater than zero like 30s, 5m, 24h or 7d, got 'soon'",
+    );
+    expect(() => compile("require a before b within 0s")).toThrow("got '0s'");
+    expect(() => compile("require a before b matching path withn 5m")).toThrow(
+      "Line 1: expected 'within' at position 7, got 'withn'. Did you mean 'within'?",
+    );
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Semantic tests — require human-approval before B
 // ---------------------------------------------------------------------------
@@ -419,6 +617,392 @@ describe("limit A to N per action", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Semantic tests — limit A to N per time window
+// ---------------------------------------------------------------------------
+
+describe("limit A to N per time window", () => {
+  it("parses window scopes into windowed limit nets", () => {
+    const { nets } = compile("limit deploy to 1 per 24h");
+    expect(nets[0]!.name).toBe("limit-deploy-1-per-24h");
+    expect(nets[0]!.refills).toEqual([
+      { transition: "do-deploy", from: "spent", to: "budget", windowMs: 24 * 60 * 60 * 1000 },
+    ]);
+    expect(nets[0]!.ruleMetadata).toEqual({
+      kind: "limit",
+      tool: "deploy",
+      limit: 1,
+      scope: "24h",
+      windowMs: 24 * 60 * 60 * 1000,
+    });
+  });
+
+  it("rejects a zero-length window", () => {
+    expect(() => compile("limit deploy to 1 per 0m")).toThrow(
+      /window must be greater than zero/,
+    );
+  });
+
+  it("treats non-window scopes as actions", () => {
+    const { nets } = compile("limit push to 1 per m5");
+    expect(nets[0]!.name).toBe("limit-push-1-per-m5");
+    expect(nets[0]!.refills).toBeUndefined();
+  });
+
+  it("budget refills after the window with an injected clock", async () => {
+    let now = 0;
+    const { nets } = compile("limit discord.sendMessage to 2 per 1m");
+    const manager = createGateManager(nets, { mode: "enforce", now: () => now });
+    const send = () => makeEvent("discord", { action: "sendMessage" });
+
+    expect(await manager.handleToolCall(send(), makeCtx())).toBeUndefined();
+    now = 15_000;
+    expect(await manager.handleToolCall(send(), makeCtx())).toBeUndefined();
+    expect(await manager.handleToolCall(send(), makeCtx())).toEqual({
+      block: true,
+      reason:
+        "discord.sendMessage has reached its limit of 2 calls per 1m. Budget refills in 45s.",
+    });
+
+    now = 60_000;
+    expect(await manager.handleToolCall(send(), makeCtx())).toBeUndefined();
+  });
+
+  it("verifies as a bounded net", () => {
+    const { verification } = compile("limit deploy to 2 per 10m");
+    // budget + spent is conserved: idle, then (2,0), (1,1), (0,2)
+    expect(verification[0]!.reachableStates).toBe(4);
+  });
+});
+
+describe("limit A to N <unit> per <scope> cost <expr>", () => {
+  it("charges the budget by an input field", async () => {
+    const { nets } = compile("limit llm.generate to 100000 tokens per session cost input.maxTokens");
+    const net = nets[0]!;
+    expect(net.ruleMetadata).toEqual({
+      kind: "limit",
+      tool: "llm.generate",
+      limit: 100000,
+      scope: "session",
+      unit: "tokens",
+      cost: "input.maxTokens",
+    });
+
+    const state = initState(net);
+    const generate = (maxTokens: number) =>
+      handleToolCall(makeEvent("llm.generate", { maxTokens }), makeCtx(), net, state);
+    expect(await generate(60000)).toBeUndefined();
+    expect(await generate(50000)).toEqual({
+      block: true,
+      reason: "llm.generate would cost 50000 tokens, but only 40000 of 100000 tokens remain per session.",
+    });
+    expect(await generate(40000)).toBeUndefined();
+    expect(state.marking.budget).toBe(0);
+  });
+
+  it("multiplies fields and numbers, with or without the input prefix", async () => {
+    const { nets } = compile("limit cloud.spend to 100 dollars per session cost input.instanceCount * hourlyRate * 2");
+    const net = nets[0]!;
+    expect(net.ruleMetadata).toMatchObject({ unit: "dollars", cost: "input.instanceCount * hourlyRate * 2" });
+
+    const state = initState(net);
+    const spend = (input: Record<string, unknown>) => handleToolCall(makeEvent("cloud", { action: "spend", ...input }), makeCtx(), net, state);
+    expect(await spend({ instanceCount: 3, hourlyRate: 1.5 })).toBeUndefined();
+    expect(state.marking.budget).toBe(91);
+    expect((await spend({ instanceCount: 3 }))?.reason).toBe(
+      "Cannot work out the cost of cloud.spend from input.instanceCount * hourlyRate * 2.",
+    );
+  });
+
+  it("caps one call's charge with max", async () => {
+    const { nets } = compile("limit llm.generate to 1000 tokens per session cost maxTokens max 200");
+    const state = initState(nets[0]!);
+    expect(await handleToolCall(makeEvent("llm.generate", { maxTokens: 300 }), makeCtx(), nets[0]!, state)).toEqual({
+      block: true,
+      reason: "llm.generate would cost 300 tokens, more than the 200 one call may use.",
+    });
+  });
+
+  it("returns a window's charges when it has passed", async () => {
+    let now = 0;
+    const { nets } = compile("limit llm.generate to 10 tokens per 1m cost maxTokens");
+    const manager = createGateManager(nets, { mode: "enforce", now: () => now });
+    const generate = (maxTokens: number) => manager.handleToolCall(makeEvent("llm.generate", { maxTokens }), makeCtx());
+
+    expect(await generate(8)).toBeUndefined();
+    now = 20_000;
+    expect((await generate(5))?.reason).toBe(
+      "llm.generate would cost 5 tokens, but only 2 of 10 tokens remain per 1m. Budget refills in 40s.",
+    );
+    now = 60_000;
+    expect(await generate(5)).toBeUndefined();
+  });
+
+  it("keeps when conditions", async () => {
+    const { nets } = compile("limit llm.generate to 10 tokens per session cost maxTokens when model matches large");
+    const net = nets[0]!;
+    expect(net.ruleMetadata).toMatchObject({ tool: "llm.generate", cost: "maxTokens", when: "model matches large" });
+
+    const manager = createGateManager(nets, { mode: "enforce" });
+    const generate = (model: string) =>
+      manager.handleToolCall(makeEvent("llm.generate", { model, maxTokens: 50 }), makeCtx());
+    expect(await generate("small")).toBeUndefined();
+    expect(await generate("large")).toEqual({
+      block: true,
+      reason: "llm.generate would cost 50 tokens, more than the 10 one call may use when model matches large.",
+    });
+  });
+
+  it("accepts a unit without cost", () => {
+    const { nets } = compile("limit deploy to 2 deploys per session");
+    expect(nets[0]!.ruleMetadata).toMatchObject({ limit: 2, unit: "deploys" });
+  });
+
+  it("rejects malformed cost clauses", () => {
+    expect(() => compile("limit a to 10 per session cost")).toThrow(/cost needs an expression/);
+    expect(() => compile("limit a to 10 per session cost n + 1")).toThrow(/cost must multiply input fields and numbers, got 'n \+ 1'/);
+    expect(() => compile("limit a to 10 per session cost n *")).toThrow(/cost must multiply/);
+    expect(() => compile("limit a to 10 per session cost n max 20")).toThrow(/no greater than the limit 10, got '20'/);
+    expect(() => compile("limit a to 10 per session cost n max")).toThrow(/'max <M>' expects 2 tokens/);
+    expect(() => compile("limit a to 10 per fetch cost n")).toThrow(/cost needs a 'session' or time-window scope, got 'fetch'/);
+  });
+
+  it("verifies in chunks of the per-call maximum", () => {
+    const { verification } = compile(`
+      limit llm.generate to 100000 tokens per session cost maxTokens max 25000
+      limit llm.generate to 100 tokens per 1h cost maxTokens max 50
+    `);
+    // idle, then ready with 4 chunks of 25000 down to 0
+    expect(verification[0]!.reachableStates).toBe(6);
+    // idle, then 2 chunks split between budget and spent
+    expect(verification[1]!.reachableStates).toBe(4);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// when conditions
+// ---------------------------------------------------------------------------
+
+describe("rules with when conditions", () => {
+  it("parses a condition onto the rule and names the net after it", () => {
+    const { nets } = compile("block bash when command matches /sudo/");
+    expect(nets).toHaveLength(1);
+    expect(nets[0]!.name).toBe("block-bash[command matches /sudo/]");
+    expect(nets[0]!.ruleMetadata).toEqual({
+      kind: "block",
+      tool: "bash",
+      when: "command matches /sudo/",
+    });
+  });
+
+  it("gates only calls whose input matches", async () => {
+    const { nets } = compile("block bash when command matches /sudo/");
+    const manager = createGateManager(nets, { mode: "enforce" });
+
+    expect(
+      await manager.handleToolCall(makeEvent("bash", { command: "sudo rm -rf /" }), makeCtx()),
+    ).toEqual({
+      block: true,
+      reason: "bash is blocked and cannot be called when command matches /sudo/.",
+    });
+    expect(
+      await manager.handleToolCall(makeEvent("bash", { command: "ls -la" }), makeCtx()),
+    ).toBeUndefined();
+  });
+
+  it("combines clauses with and/or, and binding tighter", async () => {
+    const { nets } = compile(
+      "block bash when command ~ rm and cwd ~ /^\\/prod/ or command ~ shutdown",
+    );
+    const manager = createGateManager(nets, { mode: "enforce" });
+    const call = (input: Record<string, unknown>) =>
+      manager.handleToolCall(makeEvent("bash", input), makeCtx());
+
+    expect((await call({ command: "rm x", cwd: "/prod/app" }))?.block).toBe(true);
+    expect(await call({ command: "rm x", cwd: "/tmp" })).toBeUndefined();
+    expect((await call({ command: "shutdown now", cwd: "/tmp" }))?.block).toBe(true);
+  });
+
+  it("supports negation, treating a missing field as not matching", async () => {
+    const { nets } = compile("block write when path !~ /^\\/workspace\\//");
+    const manager = createGateManager(nets, { mode: "enforce" });
+    const call = (input: Record<string, unknown>) =>
+      manager.handleToolCall(makeEvent("write", input), makeCtx());
+
+    expect(await call({ path: "/workspace/a.ts" })).toBeUndefined();
+    expect((await call({ path: "/etc/passwd" }))?.block).toBe(true);
+    expect((await call({}))?.block).toBe(true);
+  });
+
+  it("reads dotted field paths", async () => {
+    const { nets } = compile("block fetch when options.method matches DELETE");
+    const manager = createGateManager(nets, { mode: "enforce" });
+
+    expect(
+      (await manager.handleToolCall(makeEvent("fetch", { options: { method: "DELETE" } }), makeCtx()))
+        ?.block,
+    ).toBe(true);
+    expect(
+      await manager.handleToolCall(makeEvent("fetch", { options: { method: "GET" } }), makeCtx()),
+    ).toBeUndefined();
+    expect(
+      await manager.handleToolCall(makeEvent("fetch", { options: "DELETE" }), makeCtx()),
+    ).toBeUndefined();
+  });
+
+  it("requires approval for dotted actions only when the condition holds", async () => {
+    const { nets } = compile(
+      "require human-approval before http.post when url !~ /^https:\\/\\/api\\.internal\\//",
+    );
+    const manager = createGateManager(nets, { mode: "enforce" });
+
+    expect(
+      await manager.handleToolCall(
+        makeEvent("http", { action: "post", url: "https://api.internal/v1" }),
+        makeCtx(false),
+      ),
+    ).toBeUndefined();
+    expect(
+      await manager.handleToolCall(
+        makeEvent("http", { action: "post", url: "https://example.com" }),
+        makeCtx(false),
+      ),
+    ).toEqual({
+      block: true,
+      reason: expect.stringContaining("requires human approval"),
+    });
+    expect(
+      await manager.handleToolCall(
+        makeEvent("http", { action: "get", url: "https://example.com" }),
+        makeCtx(false),
+      ),
+    ).toBeUndefined();
+  });
+
+  it("only counts matching calls against a conditioned limit", async () => {
+    const { nets } = compile("limit bash to 1 per session when command ~ deploy");
+    const manager = createGateManager(nets, { mode: "enforce" });
+    const call = (command: string) =>
+      manager.handleToolCall(makeEvent("bash", { command }), makeCtx());
+
+    expect(await call("ls")).toBeUndefined();
+    expect(await call("./deploy.sh")).toBeUndefined();
+    expect(await call("ls")).toBeUndefined();
+    expect(await call("./deploy.sh")).toEqual({
+      block: true,
+      reason: "bash has reached its limit of 1 calls per session when command ~ deploy.",
+    });
+  });
+
+  it("requires the prerequisite only before matching calls", async () => {
+    const { nets } = compile("require test before bash when command ~ deploy");
+    expect(nets[0]!.ruleMetadata).toEqual({
+      kind: "sequence",
+      prerequisite: "test",
+      dependent: "bash",
+      when: "command ~ deploy",
+    });
+    const manager = createGateManager(nets, { mode: "enforce" });
+
+    expect(
+      await manager.handleToolCall(makeEvent("bash", { command: "ls" }), makeCtx()),
+    ).toBeUndefined();
+    expect(
+      await manager.handleToolCall(makeEvent("bash", { command: "deploy" }), makeCtx()),
+    ).toEqual({
+      block: true,
+      reason: "bash requires a successful call to test first when command ~ deploy.",
+    });
+  });
+
+  it("throws on malformed conditions", () => {
+    expect(() => compile("block bash when")).toThrow(
+      "Line 1: 'when' must be followed by a condition",
+    );
+    expect(() => compile("block bash when command is sudo")).toThrow(
+      "Line 1: unknown condition operator 'is'",
+    );
+    expect(() => compile("block bash when command ~")).toThrow(
+      "Line 1: condition '<field> matches <pattern>' expects 3 tokens, got 2",
+    );
+    expect(() => compile("block bash when command ~ a and")).toThrow(
+      "Line 1: 'and' needs a condition on both sides",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Groups
+// ---------------------------------------------------------------------------
+
+describe("group blocks", () => {
+  it("collects a group's nets into the compose config", () => {
+    const { nets, config } = compile(`
+      block rm
+      group deploy-safety {
+        require test before deploy
+        limit deploy to 2 per session
+      }
+    `);
+    expect(nets.map((n) => n.name)).toEqual([
+      "block-rm",
+      "require-test-before-deploy",
+      "limit-deploy-2",
+    ]);
+    expect(Object.keys(config.registry)).toEqual(nets.map((n) => n.name));
+    expect(config.groups).toEqual({
+      "deploy-safety": ["require-test-before-deploy", "limit-deploy-2"],
+    });
+  });
+
+  it("toggles a whole group with addNet/removeNet", async () => {
+    const { config } = compile(`
+      group deploy-safety {
+        require test before deploy
+      }
+    `);
+    const manager = createGateManager(config, { mode: "enforce" });
+
+    expect((await manager.handleToolCall(makeEvent("deploy"), makeCtx()))?.block).toBe(true);
+    expect(manager.removeNet("deploy-safety").ok).toBe(true);
+    expect(await manager.handleToolCall(makeEvent("deploy"), makeCtx())).toBeUndefined();
+    expect(manager.addNet("deploy-safety").ok).toBe(true);
+    expect((await manager.handleToolCall(makeEvent("deploy"), makeCtx()))?.block).toBe(true);
+  });
+
+  it("rejects malformed groups", () => {
+    expect(() => compile("group {\nblock rm\n}")).toThrow(
+      "Line 1: expected 'group <name> {', got 'group {'",
+    );
+    expect(() => compile("group a {\ngroup b {\nblock rm\n}\n}")).toThrow(
+      "Line 2: group 'b' is nested inside 'a'",
+    );
+    expect(() => compile("group a {\nblock rm")).toThrow("Line 1: group 'a' is never closed");
+    expect(() => compile("block rm\n}")).toThrow("Line 2: unexpected '}' outside a group");
+    expect(() => compile("group a {\n}")).toThrow("Line 2: group 'a' is empty");
+    expect(() =>
+      compile("group a {\nblock rm\n}\ngroup a {\nblock cp\n}"),
+    ).toThrow("Line 4: duplicate group 'a'");
+  });
+
+  it("rejects rules that compile to a net name already taken", () => {
+    expect(() => compile("group a {\nblock rm\n}\ngroup b {\nblock rm\n}")).toThrow(
+      "Line 5: rule compiles to net 'block-rm', already defined by the rule on line 2 in group 'a'",
+    );
+    expect(() => compile("block rm\ngroup a {\nblock rm\n}")).toThrow(
+      "Line 3: rule compiles to net 'block-rm', already defined by the rule on line 1",
+    );
+    // The same rule twice in one scope is the same net — only a warning
+    expect(Object.keys(compile("block rm\nblock rm").config.registry)).toEqual(["block-rm"]);
+  });
+
+  it("rejects include outside loadRules", () => {
+    expect(() => compile("include ./baseline.rules")).toThrow(
+      "Line 1: 'include' is only supported in files read by loadRules()",
+    );
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Composition test — multiple rules via GateManager
 // ---------------------------------------------------------------------------
@@ -1180,4 +1764,78 @@ describe("loadRules", () => {
   it("throws on missing file", () => {
     expect(loadRules("/nonexistent/safety.rules")).rejects.toThrow();
   });
+
+  describe("include", () => {
+    const { mkdtempSync, mkdirSync, rmSync } = require("fs");
+    const path = require("path");
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(require("os").tmpdir(), "petriflow-include-"));
+      mkdirSync(path.join(dir, "shared"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("splices included rules in, resolving paths relative to the including file", async () => {
+      await Bun.write(path.join(dir, "shared", "org.rules"), "block rm\ninclude ./deploy.rules\n");
+      await Bun.write(path.join(dir, "shared", "deploy.rules"), "require test before deploy\n");
+      await Bun.write(
+        path.join(dir, "agent.rules"),
+        "include shared/org.rules\nlimit deploy to 1 per session\n",
+      );
+
+      const { nets } = await loadRules(path.join(dir, "agent.rules"));
+      expect(nets.map((n) => n.name)).toEqual([
+        "block-rm",
+        "require-test-before-deploy",
+        "limit-deploy-1",
+      ]);
+    });
+
+    it("includes a file reached twice only once", async () => {
+      await Bun.write(path.join(dir, "base.rules"), "block rm\n");
+      await Bun.write(path.join(dir, "a.rules"), "include base.rules\n");
+      await Bun.write(path.join(dir, "main.rules"), "include a.rules\ninclude base.rules\n");
+
+      const { nets } = await loadRules(path.join(dir, "main.rules"));
+      expect(nets.map((n) => n.name)).toEqual(["block-rm"]);
+    });
+
+    it("groups included rules", async () => {
+      await Bun.write(path.join(dir, "deploy.rules"), "require test before deploy\n");
+      await Bun.write(path.join(dir, "main.rules"), "group deploy-safety {\ninclude deploy.rules\n}\n");
+
+      const { config } = await loadRules(path.join(dir, "main.rules"));
+      expect(config.groups).toEqual({ "deploy-safety": ["require-test-before-deploy"] });
+    });
+
+    it("detects include cycles", async () => {
+      await Bun.write(path.join(dir, "a.rules"), "include b.rules\n");
+      await Bun.write(path.join(dir, "b.rules"), "block rm\ninclude a.rules\n");
+
+      await expect(loadRules(path.join(dir, "a.rules"))).rejects.toThrow(
+        "b.rules: Line 2: include cycle a.rules -> b.rules -> a.rules",
+      );
+    });
+
+    it("reports errors with the included file name", async () => {
+      await Bun.write(path.join(dir, "bad.rules"), "block rm\nallow everything\n");
+      await Bun.write(path.join(dir, "main.rules"), "include bad.rules\n");
+
+      await expect(loadRules(path.join(dir, "main.rules"))).rejects.toThrow(
+        "bad.rules: Line 2: unknown keyword 'allow'",
+      );
+    });
+
+    it("reports a missing included file at the include line", async () => {
+      await Bun.write(path.join(dir, "main.rules"), "block rm\ninclude missing.rules\n");
+
+      await expect(loadRules(path.join(dir, "main.rules"))).rejects.toThrow(
+        "Line 2: cannot read included file 'missing.rules'",
+      );
+    });
+  });
 });
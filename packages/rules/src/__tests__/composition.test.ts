@@ -0,0 +1,163 @@
+import { describe, expect, it } from "bun:test";
+import { compile } from "../compiler.js";
+import { verifyComposition } from "../composition.js";
+import { defineSkillNet } from "@petriflow/gate";
+
+function netsOf(...rules: string[]) {
+  return rules.flatMap((r) => compile(r).nets);
+}
+
+describe("compile — composition", () => {
+  it("returns a passing composition report for consistent rules", () => {
+    const { composition } = compile(`
+      require lint before test
+      require test before deploy
+      block rm
+    `);
+    expect(composition.ok).toBe(true);
+    expect(composition.deadTools).toEqual([]);
+    expect(composition.conflicts).toEqual([]);
+  });
+
+  it("throws when a rule makes another rule's tool unreachable", () => {
+    expect(() =>
+      compile(`
+        require test before deploy
+        block test
+      `),
+    ).toThrow(/deploy can never fire \(require-test-before-deploy \+ block-test\)/);
+  });
+
+  it("throws when a blocked action starves a dotted sequence", () => {
+    expect(() =>
+      compile(`
+        block discord.readMessages
+        require discord.readMessages before discord.sendMessage
+      `),
+    ).toThrow(/discord\.sendMessage can never fire/);
+  });
+
+  it("treats actions of a blocked base tool as intentionally blocked", () => {
+    const { composition } = compile(`
+      block discord
+      require discord.readMessages before discord.sendMessage
+    `);
+    expect(composition.deadTools).toEqual([]);
+  });
+});
+
+describe("verifyComposition", () => {
+  it("groups nets that share tools into components", () => {
+    const report = verifyComposition(
+      netsOf("require lint before test", "require test before deploy", "block rm"),
+    );
+    expect(report.components.map((c) => c.nets)).toEqual([
+      ["require-lint-before-test", "require-test-before-deploy"],
+      ["block-rm"],
+    ]);
+    expect(report.components[0]!.reachableStates).toBeGreaterThan(1);
+    expect(report.components[1]!.reachableStates).toBe(1);
+  });
+
+  it("reports dead tools and the conflicting pair", () => {
+    const report = verifyComposition(netsOf("require test before deploy", "block test"));
+    expect(report.ok).toBe(false);
+    expect(report.deadTools).toEqual([
+      { tool: "deploy", nets: ["require-test-before-deploy"] },
+    ]);
+    expect(report.conflicts).toEqual([
+      { tool: "deploy", nets: ["require-test-before-deploy", "block-test"] },
+    ]);
+  });
+
+  it("does not report intentionally blocked tools", () => {
+    const report = verifyComposition(netsOf("block rm", "limit rm to 3 per session"));
+    expect(report.ok).toBe(true);
+    expect(report.deadTools).toEqual([]);
+  });
+
+  it("reports a per-action refill starved by a block", () => {
+    const report = verifyComposition(netsOf("limit push to 1 per test", "block push"));
+    expect(report.deadTools.map((d) => d.tool)).toEqual(["test"]);
+    expect(report.conflicts).toEqual([
+      { tool: "test", nets: ["limit-push-1-per-test", "block-push"] },
+    ]);
+  });
+
+  it("detects unbounded places in hand-built nets", () => {
+    const leaky = defineSkillNet({
+      name: "leaky",
+      places: ["idle", "ready", "pile"],
+      initialMarking: { idle: 1, ready: 0, pile: 0 },
+      transitions: [
+        { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+        { name: "spam", type: "auto", inputs: ["ready"], outputs: ["ready", "pile"], tools: ["spam"] },
+      ],
+      freeTools: [],
+      terminalPlaces: [],
+    });
+
+    const report = verifyComposition([leaky]);
+    expect(report.ok).toBe(false);
+    expect(report.unboundedPlaces).toEqual([{ net: "leaky", place: "pile" }]);
+  });
+
+  it("marks components truncated at maxStates and skips dead-tool analysis", () => {
+    const report = verifyComposition(
+      netsOf("limit deploy to 50 per session", "require test before deploy"),
+      { maxStates: 10 },
+    );
+    expect(report.components[0]!.truncated).toBe(true);
+    expect(report.ok).toBe(true);
+  });
+
+  it("warns about equal-priority transitions matching one tool", () => {
+    const deploy = (priority?: number) =>
+      defineSkillNet({
+        name: "deploy",
+        places: ["ready", "done"],
+        initialMarking: { ready: 1, done: 0 },
+        transitions: [
+          { name: "deploy", type: "auto", inputs: ["ready"], outputs: ["done"], tools: ["deploy"] },
+          { name: "hotfix", type: "auto", inputs: ["ready"], outputs: ["done"], tools: ["deploy"], priority },
+        ],
+        freeTools: [],
+        terminalPlaces: [],
+      });
+
+    const report = verifyComposition([deploy()]);
+    expect(report.ok).toBe(true);
+    expect(report.ambiguousMatches).toEqual([{ net: "deploy", tool: "deploy", transitions: ["deploy", "hotfix"] }]);
+
+    expect(verifyComposition([deploy(1)]).ambiguousMatches).toEqual([]);
+    expect(verifyComposition([{ ...deploy(), resolveTransition: () => undefined }]).ambiguousMatches).toEqual([]);
+    expect(verifyComposition(netsOf("require test before deploy", "limit deploy to 2 per session")).ambiguousMatches).toEqual([]);
+  });
+
+  it("explores every candidate a resolveTransition may pick", () => {
+    // release either stages or ships; only a shipped release can be announced
+    const release = defineSkillNet({
+      name: "release",
+      places: ["ready", "staged", "shipped"],
+      initialMarking: { ready: 1, staged: 0, shipped: 0 },
+      transitions: [
+        { name: "stage", type: "auto", inputs: ["ready"], outputs: ["staged"], tools: ["release"] },
+        { name: "ship", type: "auto", inputs: ["ready"], outputs: ["shipped"], tools: ["release"] },
+        { name: "announce", type: "auto", inputs: ["shipped"], outputs: ["shipped"], tools: ["announce"] },
+      ],
+      freeTools: [],
+      terminalPlaces: [],
+    });
+    const resolved = defineSkillNet({
+      ...release,
+      resolveTransition: (candidates) => candidates.find((t) => t.name === "ship"),
+    });
+
+    // Array order always stages, so announce is dead on its own — not a conflict
+    expect(verifyComposition([release, ...netsOf("block release")]).deadTools).toEqual([]);
+
+    const report = verifyComposition([resolved, ...netsOf("block release")]);
+    expect(report.deadTools).toEqual([{ tool: "announce", nets: ["release"] }]);
+    expect(report.conflicts).toEqual([{ tool: "announce", nets: ["release", "block-release"] }]);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "bun:test";
+import { defineSkillNet } from "@petriflow/gate";
+import type { SkillNet } from "@petriflow/gate";
+import { compile } from "../compiler.js";
+import { decompile } from "../decompile.js";
+
+const RULES = [
+  "map bash.command rm as delete",
+  "map bash.command /git\\s+push/ as git-push",
+  "",
+  "require test before deploy",
+  "require human-approval before deploy",
+  "block delete",
+  "limit git-push to 3 per session",
+  "limit discord.sendMessage to 5 per 1h",
+  "limit git-push to 1 per fetch",
+  "block bash when command matches /sudo/",
+  "",
+].join("\n");
+
+/** Drop the metadata so only the structure is left to match */
+function bare(net: SkillNet<string>): SkillNet<string> {
+  const { ruleMetadata: _, ...rest } = net;
+  return rest;
+}
+
+describe("decompile — round trip", () => {
+  it("prints compiled rules back as canonical text", () => {
+    const { text, unrecognized } = decompile(compile(RULES).nets);
+    expect(text).toBe(RULES);
+    expect(unrecognized).toEqual([]);
+  });
+
+  it("normalises spacing, comments and regex-wrapped words", () => {
+    const { text } = decompile(
+      compile(`
+        # safety
+        map   bash.command /\\brm\\b/   as delete
+        block    delete   # never
+      `).nets,
+    );
+    expect(text).toBe("map bash.command rm as delete\n\nblock delete\n");
+  });
+
+  it("matches structure when nets carry no metadata", () => {
+    const nets = compile(RULES).nets.map(bare);
+    expect(decompile(nets).text).toBe(RULES);
+  });
+
+  it("keeps units and cost clauses from metadata", () => {
+    const rules = [
+      "limit llm.generate to 100000 tokens per session cost maxTokens max 8000",
+      "limit cloud.spend to 50 dollars per 24h cost input.instanceCount * 3",
+      "",
+    ].join("\n");
+    expect(decompile(compile(rules).nets)).toEqual({ text: rules, unrecognized: [] });
+
+    // The cost expression is a function once compiled
+    const [net] = compile(rules).nets.map(bare);
+    expect(decompile([net!]).unrecognized).toEqual([
+      { net: "limit-llm.generate-100000", reason: "not a sequence, approval, block or limit shape" },
+    ]);
+  });
+
+  it("keeps matching fields", () => {
+    const rules = "require backup before delete matching path when command ~ rm\n";
+    expect(decompile(compile(rules).nets)).toEqual({ text: rules, unrecognized: [] });
+  });
+
+  it("keeps within windows, from metadata or structure", () => {
+    const rules = "require backup before delete within 5m when command ~ rm\n";
+    expect(decompile(compile(rules).nets).text).toBe(rules);
+    expect(decompile(compile(rules).nets.map(bare)).text).toBe(rules);
+  });
+
+  it("prints groups from a ComposeConfig", () => {
+    const { config } = compile(`
+      block rm
+      group deploys {
+        require test before deploy
+        limit deploy to 2 per session
+      }
+    `);
+    expect(decompile(config).text).toBe(
+      [
+        "block rm",
+        "",
+        "group deploys {",
+        "  require test before deploy",
+        "  limit deploy to 2 per session",
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("decompile — hand-built nets", () => {
+  it("recognises compiled shapes under other place names", () => {
+    const net = defineSkillNet({
+      name: "one-approval",
+      places: ["waiting", "open"],
+      initialMarking: { waiting: 0, open: 1 },
+      transitions: [
+        { name: "ok", type: "manual", inputs: ["open"], outputs: ["open"], tools: ["publish", "tweet"] },
+      ],
+      freeTools: [],
+      terminalPlaces: [],
+    });
+    expect(decompile([net]).text).toBe(
+      "require human-approval before publish\nrequire human-approval before tweet\n",
+    );
+  });
+
+  it("reports nets it cannot recognise", () => {
+    const net = defineSkillNet({
+      name: "workflow",
+      places: ["draft", "review", "done"],
+      initialMarking: { draft: 1, review: 0, done: 0 },
+      transitions: [
+        { name: "submit", type: "auto", inputs: ["draft"], outputs: ["review"], tools: ["submit"] },
+        { name: "merge", type: "auto", inputs: ["review"], outputs: ["done"], tools: ["merge"] },
+      ],
+      freeTools: [],
+      terminalPlaces: ["done"],
+    });
+    const { text, unrecognized } = decompile([net, ...compile("block rm").nets]);
+    expect(text).toBe("block rm\n");
+    expect(unrecognized).toEqual([
+      { net: "workflow", reason: "not a sequence, approval, block or limit shape" },
+    ]);
+  });
+
+  it("reports parts of a net the DSL cannot express", () => {
+    const [blockRm] = compile("block rm").nets;
+    const net: SkillNet<string> = {
+      ...blockRm!,
+      freeTools: ["ls"],
+      toolMapper: ({ toolName }) => toolName.toLowerCase(),
+    };
+    const { text, unrecognized } = decompile([net]);
+    expect(text).toBe("block rm\n");
+    expect(unrecognized.map((u) => u.reason)).toEqual([
+      "toolMapper was not built by compile and has no map lines",
+      "free tools (ls) have no rules equivalent",
+    ]);
+  });
+
+  it("does not mistake a time window it cannot print for a rule", () => {
+    const [limit] = compile("limit fetch to 2 per 1m").nets;
+    const net = { ...bare(limit!), refills: [{ ...limit!.refills![0]!, windowMs: 1500 }] };
+    expect(decompile([net]).unrecognized).toHaveLength(1);
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "bun:test";
+import { compile, parseRules } from "../compiler.js";
+import { RulesError } from "../diagnostics.js";
+import type { Diagnostic } from "../diagnostics.js";
+
+function codes(diagnostics: Diagnostic[]) {
+  return diagnostics.map((d) => `${d.line}:${d.severity}:${d.code}`);
+}
+
+describe("parseRules — errors", () => {
+  it("reports every error instead of stopping at the first", () => {
+    const { diagnostics } = parseRules(`
+      requre test before deploy
+      block rm
+      limit deploy to zero per session
+      require lint befor test
+    `);
+    expect(codes(diagnostics)).toEqual([
+      "2:error:unknown-keyword",
+      "4:error:invalid-count",
+      "5:error:syntax",
+    ]);
+  });
+
+  it("points at the offending token with a suggestion", () => {
+    const { diagnostics } = parseRules("  requre test before deploy");
+    expect(diagnostics).toEqual([
+      {
+        line: 1,
+        column: 3,
+        endColumn: 9,
+        severity: "error",
+        code: "unknown-keyword",
+        message:
+          "unknown keyword 'requre'. Expected 'map', 'require', 'limit', 'block', 'group', or 'include'",
+        suggestion: "require",
+      },
+    ]);
+  });
+
+  it("suggests the expected word for near misses", () => {
+    const [d] = parseRules("require lint befor test").diagnostics;
+    expect(d).toMatchObject({ column: 14, endColumn: 19, suggestion: "before" });
+  });
+
+  it("spans the whole rule for token-count errors", () => {
+    const [d] = parseRules("block a b").diagnostics;
+    expect(d).toMatchObject({ code: "syntax", column: 1, endColumn: 10 });
+    expect(d!.suggestion).toBeUndefined();
+  });
+
+  it("locates errors inside when conditions", () => {
+    const [d] = parseRules("block bash when command is sudo").diagnostics;
+    expect(d).toMatchObject({ code: "invalid-condition", column: 25, endColumn: 27 });
+  });
+
+  it("reports invalid regex patterns", () => {
+    const [d] = parseRules("map bash.command /(/ as broken").diagnostics;
+    expect(d).toMatchObject({ code: "invalid-pattern", column: 18, endColumn: 21 });
+  });
+
+  it("keeps parsing after a rejected nested group", () => {
+    const { diagnostics } = parseRules("group a {\ngroup b {\nblock rm\n}\n}");
+    expect(codes(diagnostics)).toEqual(["2:error:invalid-group"]);
+  });
+
+  it("returns no diagnostics for clean rules", () => {
+    expect(parseRules("require test before deploy\nblock rm").diagnostics).toEqual([]);
+  });
+});
+
+describe("parseRules — warnings", () => {
+  it("warns about duplicate rules", () => {
+    const { diagnostics } = parseRules("block rm\nblock   rm");
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        line: 2,
+        severity: "warning",
+        code: "duplicate-rule",
+        message: "duplicate of the rule on line 1",
+      }),
+    ]);
+  });
+
+  it("warns about maps that no rule uses", () => {
+    const { diagnostics } = parseRules(`
+      map bash.command rm as delete
+      map bash.command cp as backup
+      block delete
+    `);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        line: 3,
+        code: "unused-map",
+        message: "'backup' is mapped but no rule uses it",
+        column: 30,
+        endColumn: 36,
+      }),
+    ]);
+  });
+
+  it("warns about rules shadowed by a block", () => {
+    const { diagnostics } = parseRules(`
+      block deploy
+      limit deploy to 3 per session
+      require test before deploy
+      block bash when command ~ sudo
+      limit bash to 3 per session
+    `);
+    expect(codes(diagnostics)).toEqual(["3:warning:shadowed-rule", "4:warning:shadowed-rule"]);
+    expect(diagnostics[0]!.message).toBe("rule has no effect: 'deploy' is blocked on line 2");
+  });
+
+  it("suggests a tool one edit from a more common one", () => {
+    const { diagnostics } = parseRules(`
+      require test before deploy
+      limit deploy to 3 per session
+      require human-approval before deply
+    `);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        line: 4,
+        code: "unknown-tool",
+        suggestion: "deploy",
+        column: 37,
+        endColumn: 42,
+      }),
+    ]);
+  });
+
+  it("checks tools against a manifest when given", () => {
+    const { diagnostics } = parseRules(
+      `
+      map bash.command rm as delete
+      block delete
+      require discord.readMessages before discord.sendMessage
+      block slak
+    `,
+      { tools: ["bash", "discord", "slack"] },
+    );
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        line: 5,
+        code: "unknown-tool",
+        message: "unknown tool 'slak'",
+        suggestion: "slack",
+      }),
+    ]);
+  });
+});
+
+describe("parseRules — statements", () => {
+  it("lists parsed rules and maps with their lines", () => {
+    const { statements } = parseRules(`
+      map bash.command rm as delete
+      group cleanup {
+        require backup before delete
+      }
+      limit push to 1 per test
+    `);
+    expect(statements).toEqual([
+      { line: 2, kind: "map", tools: ["bash"], defines: "delete" },
+      { line: 4, kind: "sequence", tools: ["backup", "delete"], group: "cleanup" },
+      { line: 6, kind: "limit", tools: ["push", "test"] },
+    ]);
+  });
+
+  it("accepts include lines with allowInclude", () => {
+    expect(parseRules("include ./base.rules").diagnostics).toHaveLength(1);
+    expect(parseRules("include ./base.rules", { allowInclude: true }).diagnostics).toEqual([]);
+    expect(parseRules("include", { allowInclude: true }).diagnostics[0]!.message).toBe(
+      "'include <path>' expects 2 tokens, got 1",
+    );
+  });
+});
+
+describe("compile — aggregated errors", () => {
+  it("throws a RulesError carrying every error", () => {
+    let error: unknown;
+    try {
+      compile("requre a before b\nblock a b");
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(RulesError);
+    expect((error as RulesError).diagnostics).toHaveLength(2);
+    expect((error as RulesError).message).toBe(
+      [
+        "2 errors in rules:",
+        "Line 1: unknown keyword 'requre'. Expected 'map', 'require', 'limit', 'block', 'group', or 'include'. Did you mean 'require'?",
+        "Line 2: 'block <tool>' expects 2 tokens, got 3",
+      ].join("\n"),
+    );
+  });
+
+  it("ignores warnings", () => {
+    expect(() => compile("block rm\nblock rm")).not.toThrow();
+  });
+});
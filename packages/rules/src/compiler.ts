@@ -1,25 +1,61 @@
 import { defineSkillNet } from "@petriflow/gate";
-import type { SkillNet } from "@petriflow/gate";
+import type { ComposeConfig, RuleMetadata, SkillNet } from "@petriflow/gate";
 import { analyse } from "petri-ts";
 import type { PetriNet } from "petri-ts";
+import { formatCompositionReport, verifyComposition } from "./composition.js";
+import type { CompositionReport } from "./composition.js";
+import {
+  conditionedToolName,
+  parseCondition,
+  parsePattern,
+  readField,
+  splitConditionedTool,
+} from "./conditions.js";
+import type { Condition } from "./conditions.js";
+import { diagnostic, didYouMean, fail, RulesError, tokenize } from "./diagnostics.js";
+import type { Diagnostic, DiagnosticCode, Token } from "./diagnostics.js";
 
 // ---------------------------------------------------------------------------
 // Parsed types
 // ---------------------------------------------------------------------------
 
-type SequenceRule = { kind: "sequence"; a: string; b: string };
-type ApprovalRule = { kind: "approval"; b: string };
-type BlockRule = { kind: "block"; a: string };
+/** Optional `when` predicate on the tool a rule restricts */
+type Conditional = { when?: Condition };
+
+type SequenceRule = {
+  kind: "sequence";
+  a: string;
+  b: string;
+  /** Input field pairing each `b` call with an earlier `a` call */
+  matching?: string;
+  /** How long an `a` call may take to succeed, in milliseconds */
+  within?: number;
+} & Conditional;
+type ApprovalRule = { kind: "approval"; b: string } & Conditional;
+type BlockRule = { kind: "block"; a: string } & Conditional;
 type LimitRule = {
   kind: "limit";
   a: string;
   n: number;
-  scope: "session" | { action: string };
+  scope: "session" | { action: string } | { window: string; ms: number };
+  /** What the budget counts, e.g. `tokens`; calls when absent */
+  unit?: string;
+  /** Charge each call by an input expression instead of one per call */
+  cost?: CostExpression;
+} & Conditional;
+
+/** `cost <expr> [max <M>]` — a product of input fields and numbers */
+type CostExpression = {
+  /** Canonical source text, e.g. "input.instanceCount * 3" */
+  text: string;
+  amount: (input: Record<string, unknown>) => number;
+  /** Most one call may be charged */
+  max: number;
 };
 
 type ParsedRule = SequenceRule | ApprovalRule | BlockRule | LimitRule;
 
-type ToolMap = {
+export type ToolMap = {
   kind: "map";
   tool: string;
   field: string;
@@ -38,135 +74,276 @@ function stripComments(line: string): string {
   return idx === -1 ? line : line.slice(0, idx);
 }
 
-function escapeRegex(s: string): string {
-  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const WINDOW_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/** Parse a time window token like `30s`, `10m`, `24h`, `7d`. Returns ms or null. */
+function parseWindow(token: string): number | null {
+  const m = /^(\d+)([smhd])$/.exec(token);
+  if (!m) return null;
+  return parseInt(m[1]!, 10) * WINDOW_UNITS[m[2]!]!;
 }
 
+/** Inverse of `parseWindow`, in the largest whole unit. Null if `ms` is not whole seconds. */
+export function formatWindow(ms: number): string | null {
+  for (const unit of ["d", "h", "m", "s"]) {
+    const size = WINDOW_UNITS[unit]!;
+    if (ms > 0 && ms % size === 0) return `${ms / size}${unit}`;
+  }
+  return null;
+}
+
+const COST_NUMBER = /^\d+(\.\d+)?$/;
+const COST_FIELD = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+
 /**
- * Parse a pattern token into a RegExp.
- * - /pattern/ → raw regex (escape hatch)
- * - bareWord  → word-boundary keyword match (\bbareWord\b)
+ * Parse `cost <expr> [max <M>]`, starting at the `cost` token. The
+ * expression multiplies numbers and input fields (`input.` is optional);
+ * a field that is not a number makes the call's cost invalid. `max`
+ * defaults to the limit and may not exceed it.
  */
-function parsePattern(token: string, lineNum: number): RegExp {
-  if (token.startsWith("/") && token.endsWith("/") && token.length > 1) {
-    const body = token.slice(1, -1);
-    if (body === "") {
-      throw new Error(`Line ${lineNum}: empty regex pattern`);
+function parseCost(words: Token[], limit: number, lineNum: number): CostExpression {
+  const maxIdx = words.findIndex((w) => w.text === "max");
+  const exprWords = words.slice(1, maxIdx === -1 ? undefined : maxIdx);
+  if (exprWords.length === 0) {
+    fail(lineNum, words[0]!, "invalid-cost", "cost needs an expression like 'input.maxTokens'");
+  }
+
+  const factors = exprWords
+    .map((w) => w.text)
+    .join(" ")
+    .split("*")
+    .map((f) => f.trim());
+  const paths: Array<number | string[]> = [];
+  for (const factor of factors) {
+    if (COST_NUMBER.test(factor)) {
+      paths.push(parseFloat(factor));
+    } else if (COST_FIELD.test(factor)) {
+      const path = factor.split(".");
+      paths.push(path[0] === "input" && path.length > 1 ? path.slice(1) : path);
+    } else {
+      fail(
+        lineNum,
+        exprWords,
+        "invalid-cost",
+        `cost must multiply input fields and numbers, got '${factor || exprWords.map((w) => w.text).join(" ")}'`,
+      );
     }
-    return new RegExp(body);
   }
 
-  // Bare word → automatic word-boundary match
-  return new RegExp(`\\b${escapeRegex(token)}\\b`);
+  let max = limit;
+  if (maxIdx !== -1) {
+    const maxToken = words[maxIdx + 1];
+    if (!maxToken || words.length !== maxIdx + 2) {
+      fail(lineNum, words.slice(maxIdx), "syntax", "'max <M>' expects 2 tokens");
+    }
+    max = parseInt(maxToken.text, 10);
+    if (!/^\d+$/.test(maxToken.text) || max <= 0 || max > limit) {
+      fail(
+        lineNum,
+        maxToken,
+        "invalid-cost",
+        `cost max must be a positive integer no greater than the limit ${limit}, got '${maxToken.text}'`,
+      );
+    }
+  }
+
+  return {
+    text: factors.join(" * "),
+    amount: (input) =>
+      paths.reduce<number>((product, p) => {
+        const value = typeof p === "number" ? p : readField(input, p);
+        return typeof value === "number" ? product * value : NaN;
+      }, 1),
+    max,
+  };
 }
 
+const KEYWORDS = ["map", "require", "limit", "block", "group", "include"];
+
 function parseLine(raw: string, lineNum: number): ParsedLine {
-  const cleaned = stripComments(raw).trim();
-  const tokens = cleaned.split(/\s+/);
+  const words = tokenize(stripComments(raw));
+  const tokens = words.map((w) => w.text);
 
-  if (tokens.length === 0 || (tokens.length === 1 && tokens[0] === "")) {
-    throw new Error(`Line ${lineNum}: empty rule`);
+  if (words.length === 0) {
+    fail(lineNum, [], "syntax", "empty rule");
   }
 
   const keyword = tokens[0]!;
 
-  // map <tool>.<field> <pattern> as <virtual-name>
-  if (keyword === "map") {
-    if (tokens.length !== 5) {
-      throw new Error(
-        `Line ${lineNum}: 'map <tool>.<field> <pattern> as <name>' expects 5 tokens, got ${tokens.length}`,
+  /** Fail unless token `i` is the literal `word` */
+  const expectWord = (i: number, word: string) => {
+    if (tokens[i] !== word) {
+      fail(
+        lineNum,
+        words[i]!,
+        "syntax",
+        `expected '${word}' at position ${i + 1}, got '${tokens[i]}'`,
+        didYouMean(tokens[i]!, [word]),
       );
     }
+  };
+
+  /** Fail unless the line has exactly `n` tokens */
+  const expectCount = (n: number, form: string) => {
+    if (tokens.length !== n) {
+      fail(lineNum, words, "syntax", `'${form}' expects ${n} tokens, got ${tokens.length}`);
+    }
+  };
+
+  // <rule> when <field> matches <pattern> [and|or ...]
+  const whenIdx = tokens.indexOf("when");
+  if (whenIdx > 0 && keyword !== "map") {
+    const when = words[whenIdx]!;
+    const rule = parseLine(raw.slice(0, when.column - 1), lineNum) as ParsedRule;
+    return { ...rule, when: parseCondition(words.slice(whenIdx + 1), lineNum, when) };
+  }
+
+  // map <tool>.<field> <pattern> as <virtual-name>
+  if (keyword === "map") {
+    expectCount(5, "map <tool>.<field> <pattern> as <name>");
     const toolField = tokens[1]!;
     const dotIdx = toolField.indexOf(".");
     if (dotIdx === -1) {
-      throw new Error(
-        `Line ${lineNum}: expected <tool>.<field> (e.g., bash.command), got '${toolField}'`,
+      fail(
+        lineNum,
+        words[1]!,
+        "syntax",
+        `expected <tool>.<field> (e.g., bash.command), got '${toolField}'`,
       );
     }
     const tool = toolField.slice(0, dotIdx);
     const field = toolField.slice(dotIdx + 1);
     if (tool === "" || field === "") {
-      throw new Error(
-        `Line ${lineNum}: tool and field must be non-empty in '${toolField}'`,
-      );
-    }
-    const pattern = parsePattern(tokens[2]!, lineNum);
-    if (tokens[3] !== "as") {
-      throw new Error(
-        `Line ${lineNum}: expected 'as' at position 4, got '${tokens[3]}'`,
-      );
+      fail(lineNum, words[1]!, "syntax", `tool and field must be non-empty in '${toolField}'`);
     }
+    const pattern = parsePattern(words[2]!, lineNum);
+    expectWord(3, "as");
     return { kind: "map", tool, field, pattern, virtualName: tokens[4]! };
   }
 
   if (keyword === "require") {
     if (tokens[1] === "human-approval") {
-      if (tokens.length !== 4) {
-        throw new Error(
-          `Line ${lineNum}: 'require human-approval before <tool>' expects 4 tokens, got ${tokens.length}`,
-        );
-      }
-      if (tokens[2] !== "before") {
-        throw new Error(
-          `Line ${lineNum}: expected 'before' at position 3, got '${tokens[2]}'`,
-        );
-      }
+      expectCount(4, "require human-approval before <tool>");
+      expectWord(2, "before");
       return { kind: "approval", b: tokens[3]! };
     }
 
-    if (tokens.length !== 4) {
-      throw new Error(
-        `Line ${lineNum}: 'require <tool> before <tool>' expects 4 tokens, got ${tokens.length}`,
-      );
+    if (tokens.length <= 4) {
+      expectCount(4, "require <tool> before <tool>");
+      expectWord(2, "before");
+      return { kind: "sequence", a: tokens[1]!, b: tokens[3]! };
     }
-    if (tokens[2] !== "before") {
-      throw new Error(
-        `Line ${lineNum}: expected 'before' at position 3, got '${tokens[2]}'`,
-      );
+
+    // require <tool> before <tool> [matching <field>] [within <window>]
+    expectWord(2, "before");
+    const rule: SequenceRule = { kind: "sequence", a: tokens[1]!, b: tokens[3]! };
+    let next = 4;
+
+    if (tokens[next] !== "within") {
+      expectWord(next, "matching");
+      if (tokens.length < 6) expectCount(6, "require <tool> before <tool> matching <field>");
+      const field = tokens[5]!;
+      if (field.split(".").some((p) => p === "")) {
+        fail(lineNum, words[5]!, "syntax", `invalid matching field '${field}'`);
+      }
+      rule.matching = field;
+      next = 6;
     }
-    return { kind: "sequence", a: tokens[1]!, b: tokens[3]! };
+
+    if (next < tokens.length) {
+      expectWord(next, "within");
+      const form = `require <tool> before <tool>${rule.matching ? " matching <field>" : ""} within <window>`;
+      expectCount(next + 2, form);
+      const windowToken = tokens[next + 1]!;
+      const ms = parseWindow(windowToken);
+      if (ms === null || ms === 0) {
+        fail(
+          lineNum,
+          words[next + 1]!,
+          "invalid-window",
+          `within needs a window greater than zero like 30s, 5m, 24h or 7d, got '${windowToken}'`,
+        );
+      }
+      rule.within = ms;
+    }
+
+    return rule;
   }
 
   if (keyword === "limit") {
-    if (tokens.length !== 6) {
-      throw new Error(
-        `Line ${lineNum}: 'limit <tool> to <N> per <scope>' expects 6 tokens, got ${tokens.length}`,
+    // limit <tool> to <N> [<unit>] per <scope> [cost <expr> [max <M>]]
+    const costIdx = tokens.indexOf("cost", 5);
+    const head = costIdx === -1 ? tokens.length : costIdx;
+    const unit = head === 7 && tokens[5] === "per" ? tokens[4] : undefined;
+    const per = unit === undefined ? 4 : 5;
+    if (unit === undefined && head !== 6) {
+      fail(
+        lineNum,
+        words.slice(0, head),
+        "syntax",
+        `'limit <tool> to <N> per <scope>' expects 6 tokens, got ${head}`,
       );
     }
-    if (tokens[2] !== "to") {
-      throw new Error(
-        `Line ${lineNum}: expected 'to' at position 3, got '${tokens[2]}'`,
+    expectWord(2, "to");
+    expectWord(per, "per");
+    const n = parseInt(tokens[3]!, 10);
+    if (isNaN(n) || n <= 0) {
+      fail(
+        lineNum,
+        words[3]!,
+        "invalid-count",
+        `limit count must be a positive integer, got '${tokens[3]}'`,
       );
     }
-    if (tokens[4] !== "per") {
-      throw new Error(
-        `Line ${lineNum}: expected 'per' at position 5, got '${tokens[4]}'`,
-      );
+    const scopeToken = tokens[per + 1]!;
+    const rule: LimitRule = { kind: "limit", a: tokens[1]!, n, scope: { action: scopeToken } };
+    if (unit !== undefined) rule.unit = unit;
+    if (costIdx !== -1) rule.cost = parseCost(words.slice(costIdx), n, lineNum);
+
+    if (scopeToken === "session") {
+      rule.scope = "session";
+      return rule;
     }
-    const n = parseInt(tokens[3]!, 10);
-    if (isNaN(n) || n <= 0) {
-      throw new Error(
-        `Line ${lineNum}: limit count must be a positive integer, got '${tokens[3]}'`,
+    const windowMs = parseWindow(scopeToken);
+    if (windowMs !== null) {
+      if (windowMs === 0) {
+        fail(
+          lineNum,
+          words[per + 1]!,
+          "invalid-window",
+          `limit window must be greater than zero, got '${scopeToken}'`,
+        );
+      }
+      rule.scope = { window: scopeToken, ms: windowMs };
+      return rule;
+    }
+    if (rule.cost) {
+      fail(
+        lineNum,
+        words[costIdx]!,
+        "invalid-cost",
+        `cost needs a 'session' or time-window scope, got '${scopeToken}'`,
       );
     }
-    const scopeToken = tokens[5]!;
-    const scope: LimitRule["scope"] =
-      scopeToken === "session" ? "session" : { action: scopeToken };
-    return { kind: "limit", a: tokens[1]!, n, scope };
+    return rule;
   }
 
   if (keyword === "block") {
-    if (tokens.length !== 2) {
-      throw new Error(
-        `Line ${lineNum}: 'block <tool>' expects 2 tokens, got ${tokens.length}`,
-      );
-    }
+    expectCount(2, "block <tool>");
     return { kind: "block", a: tokens[1]! };
   }
 
-  throw new Error(
-    `Line ${lineNum}: unknown keyword '${keyword}'. Expected 'map', 'require', 'limit', or 'block'`,
+  return fail(
+    lineNum,
+    words[0]!,
+    "unknown-keyword",
+    `unknown keyword '${keyword}'. Expected 'map', 'require', 'limit', 'block', 'group', or 'include'`,
+    didYouMean(keyword, KEYWORDS),
   );
 }
 
@@ -174,7 +351,19 @@ function parseLine(raw: string, lineNum: number): ParsedLine {
 // Compiler — parsed rule → SkillNet
 // ---------------------------------------------------------------------------
 
+function sequenceMetadata(rule: SequenceRule): Extract<RuleMetadata, { kind: "sequence" }> {
+  const meta: Extract<RuleMetadata, { kind: "sequence" }> = {
+    kind: "sequence",
+    prerequisite: rule.a,
+    dependent: rule.b,
+  };
+  if (rule.within !== undefined) meta.withinMs = rule.within;
+  return meta;
+}
+
 function compileSequence(rule: SequenceRule): SkillNet<string> {
+  if (rule.matching !== undefined) return compileMatchingSequence(rule, rule.matching);
+
   return defineSkillNet({
     name: `require-${rule.a}-before-${rule.b}`,
     places: ["idle", "ready", "gate"],
@@ -188,6 +377,7 @@ function compileSequence(rule: SequenceRule): SkillNet<string> {
         outputs: ["gate"],
         tools: [rule.a],
         deferred: true,
+        ...(rule.within === undefined ? {} : { deferredTimeoutMs: rule.within }),
       },
       {
         name: `do-${rule.b}`,
@@ -199,10 +389,94 @@ function compileSequence(rule: SequenceRule): SkillNet<string> {
     ],
     freeTools: [],
     terminalPlaces: [],
-    ruleMetadata: { kind: "sequence", prerequisite: rule.a, dependent: rule.b },
+    ruleMetadata: sequenceMetadata(rule),
   });
 }
 
+/** The value a `matching` field pairs calls on — strings and numbers only */
+function matchKey(input: Record<string, unknown>, path: string[]): string | null {
+  const value = readField(input, path);
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  return null;
+}
+
+/**
+ * Key a sequence by an input field: each successful `a` records its key
+ * in `meta.seen`, and each `b` must consume a recorded key equal to its
+ * own. The keys hold the ordering — both tools loop on `ready`, so any
+ * number of keys can be outstanding at once.
+ */
+function compileMatchingSequence(rule: SequenceRule, field: string): SkillNet<string> {
+  const path = field.split(".");
+  // Conditioned rules target `b[<condition>]`; messages name the plain tool
+  const prerequisite = splitConditionedTool(rule.a).tool;
+  const dependent = splitConditionedTool(rule.b).tool;
+
+  return {
+    ...defineSkillNet({
+      name: `require-${rule.a}-before-${rule.b}`,
+      places: ["idle", "ready"],
+      initialMarking: { idle: 1, ready: 0 },
+      transitions: [
+        { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+        {
+          name: `do-${rule.a}`,
+          type: "auto",
+          inputs: ["ready"],
+          outputs: ["ready"],
+          tools: [rule.a],
+          deferred: true,
+          ...(rule.within === undefined ? {} : { deferredTimeoutMs: rule.within }),
+        },
+        {
+          name: `do-${rule.b}`,
+          type: "auto",
+          inputs: ["ready"],
+          outputs: ["ready"],
+          tools: [rule.b],
+        },
+      ],
+      freeTools: [],
+      terminalPlaces: [],
+    }),
+    ruleMetadata: { ...sequenceMetadata(rule), matching: field },
+
+    onDeferredResult(event, _resolvedTool, _transition, state) {
+      const key = matchKey(event.input, path);
+      if (key !== null) {
+        state.meta.seen = [...((state.meta.seen as string[] | undefined) ?? []), key];
+      }
+    },
+
+    validateToolCall(event, resolvedTool, _transition, state) {
+      // A prerequisite without a key could never be paired
+      if (resolvedTool === rule.a) {
+        if (matchKey(event.input, path) !== null) return;
+        return { block: true, reason: `${prerequisite} has no ${field} for ${dependent} to match against.` };
+      }
+      if (resolvedTool !== rule.b) return;
+
+      const key = matchKey(event.input, path);
+      if (key === null) {
+        return { block: true, reason: `${dependent} has no ${field} to match against ${prerequisite}.` };
+      }
+
+      const seen = (state.meta.seen as string[] | undefined) ?? [];
+      const idx = seen.indexOf(key);
+      if (idx < 0) {
+        return {
+          block: true,
+          reason: `${dependent} requires a successful call to ${prerequisite} with ${field} '${key}' first. Seen: [${seen.join(", ") || "nothing"}]`,
+        };
+      }
+
+      // Consume the match (1:1 a:b)
+      state.meta.seen = seen.filter((_, i) => i !== idx);
+    },
+  };
+}
+
 function compileApproval(rule: ApprovalRule): SkillNet<string> {
   return defineSkillNet({
     name: `approve-before-${rule.b}`,
@@ -246,6 +520,9 @@ function compileBlock(rule: BlockRule): SkillNet<string> {
 }
 
 function compileLimit(rule: LimitRule): SkillNet<string> {
+  if (rule.cost) return compileCostLimit(rule, rule.cost);
+
+  const unit = rule.unit === undefined ? {} : { unit: rule.unit };
   if (rule.scope === "session") {
     return defineSkillNet({
       name: `limit-${rule.a}-${rule.n}`,
@@ -263,7 +540,31 @@ function compileLimit(rule: LimitRule): SkillNet<string> {
       ],
       freeTools: [],
       terminalPlaces: [],
-      ruleMetadata: { kind: "limit", tool: rule.a, limit: rule.n, scope: "session" },
+      ruleMetadata: { kind: "limit", tool: rule.a, limit: rule.n, scope: "session", ...unit },
+    });
+  }
+
+  if ("window" in rule.scope) {
+    const { window, ms } = rule.scope;
+    return defineSkillNet({
+      name: `limit-${rule.a}-${rule.n}-per-${window}`,
+      places: ["idle", "ready", "budget", "spent"],
+      initialMarking: { idle: 1, ready: 0, budget: rule.n, spent: 0 },
+      transitions: [
+        { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+        {
+          name: `do-${rule.a}`,
+          type: "auto",
+          inputs: ["ready", "budget"],
+          outputs: ["ready", "spent"],
+          tools: [rule.a],
+        },
+      ],
+      // Each call's token returns to the budget once the window has passed
+      refills: [{ transition: `do-${rule.a}`, from: "spent", to: "budget", windowMs: ms }],
+      freeTools: [],
+      terminalPlaces: [],
+      ruleMetadata: { kind: "limit", tool: rule.a, limit: rule.n, scope: window, windowMs: ms, ...unit },
     });
   }
 
@@ -291,7 +592,74 @@ function compileLimit(rule: LimitRule): SkillNet<string> {
     ],
     freeTools: [],
     terminalPlaces: [],
-    ruleMetadata: { kind: "limit", tool: rule.a, limit: rule.n, scope: action },
+    ruleMetadata: {
+      kind: "limit",
+      tool: rule.a,
+      limit: rule.n,
+      scope: action,
+      ...(rule.unit === undefined ? {} : { unit: rule.unit }),
+    },
+  });
+}
+
+/**
+ * A limit charged by `cost`: the tool transition takes the call's charge
+ * from the budget instead of one token. Windowed budgets move the charge
+ * to `spent` and return all of it when the window has passed.
+ */
+function compileCostLimit(rule: LimitRule, cost: CostExpression): SkillNet<string> {
+  const tool = `do-${rule.a}`;
+  const metadata = {
+    kind: "limit" as const,
+    tool: rule.a,
+    limit: rule.n,
+    cost: cost.text,
+    ...(rule.unit === undefined ? {} : { unit: rule.unit }),
+  };
+  const charge = { amount: cost.amount, max: cost.max };
+
+  if (rule.scope === "session") {
+    return defineSkillNet({
+      name: `limit-${rule.a}-${rule.n}`,
+      places: ["idle", "ready", "budget"],
+      initialMarking: { idle: 1, ready: 0, budget: rule.n },
+      transitions: [
+        { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+        {
+          name: tool,
+          type: "auto",
+          inputs: ["ready"],
+          outputs: ["ready"],
+          tools: [rule.a],
+          cost: { place: "budget", ...charge },
+        },
+      ],
+      freeTools: [],
+      terminalPlaces: [],
+      ruleMetadata: { ...metadata, scope: "session" },
+    });
+  }
+
+  const { window, ms } = rule.scope as { window: string; ms: number };
+  return defineSkillNet({
+    name: `limit-${rule.a}-${rule.n}-per-${window}`,
+    places: ["idle", "ready", "budget", "spent"],
+    initialMarking: { idle: 1, ready: 0, budget: rule.n, spent: 0 },
+    transitions: [
+      { name: "start", type: "auto", inputs: ["idle"], outputs: ["ready"] },
+      {
+        name: tool,
+        type: "auto",
+        inputs: ["ready"],
+        outputs: ["ready"],
+        tools: [rule.a],
+        cost: { place: "budget", to: "spent", ...charge },
+      },
+    ],
+    refills: [{ transition: tool, from: "spent", to: "budget", windowMs: ms }],
+    freeTools: [],
+    terminalPlaces: [],
+    ruleMetadata: { ...metadata, scope: window, windowMs: ms },
   });
 }
 
@@ -306,7 +674,8 @@ function compileLimit(rule: LimitRule): SkillNet<string> {
 function collectDottedBases(net: SkillNet<string>): Set<string> {
   const bases = new Set<string>();
   for (const t of net.transitions) {
-    for (const tool of t.tools ?? []) {
+    for (const name of t.tools ?? []) {
+      const { tool } = splitConditionedTool(name);
       const dotIdx = tool.indexOf(".");
       if (dotIdx !== -1) {
         bases.add(tool.slice(0, dotIdx));
@@ -316,42 +685,106 @@ function collectDottedBases(net: SkillNet<string>): Set<string> {
   return bases;
 }
 
+type ToolMapper = NonNullable<SkillNet<string>["toolMapper"]>;
+
+/** The `map` statements behind each generated toolMapper, for `decompile` */
+const mapperSources = new WeakMap<ToolMapper, ToolMap[]>();
+
 /**
- * Build a toolMapper function that handles both:
+ * The `map` statements a net's toolMapper was built from — an empty list
+ * for nets without one, undefined for a toolMapper `compile` did not build.
+ */
+export function toolMapsOf(net: SkillNet<string>): ToolMap[] | undefined {
+  return net.toolMapper ? mapperSources.get(net.toolMapper) : [];
+}
+
+/**
+ * Build a toolMapper function that handles:
  * - Dot notation: discord + input.action → discord.sendMessage
  * - Map statements: bash + input.command matches /rm/ → delete
+ * - Rule conditions: bash + command matches /sudo/ → bash[command matches /sudo/]
  */
 function buildToolMapper(
   net: SkillNet<string>,
   maps: ToolMap[],
+  when?: { tool: string; condition: Condition },
 ): SkillNet<string> {
   const dottedBases = collectDottedBases(net);
-  if (dottedBases.size === 0 && maps.length === 0) return net;
+  if (dottedBases.size === 0 && maps.length === 0 && !when) return net;
 
-  return {
-    ...net,
-    toolMapper: ({ toolName, input }) => {
-      // Map statements take priority (more specific)
-      for (const m of maps) {
-        if (toolName === m.tool) {
-          const fieldValue = input[m.field];
-          if (typeof fieldValue === "string" && m.pattern.test(fieldValue)) {
-            return m.virtualName;
-          }
+  const resolve = (toolName: string, input: Record<string, unknown>): string => {
+    // Map statements take priority (more specific)
+    for (const m of maps) {
+      if (toolName === m.tool) {
+        const fieldValue = input[m.field];
+        if (typeof fieldValue === "string" && m.pattern.test(fieldValue)) {
+          return m.virtualName;
         }
       }
+    }
 
-      // Dot notation: tool + input.action
-      if (dottedBases.has(toolName) && typeof input.action === "string") {
-        return `${toolName}.${input.action}`;
-      }
+    // Dot notation: tool + input.action
+    if (dottedBases.has(toolName) && typeof input.action === "string") {
+      return `${toolName}.${input.action}`;
+    }
 
-      return toolName;
-    },
+    return toolName;
+  };
+
+  const toolMapper: ToolMapper = ({ toolName, input }) => {
+    const resolved = resolve(toolName, input);
+
+    // Conditioned rules only see calls whose input satisfies the condition
+    if (when && resolved === when.tool && when.condition.test(input)) {
+      return conditionedToolName(when.tool, when.condition);
+    }
+
+    return resolved;
+  };
+  mapperSources.set(toolMapper, maps);
+
+  return { ...net, toolMapper };
+}
+
+/** The tool a rule restricts — its `when` condition applies to this tool. */
+function targetTool(rule: ParsedRule): string {
+  switch (rule.kind) {
+    case "sequence":
+    case "approval":
+      return rule.b;
+    case "block":
+    case "limit":
+      return rule.a;
+  }
+}
+
+/**
+ * Compile a conditioned rule against its conditioned tool name, then
+ * restore the plain tool name in the metadata so block messages read
+ * naturally.
+ */
+function compileConditioned(rule: ParsedRule, when: Condition): SkillNet<string> {
+  const tool = targetTool(rule);
+  const virtual = conditionedToolName(tool, when);
+  const retargeted: ParsedRule =
+    rule.kind === "sequence" || rule.kind === "approval"
+      ? { ...rule, b: virtual, when: undefined }
+      : { ...rule, a: virtual, when: undefined };
+
+  const net = compileRule(retargeted);
+  const meta = net.ruleMetadata!;
+  return {
+    ...net,
+    ruleMetadata:
+      meta.kind === "sequence"
+        ? { ...meta, dependent: tool, when: when.text }
+        : { ...meta, tool, when: when.text },
   };
 }
 
 function compileRule(rule: ParsedRule): SkillNet<string> {
+  if (rule.when) return compileConditioned(rule, rule.when);
+
   switch (rule.kind) {
     case "sequence":
       return compileSequence(rule);
@@ -368,15 +801,63 @@ function compileRule(rule: ParsedRule): SkillNet<string> {
 // Verification
 // ---------------------------------------------------------------------------
 
-/** Convert a SkillNet to a plain PetriNet for analysis. */
+/**
+ * Size of the chunks each cost place is counted in: the smallest `max`
+ * of the transitions charging it. No call takes more than one chunk.
+ */
+function costChunks(net: SkillNet<string>): Map<string, number> {
+  const chunks = new Map<string, number>();
+  for (const t of net.transitions) {
+    if (!t.cost) continue;
+    for (const place of [t.cost.place, ...(t.cost.to === undefined ? [] : [t.cost.to])]) {
+      chunks.set(place, Math.min(chunks.get(place) ?? Infinity, t.cost.max));
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Convert a SkillNet to a plain PetriNet for analysis.
+ * Timed refills become ordinary transitions — time can always pass.
+ *
+ * A call charged up to `max` lowers its cost place by at most one chunk
+ * of `max` tokens (rounding up), so cost places are counted in chunks
+ * and each cost transition gets a `charge-*` twin that also takes one
+ * chunk: a call takes one chunk or none. That covers every charge the declared maximum allows
+ * without one state per token.
+ */
 function toPetriNet(net: SkillNet<string>): PetriNet<string> {
+  const chunks = costChunks(net);
+  const initialMarking = { ...net.initialMarking };
+  for (const [place, size] of chunks) {
+    initialMarking[place] = Math.ceil((initialMarking[place] ?? 0) / size);
+  }
+
   return {
-    transitions: net.transitions.map((t) => ({
-      name: t.name,
-      inputs: t.inputs,
-      outputs: t.outputs,
-    })),
-    initialMarking: net.initialMarking,
+    transitions: [
+      ...net.transitions.map((t) => ({
+        name: t.name,
+        inputs: t.inputs,
+        outputs: t.outputs,
+      })),
+      ...net.transitions.flatMap((t) =>
+        t.cost
+          ? [
+              {
+                name: `charge-${t.name}`,
+                inputs: [...t.inputs, t.cost.place],
+                outputs: [...t.outputs, ...(t.cost.to === undefined ? [] : [t.cost.to])],
+              },
+            ]
+          : [],
+      ),
+      ...(net.refills ?? []).map((r) => ({
+        name: `refill-${r.transition}`,
+        inputs: [r.from],
+        outputs: [r.to],
+      })),
+    ],
+    initialMarking,
   };
 }
 
@@ -395,6 +876,345 @@ function verifyNets(nets: SkillNet<string>[]): NetVerification[] {
   });
 }
 
+// ---------------------------------------------------------------------------
+// Sources — groups and includes
+// ---------------------------------------------------------------------------
+
+/** A raw rules line, with the included file it came from (if any) */
+type SourceLine = { text: string; line: number; file?: string };
+
+const GROUP_HEADER = /^group\s+([\w.-]+)\s*\{$/;
+
+/** Error for a source line, carrying its included file (if any). */
+function sourceError(
+  src: SourceLine,
+  range: Token | Token[],
+  code: DiagnosticCode,
+  message: string,
+): RulesError {
+  return new RulesError([diagnostic(src.line, range, code, message, { file: src.file })]);
+}
+
+/** A parsed statement with the source line and tokens it came from */
+type Located<T> = T & { src: SourceLine; tokens: Token[] };
+
+type SourceRule = Located<{ rule: ParsedRule; group?: string }>;
+type SourceMap = Located<{ map: ToolMap }>;
+
+type ParsedSource = {
+  maps: SourceMap[];
+  rules: SourceRule[];
+  diagnostics: Diagnostic[];
+};
+
+/**
+ * Split source lines into tool maps and rules, tracking which
+ * `group <name> { ... }` block each rule sits in. Problems are collected
+ * as diagnostics and parsing carries on with the next line.
+ */
+function parseSource(lines: SourceLine[], allowInclude = false): ParsedSource {
+  const maps: SourceMap[] = [];
+  const rules: SourceRule[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const groupNames = new Set<string>();
+  let open: { name: string; src: SourceLine; tokens: Token[]; rules: number } | null = null;
+  // Closing braces still owed to rejected nested groups
+  let rejectedDepth = 0;
+
+  const report = (src: SourceLine, range: Token | Token[], code: DiagnosticCode, message: string) => {
+    diagnostics.push(...sourceError(src, range, code, message).diagnostics);
+  };
+
+  for (const src of lines) {
+    const tokens = tokenize(stripComments(src.text));
+    if (tokens.length === 0) continue;
+    const cleaned = stripComments(src.text).trim();
+    const keyword = tokens[0]!.text;
+
+    if (keyword === "group") {
+      const name = GROUP_HEADER.exec(cleaned)?.[1];
+      if (name === undefined) {
+        report(src, tokens, "invalid-group", `expected 'group <name> {', got '${cleaned}'`);
+      } else if (open) {
+        report(src, tokens[1]!, "invalid-group", `group '${name}' is nested inside '${open.name}'`);
+        rejectedDepth++;
+      } else {
+        if (groupNames.has(name)) {
+          report(src, tokens[1]!, "invalid-group", `duplicate group '${name}'`);
+        }
+        groupNames.add(name);
+        open = { name, src, tokens, rules: 0 };
+      }
+      continue;
+    }
+
+    if (cleaned === "}") {
+      if (rejectedDepth > 0) {
+        rejectedDepth--;
+      } else if (!open) {
+        report(src, tokens, "invalid-group", "unexpected '}' outside a group");
+      } else {
+        if (open.rules === 0) report(src, tokens, "invalid-group", `group '${open.name}' is empty`);
+        open = null;
+      }
+      continue;
+    }
+
+    if (keyword === "include") {
+      if (!allowInclude) {
+        report(src, tokens, "invalid-include", "'include' is only supported in files read by loadRules()");
+      } else if (tokens.length !== 2) {
+        report(src, tokens, "invalid-include", `'include <path>' expects 2 tokens, got ${tokens.length}`);
+      }
+      continue;
+    }
+
+    let parsed: ParsedLine;
+    try {
+      parsed = parseLine(src.text, src.line);
+    } catch (err) {
+      if (!(err instanceof RulesError)) throw err;
+      const file = src.file;
+      diagnostics.push(...(file === undefined ? err.diagnostics : err.diagnostics.map((d) => ({ ...d, file }))));
+      continue;
+    }
+
+    if (parsed.kind === "map") {
+      maps.push({ map: parsed, src, tokens });
+    } else {
+      rules.push({ rule: parsed, group: open?.name, src, tokens });
+      if (open) open.rules++;
+    }
+  }
+
+  if (open) {
+    report(open.src, open.tokens, "invalid-group", `group '${open.name}' is never closed`);
+  }
+
+  return { maps, rules, diagnostics };
+}
+
+/**
+ * Errors for rules that compile to a net name an earlier rule already
+ * took — the registry holds one net per name, so the later net would
+ * replace the earlier one, or a group would lose its net to another
+ * group's. The same rule twice in one scope compiles to the same net and
+ * is only a `duplicate-rule` warning.
+ */
+function netNameClashes(parsed: ParsedSource): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const firstByName = new Map<string, SourceRule>();
+  const text = (entry: SourceRule) => entry.tokens.map((t) => t.text).join(" ");
+
+  for (const entry of parsed.rules) {
+    const name = compileRule(entry.rule).name;
+    const first = firstByName.get(name);
+    if (!first) {
+      firstByName.set(name, entry);
+      continue;
+    }
+    if (first.group === entry.group && text(first) === text(entry)) continue;
+
+    const where = first.group === undefined ? "" : ` in group '${first.group}'`;
+    diagnostics.push(
+      ...sourceError(
+        entry.src,
+        entry.tokens,
+        "duplicate-net",
+        `rule compiles to net '${name}', already defined by the rule on line ${first.src.line}${where}`,
+      ).diagnostics,
+    );
+  }
+  return diagnostics;
+}
+
+// ---------------------------------------------------------------------------
+// Lint — warnings for rules that parse but are probably mistakes
+// ---------------------------------------------------------------------------
+
+/** Tool names a rule mentions, in source order */
+function ruleTools(rule: ParsedRule): string[] {
+  switch (rule.kind) {
+    case "sequence":
+      return [rule.a, rule.b];
+    case "approval":
+      return [rule.b];
+    case "block":
+      return [rule.a];
+    case "limit":
+      return typeof rule.scope === "object" && "action" in rule.scope
+        ? [rule.a, rule.scope.action]
+        : [rule.a];
+  }
+}
+
+/** The first token after the keyword spelling `text`, else the whole line */
+function tokenFor(tokens: Token[], text: string): Token | Token[] {
+  return tokens.slice(1).find((t) => t.text === text) ?? tokens;
+}
+
+function lint(parsed: ParsedSource, knownTools?: string[]): Diagnostic[] {
+  const warnings: Diagnostic[] = [];
+  const warn = (
+    { src }: { src: SourceLine },
+    range: Token | Token[],
+    code: DiagnosticCode,
+    message: string,
+    suggestion?: string,
+  ) => {
+    warnings.push(
+      diagnostic(src.line, range, code, message, { severity: "warning", suggestion, file: src.file }),
+    );
+  };
+
+  // Duplicate rules — same tokens as an earlier rule
+  const firstSeen = new Map<string, SourceRule>();
+  for (const entry of parsed.rules) {
+    const key = entry.tokens.map((t) => t.text).join(" ");
+    const first = firstSeen.get(key);
+    if (first) {
+      warn(entry, entry.tokens, "duplicate-rule", `duplicate of the rule on line ${first.src.line}`);
+    } else {
+      firstSeen.set(key, entry);
+    }
+  }
+
+  // Unused maps — a virtual name no rule refers to
+  const used = new Set(parsed.rules.flatMap(({ rule }) => ruleTools(rule)));
+  for (const entry of parsed.maps) {
+    const name = entry.map.virtualName;
+    if (!used.has(name)) {
+      warn(entry, entry.tokens[4]!, "unused-map", `'${name}' is mapped but no rule uses it`);
+    }
+  }
+
+  // Shadowed rules — anything restricting a tool that is always blocked
+  const blocks = new Map<string, SourceRule>();
+  for (const entry of parsed.rules) {
+    if (entry.rule.kind === "block" && !entry.rule.when && !blocks.has(entry.rule.a)) {
+      blocks.set(entry.rule.a, entry);
+    }
+  }
+  for (const entry of parsed.rules) {
+    if (entry.rule.kind === "block") continue;
+    const tool = targetTool(entry.rule);
+    const block = blocks.get(tool);
+    if (block) {
+      warn(
+        entry,
+        entry.tokens,
+        "shadowed-rule",
+        `rule has no effect: '${tool}' is blocked on line ${block.src.line}`,
+      );
+    }
+  }
+
+  // Unknown tools — checked against the manifest when one is given,
+  // otherwise a tool used once that is one edit from a more common one
+  const virtualNames = new Set(parsed.maps.map(({ map }) => map.virtualName));
+  const counts = new Map<string, number>();
+  for (const { rule } of parsed.rules) {
+    for (const tool of ruleTools(rule)) counts.set(tool, (counts.get(tool) ?? 0) + 1);
+  }
+
+  for (const entry of parsed.rules) {
+    for (const tool of new Set(ruleTools(entry.rule))) {
+      if (virtualNames.has(tool)) continue;
+
+      if (knownTools) {
+        const base = tool.split(".")[0]!;
+        if (knownTools.includes(tool) || knownTools.includes(base)) continue;
+        warn(
+          entry,
+          tokenFor(entry.tokens, tool),
+          "unknown-tool",
+          `unknown tool '${tool}'`,
+          didYouMean(tool, [...knownTools, ...virtualNames], 1),
+        );
+        continue;
+      }
+
+      if (counts.get(tool) !== 1) continue;
+      const common = [...counts].filter(([, n]) => n > 1).map(([t]) => t);
+      const suggestion = didYouMean(tool, common, 1);
+      if (suggestion !== undefined) {
+        warn(
+          entry,
+          tokenFor(entry.tokens, tool),
+          "unknown-tool",
+          `'${tool}' is used only here`,
+          suggestion,
+        );
+      }
+    }
+  }
+
+  return warnings;
+}
+
+// ---------------------------------------------------------------------------
+// Includes
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a rules file, splicing in `include <path>` lines. Paths resolve
+ * relative to the including file; a file already included is skipped,
+ * and an include that leads back to a file on the current chain throws.
+ */
+async function readSource(path: string): Promise<SourceLine[]> {
+  const { readFile } = await import("node:fs/promises");
+  const { dirname, relative, resolve } = await import("node:path");
+
+  const root = resolve(path);
+  const label = (file: string) => relative(dirname(root), file);
+  const seen = new Set<string>([root]);
+
+  const expand = async (file: string, text: string, chain: string[]): Promise<SourceLine[]> => {
+    const out: SourceLine[] = [];
+    const rawLines = text.split("\n");
+
+    for (let i = 0; i < rawLines.length; i++) {
+      const src: SourceLine = {
+        text: rawLines[i]!,
+        line: i + 1,
+        file: file === root ? undefined : label(file),
+      };
+      const tokens = tokenize(stripComments(src.text));
+      if (tokens[0]?.text !== "include") {
+        out.push(src);
+        continue;
+      }
+
+      if (tokens.length !== 2) {
+        throw sourceError(
+          src,
+          tokens,
+          "invalid-include",
+          `'include <path>' expects 2 tokens, got ${tokens.length}`,
+        );
+      }
+      const path = tokens[1]!;
+      const target = resolve(dirname(file), path.text);
+      if (chain.includes(target)) {
+        const cycle = [...chain, target].map(label).join(" -> ");
+        throw sourceError(src, path, "invalid-include", `include cycle ${cycle}`);
+      }
+      if (seen.has(target)) continue;
+      seen.add(target);
+
+      const included = await readFile(target, "utf-8").catch(() => null);
+      if (included === null) {
+        throw sourceError(src, path, "invalid-include", `cannot read included file '${path.text}'`);
+      }
+      out.push(...(await expand(target, included, [...chain, target])));
+    }
+
+    return out;
+  };
+
+  return expand(root, await readFile(root, "utf-8"), [root]);
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -402,38 +1222,130 @@ function verifyNets(nets: SkillNet<string>[]): NetVerification[] {
 export type CompiledRules = {
   nets: SkillNet<string>[];
   verification: NetVerification[];
+  /** How the rules interact when composed — see `verifyComposition` */
+  composition: CompositionReport;
+  /**
+   * Registry of every net by name, with one entry in `groups` per
+   * `group <name> { ... }` block. Pass to `createGateManager` to toggle
+   * groups at runtime with `addNet`/`removeNet`.
+   */
+  config: ComposeConfig;
 };
 
-/** Compile rule strings into skill nets. Verifies each net automatically. */
-export function compile(rules: string | string[]): CompiledRules {
+function compileSource(lines: SourceLine[]): CompiledRules {
+  const parsed = parseSource(lines);
+  const { maps: sourceMaps, rules } = parsed;
+  const diagnostics = [...parsed.diagnostics, ...netNameClashes(parsed)];
+  if (diagnostics.length > 0) throw new RulesError(diagnostics);
+
+  const maps = sourceMaps.map(({ map }) => map);
+  const nets = rules.map(({ rule }) =>
+    buildToolMapper(
+      compileRule(rule),
+      maps,
+      rule.when ? { tool: targetTool(rule), condition: rule.when } : undefined,
+    ),
+  );
+  const verification = verifyNets(nets);
+  const composition = verifyComposition(nets);
+
+  if (!composition.ok) {
+    throw new Error(`Rule composition error:\n${formatCompositionReport(composition)}`);
+  }
+
+  const groups: Record<string, string[]> = {};
+  rules.forEach(({ group }, i) => {
+    if (group !== undefined) (groups[group] ??= []).push(nets[i]!.name);
+  });
+  const config: ComposeConfig = {
+    registry: Object.fromEntries(nets.map((net) => [net.name, net])),
+    groups,
+  };
+
+  return { nets, verification, composition, config };
+}
+
+function splitSource(rules: string | string[]): SourceLine[] {
   const lines =
     typeof rules === "string"
       ? rules.split("\n")
       : rules.flatMap((r) => r.split("\n"));
 
-  const maps: ToolMap[] = [];
-  const parsedRules: ParsedRule[] = [];
+  return lines.map((text, i) => ({ text, line: i + 1 }));
+}
 
-  for (let i = 0; i < lines.length; i++) {
-    const cleaned = stripComments(lines[i]!).trim();
-    if (cleaned === "") continue;
+export type ParseOptions = {
+  /**
+   * Tool manifest. When given, tools outside it (and outside `map`
+   * names) are reported as unknown, with the nearest known tool as
+   * the suggestion.
+   */
+  tools?: string[];
+  /**
+   * Accept `include <path>` lines without reading them — for editors
+   * that check one file at a time. Off by default, as in `compile`.
+   */
+  allowInclude?: boolean;
+};
 
-    const parsed = parseLine(cleaned, i + 1);
-    if (parsed.kind === "map") {
-      maps.push(parsed);
-    } else {
-      parsedRules.push(parsed);
-    }
-  }
+/** A successfully parsed rule or `map` line */
+export type RuleStatement = {
+  line: number;
+  kind: ParsedLine["kind"];
+  /** Tools the statement mentions — for `map`, the tool being mapped */
+  tools: string[];
+  /** Virtual tool name a `map` statement defines */
+  defines?: string;
+  /** Enclosing `group` block, if any */
+  group?: string;
+};
 
-  const nets = parsedRules.map((rule) => buildToolMapper(compileRule(rule), maps));
-  const verification = verifyNets(nets);
+export type ParseResult = {
+  /** Errors and warnings, ordered by line then column */
+  diagnostics: Diagnostic[];
+  /** Statements that parsed, in source order */
+  statements: RuleStatement[];
+};
 
-  return { nets, verification };
+/**
+ * Parse rules without compiling them, collecting every error rather than
+ * stopping at the first, plus warnings for duplicate rules, unused maps,
+ * rules shadowed by a `block`, and likely tool-name typos.
+ */
+export function parseRules(rules: string | string[], opts?: ParseOptions): ParseResult {
+  const parsed = parseSource(splitSource(rules), opts?.allowInclude);
+  const diagnostics = [...parsed.diagnostics, ...netNameClashes(parsed), ...lint(parsed, opts?.tools)];
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  const statements: RuleStatement[] = [
+    ...parsed.maps.map(({ map, src }) => ({
+      line: src.line,
+      kind: map.kind,
+      tools: [map.tool],
+      defines: map.virtualName,
+    })),
+    ...parsed.rules.map(({ rule, group, src }) => ({
+      line: src.line,
+      kind: rule.kind,
+      tools: ruleTools(rule),
+      ...(group !== undefined && { group }),
+    })),
+  ].sort((a, b) => a.line - b.line);
+
+  return { diagnostics, statements };
+}
+
+/**
+ * Compile rule strings into skill nets. Throws a `RulesError` listing
+ * every syntax error. Verifies each net automatically, then verifies the
+ * composition and throws if the rules contradict each other (a tool that
+ * can never fire) or a place is unbounded.
+ */
+export function compile(rules: string | string[]): CompiledRules {
+  return compileSource(splitSource(rules));
 }
 
-/** Read a .rules file and compile it. */
+/** Read a .rules file, resolve its `include` lines, and compile it. */
 export async function loadRules(path: string): Promise<CompiledRules> {
-  const { readFile } = await import("node:fs/promises");
-  return compile(await readFile(path, "utf-8"));
+  return compileSource(await readSource(path));
 }
@@ -0,0 +1,415 @@
+import { autoAdvance, getEnabledToolTransitions, rankTransitions } from "@petriflow/gate";
+import type { SkillNet } from "@petriflow/gate";
+import { fire } from "petri-ts";
+import type { Marking } from "petri-ts";
+import { splitConditionedTool } from "./conditions.js";
+
+// ---------------------------------------------------------------------------
+// Report types
+// ---------------------------------------------------------------------------
+
+/** A tool that each net allows on its own, but the composition never does. */
+export type DeadTool = {
+  tool: string;
+  /** Nets with jurisdiction over the tool */
+  nets: string[];
+};
+
+/** Two rules that, taken together, make a tool unreachable. */
+export type RuleConflict = {
+  tool: string;
+  nets: [string, string];
+};
+
+/** A place whose token count grows without bound. */
+export type UnboundedPlace = {
+  net: string;
+  place: string;
+};
+
+/** Nets that share at least one tool, explored as a single product. */
+export type CompositionComponent = {
+  nets: string[];
+  reachableStates: number;
+  /** True when exploration hit `maxStates` — dead-tool results are omitted */
+  truncated: boolean;
+};
+
+/**
+ * Several transitions of equal priority a tool call can fire in one
+ * reachable state, with no `resolveTransition` to choose — array order
+ * decides. A warning; it does not fail the report.
+ */
+export type AmbiguousMatch = {
+  net: string;
+  tool: string;
+  transitions: string[];
+};
+
+export type CompositionReport = {
+  ok: boolean;
+  components: CompositionComponent[];
+  deadTools: DeadTool[];
+  conflicts: RuleConflict[];
+  unboundedPlaces: UnboundedPlace[];
+  ambiguousMatches: AmbiguousMatch[];
+};
+
+export type CompositionOptions = {
+  /** Maximum product states explored per component (default 10000) */
+  maxStates?: number;
+};
+
+// ---------------------------------------------------------------------------
+// Tool resolution
+// ---------------------------------------------------------------------------
+
+const gatedCache = new WeakMap<SkillNet<string>, Set<string>>();
+
+/** Tool names that appear in at least one of the net's transitions. */
+function gatedTools(net: SkillNet<string>): Set<string> {
+  let tools = gatedCache.get(net);
+  if (!tools) {
+    tools = new Set(net.transitions.flatMap((t) => t.tools ?? []));
+    gatedCache.set(net, tools);
+  }
+  return tools;
+}
+
+/** Tool names a net has an opinion about (gated or free). */
+function mentionedTools(net: SkillNet<string>): string[] {
+  return [...net.freeTools, ...gatedTools(net)];
+}
+
+/**
+ * Resolve an alphabet symbol to the tool name a net would see.
+ *
+ * Symbols are resolved tool names (after `map`). A dotted symbol like
+ * `discord.sendMessage` is a `discord` call with an action — nets that
+ * never mention a `discord.*` action see it as plain `discord`.
+ */
+function resolveSymbol(net: SkillNet<string>, symbol: string): string {
+  const mentioned = mentionedTools(net);
+  if (mentioned.includes(symbol)) return symbol;
+
+  // A conditioned call is still a call to its base tool for other nets
+  const { tool, condition } = splitConditionedTool(symbol);
+  if (condition !== undefined) return resolveSymbol(net, tool);
+
+  const dotIdx = symbol.indexOf(".");
+  if (dotIdx === -1) return symbol;
+
+  const base = symbol.slice(0, dotIdx);
+  const hasDottedBase = mentioned.some((t) => t.startsWith(`${base}.`));
+  return hasDottedBase ? symbol : base;
+}
+
+// ---------------------------------------------------------------------------
+// Product-state exploration
+// ---------------------------------------------------------------------------
+
+type Exploration = {
+  reachableStates: number;
+  fired: Set<string>;
+  unbounded: UnboundedPlace[];
+  truncated: boolean;
+  ambiguous: AmbiguousMatch[];
+};
+
+function placeOrder(net: SkillNet<string>): string[] {
+  return [...new Set([...net.places, ...Object.keys(net.initialMarking)])];
+}
+
+/**
+ * Fire one tool call across every net. Returns every product state the
+ * call can lead to — none when any net with jurisdiction blocks it. A net
+ * with `resolveTransition` may fire any of its candidates.
+ * Deferred transitions are assumed to succeed and manual transitions to
+ * be approved — an over-approximation, so a tool reported dead really is
+ * dead.
+ */
+function step(
+  nets: SkillNet<string>[],
+  markings: Marking<string>[],
+  symbol: string,
+  onAmbiguous: (match: AmbiguousMatch) => void,
+): Marking<string>[][] {
+  let successors = [markings];
+  let touched = false;
+
+  for (let i = 0; i < nets.length; i++) {
+    const net = nets[i]!;
+    const resolved = resolveSymbol(net, symbol);
+    if (net.freeTools.includes(resolved)) continue;
+    if (!gatedTools(net).has(resolved)) continue;
+
+    const matching = getEnabledToolTransitions(net, markings[i]!).filter((t) =>
+      t.tools!.includes(resolved),
+    );
+    if (matching.length === 0) return [];
+
+    const ranked = rankTransitions(matching);
+    const top = ranked.filter((t) => (t.priority ?? 0) === (ranked[0]!.priority ?? 0));
+    if (top.length > 1 && !net.resolveTransition) {
+      onAmbiguous({ net: net.name, tool: resolved, transitions: top.map((t) => t.name) });
+    }
+
+    // A resolver may pick any candidate at run time; without one, the first fires
+    const chosen = net.resolveTransition ? ranked : [ranked[0]!];
+    const outcomes = chosen.map((t) => autoAdvance(net, fire(markings[i]!, t)));
+    successors = successors.flatMap((next) =>
+      outcomes.map((outcome) => {
+        const product = next.slice();
+        product[i] = outcome;
+        return product;
+      }),
+    );
+    touched = true;
+  }
+
+  return touched ? successors : [];
+}
+
+/**
+ * Time passing — each timed refill may return one token. Modelled as a
+ * nondeterministic move so windowed budgets are never treated as spent.
+ */
+function tick(
+  nets: SkillNet<string>[],
+  markings: Marking<string>[],
+): Marking<string>[][] {
+  const moves: Marking<string>[][] = [];
+  nets.forEach((net, i) => {
+    const m = markings[i]!;
+    for (const r of net.refills ?? []) {
+      if ((m[r.from] ?? 0) < 1) continue;
+      const refilled = { ...m, [r.from]: m[r.from]! - 1, [r.to]: (m[r.to] ?? 0) + 1 };
+      const next = markings.slice();
+      next[i] = autoAdvance(net, refilled);
+      moves.push(next);
+    }
+  });
+  return moves;
+}
+
+function explore(
+  nets: SkillNet<string>[],
+  maxStates: number,
+): Exploration {
+  const orders = nets.map(placeOrder);
+  const alphabet = [...new Set(nets.flatMap((n) => [...gatedTools(n)]))];
+
+  const vector = (markings: Marking<string>[]): number[] =>
+    markings.flatMap((m, i) => orders[i]!.map((p) => m[p] ?? 0));
+
+  const initial = nets.map((n) => autoAdvance(n, { ...n.initialMarking }));
+  const initialKey = vector(initial).join(",");
+
+  const parents = new Map<string, string | null>([[initialKey, null]]);
+  const vectors = new Map<string, number[]>([[initialKey, vector(initial)]]);
+  const queue: Array<{ key: string; markings: Marking<string>[] }> = [
+    { key: initialKey, markings: initial },
+  ];
+
+  const fired = new Set<string>();
+  const unbounded = new Map<string, UnboundedPlace>();
+  const ambiguous = new Map<string, AmbiguousMatch>();
+  const onAmbiguous = (match: AmbiguousMatch) => {
+    ambiguous.set(`${match.net}/${match.tool}/${match.transitions.join(",")}`, match);
+  };
+  let truncated = false;
+
+  while (queue.length > 0) {
+    const { key, markings } = queue.shift()!;
+
+    const successors: Marking<string>[][] = [];
+    for (const symbol of alphabet) {
+      const next = step(nets, markings, symbol, onAmbiguous);
+      if (next.length === 0) continue;
+      fired.add(symbol);
+      successors.push(...next);
+    }
+    successors.push(...tick(nets, markings));
+
+    for (const next of successors) {
+      const vec = vector(next);
+      const nextKey = vec.join(",");
+      if (parents.has(nextKey)) continue;
+
+      // Coverability check — a successor that strictly covers one of its
+      // ancestors can repeat the same firing sequence forever.
+      const grown = coveredAncestorGrowth(vec, key, parents, vectors);
+      if (grown) {
+        for (const idx of grown) {
+          const place = flatPlace(nets, orders, idx);
+          unbounded.set(`${place.net}/${place.place}`, place);
+        }
+        continue;
+      }
+
+      if (parents.size >= maxStates) {
+        truncated = true;
+        continue;
+      }
+
+      parents.set(nextKey, key);
+      vectors.set(nextKey, vec);
+      queue.push({ key: nextKey, markings: next });
+    }
+  }
+
+  return {
+    reachableStates: parents.size,
+    fired,
+    unbounded: [...unbounded.values()],
+    truncated,
+    ambiguous: [...ambiguous.values()],
+  };
+}
+
+/** Return the indices that grew if `vec` strictly covers an ancestor of `from`. */
+function coveredAncestorGrowth(
+  vec: number[],
+  from: string,
+  parents: Map<string, string | null>,
+  vectors: Map<string, number[]>,
+): number[] | null {
+  let cursor: string | null = from;
+  while (cursor !== null) {
+    const ancestor = vectors.get(cursor)!;
+    if (vec.every((v, i) => v >= ancestor[i]!)) {
+      const grown = vec.flatMap((v, i) => (v > ancestor[i]! ? [i] : []));
+      if (grown.length > 0) return grown;
+    }
+    cursor = parents.get(cursor) ?? null;
+  }
+  return null;
+}
+
+function flatPlace(
+  nets: SkillNet<string>[],
+  orders: string[][],
+  idx: number,
+): UnboundedPlace {
+  let offset = idx;
+  for (let i = 0; i < nets.length; i++) {
+    const order = orders[i]!;
+    if (offset < order.length) return { net: nets[i]!.name, place: order[offset]! };
+    offset -= order.length;
+  }
+  throw new Error(`place index ${idx} out of range`);
+}
+
+// ---------------------------------------------------------------------------
+// Components — nets that never share a tool cannot interfere
+// ---------------------------------------------------------------------------
+
+function components(nets: SkillNet<string>[]): SkillNet<string>[][] {
+  const parent = nets.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]!]!;
+    return i;
+  };
+
+  const alphabet = [...new Set(nets.flatMap((n) => [...gatedTools(n)]))];
+  for (const symbol of alphabet) {
+    const touching = nets.flatMap((net, i) =>
+      gatedTools(net).has(resolveSymbol(net, symbol)) ? [i] : [],
+    );
+    for (const i of touching.slice(1)) {
+      parent[find(i)] = find(touching[0]!);
+    }
+  }
+
+  const groups = new Map<number, SkillNet<string>[]>();
+  nets.forEach((net, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), net]);
+  });
+  return [...groups.values()];
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Explore the product state space of a set of nets and report how they
+ * interact: tools no reachable composed state allows, the rule pairs
+ * responsible, and places that grow without bound.
+ *
+ * Tools are modelled as resolved tool names. `validateToolCall` and
+ * custom `toolMapper` logic are not consulted.
+ */
+export function verifyComposition(
+  nets: SkillNet<string>[],
+  opts?: CompositionOptions,
+): CompositionReport {
+  const maxStates = opts?.maxStates ?? 10_000;
+
+  // Liveness of each net on its own — intentional blocks are not conflicts
+  const alone = new Map(nets.map((net) => [net, explore([net], maxStates)]));
+  const aloneFired = new Map(nets.map((net) => [net, alone.get(net)!.fired]));
+
+  const report: CompositionReport = {
+    ok: true,
+    components: [],
+    deadTools: [],
+    conflicts: [],
+    unboundedPlaces: [],
+    ambiguousMatches: nets.flatMap((net) => alone.get(net)!.ambiguous),
+  };
+
+  for (const group of components(nets)) {
+    const result = explore(group, maxStates);
+    report.components.push({
+      nets: group.map((n) => n.name),
+      reachableStates: result.reachableStates,
+      truncated: result.truncated,
+    });
+    report.unboundedPlaces.push(...result.unbounded);
+    if (result.truncated || group.length < 2) continue;
+
+    const alphabet = [...new Set(group.flatMap((n) => [...gatedTools(n)]))];
+    for (const tool of alphabet) {
+      if (result.fired.has(tool)) continue;
+
+      const jurisdiction = group.filter((n) => gatedTools(n).has(resolveSymbol(n, tool)));
+      const aliveAlone = jurisdiction.every((n) => aloneFired.get(n)!.has(tool));
+      if (!aliveAlone) continue;
+
+      report.deadTools.push({ tool, nets: jurisdiction.map((n) => n.name) });
+
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          const a = group[i]!;
+          const b = group[j]!;
+          if (!jurisdiction.includes(a) && !jurisdiction.includes(b)) continue;
+          const pair = explore([a, b], maxStates);
+          if (!pair.truncated && !pair.fired.has(tool)) {
+            report.conflicts.push({ tool, nets: [a.name, b.name] });
+          }
+        }
+      }
+    }
+  }
+
+  report.ok = report.deadTools.length === 0 && report.unboundedPlaces.length === 0;
+  return report;
+}
+
+/** Render a failing report as a human-readable error message. */
+export function formatCompositionReport(report: CompositionReport): string {
+  const lines: string[] = [];
+  for (const dead of report.deadTools) {
+    const pairs = report.conflicts
+      .filter((c) => c.tool === dead.tool)
+      .map((c) => `${c.nets[0]} + ${c.nets[1]}`);
+    const cause = pairs.length > 0 ? pairs.join(", ") : dead.nets.join(", ");
+    lines.push(`${dead.tool} can never fire (${cause})`);
+  }
+  for (const u of report.unboundedPlaces) {
+    lines.push(`place '${u.place}' in ${u.net} is unbounded`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,169 @@
+import { didYouMean, fail } from "./diagnostics.js";
+import type { Token } from "./diagnostics.js";
+
+// ---------------------------------------------------------------------------
+// Patterns
+// ---------------------------------------------------------------------------
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Parse a pattern token into a RegExp.
+ * - /pattern/ → raw regex (escape hatch)
+ * - bareWord  → word-boundary keyword match (\bbareWord\b)
+ */
+export function parsePattern(token: Token, lineNum: number): RegExp {
+  const text = token.text;
+  if (text.startsWith("/") && text.endsWith("/") && text.length > 1) {
+    const body = text.slice(1, -1);
+    if (body === "") {
+      fail(lineNum, token, "invalid-pattern", "empty regex pattern");
+    }
+    try {
+      return new RegExp(body);
+    } catch (err) {
+      return fail(lineNum, token, "invalid-pattern", (err as Error).message);
+    }
+  }
+
+  // Bare word → automatic word-boundary match
+  return new RegExp(`\\b${escapeRegex(text)}\\b`);
+}
+
+/** Inverse of `parsePattern`: a bare word where one compiles to `re`, else `/re/`. */
+export function formatPattern(re: RegExp): string {
+  const word = /^\\b(.+)\\b$/.exec(re.source)?.[1];
+  if (word !== undefined) {
+    const text = word.replace(/\\(.)/g, "$1");
+    if (escapeRegex(text) === word && !/[\s#/]/.test(text)) return text;
+  }
+  return `/${re.source}/`;
+}
+
+// ---------------------------------------------------------------------------
+// Conditions — `when <field> matches <pattern> [and|or ...]`
+// ---------------------------------------------------------------------------
+
+/** A compiled input predicate attached to a rule */
+export type Condition = {
+  /** Canonical source text, e.g. "command matches /sudo/" */
+  text: string;
+  test: (input: Record<string, unknown>) => boolean;
+};
+
+const MATCH_OPS = new Set(["matches", "~"]);
+const NEGATED_OPS = new Set(["!~"]);
+
+/** Read a dotted field path (`["repo", "name"]`) from a tool input */
+export function readField(input: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = input;
+  for (const key of path) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function parseClause(tokens: Token[], lineNum: number): Condition {
+  if (tokens.length !== 3) {
+    fail(
+      lineNum,
+      tokens,
+      "invalid-condition",
+      `condition '<field> matches <pattern>' expects 3 tokens, got ${tokens.length}`,
+    );
+  }
+  const [field, op, patternToken] = tokens as [Token, Token, Token];
+  if (!MATCH_OPS.has(op.text) && !NEGATED_OPS.has(op.text)) {
+    fail(
+      lineNum,
+      op,
+      "invalid-condition",
+      `unknown condition operator '${op.text}'. Expected 'matches', '~', or '!~'`,
+      didYouMean(op.text, ["matches"]),
+    );
+  }
+
+  const path = field.text.split(".");
+  if (path.some((p) => p === "")) {
+    fail(lineNum, field, "invalid-condition", `invalid condition field '${field.text}'`);
+  }
+
+  const pattern = parsePattern(patternToken, lineNum);
+  const negated = NEGATED_OPS.has(op.text);
+
+  return {
+    text: tokens.map((t) => t.text).join(" "),
+    test: (input) => {
+      const value = readField(input, path);
+      // A missing or non-string field never matches, so `!~` holds
+      const matched = typeof value === "string" && pattern.test(value);
+      return negated ? !matched : matched;
+    },
+  };
+}
+
+/** Split tokens on a connective keyword, rejecting empty operands. */
+function splitOn(tokens: Token[], keyword: string, lineNum: number): Token[][] {
+  const parts: Token[][] = [[]];
+  const connectives: Token[] = [];
+  for (const token of tokens) {
+    if (token.text === keyword) {
+      parts.push([]);
+      connectives.push(token);
+    } else {
+      parts[parts.length - 1]!.push(token);
+    }
+  }
+  const empty = parts.findIndex((p) => p.length === 0);
+  if (empty !== -1) {
+    fail(
+      lineNum,
+      connectives[Math.min(empty, connectives.length - 1)]!,
+      "invalid-condition",
+      `'${keyword}' needs a condition on both sides`,
+    );
+  }
+  return parts;
+}
+
+/**
+ * Parse the tokens after `when` into a condition.
+ * `and` binds tighter than `or`: `a ~ x or b ~ y and c ~ z` is `a or (b and c)`.
+ */
+export function parseCondition(tokens: Token[], lineNum: number, when: Token): Condition {
+  if (tokens.length === 0) {
+    fail(lineNum, when, "invalid-condition", "'when' must be followed by a condition");
+  }
+
+  const alternatives = splitOn(tokens, "or", lineNum).map((group) =>
+    splitOn(group, "and", lineNum).map((clause) => parseClause(clause, lineNum)),
+  );
+
+  return {
+    text: tokens.map((t) => t.text).join(" "),
+    test: (input) => alternatives.some((all) => all.every((c) => c.test(input))),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Conditioned tool names
+// ---------------------------------------------------------------------------
+
+/**
+ * Virtual tool name a conditioned rule gates: `bash[command matches /sudo/]`.
+ * The tool mapper resolves a call to this name only when the condition holds,
+ * so non-matching calls see a net with no jurisdiction and pass through.
+ */
+export function conditionedToolName(tool: string, condition: Condition): string {
+  return `${tool}[${condition.text}]`;
+}
+
+/** Split a conditioned tool name back into its base tool and condition text. */
+export function splitConditionedTool(name: string): { tool: string; condition?: string } {
+  const open = name.indexOf("[");
+  if (open <= 0 || !name.endsWith("]")) return { tool: name };
+  return { tool: name.slice(0, open), condition: name.slice(open + 1, -1) };
+}
@@ -0,0 +1,303 @@
+import type { ComposeConfig, GatedTransition, RuleMetadata, SkillNet } from "@petriflow/gate";
+import { formatWindow, toolMapsOf } from "./compiler.js";
+import { formatPattern, splitConditionedTool } from "./conditions.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A net, or part of one, that has no `.rules` equivalent */
+export type UnrecognizedNet = {
+  net: string;
+  reason: string;
+};
+
+export type DecompileResult = {
+  /** Canonical `.rules` text: `map` lines, then rules, then `group` blocks */
+  text: string;
+  /** Nets left out of `text`, and parts of nets it cannot express */
+  unrecognized: UnrecognizedNet[];
+};
+
+// ---------------------------------------------------------------------------
+// Rules from metadata
+// ---------------------------------------------------------------------------
+
+function withWhen(rule: string, when: string | undefined): string {
+  return when === undefined ? rule : `${rule} when ${when}`;
+}
+
+/** `cost <expr> [max <M>]` for a limit charged by cost, else "" */
+function costClause(meta: Extract<RuleMetadata, { kind: "limit" }>, net: SkillNet<string>): string {
+  if (meta.cost === undefined) return "";
+  const max = net.transitions.find((t) => t.cost)?.cost?.max;
+  return max === undefined || max === meta.limit ? ` cost ${meta.cost}` : ` cost ${meta.cost} max ${max}`;
+}
+
+/** The rule a net's metadata describes — null if its `within` window has no DSL form */
+function fromMetadata(meta: RuleMetadata, net: SkillNet<string>): string | null {
+  switch (meta.kind) {
+    case "sequence": {
+      const matching = meta.matching ? ` matching ${meta.matching}` : "";
+      const window = meta.withinMs === undefined ? "" : formatWindow(meta.withinMs);
+      if (window === null) return null;
+      const within = window === "" ? "" : ` within ${window}`;
+      return withWhen(
+        `require ${meta.prerequisite} before ${meta.dependent}${matching}${within}`,
+        meta.when,
+      );
+    }
+    case "approval":
+      return withWhen(`require human-approval before ${meta.tool}`, meta.when);
+    case "block":
+      return withWhen(`block ${meta.tool}`, meta.when);
+    case "limit":
+      return withWhen(
+        `limit ${meta.tool} to ${meta.limit}${meta.unit ? ` ${meta.unit}` : ""} per ${meta.scope}${costClause(meta, net)}`,
+        meta.when,
+      );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rules from structure — the shapes `compile` generates, up to place names
+// ---------------------------------------------------------------------------
+
+type Transition = GatedTransition<string>;
+
+function sameSet(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((x) => b.includes(x));
+}
+
+/** Names of the transitions and refills that put tokens on `place` */
+function producers(net: SkillNet<string>, place: string): string[] {
+  return [
+    ...net.transitions.filter((t) => t.outputs.includes(place)).map((t) => t.name),
+    ...(net.refills ?? []).filter((r) => r.to === place).map((r) => r.transition),
+  ];
+}
+
+/** A rule ending in its target tool (then `suffix`), with the tool's condition as `when` */
+function targetRule(prefix: string, toolName: string, suffix = ""): string {
+  const { tool, condition } = splitConditionedTool(toolName);
+  return withWhen(`${prefix}${tool}${suffix}`, condition);
+}
+
+function limitRule(toolName: string, n: number, scope: string): string {
+  const { tool, condition } = splitConditionedTool(toolName);
+  return withWhen(`limit ${tool} to ${n} per ${scope}`, condition);
+}
+
+/** A tool the DSL cannot condition — returns null for conditioned names */
+function plainTool(toolName: string): string | null {
+  return splitConditionedTool(toolName).condition === undefined ? toolName : null;
+}
+
+function singleTool(t: Transition): string | null {
+  return t.tools?.length === 1 ? t.tools[0]! : null;
+}
+
+/**
+ * Whether `ready` holds a token from the start: initially marked, or
+ * filled by untooled start transitions from places nothing refills.
+ */
+function startsIn(net: SkillNet<string>, ready: string, untooled: Transition[]): boolean {
+  const starts = untooled.every(
+    (t) =>
+      t.type === "auto" &&
+      t.inputs.length === 1 &&
+      producers(net, t.inputs[0]!).length === 0 &&
+      sameSet(t.outputs, [ready]),
+  );
+  return starts && ((net.initialMarking[ready] ?? 0) > 0 || untooled.length > 0);
+}
+
+function matchBlock(net: SkillNet<string>, gated: Transition[]): string[] | null {
+  const [t] = gated;
+  if (gated.length !== 1) return null;
+  // A tool transition waiting on a place that can never be marked
+  const dead = t!.inputs.some(
+    (p) => (net.initialMarking[p] ?? 0) === 0 && producers(net, p).every((n) => n === t!.name),
+  );
+  return dead ? t!.tools!.map((name) => targetRule("block ", name)) : null;
+}
+
+function matchApproval(
+  net: SkillNet<string>,
+  gated: Transition[],
+  untooled: Transition[],
+): string[] | null {
+  const [t] = gated;
+  if (gated.length !== 1 || t!.type !== "manual" || t!.inputs.length !== 1) return null;
+  if (!sameSet(t!.inputs, t!.outputs) || !startsIn(net, t!.inputs[0]!, untooled)) return null;
+  return t!.tools!.map((name) => targetRule("require human-approval before ", name));
+}
+
+function matchSequence(
+  net: SkillNet<string>,
+  gated: Transition[],
+  untooled: Transition[],
+): string[] | null {
+  const first = gated.find((t) => t.deferred);
+  const then = gated.find((t) => !t.deferred);
+  if (gated.length !== 2 || !first || !then) return null;
+  if (first.type !== "auto" || then.type !== "auto") return null;
+
+  const a = plainTool(singleTool(first) ?? "");
+  const b = singleTool(then);
+  if (!a || !b) return null;
+  if (first.inputs.length !== 1 || first.outputs.length !== 1) return null;
+
+  const [ready] = first.inputs;
+  const [gate] = first.outputs;
+  const shaped =
+    ready !== gate &&
+    sameSet(then.inputs, [gate!]) &&
+    sameSet(then.outputs, [ready!]) &&
+    (net.initialMarking[gate!] ?? 0) === 0 &&
+    sameSet(producers(net, gate!), [first.name]) &&
+    startsIn(net, ready!, untooled);
+  if (!shaped) return null;
+
+  if (first.deferredTimeoutMs === undefined) return [targetRule(`require ${a} before `, b)];
+  const window = formatWindow(first.deferredTimeoutMs);
+  return window === null ? null : [targetRule(`require ${a} before `, b, ` within ${window}`)];
+}
+
+function matchLimit(
+  net: SkillNet<string>,
+  gated: Transition[],
+  untooled: Transition[],
+): string[] | null {
+  const refills = net.refills ?? [];
+
+  for (const t of gated) {
+    const tool = singleTool(t);
+    if (!tool || t.type !== "auto" || t.deferred || t.inputs.length !== 2) continue;
+
+    const ready = t.inputs.find((p) => t.outputs.includes(p));
+    const budget = t.inputs.find((p) => p !== ready);
+    if (!ready || !budget || !startsIn(net, ready, untooled)) continue;
+    const n = net.initialMarking[budget] ?? 0;
+    if (n <= 0) continue;
+
+    // limit <tool> to N per session
+    if (gated.length === 1 && sameSet(t.outputs, [ready]) && refills.length === 0) {
+      return producers(net, budget).length === 0 ? [limitRule(tool, n, "session")] : null;
+    }
+
+    const spent = t.outputs.find((p) => p !== ready);
+    if (!spent || t.outputs.length !== 2 || spent === budget) continue;
+    if ((net.initialMarking[spent] ?? 0) !== 0 || !sameSet(producers(net, spent), [t.name])) continue;
+
+    // limit <tool> to N per <window>
+    const [refill] = refills;
+    if (gated.length === 1 && refills.length === 1) {
+      const window = formatWindow(refill!.windowMs);
+      const shaped =
+        refill!.transition === t.name &&
+        refill!.from === spent &&
+        refill!.to === budget &&
+        sameSet(producers(net, budget), [t.name]);
+      return shaped && window ? [limitRule(tool, n, window)] : null;
+    }
+
+    // limit <tool> to N per <action>
+    const u = gated.find((other) => other !== t);
+    const action = u && plainTool(singleTool(u) ?? "");
+    if (gated.length === 2 && refills.length === 0 && u && action) {
+      const shaped =
+        u.type === "auto" &&
+        !u.deferred &&
+        sameSet(u.inputs, [ready, spent]) &&
+        sameSet(u.outputs, [ready, budget]) &&
+        sameSet(producers(net, budget), [u.name]);
+      if (shaped) return [limitRule(tool, n, action)];
+    }
+  }
+  return null;
+}
+
+function fromStructure(net: SkillNet<string>): string[] | null {
+  const gated = net.transitions.filter((t) => (t.tools?.length ?? 0) > 0);
+  const untooled = net.transitions.filter((t) => (t.tools?.length ?? 0) === 0);
+  return (
+    matchBlock(net, gated) ??
+    matchApproval(net, gated, untooled) ??
+    matchSequence(net, gated, untooled) ??
+    matchLimit(net, gated, untooled)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn skill nets back into `.rules` text. Nets with `ruleMetadata` are
+ * printed from it; others are matched against the sequence, approval,
+ * block and limit shapes `compile` generates. `map` lines are regenerated
+ * from toolMappers built by `compile`. Given a `ComposeConfig`, its
+ * groups become `group` blocks.
+ */
+export function decompile(nets: SkillNet<string>[] | ComposeConfig): DecompileResult {
+  const entries: [string, SkillNet<string>][] = Array.isArray(nets)
+    ? nets.map((net) => [net.name, net])
+    : Object.entries(nets.registry);
+  const groups = Array.isArray(nets) ? {} : (nets.groups ?? {});
+
+  const unrecognized: UnrecognizedNet[] = [];
+  const report = (net: string, reason: string) => unrecognized.push({ net, reason });
+
+  const mapLines = new Set<string>();
+  const rulesByNet = new Map<string, string[]>();
+
+  for (const [name, net] of entries) {
+    const printed = net.ruleMetadata && fromMetadata(net.ruleMetadata, net);
+    const rules = net.ruleMetadata ? printed && [printed] : fromStructure(net);
+    if (!rules) {
+      report(name, "not a sequence, approval, block or limit shape");
+      continue;
+    }
+    rulesByNet.set(name, rules);
+
+    const maps = toolMapsOf(net);
+    if (maps === undefined) {
+      report(name, "toolMapper was not built by compile and has no map lines");
+    } else {
+      for (const m of maps) {
+        mapLines.add(`map ${m.tool}.${m.field} ${formatPattern(m.pattern)} as ${m.virtualName}`);
+      }
+    }
+    if (net.freeTools.length > 0) {
+      report(name, `free tools (${net.freeTools.join(", ")}) have no rules equivalent`);
+    }
+    // `matching` sequences carry the hooks that pair their calls
+    const keyed = net.ruleMetadata?.kind === "sequence" && net.ruleMetadata.matching;
+    if (!keyed && (net.validateToolCall || net.onDeferredResult)) {
+      report(name, "validateToolCall and onDeferredResult hooks have no rules equivalent");
+    }
+  }
+
+  // A rule sits in at most one group; later memberships are reported
+  const groupOf = new Map<string, string>();
+  for (const [group, members] of Object.entries(groups)) {
+    for (const name of members) {
+      const first = groupOf.get(name);
+      if (first === undefined) groupOf.set(name, group);
+      else if (rulesByNet.has(name)) report(name, `also in group '${group}' — kept in '${first}' only`);
+    }
+  }
+
+  const ungrouped = [...rulesByNet].filter(([name]) => !groupOf.has(name)).flatMap(([, r]) => r);
+  const blocks = Object.keys(groups).map((group) => {
+    const rules = [...rulesByNet]
+      .filter(([name]) => groupOf.get(name) === group)
+      .flatMap(([, r]) => r);
+    return rules.length === 0 ? [] : [`group ${group} {`, ...rules.map((r) => `  ${r}`), "}"];
+  });
+
+  const sections = [[...mapLines], ungrouped, ...blocks].filter((s) => s.length > 0);
+  const text = sections.map((s) => s.join("\n")).join("\n\n");
+  return { text: text === "" ? "" : `${text}\n`, unrecognized };
+}
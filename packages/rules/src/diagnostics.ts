@@ -0,0 +1,148 @@
+// ---------------------------------------------------------------------------
+// Diagnostics — structured parser errors and lint warnings
+// ---------------------------------------------------------------------------
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticCode =
+  | "unknown-keyword"
+  | "syntax"
+  | "invalid-count"
+  | "invalid-window"
+  | "invalid-cost"
+  | "invalid-pattern"
+  | "invalid-condition"
+  | "invalid-group"
+  | "invalid-include"
+  | "unknown-tool"
+  | "duplicate-rule"
+  | "duplicate-net"
+  | "unused-map"
+  | "shadowed-rule";
+
+/**
+ * One problem in a rules source. `line` and both columns are 1-based;
+ * `endColumn` is one past the last character, so the range is
+ * `[column, endColumn)`.
+ */
+export type Diagnostic = {
+  line: number;
+  column: number;
+  endColumn: number;
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  /** Replacement text for the range, e.g. `require` for `requre` */
+  suggestion?: string;
+  /** Included file the line came from (see `loadRules`) */
+  file?: string;
+};
+
+/** `Line 3: expected 'before' at position 3, got 'befor'. Did you mean 'before'?` */
+export function formatDiagnostic(d: Diagnostic): string {
+  const hint = d.suggestion !== undefined ? `. Did you mean '${d.suggestion}'?` : "";
+  const at = `Line ${d.line}: ${d.message}${hint}`;
+  return d.file !== undefined ? `${d.file}: ${at}` : at;
+}
+
+/**
+ * Thrown by `compile` and `loadRules` with every error diagnostic in the
+ * source. A single error keeps the familiar `Line N: ...` message.
+ */
+export class RulesError extends Error {
+  readonly diagnostics: Diagnostic[];
+
+  constructor(diagnostics: Diagnostic[]) {
+    super(
+      diagnostics.length === 1
+        ? formatDiagnostic(diagnostics[0]!)
+        : `${diagnostics.length} errors in rules:\n${diagnostics.map(formatDiagnostic).join("\n")}`,
+    );
+    this.name = "RulesError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tokens
+// ---------------------------------------------------------------------------
+
+/** A whitespace-separated word with its 1-based `[column, endColumn)` range */
+export type Token = { text: string; column: number; endColumn: number };
+
+export function tokenize(line: string): Token[] {
+  return [...line.matchAll(/\S+/g)].map((m) => ({
+    text: m[0],
+    column: m.index + 1,
+    endColumn: m.index + 1 + m[0].length,
+  }));
+}
+
+/** Build a diagnostic spanning `range` — one token, or the first through the last of several. */
+export function diagnostic(
+  line: number,
+  range: Token | Token[],
+  code: DiagnosticCode,
+  message: string,
+  opts: { severity?: DiagnosticSeverity; suggestion?: string; file?: string } = {},
+): Diagnostic {
+  const tokens = Array.isArray(range) ? range : [range];
+  return {
+    line,
+    column: tokens[0]?.column ?? 1,
+    endColumn: tokens[tokens.length - 1]?.endColumn ?? 1,
+    severity: opts.severity ?? "error",
+    code,
+    message,
+    ...(opts.suggestion !== undefined && { suggestion: opts.suggestion }),
+    ...(opts.file !== undefined && { file: opts.file }),
+  };
+}
+
+/** Throw a single error diagnostic as a `RulesError`. */
+export function fail(
+  line: number,
+  range: Token | Token[],
+  code: DiagnosticCode,
+  message: string,
+  suggestion?: string,
+): never {
+  throw new RulesError([diagnostic(line, range, code, message, { suggestion })]);
+}
+
+// ---------------------------------------------------------------------------
+// Suggestions
+// ---------------------------------------------------------------------------
+
+/** Levenshtein edit distance */
+export function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + cost);
+    }
+    prev = row;
+  }
+  return prev[b.length]!;
+}
+
+/** The closest candidate within `maxDistance` edits, if any (ties go to the first). */
+export function didYouMean(
+  word: string,
+  candidates: Iterable<string>,
+  maxDistance = 2,
+): string | undefined {
+  let best: string | undefined;
+  let bestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    if (candidate === word) continue;
+    const d = editDistance(word, candidate);
+    if (d < bestDistance && d < word.length) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
@@ -1,5 +1,25 @@
-export { compile, loadRules } from "./compiler.js";
-export type { CompiledRules, NetVerification } from "./compiler.js";
+export { compile, loadRules, parseRules } from "./compiler.js";
+export type {
+  CompiledRules,
+  NetVerification,
+  ParseOptions,
+  ParseResult,
+  RuleStatement,
+} from "./compiler.js";
+export { decompile } from "./decompile.js";
+export type { DecompileResult, UnrecognizedNet } from "./decompile.js";
+export { RulesError, formatDiagnostic } from "./diagnostics.js";
+export type { Diagnostic, DiagnosticCode, DiagnosticSeverity } from "./diagnostics.js";
+export { verifyComposition } from "./composition.js";
+export type {
+  AmbiguousMatch,
+  CompositionReport,
+  CompositionComponent,
+  CompositionOptions,
+  DeadTool,
+  RuleConflict,
+  UnboundedPlace,
+} from "./composition.js";
 
 export { defineSkillNet, createGateManager } from "@petriflow/gate";
 export type { SkillNet, GateManagerOptions } from "@petriflow/gate";
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "bun:test";
 import { extractReplayEntries } from "../replay.js";
-import { createPetriflowGate, ToolCallBlockedError } from "../index.js";
+import { createPetriflowGate, diffSimulation, ToolCallBlockedError } from "../index.js";
 import { defineSkillNet } from "@petriflow/gate";
 
 describe("extractReplayEntries", () => {
@@ -411,3 +411,38 @@ describe("isToolResultError (gate-level)", () => {
     expect(state.state.marking.tested).toBe(0);
   });
 });
+
+describe("extractReplayEntries as a simulation trace", () => {
+  it("replays a message history against candidate rules", async () => {
+    const net = defineSkillNet({
+      name: "test-before-deploy",
+      places: ["ready", "tested"],
+      initialMarking: { ready: 1, tested: 0 },
+      transitions: [
+        { name: "run-test", type: "auto", inputs: ["ready"], outputs: ["tested"], tools: ["test"], deferred: true },
+        { name: "run-deploy", type: "auto", inputs: ["tested"], outputs: ["ready"], tools: ["deploy"] },
+      ],
+      freeTools: [],
+      terminalPlaces: [],
+    });
+    const messages = [
+      {
+        role: "assistant",
+        content: [
+          { type: "tool-call", toolCallId: "c1", toolName: "test", input: {} },
+          { type: "tool-call", toolCallId: "c2", toolName: "deploy", input: {} },
+        ],
+      },
+      {
+        role: "tool",
+        content: [
+          { type: "tool-result", toolCallId: "c1", toolName: "test", output: { type: "error-text", value: "1 failed" } },
+          { type: "tool-result", toolCallId: "c2", toolName: "deploy", output: { type: "text", value: "ok" } },
+        ],
+      },
+    ];
+
+    const { newlyBlocked } = await diffSimulation([], [net], extractReplayEntries(messages));
+    expect(newlyBlocked.map((c) => c.toolName)).toEqual(["deploy"]);
+  });
+});
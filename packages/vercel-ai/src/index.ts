@@ -7,7 +7,7 @@ import { extractReplayEntries } from "./replay.js";
 type GateOptions = Omit<GateManagerOptions, "mode"> & {
   mode?: GateManagerOptions["mode"];
   /** Called for manual transitions. If not provided, manual transitions are blocked. */
-  confirm?: (title: string, message: string) => Promise<boolean>;
+  confirm?: GateContext["confirm"];
   /** Transform block reasons before they reach the model. Receives the default constraint message. */
   transformBlockReason?: (toolName: string, reason: string) => string;
   /**
@@ -41,6 +41,9 @@ export function createPetriflowGate(
   const managerOpts: GateManagerOptions = {
     mode: opts.mode ?? "enforce",
     onDecision: opts.onDecision,
+    audit: opts.audit,
+    approvals: opts.approvals,
+    events: opts.events,
   };
 
   const ctx: GateContext = {
@@ -89,7 +92,11 @@ export type PetriflowGate = {
 
 // Re-export gate types for convenience
 export type { SkillNet, ComposeConfig, GateManager, GateManagerOptions, ReplayEntry, RuleMetadata } from "@petriflow/gate";
-export { defineSkillNet, createGateManager } from "@petriflow/gate";
+export { defineSkillNet, createGateManager, simulate, diffSimulation } from "@petriflow/gate";
+
+// Read message histories as traces for replay and simulation
+export { extractReplayEntries } from "./replay.js";
+export type { ExtractReplayOptions } from "./replay.js";
 
 // Re-export errors
 export { ToolCallBlockedError } from "./errors.js";
@@ -18,7 +18,8 @@ type Tool = {
  * - Tools without `execute` (schema-only) pass through unchanged
  *
  * Note: tool execution is not wrapped with a timeout. If `execute` hangs,
- * `handleToolResult` is never called and the net state will stall.
+ * `handleToolResult` is never called; set `deferredTimeoutMs` on deferred
+ * transitions so the manager's sweep expires the pending call.
  */
 type WrapToolsOpts = {
   transformBlockReason?: (toolName: string, reason: string) => string;